@@ -0,0 +1,285 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { env, createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import worker from './index';
+import { createAuth, migrateAuthDb } from './auth';
+import { NO_OWNER, type SubmissionOwner } from './outbound-webhooks';
+import { GLOBAL_TENANT, registerSubmission, tenantState } from './tenants';
+import type { Env } from './types';
+import { ADMIN_REVIEWER, type SubmissionRecord, type WebhookState } from './webhook-state';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const testEnv = env as unknown as Env;
+
+function ns(): DurableObjectNamespace<WebhookState> {
+  const binding = testEnv.WEBHOOK_STATE;
+  if (!binding) throw new Error('WEBHOOK_STATE binding missing');
+  return binding;
+}
+
+/** Where `reviewSubmission` is exercised directly: an organization, whose members review each other. */
+function orgStub() {
+  return tenantState(ns(), 'org:org-approvals');
+}
+
+/** The tenant dev-mode HTTP calls use. */
+function stub() {
+  return tenantState(ns(), GLOBAL_TENANT);
+}
+
+function owner(userId: string, apiKeyId: string): SubmissionOwner {
+  return { userId, apiKeyId, organizationId: 'org-approvals' };
+}
+
+const PREPARER = owner('user-prep', 'key-prep-1');
+const REVIEWER = owner('user-rev', 'key-rev');
+
+async function post(path: string, body?: unknown) {
+  const ctx = createExecutionContext();
+  const res = await worker.fetch(
+    new Request(`http://localhost${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      ...(body === undefined ? {} : { body: JSON.stringify(body) }),
+    }),
+    testEnv,
+    ctx,
+  );
+  await waitOnExecutionContext(ctx);
+  return res;
+}
+
+// ---------------------------------------------------------------------------
+// reviewSubmission() (WebhookState)
+// ---------------------------------------------------------------------------
+describe('reviewSubmission', () => {
+  it('starts PENDING with the preparer recorded', async () => {
+    await orgStub().trackSubmission('review-new', 'FORM1099NEC', PREPARER);
+    expect(await orgStub().getSubmission('review-new')).toMatchObject({
+      preparedBy: 'user:user-prep',
+      approvalStatus: 'PENDING',
+      reviewedBy: null,
+    });
+  });
+
+  it('refuses the preparer, even with another of their keys', async () => {
+    await orgStub().trackSubmission('review-self', 'FORM1099NEC', PREPARER);
+    const outcome = await orgStub().reviewSubmission(
+      'review-self',
+      'APPROVED',
+      owner('user-prep', 'key-prep-2'),
+    );
+    expect(outcome).toEqual({ ok: false, reason: 'SELF_REVIEW' });
+    expect((await orgStub().getSubmission('review-self'))?.approvalStatus).toBe('PENDING');
+  });
+
+  it('records a second person’s decision once', async () => {
+    await orgStub().trackSubmission('review-ok', 'FORM1099NEC', PREPARER);
+    const outcome = await orgStub().reviewSubmission(
+      'review-ok',
+      'APPROVED',
+      REVIEWER,
+      'Amounts tie out to the ledger',
+    );
+    expect(outcome.ok).toBe(true);
+    const approved = await orgStub().getSubmission('review-ok');
+    expect(approved).toMatchObject({
+      approvalStatus: 'APPROVED',
+      reviewedBy: 'user:user-rev',
+      reviewNote: 'Amounts tie out to the ledger',
+    });
+    expect(approved?.reviewedAt).not.toBeNull();
+
+    expect(
+      await orgStub().reviewSubmission('review-ok', 'REJECTED', owner('user-other', 'key-other')),
+    ).toEqual({ ok: false, reason: 'ALREADY_REVIEWED' });
+  });
+
+  it('refuses unknown and already transmitted submissions', async () => {
+    expect(await orgStub().reviewSubmission('review-missing', 'APPROVED', REVIEWER)).toEqual({
+      ok: false,
+      reason: 'NOT_FOUND',
+    });
+    await orgStub().trackSubmission('review-sent', 'FORM1099NEC', PREPARER);
+    await orgStub().markTransmitted('review-sent');
+    expect(await orgStub().reviewSubmission('review-sent', 'APPROVED', REVIEWER)).toEqual({
+      ok: false,
+      reason: 'ALREADY_TRANSMITTED',
+    });
+  });
+
+  it('lets the admin review, recorded as admin', async () => {
+    await orgStub().trackSubmission('review-admin', 'FORM1099NEC', PREPARER);
+    const outcome = await orgStub().reviewSubmission('review-admin', 'APPROVED', ADMIN_REVIEWER);
+    expect(outcome.ok && outcome.submission.reviewedBy).toBe('admin');
+  });
+
+  it('refuses a reviewer without an identity, even for an unattributed submission', async () => {
+    await orgStub().trackSubmission('review-unattributed', 'FORM1099NEC');
+    expect(await orgStub().reviewSubmission('review-unattributed', 'APPROVED', NO_OWNER)).toEqual({
+      ok: false,
+      reason: 'UNIDENTIFIED_REVIEWER',
+    });
+    expect((await orgStub().getSubmission('review-unattributed'))?.approvalStatus).toBe('PENDING');
+
+    const outcome = await orgStub().reviewSubmission('review-unattributed', 'APPROVED', REVIEWER);
+    expect(outcome.ok && outcome.submission.reviewedBy).toBe('user:user-rev');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// /submissions/:id/approve, /reject and the /transmit gate (HTTP)
+// ---------------------------------------------------------------------------
+describe('approval routes (HTTP)', () => {
+  const PENDING_ID = '7d1c0f2a-1111-4a4a-9a9a-aaaaaaaaaaaa';
+  const REJECTED_ID = '7d1c0f2a-2222-4b4b-9b9b-bbbbbbbbbbbb';
+  const UNREVIEWED_ID = '7d1c0f2a-3333-4c4c-9c9c-cccccccccccc';
+  const MISC_ID = '7d1c0f2a-4444-4d4d-9d9d-dddddddddddd';
+
+  it('refuses to transmit an unknown or unreviewed submission', async () => {
+    expect((await post(`/transmit/${PENDING_ID}`)).status).toBe(404);
+
+    await stub().trackSubmission(PENDING_ID, 'FORM1099NEC', PREPARER);
+    const res = await post(`/transmit/${PENDING_ID}`);
+    expect(res.status).toBe(409);
+    expect((await res.json<{ error: string }>()).error).toContain('awaiting approval');
+  });
+
+  it('requires a note to reject, and refuses to transmit a rejected submission', async () => {
+    await stub().trackSubmission(REJECTED_ID, 'FORM1099NEC', PREPARER);
+    expect((await post(`/submissions/${REJECTED_ID}/reject`, {})).status).toBe(400);
+
+    await stub().reviewSubmission(REJECTED_ID, 'REJECTED', REVIEWER, 'Wrong payer TIN');
+    const transmit = await post(`/transmit/${REJECTED_ID}`);
+    expect(transmit.status).toBe(409);
+    expect((await transmit.json<{ error: string }>()).error).toContain('rejected');
+  });
+
+  it('refuses a form_type that disagrees with the tracked submission', async () => {
+    await stub().trackSubmission(MISC_ID, 'FORM1099MISC', PREPARER);
+    await stub().reviewSubmission(MISC_ID, 'APPROVED', REVIEWER);
+    const res = await post(`/transmit/${MISC_ID}?form_type=1099-NEC`);
+    expect(res.status).toBe(400);
+    expect((await res.json<{ error: string }>()).error).toContain('1099-MISC');
+  });
+
+  it('refuses to review in dev mode, which has no identity', async () => {
+    await stub().trackSubmission(UNREVIEWED_ID, 'FORM1099NEC', PREPARER);
+    const res = await post(`/submissions/${UNREVIEWED_ID}/approve`);
+    expect(res.status).toBe(403);
+    expect((await res.json<{ error: string }>()).error).toContain('identity');
+    const reject = await post(`/submissions/${UNREVIEWED_ID}/reject`, { note: 'Looks wrong' });
+    expect(reject.status).toBe(403);
+    expect((await stub().getSubmission(UNREVIEWED_ID))?.approvalStatus).toBe('PENDING');
+
+    // Refused before the lookup, so an unknown id isn't confirmed either way
+    expect((await post('/submissions/review-nowhere/approve')).status).toBe(403);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Reviewers per tenant kind (HTTP, with auth configured)
+// ---------------------------------------------------------------------------
+describe('reviewers by tenant (HTTP)', () => {
+  const ADMIN_TOKEN = 'admin-token-for-approval-tests';
+  const authEnv = {
+    ...env,
+    BETTER_AUTH_SECRET: 'test-secret-at-least-32-characters-long',
+    BETTER_AUTH_URL: 'http://localhost',
+    TAX_AGENT_API_KEY: ADMIN_TOKEN,
+  } as unknown as Env;
+
+  const PERSONAL_ID = '8e2d1a3b-1111-4a4a-8a8a-aaaaaaaaaaaa';
+  const GLOBAL_ID = '8e2d1a3b-2222-4b4b-8b8b-bbbbbbbbbbbb';
+  const ORG_ID = '8e2d1a3b-3333-4c4c-8c8c-cccccccccccc';
+
+  let soloKey: string;
+  let preparerKey: string;
+  let colleagueKey: string;
+  let colleagueId: string;
+
+  async function review(id: string, headers: Record<string, string>) {
+    const ctx = createExecutionContext();
+    const res = await worker.fetch(
+      new Request(`http://localhost/submissions/${id}/approve`, { method: 'POST', headers }),
+      authEnv,
+      ctx,
+    );
+    await waitOnExecutionContext(ctx);
+    return res;
+  }
+
+  const admin = { Authorization: `Bearer ${ADMIN_TOKEN}` };
+
+  beforeAll(async () => {
+    await migrateAuthDb(authEnv.AUTH_DB!);
+    const auth = createAuth(authEnv);
+    const [solo, preparer, colleague] = await Promise.all(
+      ['approve-solo@example.com', 'approve-prep@example.com', 'approve-peer@example.com'].map(
+        (email) =>
+          auth.api.signUpEmail({ body: { email, password: 'TestPassword123!', name: email } }),
+      ),
+    );
+    const org = await auth.api.createOrganization({
+      body: { name: 'Review LLP', slug: 'review-llp', userId: preparer!.user.id },
+    });
+    await auth.api.addMember({
+      body: { userId: colleague!.user.id, organizationId: org!.id, role: 'admin' },
+    });
+    const permissions = { filings: ['transmit'] };
+    const keyFor = async (userId: string, organizationId?: string) =>
+      (
+        await auth.api.createApiKey({
+          body: {
+            userId,
+            permissions,
+            ...(organizationId ? { metadata: { organizationId } } : {}),
+          },
+        })
+      ).key;
+    soloKey = await keyFor(solo!.user.id);
+    preparerKey = await keyFor(preparer!.user.id, org!.id);
+    colleagueKey = await keyFor(colleague!.user.id, org!.id);
+    colleagueId = colleague!.user.id;
+
+    const soloOwner = { userId: solo!.user.id, apiKeyId: 'solo-key', organizationId: null };
+    await tenantState(ns(), `user:${solo!.user.id}`).trackSubmission(
+      PERSONAL_ID,
+      'FORM1099NEC',
+      soloOwner,
+    );
+    await registerSubmission(ns(), PERSONAL_ID, `user:${solo!.user.id}`);
+    await stub().trackSubmission(GLOBAL_ID, 'FORM1099NEC');
+    const prepOwner = { userId: preparer!.user.id, apiKeyId: 'prep-key', organizationId: org!.id };
+    await tenantState(ns(), `org:${org!.id}`).trackSubmission(ORG_ID, 'FORM1099NEC', prepOwner);
+    await registerSubmission(ns(), ORG_ID, `org:${org!.id}`);
+  }, 30_000);
+
+  it('personal tenant: the admin reviews, not the owner', async () => {
+    const self = await review(PERSONAL_ID, { 'x-api-key': soloKey });
+    expect(self.status).toBe(403);
+    expect((await self.json<{ error: string }>()).error).toContain('admin');
+
+    const res = await review(PERSONAL_ID, admin);
+    expect(res.status).toBe(200);
+    const { data } = await res.json<{ data: SubmissionRecord }>();
+    expect(data).toMatchObject({ approvalStatus: 'APPROVED', reviewedBy: 'admin' });
+  });
+
+  it('global tenant: the admin reviews Bearer-filed submissions', async () => {
+    expect((await review(GLOBAL_ID, { 'x-api-key': soloKey })).status).toBe(404);
+    const res = await review(GLOBAL_ID, admin);
+    expect(res.status).toBe(200);
+    expect((await stub().getSubmission(GLOBAL_ID))?.approvalStatus).toBe('APPROVED');
+  });
+
+  it('organization tenant: another member reviews, the preparer cannot', async () => {
+    expect((await review(ORG_ID, { 'x-api-key': preparerKey })).status).toBe(403);
+    const res = await review(ORG_ID, { 'x-api-key': colleagueKey });
+    expect(res.status).toBe(200);
+    const { data } = await res.json<{ data: SubmissionRecord }>();
+    expect(data.reviewedBy).toBe(`user:${colleagueId}`);
+  });
+});
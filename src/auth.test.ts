@@ -27,6 +27,24 @@ describe('getRequiredPermissions', () => {
     expect(getRequiredPermissions('/file/batch')).toEqual({ filings: ['create'] });
   });
 
+  it('returns filings:create for /jobs', () => {
+    expect(getRequiredPermissions('/jobs')).toEqual({ filings: ['create'] });
+    expect(getRequiredPermissions('/jobs/job_abc/resume')).toEqual({ filings: ['create'] });
+  });
+
+  it('returns filings:validate for /tin-match', () => {
+    expect(getRequiredPermissions('/tin-match')).toEqual({ filings: ['validate'] });
+  });
+
+  it('returns filings:create for /payers', () => {
+    expect(getRequiredPermissions('/payers')).toEqual({ filings: ['create'] });
+    expect(getRequiredPermissions('/payers/payer_abc')).toEqual({ filings: ['create'] });
+  });
+
+  it('returns filings:create for /vault/tins', () => {
+    expect(getRequiredPermissions('/vault/tins')).toEqual({ filings: ['create'] });
+  });
+
   it('returns filings:transmit for /transmit', () => {
     expect(getRequiredPermissions('/transmit')).toEqual({ filings: ['transmit'] });
   });
@@ -35,6 +53,12 @@ describe('getRequiredPermissions', () => {
     expect(getRequiredPermissions('/transmit/abc-123')).toEqual({ filings: ['transmit'] });
   });
 
+  it('returns filings:transmit for /submissions/:id/approve', () => {
+    expect(getRequiredPermissions('/submissions/abc-123/approve')).toEqual({
+      filings: ['transmit'],
+    });
+  });
+
   it('returns status:read for /status', () => {
     expect(getRequiredPermissions('/status')).toEqual({ status: ['read'] });
   });
@@ -47,6 +71,29 @@ describe('getRequiredPermissions', () => {
     expect(getRequiredPermissions('/webhook/submissions')).toEqual({ webhooks: ['read'] });
   });
 
+  it('returns webhooks:manage for outbound webhook endpoints and deliveries', () => {
+    expect(getRequiredPermissions('/webhooks/endpoints')).toEqual({ webhooks: ['manage'] });
+    expect(getRequiredPermissions('/webhooks/endpoints/whe_abc')).toEqual({
+      webhooks: ['manage'],
+    });
+    expect(getRequiredPermissions('/webhooks/deliveries')).toEqual({ webhooks: ['manage'] });
+  });
+
+  it('returns filings:correct for /correct and /void', () => {
+    expect(getRequiredPermissions('/correct/sub-id/rec-id')).toEqual({ filings: ['correct'] });
+    expect(getRequiredPermissions('/void/sub-id/rec-id')).toEqual({ filings: ['correct'] });
+  });
+
+  it('returns w9:manage for W-9 requests', () => {
+    expect(getRequiredPermissions('/w9/requests')).toEqual({ w9: ['manage'] });
+    expect(getRequiredPermissions('/w9/requests/w9_abc')).toEqual({ w9: ['manage'] });
+    expect(getRequiredPermissions('/w9/some-token')).toBeNull();
+  });
+
+  it('returns forms:read for recipient copy PDFs', () => {
+    expect(getRequiredPermissions('/forms/sub-id/rec-id/pdf')).toEqual({ forms: ['read'] });
+  });
+
   it('returns null for unknown paths', () => {
     expect(getRequiredPermissions('/')).toBeNull();
     expect(getRequiredPermissions('/health')).toBeNull();
@@ -56,15 +103,18 @@ describe('getRequiredPermissions', () => {
 
 describe('PERMISSIONS constants', () => {
   it('defines all permission scopes', () => {
-    expect(PERMISSIONS.filings).toEqual(['validate', 'create', 'transmit']);
+    expect(PERMISSIONS.filings).toEqual(['validate', 'create', 'transmit', 'correct']);
     expect(PERMISSIONS.status).toEqual(['read']);
-    expect(PERMISSIONS.webhooks).toEqual(['read']);
+    expect(PERMISSIONS.webhooks).toEqual(['read', 'manage']);
+    expect(PERMISSIONS.forms).toEqual(['read']);
+    expect(PERMISSIONS.w9).toEqual(['manage']);
   });
 
   it('DEFAULT_PERMISSIONS grants validate + read only', () => {
     expect(DEFAULT_PERMISSIONS.filings).toEqual(['validate']);
     expect(DEFAULT_PERMISSIONS.status).toEqual(['read']);
     expect(DEFAULT_PERMISSIONS.webhooks).toEqual(['read']);
+    expect(DEFAULT_PERMISSIONS.forms).toBeUndefined();
   });
 });
 
@@ -1,5 +1,12 @@
 import { betterAuth } from 'better-auth';
-import { apiKey, genericOAuth } from 'better-auth/plugins';
+import { apiKey, genericOAuth, organization } from 'better-auth/plugins';
+import { createAccessControl } from 'better-auth/plugins/access';
+import {
+  adminAc,
+  defaultStatements,
+  memberAc,
+  ownerAc,
+} from 'better-auth/plugins/organization/access';
 import { D1Dialect } from 'kysely-d1';
 import { Kysely } from 'kysely';
 import type { Env } from './types';
@@ -9,18 +16,96 @@ import type { Env } from './types';
 // ---------------------------------------------------------------------------
 
 export const PERMISSIONS = {
-  filings: ['validate', 'create', 'transmit'],
+  filings: ['validate', 'create', 'transmit', 'correct'],
   status: ['read'],
-  webhooks: ['read'],
+  webhooks: ['read', 'manage'],
+  forms: ['read'],
+  w9: ['manage'],
 } as const;
 
-/** Default permissions for new API keys — full read, validate only */
+/** Default permissions for new API keys — status/webhook read, validate only (no recipient copies or W-9s) */
 export const DEFAULT_PERMISSIONS: Record<string, string[]> = {
   filings: ['validate'],
   status: ['read'],
   webhooks: ['read'],
 };
 
+// ---------------------------------------------------------------------------
+// Organization roles — better-auth's org management rights plus API permissions
+// ---------------------------------------------------------------------------
+
+const orgAccess = createAccessControl({ ...defaultStatements, ...PERMISSIONS });
+
+/**
+ * Roles of the organization plugin. Owners can do everything, admins file,
+ * transmit and correct but leave webhook endpoints to owners, members only
+ * validate — the same as a default API key.
+ */
+export const ORG_ROLES = {
+  owner: orgAccess.newRole({
+    ...ownerAc.statements,
+    filings: ['validate', 'create', 'transmit', 'correct'],
+    status: ['read'],
+    webhooks: ['read', 'manage'],
+    forms: ['read'],
+    w9: ['manage'],
+  }),
+  admin: orgAccess.newRole({
+    ...adminAc.statements,
+    filings: ['validate', 'create', 'transmit', 'correct'],
+    status: ['read'],
+    webhooks: ['read'],
+    forms: ['read'],
+    w9: ['manage'],
+  }),
+  member: orgAccess.newRole({
+    ...memberAc.statements,
+    filings: ['validate'],
+    status: ['read'],
+    webhooks: ['read'],
+  }),
+};
+
+export type OrgRole = keyof typeof ORG_ROLES;
+
+function isOrgRole(role: string): role is OrgRole {
+  return Object.hasOwn(ORG_ROLES, role);
+}
+
+/** Everything a member's roles allow (comma-separated when they hold several). */
+function orgRoleStatements(role: string): Map<string, Set<string>> {
+  const granted = new Map<string, Set<string>>();
+  for (const name of role.split(',').map((r) => r.trim())) {
+    if (!isOrgRole(name)) continue;
+    const statements: Record<string, readonly string[]> = ORG_ROLES[name].statements;
+    for (const [scope, actions] of Object.entries(statements)) {
+      const set = granted.get(scope) ?? new Set<string>();
+      actions.forEach((a) => set.add(a));
+      granted.set(scope, set);
+    }
+  }
+  return granted;
+}
+
+/** The API permissions of a member's role — what an org-scoped key of theirs can do at most. */
+export function orgRolePermissions(role: string): Record<string, string[]> {
+  const granted = orgRoleStatements(role);
+  return Object.fromEntries(
+    Object.keys(PERMISSIONS).flatMap((scope) => {
+      const actions = [...(granted.get(scope) ?? [])];
+      return actions.length > 0 ? [[scope, actions]] : [];
+    }),
+  );
+}
+
+/** Whether a member's role allows every action in `required` — API permissions or org management. */
+export function orgRoleAllows(role: string, required: Record<string, string[]>): boolean {
+  const granted = orgRoleStatements(role);
+  return Object.entries(required).every(([scope, actions]) =>
+    actions.every((action) => granted.get(scope)?.has(action)),
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Create a better-auth instance per-request (CF Workers: env only at runtime)
 // ---------------------------------------------------------------------------
@@ -41,10 +126,14 @@ export function createAuth(env: Env) {
     plugins: [
       apiKey({
         enableSessionForAPIKeys: true,
+        // Org-scoped keys carry { organizationId } in their metadata
+        enableMetadata: true,
         permissions: {
           defaultPermissions: DEFAULT_PERMISSIONS,
         },
       }),
+      // Accounting firms: members, roles and invitations under /api/auth/organization/*
+      organization({ ac: orgAccess, roles: ORG_ROLES }),
       // QuickBooks OAuth — only registered when QB credentials are present
       ...(env.QB_CLIENT_ID && env.QB_CLIENT_SECRET
         ? [
@@ -95,11 +184,23 @@ const ROUTE_PERMISSIONS: Record<string, Record<string, string[]>> = {
   '/file': { filings: ['create'] },
   '/file/batch': { filings: ['create'] },
   '/file/csv': { filings: ['create'] },
+  '/jobs': { filings: ['create'] },
   '/transmit': { filings: ['transmit'] },
   '/status': { status: ['read'] },
+  '/correct': { filings: ['correct'] },
+  '/void': { filings: ['correct'] },
+  '/forms': { forms: ['read'] },
+  '/vault/tins': { filings: ['create'] },
+  '/tin-match': { filings: ['validate'] },
+  '/w9/requests': { w9: ['manage'] },
   '/webhook/submissions': { webhooks: ['read'] },
+  '/webhooks': { webhooks: ['manage'] },
   '/quickbooks/vendors': { filings: ['validate'] },
   '/quickbooks/generate': { filings: ['create'] },
+  '/payers': { filings: ['create'] },
+  '/recipients': { filings: ['create'] },
+  '/deadlines': { status: ['read'] },
+  '/submissions': { filings: ['transmit'] },
 };
 
 /** Resolve required permissions for a request path */
@@ -122,6 +223,7 @@ export interface VerifyResult {
   error?: string;
   keyId?: string;
   userId?: string;
+  organizationId?: string; // org-scoped keys only
 }
 
 export async function verifyApiKey(
@@ -142,13 +244,28 @@ export async function verifyApiKey(
       error: result.error?.message ?? 'Invalid API key',
     };
   }
+  const organizationId: unknown = result.key?.metadata?.['organizationId'];
   return {
     valid: true,
     keyId: result.key?.id,
     userId: result.key?.userId,
+    ...(typeof organizationId === 'string' ? { organizationId } : {}),
   };
 }
 
+/** A user's role in an organization, or null when they aren't a member. */
+export async function getOrgRole(
+  db: D1Database,
+  organizationId: string,
+  userId: string,
+): Promise<string | null> {
+  const row = await db
+    .prepare('SELECT "role" FROM "member" WHERE "organizationId" = ? AND "userId" = ?')
+    .bind(organizationId, userId)
+    .first<{ role: string }>();
+  return row?.role ?? null;
+}
+
 // ---------------------------------------------------------------------------
 // Raw SQL schema for better-auth tables (SQLite/D1)
 // Used for programmatic migration when getMigrations() isn't available
@@ -166,9 +283,28 @@ export const AUTH_SCHEMA_STATEMENTS: string[] = [
   'CREATE TABLE IF NOT EXISTS "apikey" ("id" TEXT NOT NULL PRIMARY KEY, "name" TEXT, "start" TEXT, "prefix" TEXT, "key" TEXT NOT NULL, "userId" TEXT NOT NULL REFERENCES "user"("id") ON DELETE CASCADE, "refillInterval" INTEGER, "refillAmount" INTEGER, "lastRefillAt" DATE, "enabled" INTEGER, "rateLimitEnabled" INTEGER, "rateLimitTimeWindow" INTEGER, "rateLimitMax" INTEGER, "requestCount" INTEGER, "remaining" INTEGER, "lastRequest" DATE, "expiresAt" DATE, "createdAt" DATE NOT NULL, "updatedAt" DATE NOT NULL, "permissions" TEXT, "metadata" TEXT)',
   'CREATE INDEX IF NOT EXISTS "apikey_key_idx" ON "apikey"("key")',
   'CREATE INDEX IF NOT EXISTS "apikey_userId_idx" ON "apikey"("userId")',
+  'CREATE TABLE IF NOT EXISTS "organization" ("id" TEXT NOT NULL PRIMARY KEY, "name" TEXT NOT NULL, "slug" TEXT NOT NULL UNIQUE, "logo" TEXT, "createdAt" DATE NOT NULL, "metadata" TEXT)',
+  'CREATE TABLE IF NOT EXISTS "member" ("id" TEXT NOT NULL PRIMARY KEY, "organizationId" TEXT NOT NULL REFERENCES "organization"("id") ON DELETE CASCADE, "userId" TEXT NOT NULL REFERENCES "user"("id") ON DELETE CASCADE, "role" TEXT NOT NULL, "createdAt" DATE NOT NULL)',
+  'CREATE INDEX IF NOT EXISTS "member_organizationId_idx" ON "member"("organizationId")',
+  'CREATE INDEX IF NOT EXISTS "member_userId_idx" ON "member"("userId")',
+  'CREATE TABLE IF NOT EXISTS "invitation" ("id" TEXT NOT NULL PRIMARY KEY, "organizationId" TEXT NOT NULL REFERENCES "organization"("id") ON DELETE CASCADE, "email" TEXT NOT NULL, "role" TEXT, "status" TEXT NOT NULL, "expiresAt" DATE NOT NULL, "createdAt" DATE NOT NULL, "inviterId" TEXT NOT NULL REFERENCES "user"("id") ON DELETE CASCADE)',
+  'CREATE INDEX IF NOT EXISTS "invitation_organizationId_idx" ON "invitation"("organizationId")',
+  'CREATE INDEX IF NOT EXISTS "invitation_email_idx" ON "invitation"("email")',
+];
+
+/** Columns plugins add to tables that may predate them — SQLite has no ADD COLUMN IF NOT EXISTS. */
+export const AUTH_SCHEMA_COLUMNS: Array<{ table: string; column: string; type: string }> = [
+  { table: 'session', column: 'activeOrganizationId', type: 'TEXT' },
 ];
 
 /** Run better-auth schema migration against a D1 database */
 export async function migrateAuthDb(db: D1Database): Promise<void> {
   await db.batch(AUTH_SCHEMA_STATEMENTS.map((sql) => db.prepare(sql)));
+  for (const { table, column, type } of AUTH_SCHEMA_COLUMNS) {
+    const exists = await db
+      .prepare('SELECT 1 FROM pragma_table_info(?) WHERE name = ?')
+      .bind(table, column)
+      .first();
+    if (!exists) await db.exec(`ALTER TABLE "${table}" ADD COLUMN "${column}" ${type}`);
+  }
 }
@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { parseCSV, csvToForms } from './csv';
+import type { PayerProfile } from './webhook-state';
 
 // ---------------------------------------------------------------------------
 // parseCSV
@@ -149,4 +150,59 @@ describe('csvToForms', () => {
     expect(result.forms).toHaveLength(1);
     expect(result.forms[0]!.recipient.first_name).toBe('Jane');
   });
+
+  it('maps foreign address columns', () => {
+    const csv =
+      'recipient_first_name,recipient_last_name,recipient_tin,recipient_tin_type,recipient_foreign_address,recipient_foreign_city,recipient_province,recipient_postal_code,recipient_country,amount\nAmélie,Roy,412789654,SSN,1200 Rue Sherbrooke O,Montréal,QC,H3A 1H6,ca,5000';
+    const result = csvToForms(csv, DEFAULT_PAYER);
+    expect(result.forms).toHaveLength(1);
+    expect(result.forms[0]!.recipient.foreign_address).toEqual({
+      address_line1: '1200 Rue Sherbrooke O',
+      city: 'Montréal',
+      province_or_state: 'QC',
+      postal_code: 'H3A 1H6',
+      country: 'CA',
+    });
+    expect(result.forms[0]!.recipient.state).toBeUndefined();
+  });
+
+  it('fills payers from profiles by payer_id, as a column or the default', () => {
+    const profile: PayerProfile = {
+      payerId: 'payer_acme',
+      payer: DEFAULT_PAYER,
+      kindOfEmployer: 'TAX_EXEMPT',
+      kindOfPayer: null,
+      stateIds: {},
+      createdAt: '',
+      updatedAt: '',
+    };
+    const profiles = new Map([[profile.payerId, profile]]);
+
+    const byDefault = csvToForms(`${HEADER}\n${ROW}`, 'payer_acme', profiles);
+    expect(byDefault.errors).toEqual([]);
+    expect(byDefault.forms[0]!.payer).toEqual(DEFAULT_PAYER);
+    expect(byDefault.forms[0]!.kind_of_employer).toBe('TAX_EXEMPT');
+    expect(byDefault.forms[0]).not.toHaveProperty('payer_id');
+
+    const byColumn = csvToForms(
+      `payer_id,${HEADER}\npayer_acme,${ROW}\npayer_gone,${ROW}`,
+      undefined,
+      profiles,
+    );
+    expect(byColumn.forms).toHaveLength(1);
+    expect(byColumn.forms[0]!.payer.name).toBe('Acme Corp');
+    expect(byColumn.errors[0]!.row).toBe(3);
+    expect(byColumn.errors[0]!.errors).toContain('Unknown payer_id: payer_gone');
+  });
+
+  it('fails rows whose tax_year is outside the filing window', () => {
+    const current = new Date().getFullYear();
+    const csv = `tax_year,${HEADER}\n${current},${ROW}\n1999,${ROW}\n${current + 1},${ROW}`;
+    const result = csvToForms(csv, DEFAULT_PAYER);
+    expect(result.forms.map((f) => f.tax_year)).toEqual([String(current)]);
+    expect(result.errors.map((e) => e.row)).toEqual([3, 4]);
+    expect(result.errors[0]!.errors).toEqual([
+      `tax_year must be between ${current - 3} and ${current}`,
+    ]);
+  });
 });
@@ -1,4 +1,7 @@
 import type { Form1099NECRequest } from './types';
+import type { PayerProfile } from './webhook-state';
+import { applyPayerProfile } from './payers';
+import { filingYears, formTaxYear } from './tax-year-rules';
 
 // ============================================================
 // CSV parsing — zero dependencies
@@ -51,9 +54,11 @@ export function parseCSV(text: string): string[][] {
 
 /** Expected CSV columns. Order doesn't matter — matched by header name. */
 const COLUMN_MAP: Record<string, string> = {
-  // Payer
+  // Payer — a payer profile, or the payer's details
+  payer_id: 'payer_id',
   payer_name: 'payer.name',
   payer_tin: 'payer.tin',
+  payer_tin_ref: 'payer.tin_ref',
   payer_tin_type: 'payer.tin_type',
   payer_address: 'payer.address',
   payer_city: 'payer.city',
@@ -63,16 +68,31 @@ const COLUMN_MAP: Record<string, string> = {
   payer_phone: 'payer.phone',
   payer_email: 'payer.email',
   payer_business_type: 'payer.business_type',
+  // Payer — foreign address (replaces payer_address/city/state/zip)
+  payer_foreign_address: 'payer.foreign_address.address_line1',
+  payer_foreign_address_line2: 'payer.foreign_address.address_line2',
+  payer_foreign_city: 'payer.foreign_address.city',
+  payer_province: 'payer.foreign_address.province_or_state',
+  payer_postal_code: 'payer.foreign_address.postal_code',
+  payer_country: 'payer.foreign_address.country',
   // Recipient
   recipient_first_name: 'recipient.first_name',
   recipient_last_name: 'recipient.last_name',
   recipient_tin: 'recipient.tin',
+  recipient_tin_ref: 'recipient.tin_ref',
   recipient_tin_type: 'recipient.tin_type',
   recipient_address: 'recipient.address',
   recipient_city: 'recipient.city',
   recipient_state: 'recipient.state',
   recipient_zip: 'recipient.zip_code',
   recipient_zip_code: 'recipient.zip_code',
+  // Recipient — foreign address (replaces recipient_address/city/state/zip)
+  recipient_foreign_address: 'recipient.foreign_address.address_line1',
+  recipient_foreign_address_line2: 'recipient.foreign_address.address_line2',
+  recipient_foreign_city: 'recipient.foreign_address.city',
+  recipient_province: 'recipient.foreign_address.province_or_state',
+  recipient_postal_code: 'recipient.foreign_address.postal_code',
+  recipient_country: 'recipient.foreign_address.country',
   // Amounts / flags
   amount: 'nonemployee_compensation',
   nonemployee_compensation: 'nonemployee_compensation',
@@ -121,6 +141,7 @@ function coerce(field: string, value: string): unknown {
   if (field === 'is_federal_tax_withheld' || field === 'is_state_filing') {
     return v === 'true' || v === '1' || v === 'yes' || v === 'Y';
   }
+  if (field === 'country') return v.toUpperCase();
   return v;
 }
 
@@ -143,10 +164,13 @@ export interface CSVParseResult {
  * Parse CSV text into Form1099NECRequest objects.
  * First row must be headers. Columns matched by name (case-insensitive, underscores/dashes/spaces normalized).
  * Payer fields can be provided per-row or via `defaultPayer` for shared payer across all rows.
+ * A `payer_id` — in a column, or as `defaultPayer` — names one of `profiles` instead.
+ * A `tax_year` outside the tax-year rules' filing window fails the row.
  */
 export function csvToForms(
   csvText: string,
-  defaultPayer?: Form1099NECRequest['payer'],
+  defaultPayer?: Form1099NECRequest['payer'] | string,
+  profiles: ReadonlyMap<string, PayerProfile> = new Map(),
 ): CSVParseResult {
   const rows = parseCSV(csvText);
   if (rows.length < 2) {
@@ -179,13 +203,16 @@ export function csvToForms(
   const forms: Form1099NECRequest[] = [];
   const errors: CSVParseError[] = [];
   const dataRows = rows.slice(1);
+  const years = filingYears();
 
   for (let i = 0; i < dataRows.length; i++) {
     const row = dataRows[i]!;
     const obj: Record<string, unknown> = {};
 
     // Apply default payer if provided
-    if (defaultPayer) {
+    if (typeof defaultPayer === 'string') {
+      obj['payer_id'] = defaultPayer;
+    } else if (defaultPayer) {
       obj['payer'] = { ...defaultPayer };
     }
 
@@ -201,17 +228,27 @@ export function csvToForms(
     if (obj['is_federal_tax_withheld'] === undefined) obj['is_federal_tax_withheld'] = false;
     if (obj['is_state_filing'] === undefined) obj['is_state_filing'] = false;
 
+    const rowErrors: string[] = [];
+    const payerId = obj['payer_id'];
+    if (typeof payerId === 'string') {
+      const profile = profiles.get(payerId);
+      if (!profile) rowErrors.push(`Unknown payer_id: ${payerId}`);
+      else applyPayerProfile(obj, profile);
+    }
+
     // Type-assert and collect
     const form = obj as unknown as Form1099NECRequest;
-    const rowErrors: string[] = [];
 
     // Basic validation before Zod (fast feedback)
     if (!form.payer?.name) rowErrors.push('Missing payer_name');
-    if (!form.payer?.tin) rowErrors.push('Missing payer_tin');
+    if (!form.payer?.tin && !form.payer?.tin_ref) rowErrors.push('Missing payer_tin');
     if (!form.recipient?.first_name) rowErrors.push('Missing recipient_first_name');
     if (!form.recipient?.last_name) rowErrors.push('Missing recipient_last_name');
-    if (!form.recipient?.tin) rowErrors.push('Missing recipient_tin');
+    if (!form.recipient?.tin && !form.recipient?.tin_ref) rowErrors.push('Missing recipient_tin');
     if (!form.nonemployee_compensation) rowErrors.push('Missing amount/nonemployee_compensation');
+    if (form.tax_year !== undefined && !years.includes(formTaxYear(form))) {
+      rowErrors.push(`tax_year must be between ${years[0]} and ${years[years.length - 1]}`);
+    }
 
     if (rowErrors.length > 0) {
       errors.push({ row: i + 2, errors: rowErrors }); // +2: 1-indexed + header
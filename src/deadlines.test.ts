@@ -0,0 +1,266 @@
+import { describe, it, expect } from 'vitest';
+import { env, createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import worker from './index';
+import {
+  deadlineCalendar,
+  lateFilingIssues,
+  penaltySchedule,
+  penaltyTier,
+  submissionDeadline,
+  type SubmissionDeadline,
+} from './deadlines';
+import { aiFallbackResult } from './agent';
+import { correctionFormDefinition, getFormDefinition } from './forms';
+import { GLOBAL_TENANT, tenantState } from './tenants';
+import type { Env, Form1099NECRequest } from './types';
+import type { FormRecordInput, TaxYearSubmission, WebhookState } from './webhook-state';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const testEnv = env as unknown as Env;
+
+function ns(): DurableObjectNamespace<WebhookState> {
+  const binding = testEnv.WEBHOOK_STATE;
+  if (!binding) throw new Error('WEBHOOK_STATE binding missing');
+  return binding;
+}
+
+function necForm(tax_year: string): Form1099NECRequest {
+  return {
+    payer: {
+      name: 'Acme Corp',
+      tin: '27-1234567',
+      tin_type: 'EIN',
+      address: '100 Main St',
+      city: 'New York',
+      state: 'NY',
+      zip_code: '10001',
+      phone: '2125551234',
+      email: 'payroll@acme.com',
+    },
+    recipient: {
+      first_name: 'Jane',
+      last_name: 'Smith',
+      tin: '412789654',
+      tin_type: 'SSN',
+      address: '200 Oak Ave',
+      city: 'Austin',
+      state: 'TX',
+      zip_code: '78701',
+    },
+    nonemployee_compensation: 5000,
+    is_federal_tax_withheld: false,
+    is_state_filing: false,
+    tax_year,
+  };
+}
+
+function record(sequence: number, data: Form1099NECRequest): FormRecordInput {
+  return {
+    sequence,
+    recordId: `rec-${sequence}`,
+    data,
+    recipientName: 'Jane Smith',
+    recipientTin: '*****9654',
+    amount: data.nonemployee_compensation,
+    federalTaxWithheld: 0,
+    status: 'CREATED',
+    validationIssues: [],
+    errors: [],
+  };
+}
+
+function submission(overrides: Partial<TaxYearSubmission> = {}): TaxYearSubmission {
+  return {
+    submissionId: 'sub-1',
+    status: 'TRANSMITTED',
+    formType: 'FORM1099NEC',
+    createdAt: '2025-01-20 10:00:00',
+    updatedAt: '2025-01-20 10:00:00',
+    records: '[]',
+    taxYear: '2024',
+    transmittedAt: '2025-01-20 10:00:00',
+    preparedBy: null,
+    approvalStatus: 'APPROVED',
+    reviewedBy: null,
+    reviewedAt: null,
+    reviewNote: null,
+    returns: 4,
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Penalty tiers
+// ---------------------------------------------------------------------------
+describe('penaltyTier', () => {
+  it('moves up a tier after 30 days and after August 1', () => {
+    const due = '2025-01-31';
+    expect(penaltyTier(due, '2025-01-31')).toBe('NONE');
+    expect(penaltyTier(due, '2025-03-02')).toBe('WITHIN_30_DAYS');
+    expect(penaltyTier(due, '2025-03-03')).toBe('BY_AUGUST_1');
+    expect(penaltyTier(due, '2025-08-01')).toBe('BY_AUGUST_1');
+    expect(penaltyTier(due, '2025-08-02')).toBe('AFTER_AUGUST_1');
+    expect(penaltyTier(due, '2027-01-01')).toBe('AFTER_AUGUST_1');
+  });
+});
+
+describe('penaltySchedule', () => {
+  it('falls back to the nearest earlier year, or the earliest', () => {
+    expect(penaltySchedule(2024).afterAugust1).toBe(330);
+    expect(penaltySchedule(2030)).toBe(penaltySchedule(2025));
+    expect(penaltySchedule(2019)).toBe(penaltySchedule(2022));
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Calendar and submissions
+// ---------------------------------------------------------------------------
+describe('deadlineCalendar', () => {
+  it('counts down to the electronic due date of each form type', () => {
+    const [nec, misc] = deadlineCalendar(
+      2025,
+      ['1099-NEC', '1099-MISC'],
+      new Date('2026-01-15T12:00:00Z'),
+    );
+    expect(nec).toMatchObject({ formType: '1099-NEC', daysUntilDue: 18, penaltyTierToday: 'NONE' });
+    expect(nec!.dueDates.electronic).toBe('2026-02-02');
+    expect(misc).toMatchObject({ formType: '1099-MISC', daysUntilDue: 75 });
+    expect(misc!.penalties.byAugust1).toBe(130);
+  });
+});
+
+describe('submissionDeadline', () => {
+  const now = new Date('2025-09-01T00:00:00Z');
+
+  it('reports a submission transmitted by the due date as on time', () => {
+    expect(submissionDeadline(submission(), '1099-NEC', now)).toMatchObject({
+      dueDate: '2025-01-31',
+      timeliness: 'ON_TIME',
+      penaltyTier: 'NONE',
+      exposure: 0,
+    });
+  });
+
+  it('prices a late transmission by the day it went out', () => {
+    const late = submission({ transmittedAt: '2025-02-20 09:00:00' });
+    expect(submissionDeadline(late, '1099-NEC', now)).toMatchObject({
+      timeliness: 'LATE',
+      penaltyTier: 'WITHIN_30_DAYS',
+      penaltyPerReturn: 60,
+      exposure: 240,
+    });
+  });
+
+  it('projects an untransmitted submission as if filed today', () => {
+    const pending = submission({ status: 'CREATED', transmittedAt: null });
+    expect(submissionDeadline(pending, '1099-MISC', now)).toMatchObject({
+      dueDate: '2025-03-31',
+      timeliness: 'OVERDUE',
+      penaltyTier: 'AFTER_AUGUST_1',
+      exposure: 4 * 330,
+    });
+    const early = submissionDeadline(pending, '1099-MISC', new Date('2025-03-01T00:00:00Z'));
+    expect(early.timeliness).toBe('DUE');
+  });
+
+  it('leaves an unknown form type without a due date', () => {
+    expect(submissionDeadline(submission(), null, now)).toMatchObject({
+      dueDate: null,
+      timeliness: null,
+      exposure: 0,
+    });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Late-filing warnings in validation
+// ---------------------------------------------------------------------------
+describe('lateFilingIssues', () => {
+  it('warns with the per-return penalty once the due date has passed', () => {
+    expect(lateFilingIssues('1099-NEC', { tax_year: '2025' }, new Date('2026-01-10'))).toEqual([]);
+    expect(lateFilingIssues('1099-NEC', { tax_year: '2025' }, new Date('2026-03-15'))).toEqual([
+      {
+        field: 'tax_year',
+        message:
+          'The 2025 1099-NEC was due 2026-02-02 — filing now is late. IRS penalty: $130 per return (filed more than 30 days late, by August 1)',
+        severity: 'warning',
+      },
+    ]);
+  });
+
+  it('is added to validation for original returns, not corrections', () => {
+    const form = necForm('2021');
+    const original = aiFallbackResult(getFormDefinition('1099-NEC'), form, 'offline');
+    expect(original.issues).toContainEqual(
+      expect.objectContaining({ field: 'tax_year', message: expect.stringContaining('$290') }),
+    );
+
+    const correction = correctionFormDefinition({
+      submissionId: 'sub-1',
+      recordId: 'rec-1',
+      correctionType: 'TYPE1',
+      isVoid: false,
+    });
+    const corrected = aiFallbackResult(correction, form, 'offline');
+    expect(corrected.issues.some((i) => i.message.includes('filing now is late'))).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// GET /deadlines (HTTP)
+// ---------------------------------------------------------------------------
+describe('GET /deadlines', () => {
+  async function get(path: string) {
+    const ctx = createExecutionContext();
+    const res = await worker.fetch(new Request(`http://localhost${path}`), testEnv, ctx);
+    await waitOnExecutionContext(ctx);
+    return res;
+  }
+
+  it("reports the caller's submissions for the tax year with their exposure", async () => {
+    const stub = tenantState(ns(), GLOBAL_TENANT);
+    await stub.trackSubmission('deadline-sent', 'FORM1099NEC', undefined, '2021');
+    await stub.storeFormRecords('deadline-sent', 'FORM1099NEC', [
+      record(1, necForm('2021')),
+      record(2, necForm('2021')),
+    ]);
+    expect(await stub.markTransmitted('deadline-sent')).toBe(true);
+    // Tracked before tax years were recorded: the year comes from its form record
+    await stub.trackSubmission('deadline-legacy', 'FORM1099NEC');
+    await stub.storeFormRecords('deadline-legacy', 'FORM1099NEC', [record(1, necForm('2021'))]);
+    await stub.trackSubmission('deadline-other', 'FORM1099NEC', undefined, '2020');
+
+    const res = await get('/deadlines?tax_year=2021');
+    expect(res.status).toBe(200);
+    const { data } = await res.json<{
+      data: {
+        taxYear: number;
+        forms: Array<{ formType: string; dueDates: { electronic: string } }>;
+        submissions: SubmissionDeadline[];
+        exposure: number;
+      };
+    }>();
+    expect(data.taxYear).toBe(2021);
+    expect(data.forms.map((f) => [f.formType, f.dueDates.electronic])).toEqual([
+      ['1099-NEC', '2022-01-31'],
+      ['1099-MISC', '2022-03-31'],
+    ]);
+    // Ordered by creation time, which may or may not fall in the same second
+    expect(
+      data.submissions
+        .map((s) => [s.submissionId, s.timeliness, s.returns, s.exposure])
+        .sort((a, b) => String(a[0]).localeCompare(String(b[0]))),
+    ).toEqual([
+      ['deadline-legacy', 'OVERDUE', 1, 290],
+      ['deadline-sent', 'LATE', 2, 580],
+    ]);
+    expect(data.exposure).toBe(870);
+  });
+
+  it('rejects a malformed tax_year', async () => {
+    expect((await get('/deadlines?tax_year=21')).status).toBe(400);
+  });
+});
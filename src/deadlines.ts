@@ -0,0 +1,215 @@
+import type { Form1099Request, FormType, ValidationIssue } from './types';
+import type { TaxYearSubmission } from './webhook-state';
+import { filingDueDates, formTaxYear, type FilingDueDates } from './tax-year-rules';
+
+// ============================================================
+// Filing deadlines and late-filing penalties
+//
+// When each return is due (from the tax-year rules) and what filing it late
+// costs under IRC §6721: a per-return penalty that grows the later the
+// return reaches the IRS. Service submissions are e-filed, so the electronic
+// due date applies. Amounts ignore the annual caps, the small-business caps
+// and the de minimis safe harbor — they are an upper-bound estimate, not tax
+// advice. The penalty for late recipient copies (§6722) is the same per
+// statement and is not added here.
+// ============================================================
+
+/** §6721 penalty per return, by how late it was filed. */
+export interface PenaltySchedule {
+  /** Filed within 30 days after the due date. */
+  within30Days: number;
+  /** Filed more than 30 days late, by August 1. */
+  byAugust1: number;
+  /** Filed after August 1, or not at all. */
+  afterAugust1: number;
+  /** Intentional disregard of the filing requirement (no maximum). */
+  intentionalDisregard: number;
+}
+
+/**
+ * Inflation-adjusted §6721 amounts by tax year (returns due the following
+ * year). Sources: the annual IRS revenue procedures, as summarized in the
+ * General Instructions for Certain Information Returns. Years after the
+ * table use its latest entry until the IRS publishes the next adjustment.
+ */
+export const PENALTY_SCHEDULES: Record<number, PenaltySchedule> = {
+  2022: { within30Days: 50, byAugust1: 110, afterAugust1: 290, intentionalDisregard: 580 },
+  2023: { within30Days: 60, byAugust1: 120, afterAugust1: 310, intentionalDisregard: 630 },
+  2024: { within30Days: 60, byAugust1: 130, afterAugust1: 330, intentionalDisregard: 660 },
+  2025: { within30Days: 60, byAugust1: 130, afterAugust1: 340, intentionalDisregard: 680 },
+};
+
+/** The schedule for a tax year: its own entry, else the nearest earlier one, else the earliest. */
+export function penaltySchedule(taxYear: number): PenaltySchedule {
+  const years = Object.keys(PENALTY_SCHEDULES)
+    .map(Number)
+    .sort((a, b) => a - b);
+  const year = [...years].reverse().find((y) => y <= taxYear) ?? years[0]!;
+  return PENALTY_SCHEDULES[year]!;
+}
+
+export type PenaltyTier = 'NONE' | 'WITHIN_30_DAYS' | 'BY_AUGUST_1' | 'AFTER_AUGUST_1';
+
+/**
+ * ON_TIME / LATE: transmitted on or before / after the due date.
+ * DUE / OVERDUE: not transmitted yet, before / after the due date.
+ */
+export type Timeliness = 'ON_TIME' | 'LATE' | 'DUE' | 'OVERDUE';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** `YYYY-MM-DD` of a date or a SQLite `datetime()` string (both UTC). */
+function isoDay(value: Date | string): string {
+  return typeof value === 'string' ? value.slice(0, 10) : value.toISOString().slice(0, 10);
+}
+
+/** Whole days from `from` to `to` (both `YYYY-MM-DD`). */
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+}
+
+/** The §6721 tier for a return due on `dueDate` and filed on `filedOn` (both `YYYY-MM-DD`). */
+export function penaltyTier(dueDate: string, filedOn: string): PenaltyTier {
+  const daysLate = daysBetween(dueDate, filedOn);
+  if (daysLate <= 0) return 'NONE';
+  if (daysLate <= 30) return 'WITHIN_30_DAYS';
+  return filedOn <= `${dueDate.slice(0, 4)}-08-01` ? 'BY_AUGUST_1' : 'AFTER_AUGUST_1';
+}
+
+/** Per-return penalty for a tier in a tax year. */
+export function penaltyPerReturn(tier: PenaltyTier, taxYear: number): number {
+  if (tier === 'NONE') return 0;
+  const schedule = penaltySchedule(taxYear);
+  if (tier === 'WITHIN_30_DAYS') return schedule.within30Days;
+  return tier === 'BY_AUGUST_1' ? schedule.byAugust1 : schedule.afterAugust1;
+}
+
+const TIER_LABELS: Record<Exclude<PenaltyTier, 'NONE'>, string> = {
+  WITHIN_30_DAYS: 'filed within 30 days of the due date',
+  BY_AUGUST_1: 'filed more than 30 days late, by August 1',
+  AFTER_AUGUST_1: 'filed after August 1',
+};
+
+// ---------------------------------------------------------------------------
+// Calendar
+// ---------------------------------------------------------------------------
+
+export interface FormDeadline {
+  formType: FormType;
+  dueDates: FilingDueDates;
+  /** Days from today to the electronic due date; negative once it has passed. */
+  daysUntilDue: number;
+  /** The tier a return filed today would fall in. */
+  penaltyTierToday: PenaltyTier;
+  penalties: PenaltySchedule;
+}
+
+/** Due dates and penalty amounts for every form type in a tax year. */
+export function deadlineCalendar(
+  taxYear: number,
+  formTypes: readonly FormType[],
+  now = new Date(),
+): FormDeadline[] {
+  const today = isoDay(now);
+  return formTypes.map((formType) => {
+    const dueDates = filingDueDates(formType, taxYear);
+    return {
+      formType,
+      dueDates,
+      daysUntilDue: daysBetween(today, dueDates.electronic),
+      penaltyTierToday: penaltyTier(dueDates.electronic, today),
+      penalties: penaltySchedule(taxYear),
+    };
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Submissions
+// ---------------------------------------------------------------------------
+
+export interface SubmissionDeadline {
+  submissionId: string;
+  formType: FormType | null;
+  status: string;
+  createdAt: string;
+  transmittedAt: string | null;
+  dueDate: string | null;
+  timeliness: Timeliness | null;
+  /** Actual tier once transmitted; the tier if transmitted today otherwise. */
+  penaltyTier: PenaltyTier;
+  penaltyPerReturn: number;
+  returns: number;
+  /** penaltyPerReturn × returns. */
+  exposure: number;
+}
+
+/**
+ * On-time status and penalty exposure of one tracked submission, given its
+ * `form_type` (null when its TaxBandits form type isn't registered — then it
+ * has no due date and no exposure).
+ */
+export function submissionDeadline(
+  submission: TaxYearSubmission,
+  formType: FormType | null,
+  now = new Date(),
+): SubmissionDeadline {
+  const base = {
+    submissionId: submission.submissionId,
+    formType,
+    status: submission.status,
+    createdAt: submission.createdAt,
+    transmittedAt: submission.transmittedAt,
+    returns: submission.returns,
+  };
+  if (!formType) {
+    return {
+      ...base,
+      dueDate: null,
+      timeliness: null,
+      penaltyTier: 'NONE',
+      penaltyPerReturn: 0,
+      exposure: 0,
+    };
+  }
+
+  const taxYear = Number(submission.taxYear);
+  const dueDate = filingDueDates(formType, taxYear).electronic;
+  const filedOn = isoDay(submission.transmittedAt ?? now);
+  const tier = penaltyTier(dueDate, filedOn);
+  const perReturn = penaltyPerReturn(tier, taxYear);
+  const late = tier !== 'NONE';
+  return {
+    ...base,
+    dueDate,
+    timeliness: submission.transmittedAt ? (late ? 'LATE' : 'ON_TIME') : late ? 'OVERDUE' : 'DUE',
+    penaltyTier: tier,
+    penaltyPerReturn: perReturn,
+    exposure: perReturn * submission.returns,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+/**
+ * A `warning` when a form is being filed after its due date, with the
+ * per-return penalty it is heading for. Empty when it is on time.
+ */
+export function lateFilingIssues(
+  formType: FormType,
+  data: Pick<Form1099Request, 'tax_year'>,
+  now = new Date(),
+): ValidationIssue[] {
+  const taxYear = formTaxYear(data, now);
+  const dueDate = filingDueDates(formType, taxYear).electronic;
+  const tier = penaltyTier(dueDate, isoDay(now));
+  if (tier === 'NONE') return [];
+  return [
+    {
+      field: 'tax_year',
+      message: `The ${taxYear} ${formType} was due ${dueDate} — filing now is late. IRS penalty: $${penaltyPerReturn(tier, taxYear)} per return (${TIER_LABELS[tier]})`,
+      severity: 'warning',
+    },
+  ];
+}
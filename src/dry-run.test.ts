@@ -0,0 +1,195 @@
+import { describe, it, expect } from 'vitest';
+import { env, createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import { Effect } from 'effect';
+import worker from './index';
+import { dryRunSubmission, lintPayload } from './dry-run';
+import { getFormDefinition } from './forms';
+import { GLOBAL_TENANT } from './tenants';
+import { buildBatchCreateRequest, buildCreateRequest } from './taxbandits';
+import type { Env, Form1099NECRequest, TaxBanditsCreateRequest, ValidationIssue } from './types';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const testEnv = env as unknown as Env;
+
+async function call(path: string, body: unknown) {
+  const ctx = createExecutionContext();
+  const res = await worker.fetch(
+    new Request(`http://localhost${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    }),
+    testEnv,
+    ctx,
+  );
+  await waitOnExecutionContext(ctx);
+  return res;
+}
+
+function necForm(overrides: Partial<Form1099NECRequest> = {}): Form1099NECRequest {
+  return {
+    payer: {
+      name: 'Acme Corp',
+      tin: '27-1234567',
+      tin_type: 'EIN',
+      address: '100 Main St',
+      city: 'New York',
+      state: 'NY',
+      zip_code: '10001',
+      phone: '2125551234',
+      email: 'payroll@acme.com',
+      business_type: 'LLC',
+    },
+    recipient: {
+      first_name: 'Jane',
+      last_name: 'Smith',
+      tin: '412789654',
+      tin_type: 'SSN',
+      address: '200 Oak Ave',
+      city: 'Austin',
+      state: 'TX',
+      zip_code: '78701',
+    },
+    nonemployee_compensation: 5000,
+    is_federal_tax_withheld: false,
+    is_state_filing: false,
+    tax_year: '2024',
+    ...overrides,
+  };
+}
+
+const fields = (issues: ValidationIssue[]) => issues.map((i) => i.field);
+
+// ---------------------------------------------------------------------------
+// lintPayload()
+// ---------------------------------------------------------------------------
+describe('lintPayload', () => {
+  it('passes a payload built from a valid form', () => {
+    expect(lintPayload(buildCreateRequest(necForm()))).toEqual([]);
+  });
+
+  it('flags fields TaxBandits limits more tightly than our schemas', () => {
+    const form = necForm();
+    form.recipient.address = 'Suite 400, 1234 Extremely Long Industrial Parkway North';
+    form.payer.name = 'A'.repeat(80);
+    const issues = lintPayload(buildCreateRequest(form));
+    expect(fields(issues)).toEqual([
+      'ReturnHeader.Business.BusinessNm',
+      'ReturnData[0].Recipient.USAddress.Address1',
+    ]);
+    expect(issues[1]).toMatchObject({
+      severity: 'error',
+      message: 'ReturnData[0].Recipient.USAddress.Address1 exceeds 46 characters (55)',
+    });
+  });
+
+  it('checks TINs, phone, amounts, state codes and the record count', () => {
+    const payload = buildCreateRequest(
+      necForm({
+        is_state_filing: true,
+        states: [{ state: 'ca', state_income: 5000 }],
+      }),
+    ) as TaxBanditsCreateRequest;
+    payload.ReturnHeader.Business.Phone = '555123';
+    payload.ReturnData[0]!.Recipient.TIN = '12345';
+    payload.ReturnData[0]!.NECFormData.B1NEC = '-5.00';
+    expect(fields(lintPayload(payload))).toEqual([
+      'ReturnHeader.Business.Phone',
+      'ReturnData[0].Recipient.TIN',
+      'ReturnData[0].NECFormData.B1NEC',
+      'ReturnData[0].NECFormData.States[0].StateCd',
+    ]);
+
+    const oversized = buildBatchCreateRequest(Array.from({ length: 101 }, () => necForm()));
+    expect(fields(lintPayload(oversized))).toEqual(['ReturnData']);
+  });
+
+  it('never echoes the values it rejects', () => {
+    const payload = buildCreateRequest(necForm());
+    payload.ReturnData[0]!.Recipient.TIN = '41278965';
+    expect(JSON.stringify(lintPayload(payload))).not.toContain('41278965');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// dryRunSubmission()
+// ---------------------------------------------------------------------------
+describe('dryRunSubmission', () => {
+  it('returns the built payload with every TIN masked', async () => {
+    const { payload, issues } = await Effect.runPromise(
+      dryRunSubmission(testEnv, GLOBAL_TENANT, getFormDefinition('1099-NEC'), [necForm()]),
+    );
+    expect(issues).toEqual([]);
+    expect(payload.ReturnHeader.Business.EINorSSN).toBe('*****4567');
+    expect(payload.ReturnData[0]?.Recipient.TIN).toBe('*****9654');
+    expect(JSON.stringify(payload)).toContain('"B1NEC":"5000.00"');
+  });
+
+  it('masks only the TIN fields', async () => {
+    const form = necForm();
+    form.recipient.zip_code = '787011234';
+    const { payload } = await Effect.runPromise(
+      dryRunSubmission(testEnv, GLOBAL_TENANT, getFormDefinition('1099-NEC'), [form]),
+    );
+    expect(payload.ReturnData[0]?.Recipient.TIN).toBe('*****9654');
+    expect(JSON.stringify(payload)).toContain('"ZipCd":"787011234"');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// ?dry_run=true on /file and /file/batch (HTTP)
+// ---------------------------------------------------------------------------
+describe('dry runs (HTTP)', () => {
+  it('answers /file with the masked payload instead of filing', async () => {
+    const res = await call('/file?dry_run=true', necForm());
+    expect(res.status).toBe(200);
+    const text = await res.text();
+    expect(text).not.toContain('412789654');
+    const { data } = JSON.parse(text) as {
+      data: {
+        dry_run: boolean;
+        would_file: boolean;
+        validation: { valid: boolean };
+        payload: TaxBanditsCreateRequest;
+        payload_issues: ValidationIssue[];
+      };
+    };
+    expect(data.dry_run).toBe(true);
+    expect(data.payload.ReturnData[0]?.Recipient.TIN).toBe('*****9654');
+    expect(data.payload_issues).toEqual([]);
+    expect(data.would_file).toBe(data.validation.valid);
+  });
+
+  it('answers /file/batch with one payload per payer', async () => {
+    const other = necForm();
+    other.payer = { ...other.payer, name: 'Globex', tin: '98-7654321' };
+    const res = await call('/file/batch?dry_run=true', {
+      forms: [necForm(), other, necForm({ nonemployee_compensation: 750 })],
+    });
+    expect(res.status).toBe(200);
+    const { data } = await res.json<{
+      data: {
+        submissions: Array<{
+          payer: { name: string; tin: string };
+          form_indexes: number[];
+          payload: TaxBanditsCreateRequest;
+        }>;
+      };
+    }>();
+    expect(data.submissions.map((s) => [s.payer, s.form_indexes])).toEqual([
+      [{ name: 'Acme Corp', tin: '***4567' }, [0, 2]],
+      [{ name: 'Globex', tin: '***4321' }, [1]],
+    ]);
+    expect(data.submissions[0]?.payload.ReturnData).toHaveLength(2);
+  });
+
+  it('rejects dry_run with async or tin_match', async () => {
+    expect((await call('/file?dry_run=true&async=true', necForm())).status).toBe(400);
+    expect(
+      (await call('/file/batch?dry_run=true&tin_match=true', { forms: [necForm()] })).status,
+    ).toBe(400);
+  });
+});
@@ -0,0 +1,189 @@
+import { Effect } from 'effect';
+import type {
+  Env,
+  Form1099Request,
+  TINVaultError,
+  TaxBanditsAddressBlock,
+  TaxBanditsCreateRequest,
+  ValidationIssue,
+} from './types';
+import type { FormDefinition } from './forms';
+import { revealTINs } from './vault';
+
+// ============================================================
+// Dry runs — the exact TaxBandits payload, built but never sent
+//
+// `?dry_run=true` on /file and /file/batch stops after validation and
+// payload building. The payload is linted against TaxBandits' own field
+// constraints (which are tighter than our request schemas in places, e.g.
+// address lengths) and returned with every TIN masked.
+// ============================================================
+
+/** TaxBandits Create field limits (API v1.7.3) that our request schemas don't enforce. */
+const LIMITS = {
+  businessName: 75,
+  payeeName: 75,
+  address: 46,
+  city: 50,
+  email: 100,
+  postalCode: 15,
+  recordsPerSubmission: 100,
+} as const;
+
+const TIN_TYPES = ['SSN', 'EIN', 'ITIN', 'ATIN'];
+const AMOUNT = /^\d{1,12}\.\d{2}$/;
+
+/** What a dry run would have sent for one submission. */
+export interface DryRunPayload {
+  payload: TaxBanditsCreateRequest<object>; // TINs masked
+  issues: ValidationIssue[]; // payload lint; `error`s would be rejected by TaxBandits
+}
+
+type Check = (field: string, ok: boolean, message: string) => void;
+
+function lintText(check: Check, field: string, value: string | undefined, max: number): void {
+  check(field, !!value && value.trim().length > 0, 'is required');
+  if (value) check(field, value.length <= max, `exceeds ${max} characters (${value.length})`);
+}
+
+function lintAddress(check: Check, path: string, block: TaxBanditsAddressBlock): void {
+  if (block.IsForeignAddress) {
+    const foreign = block.ForeignAddress;
+    lintText(check, `${path}.ForeignAddress.Address1`, foreign.Address1, LIMITS.address);
+    if (foreign.Address2) {
+      lintText(check, `${path}.ForeignAddress.Address2`, foreign.Address2, LIMITS.address);
+    }
+    lintText(check, `${path}.ForeignAddress.City`, foreign.City, LIMITS.city);
+    check(
+      `${path}.ForeignAddress.Country`,
+      /^[A-Z]{2}$/.test(foreign.Country),
+      'must be a 2-letter country code',
+    );
+    if (foreign.PostalCd) {
+      lintText(check, `${path}.ForeignAddress.PostalCd`, foreign.PostalCd, LIMITS.postalCode);
+    }
+    return;
+  }
+  const us = block.USAddress;
+  lintText(check, `${path}.USAddress.Address1`, us.Address1, LIMITS.address);
+  lintText(check, `${path}.USAddress.City`, us.City, LIMITS.city);
+  check(`${path}.USAddress.State`, /^[A-Z]{2}$/.test(us.State), 'must be a 2-letter state code');
+  check(`${path}.USAddress.ZipCd`, /^\d{5}(-?\d{4})?$/.test(us.ZipCd), 'must be 5 or 9 digits');
+}
+
+/** Every dollar amount in a record's form data block (`B1NEC`, `States[].StateIncome`, ...). */
+function lintAmounts(check: Check, path: string, value: unknown): void {
+  if (Array.isArray(value)) {
+    value.forEach((item, i) => lintAmounts(check, `${path}[${i}]`, item));
+    return;
+  }
+  if (typeof value !== 'object' || value === null) return;
+  for (const [key, field] of Object.entries(value)) {
+    const isAmount = /^B\d+/.test(key) || key === 'StateIncome' || key === 'StateTaxWithheld';
+    if (isAmount && typeof field === 'string') {
+      check(`${path}.${key}`, AMOUNT.test(field), 'must be a non-negative amount like 1234.56');
+    } else if (key === 'StateCd' && typeof field === 'string') {
+      check(`${path}.${key}`, /^[A-Z]{2}$/.test(field), 'must be a 2-letter state code');
+    } else {
+      lintAmounts(check, `${path}.${key}`, field);
+    }
+  }
+}
+
+/**
+ * Check a Create payload against TaxBandits field constraints. Run it on the
+ * unmasked payload — TIN checks need the digits — but messages never echo
+ * field values, so the issues are safe to return.
+ */
+export function lintPayload(payload: TaxBanditsCreateRequest<object>): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const check: Check = (field, ok, message) => {
+    if (!ok) issues.push({ field, message: `${field} ${message}`, severity: 'error' });
+  };
+
+  check(
+    'SubmissionManifest.TaxYear',
+    /^\d{4}$/.test(payload.SubmissionManifest.TaxYear),
+    'must be a 4-digit year',
+  );
+
+  const business = payload.ReturnHeader.Business;
+  const header = 'ReturnHeader.Business';
+  lintText(check, `${header}.BusinessNm`, business.BusinessNm, LIMITS.businessName);
+  check(`${header}.EINorSSN`, /^\d{9}$/.test(business.EINorSSN), 'must be 9 digits');
+  check(`${header}.Phone`, /^\d{10}$/.test(business.Phone), 'must be 10 digits');
+  lintText(check, `${header}.Email`, business.Email, LIMITS.email);
+  lintAddress(check, header, business);
+
+  const records = payload.ReturnData;
+  check(
+    'ReturnData',
+    records.length >= 1 && records.length <= LIMITS.recordsPerSubmission,
+    `must hold 1 to ${LIMITS.recordsPerSubmission} records (${records.length})`,
+  );
+  records.forEach((record, i) => {
+    const path = `ReturnData[${i}]`;
+    const recipient = record.Recipient;
+    check(`${path}.Recipient.TIN`, /^\d{9}$/.test(recipient.TIN), 'must be 9 digits');
+    check(
+      `${path}.Recipient.TINType`,
+      TIN_TYPES.includes(recipient.TINType),
+      `must be one of ${TIN_TYPES.join(', ')}`,
+    );
+    lintText(check, `${path}.Recipient.FirstPayeeNm`, recipient.FirstPayeeNm, LIMITS.payeeName);
+    lintAddress(check, `${path}.Recipient`, recipient);
+    for (const [key, block] of Object.entries(record)) {
+      if (key.endsWith('FormData')) lintAmounts(check, `${path}.${key}`, block);
+    }
+  });
+  return issues;
+}
+
+/** Digits-only payload TIN with all but the last four digits masked. */
+function maskPayloadTIN(tin: string): string {
+  return `*****${tin.slice(-4)}`;
+}
+
+/**
+ * Copy of `payload` with the payer and recipient TINs masked. Only the TIN
+ * fields are touched — a pattern scrub over the whole payload would also mask
+ * nine-digit ZIP+4 codes and phone-like values.
+ */
+function maskPayloadTINs(
+  payload: TaxBanditsCreateRequest<object>,
+): TaxBanditsCreateRequest<object> {
+  const business = payload.ReturnHeader.Business;
+  return {
+    ...payload,
+    ReturnHeader: {
+      ...payload.ReturnHeader,
+      Business: { ...business, EINorSSN: maskPayloadTIN(business.EINorSSN) },
+    },
+    ReturnData: payload.ReturnData.map((record) => ({
+      ...record,
+      Recipient: { ...record.Recipient, TIN: maskPayloadTIN(record.Recipient.TIN) },
+    })),
+  };
+}
+
+/**
+ * Build the payload `createSubmission` would send for `forms` (one payer),
+ * lint it, and mask its TINs. `tenant`'s vaulted TINs are revealed to build
+ * it, exactly as for a real filing.
+ */
+export function dryRunSubmission<T extends Form1099Request>(
+  env: Env,
+  tenant: string,
+  form: FormDefinition<T>,
+  forms: T[],
+): Effect.Effect<DryRunPayload, TINVaultError> {
+  return revealTINs(env, tenant, forms).pipe(
+    Effect.map((revealed) => {
+      const payload = form.buildPayload(revealed);
+      return {
+        payload: maskPayloadTINs(payload),
+        issues: lintPayload(payload),
+      };
+    }),
+  );
+}
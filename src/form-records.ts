@@ -0,0 +1,115 @@
+import { Effect } from 'effect';
+import type { Env, Form1099Request, TaxBanditsCreateResponse, ValidationResult } from './types';
+import type { FormDefinition } from './forms';
+import { maskTIN } from './pii';
+import { tinLast4, vaultFormTINs } from './vault';
+import { toRecordErrors, type FormRecordInput } from './webhook-state';
+import { NO_OWNER, type SubmissionOwner } from './outbound-webhooks';
+import { registerSubmission, tenantOf, tenantState } from './tenants';
+import { recipientFilings } from './recipients';
+import { formTaxYear } from './tax-year-rules';
+
+// ============================================================
+// Form records — what a created submission leaves in WebhookState
+//
+// Shared by the synchronous filing routes and bulk filing jobs.
+// ============================================================
+
+/**
+ * One stored record per form TaxBandits returned, with its validation result.
+ * FormRecords come back in submission order; records rejected at create have
+ * no RecordId but are kept so the rejection is visible.
+ */
+export function toFormRecords<T extends Form1099Request>(
+  form: FormDefinition<T>,
+  created: TaxBanditsCreateResponse,
+  forms: T[],
+  validations: ValidationResult[],
+): FormRecordInput[] {
+  return (created.FormRecords ?? []).flatMap((record, i) => {
+    const data = forms[i];
+    if (!data) return [];
+    return [
+      {
+        sequence: Number(record.Sequence) || i + 1,
+        recordId: record.RecordId || null,
+        recipientName: `${data.recipient.first_name} ${data.recipient.last_name}`,
+        recipientTin: maskTIN(tinLast4(data.recipient)),
+        amount: form.federalAmount(data),
+        federalTaxWithheld: data.is_federal_tax_withheld ? (data.federal_tax_withheld ?? 0) : 0,
+        status: record.RecordStatus?.toUpperCase() || 'CREATED',
+        validationIssues: validations[i]?.issues ?? [],
+        errors: toRecordErrors(record.Errors),
+        data,
+      },
+    ];
+  });
+}
+
+/**
+ * Store the records of a created submission (or correction) in `owner`'s
+ * WebhookState, and the amounts of forms filed from the recipient directory.
+ * Payer and recipient TINs are swapped for vault tokens first, or masked
+ * when the vault is not configured.
+ */
+export function persistFormRecords<T extends Form1099Request>(
+  env: Env,
+  form: FormDefinition<T>,
+  created: TaxBanditsCreateResponse,
+  forms: T[],
+  validations: ValidationResult[],
+  corrected: boolean = false,
+  owner: SubmissionOwner = NO_OWNER,
+) {
+  const ns = env.WEBHOOK_STATE;
+  if (!ns || !created.SubmissionId) return Effect.void;
+  const tenant = tenantOf(owner);
+  const stub = tenantState(ns, tenant);
+  const filings = recipientFilings(form, created, forms);
+  return vaultFormTINs(env, tenant, forms).pipe(
+    Effect.flatMap((stored) =>
+      Effect.promise(() =>
+        stub.storeFormRecords(
+          created.SubmissionId,
+          form.taxBanditsFormType,
+          toFormRecords(form, created, stored, validations),
+          corrected,
+        ),
+      ),
+    ),
+    Effect.zipRight(
+      filings.length > 0 ? Effect.promise(() => stub.recordRecipientFilings(filings)) : Effect.void,
+    ),
+  );
+}
+
+/**
+ * Track a newly created submission in `owner`'s tenant for webhook updates,
+ * store its form records and raise submission.created for `owner`'s
+ * endpoints. A no-op without WEBHOOK_STATE or a SubmissionId.
+ */
+export function recordSubmission<T extends Form1099Request>(
+  env: Env,
+  form: FormDefinition<T>,
+  created: TaxBanditsCreateResponse,
+  forms: T[],
+  validations: ValidationResult[],
+  owner: SubmissionOwner = NO_OWNER,
+) {
+  const ns = env.WEBHOOK_STATE;
+  if (!ns || !created.SubmissionId) return Effect.void;
+  const tenant = tenantOf(owner);
+  const stub = tenantState(ns, tenant);
+  return Effect.promise(() =>
+    stub.trackSubmission(
+      created.SubmissionId,
+      form.taxBanditsFormType,
+      owner,
+      forms[0] ? String(formTaxYear(forms[0])) : null,
+    ),
+  ).pipe(
+    Effect.zipRight(Effect.promise(() => registerSubmission(ns, created.SubmissionId, tenant))),
+    Effect.zipRight(persistFormRecords(env, form, created, forms, validations, false, owner)),
+    Effect.zipRight(Effect.promise(() => stub.announceSubmission(created.SubmissionId))),
+  );
+}
@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest';
+import {
+  FORM_REGISTRY,
+  formDefinitionFor,
+  formTypeFromTaxBandits,
+  getFormDefinition,
+  parseBatchBody,
+  parseFormBody,
+} from './forms';
+import type { Form1099MISCRequest, Form1099NECRequest } from './types';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const PAYER = {
+  name: 'Acme Corp',
+  tin: '27-1234567',
+  address: '100 Main St',
+  city: 'New York',
+  state: 'NY',
+  zip_code: '10001',
+  phone: '2125551234',
+  email: 'payroll@acme.com',
+};
+
+const RECIPIENT = {
+  first_name: 'Jane',
+  last_name: 'Smith',
+  tin: '412789654',
+  tin_type: 'SSN',
+  address: '200 Oak Ave',
+  city: 'Austin',
+  state: 'TX',
+  zip_code: '78701',
+};
+
+const NEC_BODY = {
+  payer: PAYER,
+  recipient: RECIPIENT,
+  nonemployee_compensation: 5000,
+  is_federal_tax_withheld: false,
+  is_state_filing: false,
+  tax_year: '2025',
+};
+
+const MISC_BODY = {
+  form_type: '1099-MISC',
+  payer: PAYER,
+  recipient: RECIPIENT,
+  rents: 12000,
+  is_federal_tax_withheld: false,
+  is_state_filing: false,
+  tax_year: '2025',
+};
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+describe('FORM_REGISTRY', () => {
+  it('registers every form type with its own TaxBandits paths', () => {
+    for (const [formType, form] of Object.entries(FORM_REGISTRY)) {
+      expect(form.formType).toBe(formType);
+      const prefix = `/Form${formType.replace('-', '')}`;
+      expect(form.paths.create).toBe(`${prefix}/Create`);
+      expect(form.paths.transmit).toBe(`${prefix}/Transmit`);
+      expect(form.paths.status).toBe(`${prefix}/Status`);
+    }
+  });
+
+  it('formDefinitionFor defaults to 1099-NEC', () => {
+    const parsed = parseFormBody(NEC_BODY);
+    if (!parsed.success) throw new Error('expected success');
+    expect(formDefinitionFor(parsed.data).formType).toBe('1099-NEC');
+  });
+
+  it('maps TaxBandits FormType identifiers back to form_type', () => {
+    expect(formTypeFromTaxBandits('FORM1099MISC')).toBe('1099-MISC');
+    expect(formTypeFromTaxBandits('Form1099NEC')).toBe('1099-NEC');
+    expect(formTypeFromTaxBandits('FORMW2')).toBeNull();
+  });
+
+  it('dispatches structural rules per form type', () => {
+    const misc = getFormDefinition('1099-MISC');
+    const issues = misc.structuralRules({
+      ...(MISC_BODY as unknown as Form1099MISCRequest),
+      rents: undefined,
+    });
+    expect(issues.some((i) => i.message.includes('1099-MISC'))).toBe(true);
+  });
+
+  it('dispatches payload builders per form type', () => {
+    const nec = getFormDefinition('1099-NEC').buildPayload([
+      NEC_BODY as unknown as Form1099NECRequest,
+    ]);
+    const misc = getFormDefinition('1099-MISC').buildPayload([
+      MISC_BODY as unknown as Form1099MISCRequest,
+    ]);
+    expect(nec.ReturnData[0]).toHaveProperty('NECFormData');
+    expect(misc.ReturnData[0]).toHaveProperty('MISCFormData');
+  });
+
+  it('totals the federal amount per form type', () => {
+    expect(
+      getFormDefinition('1099-NEC').federalAmount(NEC_BODY as unknown as Form1099NECRequest),
+    ).toBe((NEC_BODY as unknown as Form1099NECRequest).nonemployee_compensation);
+    const misc = { ...(MISC_BODY as unknown as Form1099MISCRequest), rents: 1000, royalties: 250 };
+    expect(getFormDefinition('1099-MISC').federalAmount(misc)).toBe(1250);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Body parsing
+// ---------------------------------------------------------------------------
+describe('parseFormBody', () => {
+  it('parses a 1099-NEC body without form_type', () => {
+    const parsed = parseFormBody(NEC_BODY);
+    expect(parsed.success).toBe(true);
+    if (parsed.success) {
+      expect(parsed.form.formType).toBe('1099-NEC');
+      expect(parsed.data.form_type).toBe('1099-NEC');
+    }
+  });
+
+  it('parses a 1099-MISC body with the MISC schema', () => {
+    const parsed = parseFormBody(MISC_BODY);
+    expect(parsed.success).toBe(true);
+    if (parsed.success) expect(parsed.form.formType).toBe('1099-MISC');
+  });
+
+  it('rejects unknown form types', () => {
+    expect(parseFormBody({ ...NEC_BODY, form_type: '1099-K' }).success).toBe(false);
+  });
+
+  it('rejects non-object bodies', () => {
+    expect(parseFormBody(null).success).toBe(false);
+  });
+});
+
+describe('parseBatchBody', () => {
+  it('parses forms of the body-level form_type', () => {
+    const parsed = parseBatchBody({ form_type: '1099-MISC', forms: [MISC_BODY, MISC_BODY] }, 100);
+    expect(parsed.success).toBe(true);
+    if (parsed.success) expect(parsed.data).toHaveLength(2);
+  });
+
+  it('rejects forms that do not match the batch form_type', () => {
+    const parsed = parseBatchBody({ forms: [NEC_BODY, MISC_BODY] }, 100);
+    expect(parsed.success).toBe(false);
+  });
+
+  it('enforces the max batch size', () => {
+    expect(parseBatchBody({ forms: [NEC_BODY, NEC_BODY] }, 1).success).toBe(false);
+  });
+});
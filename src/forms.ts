@@ -0,0 +1,177 @@
+import { z } from 'zod';
+import type {
+  FormType,
+  Form1099NECRequest,
+  Form1099MISCRequest,
+  Form1099Request,
+  CorrectionTarget,
+  TaxBanditsCreateRequest,
+  ValidationIssue,
+} from './types';
+import {
+  runStructuralValidations,
+  runMISCStructuralValidations,
+  buildValidationPrompt,
+  buildMISCValidationPrompt,
+  runCorrectionStructuralValidations,
+  buildCorrectionValidationPrompt,
+} from './agent';
+import {
+  buildBatchCreateRequest,
+  buildBatchMISCCreateRequest,
+  buildCorrectionRequest,
+  miscTotal,
+} from './taxbandits';
+import { Form1099NECSchema, Form1099MISCSchema } from './schemas';
+import type { RecipientFiling } from './webhook-state';
+
+// ============================================================
+// Form-type registry
+//
+// Every information return the service can file is described by one
+// FormDefinition. Routes, validation and the TaxBandits client dispatch on
+// `form_type` through this registry, so adding a form means adding a type,
+// a schema, rules/prompt/payload functions and one entry below.
+// ============================================================
+
+export interface FormDefinition<T extends Form1099Request = Form1099Request> {
+  /** Public `form_type` value, e.g. '1099-NEC'. */
+  readonly formType: FormType;
+  /** TaxBandits FormType identifier used in webhooks and submission tracking. */
+  readonly taxBanditsFormType: string;
+  /** Zod schema for a single form body. */
+  readonly schema: z.ZodType<T>;
+  /** TaxBandits endpoint paths (relative to the API version root). */
+  readonly paths: { create: string; transmit: string; status: string };
+  /** Whether `validateForm` warns when filing after the due date — originals yes, corrections no. */
+  readonly checksDeadline: boolean;
+  /** Pure structural checks — run before AI review. */
+  structuralRules(data: T): ValidationIssue[];
+  /** Prompt for the Workers AI semantic review, with the recipient's prior-year amounts if known. */
+  buildPrompt(data: T, priorYears?: readonly RecipientFiling[]): string;
+  /** TaxBandits Create payload for one submission (all forms share a payer). */
+  buildPayload(forms: T[]): TaxBanditsCreateRequest<object>;
+  /** Total reportable amount across the form's federal boxes. */
+  federalAmount(data: T): number;
+}
+
+const form1099NEC: FormDefinition<Form1099NECRequest> = {
+  formType: '1099-NEC',
+  taxBanditsFormType: 'FORM1099NEC',
+  schema: Form1099NECSchema,
+  paths: {
+    create: '/Form1099NEC/Create',
+    transmit: '/Form1099NEC/Transmit',
+    status: '/Form1099NEC/Status',
+  },
+  checksDeadline: true,
+  structuralRules: runStructuralValidations,
+  buildPrompt: buildValidationPrompt,
+  buildPayload: buildBatchCreateRequest,
+  federalAmount: (data) => data.nonemployee_compensation,
+};
+
+const form1099MISC: FormDefinition<Form1099MISCRequest> = {
+  formType: '1099-MISC',
+  taxBanditsFormType: 'FORM1099MISC',
+  schema: Form1099MISCSchema,
+  paths: {
+    create: '/Form1099MISC/Create',
+    transmit: '/Form1099MISC/Transmit',
+    status: '/Form1099MISC/Status',
+  },
+  checksDeadline: true,
+  structuralRules: runMISCStructuralValidations,
+  buildPrompt: buildMISCValidationPrompt,
+  buildPayload: buildBatchMISCCreateRequest,
+  federalAmount: miscTotal,
+};
+
+export const FORM_REGISTRY: Record<FormType, FormDefinition> = {
+  '1099-NEC': form1099NEC,
+  '1099-MISC': form1099MISC,
+};
+
+export const DEFAULT_FORM_TYPE: FormType = '1099-NEC';
+
+export const FormTypeSchema = z.enum(Object.keys(FORM_REGISTRY) as [FormType, ...FormType[]]);
+
+/** Look up a form definition by `form_type`. */
+export function getFormDefinition(formType: FormType): FormDefinition {
+  return FORM_REGISTRY[formType];
+}
+
+/** Form definition for a parsed form (omitted `form_type` → 1099-NEC). */
+export function formDefinitionFor(data: Form1099Request): FormDefinition {
+  return FORM_REGISTRY[data.form_type ?? DEFAULT_FORM_TYPE];
+}
+
+/** Map a TaxBandits FormType (e.g. 'FORM1099MISC') back to our `form_type`. */
+export function formTypeFromTaxBandits(taxBanditsFormType: string): FormType | null {
+  const match = Object.values(FORM_REGISTRY).find(
+    (f) => f.taxBanditsFormType === taxBanditsFormType.toUpperCase(),
+  );
+  return match?.formType ?? null;
+}
+
+/**
+ * A 1099-NEC correction or void, bound to the transmitted record it replaces.
+ * Validated and submitted like any other form, but with correction-aware
+ * rules and prompt, and posted to the Correct endpoint instead of Create.
+ */
+export function correctionFormDefinition(
+  target: CorrectionTarget,
+): FormDefinition<Form1099NECRequest> {
+  return {
+    ...form1099NEC,
+    paths: { ...form1099NEC.paths, create: '/Form1099NEC/Correct' },
+    checksDeadline: false,
+    structuralRules: (data) => runCorrectionStructuralValidations(data, target),
+    buildPrompt: (data) => buildCorrectionValidationPrompt(data, target),
+    buildPayload: (forms) => {
+      const [data] = forms;
+      if (!data || forms.length > 1) throw new Error('A correction replaces exactly one record');
+      return buildCorrectionRequest(data, target);
+    },
+  };
+}
+
+// ============================================================
+// Body parsing — dispatch on `form_type`
+// ============================================================
+
+export type ParsedForms<T> =
+  | { success: true; form: FormDefinition; data: T }
+  | { success: false; error: z.ZodError };
+
+function readFormType(raw: unknown): unknown {
+  return raw && typeof raw === 'object' ? (raw as { form_type?: unknown }).form_type : undefined;
+}
+
+/** Parse a single-form body. */
+export function parseFormBody(raw: unknown): ParsedForms<Form1099Request> {
+  const formType = FormTypeSchema.default(DEFAULT_FORM_TYPE).safeParse(readFormType(raw));
+  if (!formType.success) return { success: false, error: formType.error };
+  const form = getFormDefinition(formType.data);
+  const parsed = form.schema.safeParse(raw);
+  if (!parsed.success) return { success: false, error: parsed.error };
+  return { success: true, form, data: parsed.data };
+}
+
+/**
+ * Parse a batch body: `{ form_type?, forms: [...] }`. Every form in a batch
+ * must match the body-level `form_type` since they share one submission.
+ */
+export function parseBatchBody(raw: unknown, maxForms: number): ParsedForms<Form1099Request[]> {
+  const formType = FormTypeSchema.default(DEFAULT_FORM_TYPE).safeParse(readFormType(raw));
+  if (!formType.success) return { success: false, error: formType.error };
+  const form = getFormDefinition(formType.data);
+  const parsed = z
+    .object({
+      form_type: FormTypeSchema.optional(),
+      forms: z.array(form.schema).min(1).max(maxForms),
+    })
+    .safeParse(raw);
+  if (!parsed.success) return { success: false, error: parsed.error };
+  return { success: true, form, data: parsed.data.forms };
+}
@@ -1,5 +1,8 @@
-import { describe, it, expect, beforeAll } from 'vitest';
-import { SELF, env } from 'cloudflare:test';
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { SELF, createExecutionContext, env, waitOnExecutionContext } from 'cloudflare:test';
+import worker from './index';
+import type { Env, Form1099Request } from './types';
+import type { FormRecordInput } from './webhook-state';
 
 // ---------------------------------------------------------------------------
 // Test fixtures
@@ -39,6 +42,27 @@ function validBody(overrides: Record<string, unknown> = {}) {
   };
 }
 
+/** A WebhookState form record for seeding the Durable Object directly. */
+function storedRecord(
+  recordId: string | null,
+  data: Form1099Request = validBody(),
+  overrides: Partial<FormRecordInput> = {},
+): FormRecordInput {
+  return {
+    sequence: 1,
+    recordId,
+    recipientName: `${data.recipient.first_name} ${data.recipient.last_name}`,
+    recipientTin: '***9654',
+    amount: 5000,
+    federalTaxWithheld: 0,
+    status: 'CREATED',
+    validationIssues: [],
+    errors: [],
+    data,
+    ...overrides,
+  };
+}
+
 // Helper to get auth header (dev mode if TAX_AGENT_API_KEY not set)
 function authHeader(): Record<string, string> {
   const key = (env as Record<string, string>).TAX_AGENT_API_KEY;
@@ -264,6 +288,60 @@ describe('POST /validate — Zod validation', () => {
     expect(res.status).not.toBe(400);
   });
 
+  it('accepts a foreign recipient address in place of US fields', async () => {
+    const res = await SELF.fetch('http://localhost/validate', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeader() },
+      body: JSON.stringify(
+        validBody({
+          recipient: {
+            first_name: 'Amélie',
+            last_name: 'Roy',
+            tin: '412789654',
+            tin_type: 'SSN',
+            foreign_address: {
+              address_line1: '1200 Rue Sherbrooke O',
+              city: 'Montréal',
+              postal_code: 'H3A 1H6',
+              country: 'CA',
+            },
+          },
+        }),
+      ),
+    });
+    expect(res.status).not.toBe(400);
+  });
+
+  it('rejects a recipient with neither US nor foreign address', async () => {
+    const { address: _a, city: _c, state: _s, zip_code: _z, ...noAddress } = VALID_RECIPIENT;
+    const res = await SELF.fetch('http://localhost/validate', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeader() },
+      body: JSON.stringify(validBody({ recipient: noAddress })),
+    });
+    expect(res.status).toBe(400);
+  });
+
+  it('rejects a foreign address with country US', async () => {
+    const res = await SELF.fetch('http://localhost/validate', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeader() },
+      body: JSON.stringify(
+        validBody({
+          payer: {
+            ...VALID_PAYER,
+            address: undefined,
+            city: undefined,
+            state: undefined,
+            zip_code: undefined,
+            foreign_address: { address_line1: '1 Main St', city: 'Boston', country: 'US' },
+          },
+        }),
+      ),
+    });
+    expect(res.status).toBe(400);
+  });
+
   it('defaults business_type to LLC when not provided', async () => {
     // Valid body without business_type — should pass Zod with default
     const res = await SELF.fetch('http://localhost/validate', {
@@ -331,6 +409,54 @@ describe('POST /validate — structural checks', () => {
     }
   });
 
+  it('rejects states[] combined with the single state field', async () => {
+    const res = await SELF.fetch('http://localhost/validate', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeader() },
+      body: JSON.stringify(
+        validBody({ is_state_filing: true, state: 'CA', states: [{ state: 'NY' }] }),
+      ),
+    });
+    expect(res.status).toBe(400);
+  });
+
+  it('rejects more than two state lines', async () => {
+    const res = await SELF.fetch('http://localhost/validate', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeader() },
+      body: JSON.stringify(
+        validBody({
+          is_state_filing: true,
+          states: [{ state: 'CA' }, { state: 'OR' }, { state: 'GA' }],
+        }),
+      ),
+    });
+    expect(res.status).toBe(400);
+  });
+
+  it('runs state rule packs on each state line', async () => {
+    const res = await SELF.fetch('http://localhost/validate', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeader() },
+      body: JSON.stringify(
+        validBody({
+          is_state_filing: true,
+          states: [
+            { state: 'CA', state_income: 3000 },
+            { state: 'TX', state_income: 2000, state_tax_withheld: 100 },
+          ],
+        }),
+      ),
+    });
+    const body = (await res.json()) as {
+      data: { valid: boolean; issues: Array<{ field: string; severity: string }> };
+    };
+    expect(body.data.valid).toBe(false);
+    expect(body.data.issues).toContainEqual(
+      expect.objectContaining({ field: 'states[1].state_tax_withheld', severity: 'error' }),
+    );
+  });
+
   it('warns when state filing without state_income', async () => {
     const res = await SELF.fetch('http://localhost/validate', {
       method: 'POST',
@@ -426,6 +552,475 @@ describe('GET /status/:id — UUID param validation', () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// 1099-MISC — form_type dispatch
+// ---------------------------------------------------------------------------
+describe('1099-MISC routes', () => {
+  function miscBody(overrides: Record<string, unknown> = {}) {
+    return {
+      form_type: '1099-MISC',
+      payer: VALID_PAYER,
+      recipient: VALID_RECIPIENT,
+      rents: 12000,
+      is_federal_tax_withheld: false,
+      is_state_filing: false,
+      tax_year: '2024',
+      ...overrides,
+    };
+  }
+
+  it('accepts a valid 1099-MISC body on /validate', async () => {
+    const res = await SELF.fetch('http://localhost/validate', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeader() },
+      body: JSON.stringify(miscBody()),
+    });
+    expect(res.status).not.toBe(400);
+  });
+
+  it('validates 1099-MISC boxes with the MISC schema', async () => {
+    const res = await SELF.fetch('http://localhost/validate', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeader() },
+      body: JSON.stringify(miscBody({ royalties: -10 })),
+    });
+    expect(res.status).toBe(400);
+  });
+
+  it('rejects unknown form_type', async () => {
+    const res = await SELF.fetch('http://localhost/validate', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeader() },
+      body: JSON.stringify(validBody({ form_type: '1099-K' })),
+    });
+    expect(res.status).toBe(400);
+  });
+
+  it('rejects mixed form types in a batch', async () => {
+    const res = await SELF.fetch('http://localhost/file/batch', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeader() },
+      body: JSON.stringify({
+        form_type: '1099-MISC',
+        forms: [miscBody(), validBody({ form_type: '1099-NEC' })],
+      }),
+    });
+    expect(res.status).toBe(400);
+  });
+
+  it('rejects invalid form_type on /status', async () => {
+    const res = await SELF.fetch(
+      'http://localhost/status/00000000-0000-0000-0000-000000000000?form_type=W2',
+      { headers: authHeader() },
+    );
+    expect(res.status).toBe(400);
+    const body = (await res.json()) as { error: string };
+    expect(body.error).toContain('form_type');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// POST /correct & /void — corrections to transmitted records
+// ---------------------------------------------------------------------------
+describe('POST /correct and /void', () => {
+  const SUBMISSION_ID = '0b7f3a4e-1c2d-4e5f-8a9b-0c1d2e3f4a5b';
+  const RECORD_ID = '9e8d7c6b-5a4f-4e3d-8c2b-1a0f9e8d7c6b';
+
+  function stub() {
+    const ns = (env as unknown as Env).WEBHOOK_STATE!;
+    return ns.get(ns.idFromName('global'));
+  }
+
+  beforeAll(async () => {
+    await stub().trackSubmission(SUBMISSION_ID, 'FORM1099NEC');
+    await stub().markTransmitted(SUBMISSION_ID);
+  });
+
+  function post(path: string, body: unknown) {
+    return SELF.fetch(`http://localhost${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeader() },
+      body: JSON.stringify(body),
+    });
+  }
+
+  it('rejects non-UUID record IDs', async () => {
+    const res = await post(`/correct/${SUBMISSION_ID}/not-a-uuid`, {
+      correction_type: 'TYPE1',
+      form: validBody(),
+    });
+    expect(res.status).toBe(400);
+    const body = (await res.json()) as { error: string };
+    expect(body.error).toContain('UUID');
+  });
+
+  it('rejects an unknown correction_type', async () => {
+    const res = await post(`/correct/${SUBMISSION_ID}/${RECORD_ID}`, {
+      correction_type: 'TYPE3',
+      form: validBody(),
+    });
+    expect(res.status).toBe(400);
+  });
+
+  it('rejects a void without the original form', async () => {
+    const res = await post(`/void/${SUBMISSION_ID}/${RECORD_ID}`, {});
+    expect(res.status).toBe(400);
+  });
+
+  it('runs structural checks on the corrected form', async () => {
+    const res = await post(`/correct/${SUBMISSION_ID}/${RECORD_ID}`, {
+      correction_type: 'TYPE1',
+      form: validBody({ is_state_filing: true }),
+    });
+    expect(res.status).toBe(422);
+    const body = (await res.json()) as {
+      details: { validation: { issues: Array<{ field: string }> } };
+    };
+    expect(body.details.validation.issues.some((i) => i.field === 'state')).toBe(true);
+  });
+
+  it("refuses a submission that isn't in the caller's tenant", async () => {
+    const submissionId = '2d3e4f5a-6b7c-4d8e-9f0a-1b2c3d4e5f60';
+    const ns = (env as unknown as Env).WEBHOOK_STATE!;
+    await ns.get(ns.idFromName('user:someone-else')).trackSubmission(submissionId, 'FORM1099NEC');
+
+    const res = await post(`/void/${submissionId}/${RECORD_ID}`, { form: validBody() });
+    expect(res.status).toBe(404);
+  });
+
+  it('refuses a submission that has not been transmitted', async () => {
+    const submissionId = '3e4f5a6b-7c8d-4e9f-8a0b-1c2d3e4f5a60';
+    await stub().trackSubmission(submissionId, 'FORM1099NEC');
+
+    const res = await post(`/void/${submissionId}/${RECORD_ID}`, { form: validBody() });
+    expect(res.status).toBe(409);
+  });
+
+  it('refuses to correct a tracked 1099-MISC submission', async () => {
+    const submissionId = '1c2d3e4f-5a6b-4c7d-8e9f-0a1b2c3d4e5f';
+    await stub().trackSubmission(submissionId, 'FORM1099MISC');
+    await stub().markTransmitted(submissionId);
+
+    const res = await post(`/void/${submissionId}/${RECORD_ID}`, { form: validBody() });
+    expect(res.status).toBe(422);
+    const body = (await res.json()) as { error: string };
+    expect(body.error).toContain('only supported for 1099-NEC');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// TIN vault — tin_ref in form bodies, POST /vault/tins
+// ---------------------------------------------------------------------------
+describe('tin_ref', () => {
+  const REF = 'tin_s9654_AAAAAAAAAAAAAAAAAAAAAA';
+
+  function validate(body: unknown) {
+    return SELF.fetch('http://localhost/validate', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeader() },
+      body: JSON.stringify(body),
+    });
+  }
+
+  it('rejects both tin and tin_ref', async () => {
+    const res = await validate(validBody({ recipient: { ...VALID_RECIPIENT, tin_ref: REF } }));
+    expect(res.status).toBe(400);
+  });
+
+  it('rejects a malformed tin_ref', async () => {
+    const { tin: _tin, ...recipient } = VALID_RECIPIENT;
+    const res = await validate(validBody({ recipient: { ...recipient, tin_ref: 'tin_123' } }));
+    expect(res.status).toBe(400);
+  });
+
+  it('runs structural checks against the tin_ref type', async () => {
+    const { tin: _tin, ...recipient } = VALID_RECIPIENT;
+    const res = await validate(
+      validBody({ recipient: { ...recipient, tin_type: 'EIN', tin_ref: REF } }),
+    );
+    expect(res.status).toBe(200);
+    const body = (await res.json()) as {
+      data: { valid: boolean; issues: Array<{ field: string }> };
+    };
+    expect(body.data.valid).toBe(false);
+    expect(body.data.issues.some((i) => i.field === 'recipient.tin_ref')).toBe(true);
+  });
+
+  it('POST /vault/tins returns 503 when the vault is not configured', async () => {
+    const res = await SELF.fetch('http://localhost/vault/tins', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeader() },
+      body: JSON.stringify({ tins: [{ tin: '412789654', tin_type: 'SSN' }] }),
+    });
+    expect(res.status).toBe(503);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// POST /tin-match
+// ---------------------------------------------------------------------------
+describe('POST /tin-match', () => {
+  function tinMatch(body: unknown, headers: Record<string, string> = authHeader()) {
+    return SELF.fetch('http://localhost/tin-match', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+    });
+  }
+
+  it('requires auth', async () => {
+    const key = (env as Record<string, string>).TAX_AGENT_API_KEY;
+    if (!key) return; // skip in dev mode
+
+    const res = await tinMatch({ recipients: [] }, {});
+    expect(res.status).toBe(401);
+  });
+
+  it('rejects an empty recipient list', async () => {
+    const res = await tinMatch({ recipients: [] });
+    expect(res.status).toBe(400);
+  });
+
+  it('rejects a recipient with both tin and tin_ref', async () => {
+    const res = await tinMatch({
+      recipients: [
+        {
+          name: 'Jane Smith',
+          tin: '412789654',
+          tin_ref: 'tin_s9654_AAAAAAAAAAAAAAAAAAAAAA',
+          tin_type: 'SSN',
+        },
+      ],
+    });
+    expect(res.status).toBe(400);
+  });
+
+  it('returns 422 for an unknown tin_ref', async () => {
+    const res = await tinMatch({
+      recipients: [
+        { name: 'Jane Smith', tin_ref: 'tin_s9654_AAAAAAAAAAAAAAAAAAAAAA', tin_type: 'SSN' },
+      ],
+    });
+    expect(res.status).toBe(422);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// W-9 collection — without TIN_VAULT_KEY in the test env
+// ---------------------------------------------------------------------------
+describe('W-9 routes', () => {
+  it('POST /w9/requests returns 503 when the TIN vault is not configured', async () => {
+    const res = await SELF.fetch('http://localhost/w9/requests', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeader() },
+      body: JSON.stringify({ reference: 'qb-1' }),
+    });
+    expect(res.status).toBe(503);
+  });
+
+  it('POST /w9/requests rejects an invalid body', async () => {
+    const res = await SELF.fetch('http://localhost/w9/requests', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeader() },
+      body: JSON.stringify({ expires_in_days: 365 }),
+    });
+    expect(res.status).toBe(400);
+  });
+
+  it('GET /w9/requests/:id returns 404 for an unknown request', async () => {
+    const res = await SELF.fetch('http://localhost/w9/requests/w9_unknown', {
+      headers: authHeader(),
+    });
+    expect(res.status).toBe(404);
+  });
+
+  it("does not list or return another tenant's requests", async () => {
+    const ns = (env as unknown as Env).WEBHOOK_STATE!;
+    const other = await ns.get(ns.idFromName('global')).createW9Request({
+      tenant: 'user:someone-else',
+      requestId: 'w9_other_tenant',
+      tokenHash: 'other-tenant-token-hash',
+      reference: 'qb-other',
+      expiresInDays: 30,
+    });
+
+    const list = await SELF.fetch('http://localhost/w9/requests?reference=qb-other', {
+      headers: authHeader(),
+    });
+    expect((await list.json<{ data: unknown[] }>()).data).toEqual([]);
+    const one = await SELF.fetch(`http://localhost/w9/requests/${other.requestId}`, {
+      headers: authHeader(),
+    });
+    expect(one.status).toBe(404);
+  });
+
+  it('GET /w9/:token serves an HTML page that is never cached', async () => {
+    const res = await SELF.fetch('http://localhost/w9/some-token');
+    expect(res.headers.get('content-type')).toContain('text/html');
+    expect(res.headers.get('cache-control')).toBe('no-store');
+    expect(res.headers.get('referrer-policy')).toBe('no-referrer');
+  });
+
+  it('/validate rejects a w9_request_id when W-9 collection is unavailable', async () => {
+    const { tin: _tin, ...recipient } = VALID_RECIPIENT;
+    const res = await SELF.fetch('http://localhost/validate', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeader() },
+      body: JSON.stringify(validBody({ recipient: { ...recipient, w9_request_id: 'w9_abc' } })),
+    });
+    expect(res.status).toBe(503);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// GET /forms/:submissionId/:recordId/pdf — recipient copies
+// ---------------------------------------------------------------------------
+describe('GET /forms/:submissionId/:recordId/pdf', () => {
+  const SUBMISSION_ID = '2d3e4f5a-6b7c-4d8e-9f0a-1b2c3d4e5f6a';
+  const RECORD_ID = '3e4f5a6b-7c8d-4e9f-8a1b-2c3d4e5f6a7b';
+
+  function stub() {
+    const ns = (env as unknown as Env).WEBHOOK_STATE!;
+    return ns.get(ns.idFromName('global'));
+  }
+
+  function get(path: string) {
+    return SELF.fetch(`http://localhost${path}`, { headers: authHeader() });
+  }
+
+  it('rejects non-UUID IDs', async () => {
+    const res = await get(`/forms/${SUBMISSION_ID}/nope/pdf`);
+    expect(res.status).toBe(400);
+  });
+
+  it('returns 404 when no form data is stored', async () => {
+    const res = await get(`/forms/${SUBMISSION_ID}/${crypto.randomUUID()}/pdf`);
+    expect(res.status).toBe(404);
+  });
+
+  it('renders a stored 1099-NEC with the recipient TIN masked', async () => {
+    await stub().storeFormRecords(SUBMISSION_ID, 'FORM1099NEC', [storedRecord(RECORD_ID)]);
+
+    const res = await get(`/forms/${SUBMISSION_ID}/${RECORD_ID}/pdf`);
+    expect(res.status).toBe(200);
+    expect(res.headers.get('Content-Type')).toBe('application/pdf');
+    expect(res.headers.get('Content-Disposition')).toContain(`1099-NEC-${RECORD_ID}.pdf`);
+    const pdf = await res.text();
+    expect(pdf.startsWith('%PDF-')).toBe(true);
+    expect(pdf).toContain('***9654');
+    expect(pdf).not.toContain('412789654');
+  });
+
+  it('refuses a record whose payer TIN was stored masked', async () => {
+    const recordId = crypto.randomUUID();
+    const body = validBody();
+    await stub().storeFormRecords(SUBMISSION_ID, 'FORM1099NEC', [
+      storedRecord(
+        recordId,
+        { ...body, payer: { ...body.payer, tin: '***4567' } },
+        { sequence: 3 },
+      ),
+    ]);
+
+    const res = await get(`/forms/${SUBMISSION_ID}/${recordId}/pdf`);
+    expect(res.status).toBe(422);
+    expect((await res.json<{ error: string }>()).error).toContain('TIN_VAULT_KEY');
+  });
+
+  it('refuses 1099-MISC records', async () => {
+    const recordId = crypto.randomUUID();
+    await stub().storeFormRecords(SUBMISSION_ID, 'FORM1099MISC', [
+      storedRecord(
+        recordId,
+        { ...validBody(), form_type: '1099-MISC', rents: 1000 },
+        { sequence: 2 },
+      ),
+    ]);
+
+    const res = await get(`/forms/${SUBMISSION_ID}/${recordId}/pdf`);
+    expect(res.status).toBe(422);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// GET /webhook/submissions/:id — per-record results
+// ---------------------------------------------------------------------------
+describe('GET /webhook/submissions/:id — form records', () => {
+  const SUBMISSION_ID = '4f5a6b7c-8d9e-4f0a-9b1c-2d3e4f5a6b7c';
+  const ACCEPTED_ID = '5a6b7c8d-9e0f-4a1b-8c2d-3e4f5a6b7c8d';
+  const REJECTED_ID = '6b7c8d9e-0f1a-4b2c-9d3e-4f5a6b7c8d9e';
+
+  type FormRecordsBody = {
+    data: { formRecords: Array<Record<string, unknown>> };
+  };
+
+  beforeAll(async () => {
+    const ns = (env as unknown as Env).WEBHOOK_STATE!;
+    const stub = ns.get(ns.idFromName('global'));
+    await stub.trackSubmission(SUBMISSION_ID, 'FORM1099NEC');
+    const bob = { ...validBody(), recipient: { ...VALID_RECIPIENT, first_name: 'Bob' } };
+    await stub.storeFormRecords(SUBMISSION_ID, 'FORM1099NEC', [
+      storedRecord(ACCEPTED_ID),
+      storedRecord(REJECTED_ID, bob, {
+        sequence: 2,
+        validationIssues: [{ field: 'recipient.tin', message: 'Check TIN', severity: 'warning' }],
+      }),
+      storedRecord(null, validBody(), {
+        sequence: 3,
+        status: 'FAILED',
+        errors: [{ code: 'F1099NEC-100', message: 'Duplicate record' }],
+      }),
+    ]);
+    await stub.updateRecordStatuses(SUBMISSION_ID, [
+      { RecordId: ACCEPTED_ID, Status: 'Accepted', Errors: null },
+      {
+        RecordId: REJECTED_ID,
+        Status: 'Rejected',
+        Errors: [
+          {
+            Id: null,
+            Code: 'IND-031-04',
+            Name: 'TIN',
+            Message: 'Payee TIN/name mismatch',
+            Type: 'IRS',
+          },
+        ],
+      },
+    ]);
+  });
+
+  async function formRecords() {
+    const res = await SELF.fetch(`http://localhost/webhook/submissions/${SUBMISSION_ID}`, {
+      headers: authHeader(),
+    });
+    expect(res.status).toBe(200);
+    return ((await res.json()) as FormRecordsBody).data.formRecords;
+  }
+
+  it('lists every record in filing order', async () => {
+    const records = await formRecords();
+    expect(records.map((r) => r['sequence'])).toEqual([1, 2, 3]);
+    expect(records[2]).toMatchObject({ recordId: null, status: 'FAILED' });
+  });
+
+  it('shows which recipient was rejected and why', async () => {
+    const rejected = (await formRecords()).find((r) => r['status'] === 'REJECTED');
+    expect(rejected).toMatchObject({
+      recordId: REJECTED_ID,
+      recipientName: 'Bob Smith',
+      errors: [{ code: 'IND-031-04', message: 'Payee TIN/name mismatch' }],
+      validationIssues: [{ field: 'recipient.tin', severity: 'warning' }],
+    });
+  });
+
+  it('never returns form data or unmasked TINs', async () => {
+    const records = await formRecords();
+    expect(records[0]).toMatchObject({ status: 'ACCEPTED', recipientTin: '***9654' });
+    expect(records.every((r) => !('data' in r))).toBe(true);
+    expect(JSON.stringify(records)).not.toContain('412789654');
+  });
+});
+
 // ---------------------------------------------------------------------------
 // POST /file — Zod validation (same as /validate)
 // ---------------------------------------------------------------------------
@@ -448,3 +1043,256 @@ describe('POST /file — Zod validation', () => {
     expect(res.status).toBe(400);
   });
 });
+
+// ---------------------------------------------------------------------------
+// POST /file/csv — payer grouping preview
+// ---------------------------------------------------------------------------
+describe('POST /file/csv', () => {
+  const HEADER =
+    'payer_name,payer_tin,payer_tin_type,payer_address,payer_city,payer_state,payer_zip,payer_phone,payer_email,recipient_first_name,recipient_last_name,recipient_tin,recipient_tin_type,recipient_address,recipient_city,recipient_state,recipient_zip,amount';
+  const row = (payer: string, tin: string, recipientTin: string) =>
+    `${payer},${tin},EIN,100 Main St,New York,NY,10001,2125551234,payroll@acme.com,Jane,Smith,${recipientTin},SSN,200 Oak Ave,Austin,TX,78701,5000`;
+
+  it('lists the payers /file/batch will submit separately', async () => {
+    const csv = [
+      HEADER,
+      row('Acme Corp', '27-1234567', '412789654'),
+      row('Globex LLC', '98-7654321', '412789655'),
+      row('Acme Corp', '27-1234567', '412789656'),
+    ].join('\n');
+    const res = await SELF.fetch('http://localhost/file/csv', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeader() },
+      body: JSON.stringify({ csv }),
+    });
+    expect(res.status).toBe(200);
+    const body = (await res.json()) as {
+      data: { payers: Array<{ name: string; tin: string; forms: number }> };
+    };
+    expect(body.data.payers).toEqual([
+      { name: 'Acme Corp', tin: '***4567', forms: 2 },
+      { name: 'Globex LLC', tin: '***4321', forms: 1 },
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Bulk filing jobs
+// ---------------------------------------------------------------------------
+describe('Filing jobs', () => {
+  function post(path: string, body: unknown) {
+    return SELF.fetch(`http://localhost${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeader() },
+      body: JSON.stringify(body),
+    });
+  }
+
+  /** `post` with the TIN vault configured — jobs hold TINs in it, and the test env has none. */
+  async function fileJob(path: string, body: unknown) {
+    const ctx = createExecutionContext();
+    const res = await worker.fetch(
+      new Request(`http://localhost${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...authHeader() },
+        body: JSON.stringify(body),
+      }),
+      { ...env, TIN_VAULT_KEY: 'test-job-secret' } as Env,
+      ctx,
+    );
+    await waitOnExecutionContext(ctx);
+    return res;
+  }
+
+  it('refuses jobs without the TIN vault', async () => {
+    const res = await post('/jobs', { forms: [validBody()] });
+    expect(res.status).toBe(503);
+    expect((await res.json<{ error: string }>()).error).toContain('TIN_VAULT_KEY');
+  });
+
+  it('accepts an upload over the 64 KB limit and chunks it by payer', async () => {
+    const otherPayer = { ...VALID_PAYER, name: 'Globex LLC', tin: '98-7654321' };
+    const forms = [
+      ...Array.from({ length: 150 }, () => validBody()),
+      validBody({ payer: otherPayer }),
+    ];
+    const body = JSON.stringify({ forms });
+    expect(body.length).toBeGreaterThan(64 * 1024);
+
+    const res = await fileJob('/jobs', { forms });
+    expect(res.status).toBe(202);
+    const job = ((await res.json()) as { data: { jobId: string; chunks: unknown[] } }).data;
+    expect(job.jobId).toMatch(/^job_/);
+    expect(job.chunks).toHaveLength(3);
+
+    // Let the background alarm finish before the test's storage is torn down
+    await vi.waitFor(async () => {
+      const poll = await SELF.fetch(`http://localhost/jobs/${job.jobId}`, {
+        headers: authHeader(),
+      });
+      const { data } = (await poll.json()) as { data: { status: string } };
+      expect(['COMPLETED', 'FAILED']).toContain(data.status);
+    });
+  });
+
+  it('rejects an empty upload', async () => {
+    const res = await post('/jobs', { forms: [] });
+    expect(res.status).toBe(400);
+  });
+
+  it('keeps the 64 KB limit on other routes', async () => {
+    const forms = Array.from({ length: 150 }, () => validBody());
+    const res = await post('/file/batch', { forms });
+    expect(res.status).toBe(413);
+  });
+
+  it('returns 404 for an unknown job', async () => {
+    const res = await SELF.fetch('http://localhost/jobs/job_unknown', { headers: authHeader() });
+    expect(res.status).toBe(404);
+    expect((await post('/jobs/job_unknown/resume', {})).status).toBe(404);
+  });
+
+  it('files /file?async=true as a job and points at it', async () => {
+    const res = await fileJob('/file?async=true', validBody());
+    expect(res.status).toBe(202);
+    const job = ((await res.json()) as { data: { jobId: string; runner: string } }).data;
+    expect(res.headers.get('Location')).toBe(`/jobs/${job.jobId}`);
+    // No FILING_QUEUE binding in tests, so the alarm runs it
+    expect(job.runner).toBe('alarm');
+
+    await vi.waitFor(async () => {
+      const poll = await SELF.fetch(`http://localhost/jobs/${job.jobId}`, {
+        headers: authHeader(),
+      });
+      const { data } = (await poll.json()) as { data: { status: string } };
+      expect(['COMPLETED', 'FAILED']).toContain(data.status);
+    });
+  });
+
+  it('files /file/batch?async=true as one chunk per payer', async () => {
+    const otherPayer = { ...VALID_PAYER, name: 'Globex LLC', tin: '98-7654321' };
+    const res = await fileJob('/file/batch?async=true', {
+      forms: [validBody(), validBody({ payer: otherPayer })],
+    });
+    expect(res.status).toBe(202);
+    const job = ((await res.json()) as { data: { jobId: string; chunks: unknown[] } }).data;
+    expect(job.chunks).toHaveLength(2);
+
+    await vi.waitFor(async () => {
+      const poll = await SELF.fetch(`http://localhost/jobs/${job.jobId}`, {
+        headers: authHeader(),
+      });
+      const { data } = (await poll.json()) as { data: { status: string } };
+      expect(['COMPLETED', 'FAILED']).toContain(data.status);
+    });
+  });
+
+  it('rejects callback URLs that are not https or come without async=true', async () => {
+    const insecure = await post('/file?async=true&callback_url=http://example.com/cb', validBody());
+    expect(insecure.status).toBe(400);
+    const sync = await post('/file?callback_url=https://example.com/cb', validBody());
+    expect(sync.status).toBe(400);
+    expect(((await sync.json()) as { error: string }).error).toContain('async=true');
+  });
+
+  it('rejects tin_match on async filing', async () => {
+    const res = await post('/file/batch?async=true&tin_match=true', { forms: [validBody()] });
+    expect(res.status).toBe(400);
+  });
+});
+
+describe('Outbound webhook routes', () => {
+  function post(path: string, body: unknown) {
+    return SELF.fetch(`http://localhost${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeader() },
+      body: JSON.stringify(body),
+    });
+  }
+
+  it('registers, lists and deletes an endpoint, showing the secret only once', async () => {
+    const res = await post('/webhooks/endpoints', {
+      url: 'https://payroll.example.com/tax-agent',
+      description: 'Payroll app',
+    });
+    expect(res.status).toBe(201);
+    const created = ((await res.json()) as { data: Record<string, unknown> }).data;
+    expect(created['secret']).toMatch(/^whsec_/);
+    expect(created['events']).toEqual([
+      'submission.created',
+      'submission.transmitted',
+      'record.accepted',
+      'record.rejected',
+    ]);
+    // Bearer auth has no user or key, so the endpoint belongs to the deployment
+    expect(created['owner']).toBe('default');
+
+    const list = await SELF.fetch('http://localhost/webhooks/endpoints', {
+      headers: authHeader(),
+    });
+    const endpoints = ((await list.json()) as { data: Array<Record<string, unknown>> }).data;
+    expect(endpoints).toHaveLength(1);
+    expect(endpoints[0]).not.toHaveProperty('secret');
+
+    const del = () =>
+      SELF.fetch(`http://localhost/webhooks/endpoints/${String(created['endpointId'])}`, {
+        method: 'DELETE',
+        headers: authHeader(),
+      });
+    expect((await del()).status).toBe(200);
+    expect((await del()).status).toBe(404);
+  });
+
+  it('rejects non-https URLs, unknown events and key scope without an API key', async () => {
+    const insecure = await post('/webhooks/endpoints', { url: 'http://example.com/hook' });
+    expect(insecure.status).toBe(400);
+    const unknown = await post('/webhooks/endpoints', {
+      url: 'https://example.com/hook',
+      events: ['submission.deleted'],
+    });
+    expect(unknown.status).toBe(400);
+    const keyScope = await post('/webhooks/endpoints', {
+      url: 'https://example.com/hook',
+      scope: 'api_key',
+    });
+    expect(keyScope.status).toBe(400);
+    expect(((await keyScope.json()) as { error: string }).error).toContain('x-api-key');
+  });
+
+  it('lists the delivery log and filters it by status', async () => {
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(null, { status: 200 }));
+    const res = await post('/webhooks/endpoints', {
+      url: 'https://payroll.example.com/tax-agent',
+      events: ['record.rejected'],
+    });
+    const { endpointId } = ((await res.json()) as { data: { endpointId: string } }).data;
+
+    const ns = (env as unknown as Env).WEBHOOK_STATE;
+    if (!ns) throw new Error('WEBHOOK_STATE binding missing');
+    const stub = ns.get(ns.idFromName('global'));
+    await stub.trackSubmission('sub-log', 'FORM1099NEC');
+    await stub.storeFormRecords('sub-log', 'FORM1099NEC', [storedRecord('sub-log-rec')]);
+    await stub.updateRecordStatuses('sub-log', [
+      { RecordId: 'sub-log-rec', Status: 'Rejected', Errors: null },
+    ]);
+
+    await vi.waitFor(async () => {
+      const log = await SELF.fetch(
+        `http://localhost/webhooks/deliveries?endpoint_id=${endpointId}&status=DELIVERED`,
+        { headers: authHeader() },
+      );
+      const { data } = (await log.json()) as {
+        data: Array<{ event: { type: string }; attempts: number }>;
+      };
+      expect(data).toHaveLength(1);
+      expect(data[0]?.event.type).toBe('record.rejected');
+      expect(data[0]?.attempts).toBe(1);
+    });
+    vi.restoreAllMocks();
+
+    const bad = await SELF.fetch('http://localhost/webhooks/deliveries?status=LOST', {
+      headers: authHeader(),
+    });
+    expect(bad.status).toBe(400);
+  });
+});
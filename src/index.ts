@@ -4,107 +4,169 @@ import { bearerAuth } from 'hono/bearer-auth';
 import { bodyLimit } from 'hono/body-limit';
 import { HTTPException } from 'hono/http-exception';
 import { z } from 'zod';
-import { Effect } from 'effect';
+import { Effect, Either } from 'effect';
 import type {
   Env,
+  CorrectionTarget,
+  FilingQueueMessage,
   Form1099NECRequest,
+  Form1099Request,
   ApiResponse,
+  PayerInfo,
+  ValidationIssue,
   ValidationResult,
+  FormType,
   TaxBanditsCreateResponse,
   TaxBanditsTransmitResponse,
   TaxBanditsStatusResponse,
 } from './types';
-import { validateForm, runStructuralValidations } from './agent';
+import { W9RequestError, type PayerProfileError, type RecipientProfileError } from './types';
+import { aiFallbackResult, validateForm } from './agent';
+import { persistFormRecords, recordSubmission } from './form-records';
+import { JOB_BODY_LIMIT, JOB_MAX_FORMS, createFilingJob, enqueueJobChunks } from './jobs';
+import { handleFilingQueue } from './queue';
+import { reconcileSubmissions } from './reconcile';
+import {
+  CorrectionBodySchema,
+  JobQuerySchema,
+  TinMatchBodySchema,
+  VaultTinsBodySchema,
+  VoidBodySchema,
+  W9RequestBodySchema,
+  W9SubmissionSchema,
+  WebhookDeliveryQuerySchema,
+  AdminSubmissionsQuerySchema,
+  OrgApiKeyBodySchema,
+  PayerProfileBodySchema,
+  RecipientListQuerySchema,
+  DeadlineQuerySchema,
+  ApproveBodySchema,
+  RejectBodySchema,
+  TransmitBodySchema,
+  ScheduledTransmitQuerySchema,
+  RecipientProfileBodySchema,
+  OrgPayerBodySchema,
+  WebhookEndpointBodySchema,
+} from './schemas';
 import { openApiSpec } from './openapi';
+import { checkOrgPayers, payerTinKey } from './organizations';
+import { maskPayerProfile, payerProfileInput, resolvePayerProfiles } from './payers';
+import { MAX_SCHEDULE_AHEAD_DAYS } from './scheduled-transmit';
+import {
+  deadlineCalendar,
+  submissionDeadline,
+  type FormDeadline,
+  type SubmissionDeadline,
+} from './deadlines';
+import {
+  priorYearFilings,
+  recipientProfileInput,
+  recipientProfileViews,
+  resolveRecipientProfiles,
+  type RecipientProfileView,
+} from './recipients';
+import { getAccessToken, groupByPayer, voidedForm } from './taxbandits';
+import {
+  DEFAULT_PROVIDER,
+  filingProvider,
+  payloadProvider,
+  type PayloadProvider,
+  type ProviderName,
+  type ProviderPreview,
+} from './providers';
+import type { PayloadDifference } from './iris';
+import type { FormDefinition } from './forms';
 import {
-  create1099NEC,
-  createBatch1099NEC,
-  transmit,
-  getStatus,
-  getAccessToken,
-} from './taxbandits';
+  DEFAULT_FORM_TYPE,
+  FORM_REGISTRY,
+  FormTypeSchema,
+  correctionFormDefinition,
+  formTypeFromTaxBandits,
+  getFormDefinition,
+  parseBatchBody,
+  parseFormBody,
+} from './forms';
 import { rateLimiter } from './ratelimit';
-import { scrubTINs } from './pii';
+import { maskTIN, scrubTINs } from './pii';
 import { auditLogger } from './audit';
-import { verifyWebhookSignature, parseWebhookPayload } from './webhook';
-import { createAuth, verifyApiKey, getRequiredPermissions, migrateAuthDb } from './auth';
+import { verifyWebhookSignature, parseWebhookPayload, submissionStatus } from './webhook';
+import type {
+  CorrectionRecord,
+  FilingJob,
+  OrgPayer,
+  PayerProfile,
+  PayerProfileInput,
+  RecipientProfile,
+  RecipientProfileInput,
+  ReviewRefusal,
+  ScheduledTransmission,
+  SubmissionRecord,
+  WebhookDelivery,
+  WebhookEndpoint,
+  WebhookState,
+} from './webhook-state';
+import { ADMIN_REVIEWER } from './webhook-state';
+import {
+  DEFAULT_WEBHOOK_OWNER,
+  MAX_WEBHOOK_ENDPOINTS,
+  webhookOwners,
+  type SubmissionOwner,
+} from './outbound-webhooks';
+import {
+  GLOBAL_TENANT,
+  findTenant,
+  globalState,
+  registerSubmission,
+  tenantOf,
+  tenantState,
+} from './tenants';
+import {
+  createAuth,
+  verifyApiKey,
+  getRequiredPermissions,
+  getOrgRole,
+  migrateAuthDb,
+  orgRoleAllows,
+  orgRolePermissions,
+} from './auth';
 import { generateFromQB, fetchVendors, getValidToken, type QBGenerateInput } from './quickbooks';
 import { csvToForms } from './csv';
+import { renderNECCopyB } from './pdf';
+import { revealParties, revealTIN, tinLast4, tokenizeTIN } from './vault';
+import { matchTINs, tinMatchIssues, withTinMatch, type TinMatchResult } from './tin-match';
+import {
+  W9_PAGE_HEADERS,
+  completedW9Tins,
+  createW9Request,
+  findW9RequestByToken,
+  renderW9Form,
+  renderW9Message,
+  resolveW9Recipients,
+  submitW9,
+  w9RequestView,
+} from './w9';
 
 // ---------------------------------------------------------------------------
-// Zod schemas — runtime validation for POST bodies
-// ---------------------------------------------------------------------------
-const PayerSchema = z
-  .object({
-    name: z.string().min(1).max(200),
-    tin: z.string().min(9).max(11),
-    tin_type: z.enum(['EIN', 'SSN']).default('EIN'),
-    address: z.string().min(1).max(200),
-    city: z.string().min(1).max(100),
-    state: z.string().length(2),
-    zip_code: z.string().regex(/^\d{5}(-\d{4})?$/, 'ZIP must be 5 or 9 digits'),
-    phone: z.string().min(10).max(15),
-    email: z.string().email(),
-    business_type: z
-      .enum(['CORP', 'SCORP', 'PART', 'TRUST', 'LLC', 'EXEMPT', 'ESTE'])
-      .default('LLC'),
-  })
-  .refine(
-    (p) => {
-      if (p.tin_type === 'EIN') return /^\d{2}-\d{7}$/.test(p.tin);
-      return /^\d{9}$/.test(p.tin.replace(/-/g, ''));
-    },
-    {
-      message: 'EIN must be XX-XXXXXXX format; SSN must be 9 digits',
-      path: ['tin'],
-    },
-  );
-
-const RecipientSchema = z.object({
-  first_name: z.string().min(1).max(100),
-  last_name: z.string().min(1).max(100),
-  tin: z.string().min(9).max(11),
-  tin_type: z.enum(['SSN', 'EIN']),
-  address: z.string().min(1).max(200),
-  city: z.string().min(1).max(100),
-  state: z.string().length(2),
-  zip_code: z.string().regex(/^\d{5}(-\d{4})?$/, 'ZIP must be 5 or 9 digits'),
-});
-
-const Form1099NECSchema = z.object({
-  payer: PayerSchema,
-  recipient: RecipientSchema,
-  nonemployee_compensation: z.number().positive().finite(),
-  is_federal_tax_withheld: z.boolean(),
-  federal_tax_withheld: z.number().nonnegative().finite().optional(),
-  is_state_filing: z.boolean(),
-  state: z.string().length(2).optional(),
-  state_income: z.number().nonnegative().finite().optional(),
-  state_tax_withheld: z.number().nonnegative().finite().optional(),
-  tax_year: z
-    .string()
-    .regex(/^\d{4}$/, 'Must be 4-digit year')
-    .optional(),
-  kind_of_employer: z
-    .enum(['FEDERALGOVT', 'STATEGOVT', 'TRIBALGOVT', 'TAX_EXEMPT', 'NONEAPPLY'])
-    .default('NONEAPPLY'),
-  kind_of_payer: z
-    .enum(['REGULAR941', 'REGULAR944', 'AGRICULTURAL943', 'HOUSEHOLD', 'MILITARY', 'MEDICARE'])
-    .default('REGULAR941'),
-});
-
+// Zod schemas — route params (form body schemas live in ./schemas)
+// ---------------------------------------------------------------------------
 const SubmissionIdSchema = z
   .string()
   .regex(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i, 'Must be a UUID');
 
-const app = new Hono<{ Bindings: Env; Variables: { apiKeyId?: string; userId?: string } }>();
+const app = new Hono<{
+  Bindings: Env;
+  Variables: { apiKeyId?: string; userId?: string; organizationId?: string };
+}>();
 
 // ---------------------------------------------------------------------------
 // Middleware
 // ---------------------------------------------------------------------------
 app.use('*', cors());
 app.use('*', auditLogger());
-app.use('*', bodyLimit({ maxSize: 64 * 1024 })); // 64 KB
+// 64 KB, except bulk filing job uploads
+app.use('*', (c, next) =>
+  bodyLimit({ maxSize: c.req.path === '/jobs' ? JOB_BODY_LIMIT : 64 * 1024 })(c, next),
+);
 
 // Rate-limit POST endpoints (20 req/min per IP). GET routes are unlimited.
 app.post('*', rateLimiter());
@@ -120,14 +182,39 @@ const PROTECTED_ROUTES = [
   '/file/csv',
   '/transmit',
   '/status',
+  '/correct',
+  '/void',
+  '/forms',
+  '/vault/tins',
+  '/tin-match',
+  '/jobs',
+  '/w9/requests',
   '/webhook/submissions',
+  '/webhooks',
   '/quickbooks/vendors',
   '/quickbooks/generate',
+  '/orgs',
+  '/payers',
+  '/recipients',
+  '/deadlines',
+  '/submissions',
 ];
 
 for (const route of PROTECTED_ROUTES) {
   const pattern =
-    route.includes('/transmit') || route.includes('/status') || route === '/webhook/submissions'
+    route.includes('/transmit') ||
+    route.includes('/status') ||
+    route === '/correct' ||
+    route === '/void' ||
+    route === '/forms' ||
+    route === '/jobs' ||
+    route === '/w9/requests' ||
+    route === '/webhook/submissions' ||
+    route === '/webhooks' ||
+    route === '/orgs' ||
+    route === '/payers' ||
+    route === '/recipients' ||
+    route === '/submissions'
       ? `${route}/*`
       : route;
   // Exact match
@@ -157,6 +244,23 @@ async function authMiddleware(
     const path = new URL(c.req.raw.url).pathname;
     const requiredPermissions = getRequiredPermissions(path) ?? undefined;
     const result = await verifyApiKey(c.env as Env, xApiKey, requiredPermissions);
+    if (result.valid && result.organizationId) {
+      // Org-scoped key: the holder must still be a member, and their role caps the key
+      const role = result.userId
+        ? await getOrgRole(c.env.AUTH_DB!, result.organizationId, result.userId)
+        : null;
+      if (!role) {
+        throw new HTTPException(403, {
+          message: "Forbidden: not a member of the key's organization",
+        });
+      }
+      if (requiredPermissions && !orgRoleAllows(role, requiredPermissions)) {
+        throw new HTTPException(403, {
+          message: `Forbidden: organization role "${role}" does not allow this route`,
+        });
+      }
+      c.set('organizationId', result.organizationId);
+    }
     if (result.valid) {
       c.set('apiKeyId', result.keyId);
       c.set('userId', result.userId);
@@ -184,46 +288,239 @@ async function authMiddleware(
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
-async function parseBody(c: { req: { json: () => Promise<unknown> } }) {
+
+type IdentityContext = {
+  get: (key: 'userId' | 'apiKeyId' | 'organizationId') => string | undefined;
+};
+
+/** Resolve every `payer_id` in a raw form body to the caller's payer profile. */
+function resolveCallerPayers(c: IdentityContext & { env: Env }, raw: unknown) {
+  const ns = c.env.WEBHOOK_STATE;
+  return resolvePayerProfiles(ns ? callerState(ns, c) : undefined, raw);
+}
+
+/**
+ * Resolve every `recipient_id` in a raw form body to the caller's directory
+ * entry, then every `payer_id` (including the ones the entries bring along).
+ */
+function resolveCallerParties(c: IdentityContext & { env: Env }, raw: unknown) {
+  const ns = c.env.WEBHOOK_STATE;
+  return resolveRecipientProfiles(ns ? callerState(ns, c) : undefined, raw).pipe(
+    Effect.flatMap((body) => resolveCallerPayers(c, body)),
+  );
+}
+
+/**
+ * Read a JSON form body, resolving any `recipient_id` to the caller's
+ * recipient directory, any `payer_id` to the caller's payer profile and any
+ * `recipient.w9_request_id` to the completed W-9's TIN (and name/address
+ * where the body has none).
+ */
+async function readFormJson(
+  c: IdentityContext & { env: Env; req: { json: () => Promise<unknown> } },
+) {
   const raw = await c.req.json().catch(() => null);
-  return Form1099NECSchema.safeParse(raw);
+  return Effect.runPromise(
+    Effect.either(
+      resolveCallerParties(c, raw).pipe(
+        Effect.flatMap((body) => resolveW9Recipients(c.env, callerTenant(c), body)),
+      ),
+    ),
+  );
+}
+
+/**
+ * Read a correction or void body, resolving a `recipient_id` and `payer_id`
+ * in its `form`. A failure is answered like `readFormJson`'s.
+ */
+async function readCorrectionJson(
+  c: IdentityContext & { env: Env; req: { json: () => Promise<unknown> } },
+) {
+  const raw: unknown = await c.req.json().catch(() => null);
+  if (typeof raw !== 'object' || raw === null || !('form' in raw)) return Either.right(raw);
+  const form = await Effect.runPromise(Effect.either(resolveCallerParties(c, raw.form)));
+  return Either.map(form, (resolved) => ({ ...raw, form: resolved }));
 }
 
-/** Build a fallback ValidationResult when AI is unavailable, preserving structural issues. */
-function aiFallbackResult(data: Form1099NECRequest, errMessage: string): ValidationResult {
-  const structuralIssues = runStructuralValidations(data);
+/** The API key identity behind a request, for tenancy and outbound webhooks. Empty for Bearer and dev mode. */
+function requestOwner(c: IdentityContext): SubmissionOwner {
   return {
-    valid: false,
-    issues: [
-      ...structuralIssues,
-      {
-        field: 'ai_validation',
-        message: `AI review unavailable: ${errMessage}. Retry later.`,
-        severity: 'error',
-      },
-    ],
-    summary: 'AI validation failed — cannot proceed without semantic review',
-    ai_model: '@cf/zai-org/glm-4.7-flash (failed)',
+    userId: c.get('userId') ?? null,
+    apiKeyId: c.get('apiKeyId') ?? null,
+    organizationId: c.get('organizationId') ?? null,
+  };
+}
+
+/** The caller's tenant: their organization, or themselves. */
+function callerTenant(c: IdentityContext): string {
+  return tenantOf(requestOwner(c));
+}
+
+/** The caller's own WebhookState: their (organization's) submissions, jobs and webhook endpoints. */
+function callerState(ns: DurableObjectNamespace<WebhookState>, c: IdentityContext) {
+  return tenantState(ns, callerTenant(c));
+}
+
+/**
+ * Status for a body reference (W-9 request, payer profile or recipient) that
+ * can't be resolved. An unknown W-9 request is a 404, so another tenant's
+ * request ID is not confirmed to exist.
+ */
+function referenceErrorStatus(err: W9RequestError | PayerProfileError | RecipientProfileError) {
+  if (err.reason === 'invalid') return 400 as const;
+  if (err.reason === 'unavailable') return 503 as const;
+  if (err._tag === 'W9RequestError' && err.reason === 'not_found') return 404 as const;
+  return 422 as const;
+}
+
+/** Resolve the `?form_type=` query param used by /transmit and /status. */
+function parseFormTypeQuery(value: string | undefined) {
+  return FormTypeSchema.default(DEFAULT_FORM_TYPE).safeParse(value);
+}
+
+/**
+ * Optional `?tin_match=true` pre-filing step: IRS TIN matching for each
+ * recipient, folded into that form's validation result.
+ */
+function runTinMatching<T extends Form1099Request>(
+  env: Env,
+  tenant: string,
+  forms: T[],
+  validations: ValidationResult[],
+) {
+  return tinMatchIssues(env, tenant, filingProvider(env), forms).pipe(
+    Effect.map((issues) => validations.map((v, i) => withTinMatch(v, issues[i] ?? []))),
+  );
+}
+
+/**
+ * `?async=true`, `?callback_url=`, `?dry_run=true` and `?provider=` on /file
+ * and /file/batch. A callback needs async filing, TIN matching only runs on
+ * synchronous requests, and a dry run is synchronous and never calls
+ * TaxBandits. Only TaxBandits files, so another provider needs a dry run.
+ */
+function parseAsyncQuery(query: Record<string, string>):
+  | {
+      ok: true;
+      async: boolean;
+      callbackUrl: string | null;
+      dryRun: boolean;
+      provider: ProviderName;
+    }
+  | { ok: false; error: string } {
+  const parsed = JobQuerySchema.safeParse(query);
+  if (!parsed.success) {
+    return { ok: false, error: parsed.error.issues[0]?.message ?? 'Invalid query' };
+  }
+  const isAsync = parsed.data.async === 'true';
+  const dryRun = parsed.data.dry_run === 'true';
+  if (parsed.data.callback_url && !isAsync) {
+    return { ok: false, error: 'callback_url requires async=true' };
+  }
+  if (isAsync && query['tin_match'] === 'true') {
+    return { ok: false, error: 'tin_match is not available with async=true' };
+  }
+  if (dryRun && (isAsync || query['tin_match'] === 'true')) {
+    return { ok: false, error: 'dry_run is not available with async=true or tin_match=true' };
+  }
+  const provider = parsed.data.provider ?? DEFAULT_PROVIDER;
+  if (provider !== DEFAULT_PROVIDER && !dryRun) {
+    return { ok: false, error: `provider=${provider} requires dry_run=true` };
+  }
+  return {
+    ok: true,
+    async: isAsync,
+    callbackUrl: parsed.data.callback_url ?? null,
+    dryRun,
+    provider,
   };
 }
 
+/** Why `provider` can't build `formType` (a 400), or null when it can. */
+function providerFormError(provider: PayloadProvider, formType: FormType): string | null {
+  return provider.formTypes.includes(formType)
+    ? null
+    : `provider=${provider.name} only supports ${provider.formTypes.join(', ')}`;
+}
+
+/**
+ * Store forms as a filing job and answer like `POST /jobs`: 202 with the job,
+ * 422 when a TIN can't be vaulted, 503 without WebhookState or the TIN vault.
+ */
+async function startFilingJob<T extends Form1099Request>(
+  env: Env,
+  form: FormDefinition<T>,
+  forms: T[],
+  callbackUrl: string | null,
+  owner: SubmissionOwner,
+): Promise<{ status: 202 | 422 | 503; body: ApiResponse<FilingJob> }> {
+  if (!env.WEBHOOK_STATE) {
+    return { status: 503, body: { success: false, error: 'Filing jobs are not configured' } };
+  }
+  if (!env.TIN_VAULT_KEY) {
+    return {
+      status: 503,
+      body: { success: false, error: 'Filing jobs need the TIN vault — set TIN_VAULT_KEY' },
+    };
+  }
+  const result = await Effect.runPromise(
+    Effect.either(createFilingJob(env, form, forms, callbackUrl, owner)),
+  );
+  if (Either.isLeft(result)) {
+    return { status: 422, body: { success: false, error: result.left.message } };
+  }
+  return { status: 202, body: { success: true, data: result.right } };
+}
+
+/**
+ * Org-scoped callers may only file for their organization's clients: 403
+ * naming the other payers, or 422 when a vaulted payer TIN can't be read.
+ * Null when filing may go ahead.
+ */
+async function payerAccess(
+  env: Env,
+  owner: SubmissionOwner,
+  payers: PayerInfo[],
+): Promise<{ status: 403 | 422; body: ApiResponse<never> } | null> {
+  const result = await Effect.runPromise(Effect.either(checkOrgPayers(env, owner, payers)));
+  if (Either.isRight(result)) return null;
+  const err = result.left;
+  return err._tag === 'OrgPayerError'
+    ? { status: 403, body: { success: false, error: err.message, details: { payers: err.payers } } }
+    : { status: 422, body: { success: false, error: err.message } };
+}
+
 // ---------------------------------------------------------------------------
 // Admin: create API key with server-side permissions
 // Requires admin auth (legacy Bearer TAX_AGENT_API_KEY).
 // ---------------------------------------------------------------------------
-app.post('/api/auth/admin/create-key', async (c) => {
-  if (!c.env.AUTH_DB || !c.env.BETTER_AUTH_SECRET) {
-    return c.json({ error: 'Auth not configured' }, 503);
-  }
-  // Admin-only: require legacy bearer token
+/** Whether the request is the admin's: the configured legacy bearer token, with no API key. */
+function isAdminRequest(
+  c: IdentityContext & { env: Env; req: { header: (name: string) => string | undefined } },
+): boolean {
+  if (!c.env.TAX_AGENT_API_KEY || requestOwner(c).apiKeyId) return false;
+  return c.req.header('Authorization')?.replace(/^Bearer\s+/i, '') === c.env.TAX_AGENT_API_KEY;
+}
+
+/** Admin-only routes: require the legacy bearer token, which must be configured. */
+function requireAdmin(c: {
+  env: Env;
+  req: { header: (name: string) => string | undefined };
+}): void {
   if (!c.env.TAX_AGENT_API_KEY) {
     throw new HTTPException(403, { message: 'Admin key not configured' });
   }
-  const authHeader = c.req.header('Authorization');
-  const token = authHeader?.replace(/^Bearer\s+/i, '');
+  const token = c.req.header('Authorization')?.replace(/^Bearer\s+/i, '');
   if (token !== c.env.TAX_AGENT_API_KEY) {
     throw new HTTPException(401, { message: 'Admin auth required' });
   }
+}
+
+app.post('/api/auth/admin/create-key', async (c) => {
+  if (!c.env.AUTH_DB || !c.env.BETTER_AUTH_SECRET) {
+    return c.json({ error: 'Auth not configured' }, 503);
+  }
+  requireAdmin(c);
   const body = await c.req.json<{
     userId: string;
     name?: string;
@@ -286,15 +583,59 @@ app.get('/', (c) => {
     version: '2.0.0',
     description: 'AI-powered tax form agent — validates with Workers AI, files via TaxBandits',
     endpoints: {
-      'POST /validate': 'Validate 1099-NEC data with AI (does not file)',
-      'POST /file': 'Validate + create 1099-NEC in TaxBandits',
-      'POST /file/batch': 'Validate + create multiple 1099-NECs in one submission (max 100)',
-      'POST /transmit/:submissionId': 'Transmit a submission to the IRS',
-      'GET /status/:submissionId': 'Check filing status',
+      'POST /validate': 'Validate 1099-NEC or 1099-MISC data with AI (does not file)',
+      'POST /file':
+        'Validate + create a 1099-NEC or 1099-MISC in TaxBandits (?async=true: 202 + job, ?dry_run=true: payload only, &provider=iris: IRS IRIS XML)',
+      'POST /file/batch':
+        'Validate + create up to 100 1099s, one submission per payer (?async=true: 202 + job, ?dry_run=true: payloads only, &provider=iris: IRS IRIS XML)',
+      'POST /jobs': 'Bulk filing job: up to 5,000 forms, chunked and filed in the background',
+      'GET /jobs/:jobId': 'Job progress with per-chunk status, submission IDs and errors',
+      'POST /jobs/:jobId/resume': 'Retry the chunks of a job that failed at TaxBandits',
+      'POST /submissions/:submissionId/approve':
+        'Approve a submission for transmission (a reviewer other than its preparer)',
+      'POST /submissions/:submissionId/reject': 'Reject a submission with a note',
+      'POST /transmit/:submissionId':
+        'Transmit an approved submission to the IRS (?form_type=; transmit_at in the body schedules it)',
+      'GET /transmit/scheduled': 'List your scheduled transmissions (?status=)',
+      'DELETE /transmit/:submissionId': 'Cancel a scheduled transmission',
+      'GET /status/:submissionId': 'Check filing status (?form_type=)',
+      'POST /correct/:submissionId/:recordId':
+        'Validate + file a Type 1/Type 2 1099-NEC correction',
+      'POST /void/:submissionId/:recordId': 'Void a transmitted 1099-NEC record',
+      'GET /forms/:submissionId/:recordId/pdf': 'Recipient Copy B PDF of a filed 1099-NEC',
+      'POST /vault/tins': 'Encrypt TINs at rest — returns tin_ref tokens to send instead of tin',
+      'POST /tin-match': 'IRS TIN matching for recipient name/TIN pairs (cached)',
+      'POST /w9/requests': 'Create a W-9 request link for a recipient',
+      'GET /w9/requests': 'List W-9 requests (?reference=, ?status=)',
+      'GET /w9/requests/:requestId': 'W-9 request status + submitted data (TIN as tin_ref)',
+      'GET /w9/:token': 'Hosted W-9 form for the recipient (no auth — the link is the credential)',
       'GET /health': 'Service health check',
       'POST /webhook/status': 'TaxBandits webhook callback (HMAC verified)',
-      'GET /webhook/submissions': 'List tracked submissions (Bearer auth)',
-      'GET /webhook/submissions/:id': 'Get submission status (Bearer auth)',
+      'GET /webhook/submissions': 'List your tracked submissions (Bearer auth)',
+      'GET /webhook/submissions/:id':
+        'Get submission status, per-record results + corrections (Bearer auth)',
+      'POST /webhooks/endpoints': 'Register an HTTPS endpoint for signed filing events',
+      'GET /webhooks/endpoints': 'List your webhook endpoints',
+      'DELETE /webhooks/endpoints/:endpointId': 'Remove a webhook endpoint',
+      'GET /webhooks/deliveries': 'Webhook delivery log (?endpoint_id=, ?status=)',
+      'POST /payers': 'Save a payer profile — file with payer_id instead of payer',
+      'GET /payers': 'List your payer profiles',
+      'GET /payers/:payerId': 'Get a payer profile',
+      'PUT /payers/:payerId': 'Replace a payer profile',
+      'DELETE /payers/:payerId': 'Remove a payer profile',
+      'POST /recipients':
+        'Add a recipient to the directory — file with recipient_id instead of recipient',
+      'GET /recipients': 'List your recipient directory (?payer_id=)',
+      'GET /recipients/:recipientId': 'Get a recipient with address history and prior-year amounts',
+      'PUT /recipients/:recipientId': 'Replace a recipient (a new address joins the history)',
+      'DELETE /recipients/:recipientId': 'Remove a recipient',
+      'GET /deadlines':
+        "Due dates, late-filing penalties and your submissions' on-time status (?tax_year=)",
+      'POST /orgs/:organizationId/keys': 'Mint an org-scoped API key, capped by your role',
+      'GET /orgs/:organizationId/payers': "List the organization's client payers",
+      'POST /orgs/:organizationId/payers': 'Register a client payer (owner/admin)',
+      'DELETE /orgs/:organizationId/payers/:payerId': 'Remove a client payer (owner/admin)',
+      'GET /admin/submissions': 'Submissions of every tenant (admin Bearer token)',
     },
     auth: 'x-api-key header (better-auth) or Bearer token (legacy). See POST /api/auth/* for key management.',
     docs: 'https://github.com/acoyfellow/tax-agent',
@@ -335,7 +676,14 @@ app.get('/health', async (c) => {
 
 /** POST /validate — AI validation only, nothing sent to TaxBandits. */
 app.post('/validate', async (c) => {
-  const parsed = await parseBody(c);
+  const raw = await readFormJson(c);
+  if (Either.isLeft(raw)) {
+    return c.json<ApiResponse<never>>(
+      { success: false, error: raw.left.message },
+      referenceErrorStatus(raw.left),
+    );
+  }
+  const parsed = parseFormBody(raw.right);
   if (!parsed.success) {
     return c.json<ApiResponse<never>>(
       { success: false, error: 'Invalid request body', details: parsed.error.flatten() },
@@ -343,10 +691,13 @@ app.post('/validate', async (c) => {
     );
   }
 
-  const formData = parsed.data as Form1099NECRequest;
-  const program = validateForm(c.env, formData).pipe(
+  const formData = parsed.data;
+  const [priorYears] = await Effect.runPromise(
+    priorYearFilings(c.env, requestOwner(c), [formData]),
+  );
+  const program = validateForm(c.env, parsed.form, formData, priorYears).pipe(
     Effect.catchTag('AIValidationError', (err) =>
-      Effect.succeed(aiFallbackResult(formData, err.message)),
+      Effect.succeed(aiFallbackResult(parsed.form, formData, err.message)),
     ),
   );
   const result = await Effect.runPromise(program);
@@ -356,36 +707,121 @@ app.post('/validate', async (c) => {
 /** Idempotency key TTL: 24 hours (in seconds). */
 const IDEMPOTENCY_TTL = 86_400;
 
-/** POST /file — Validate → create 1099-NEC in TaxBandits. */
+/**
+ * POST /file — Validate → create a 1099 (any registered form type) in TaxBandits.
+ * `?dry_run=true` stops short of TaxBandits and returns the payload instead.
+ */
 app.post('/file', async (c) => {
+  const asyncQuery = parseAsyncQuery(c.req.query());
+  if (!asyncQuery.ok) {
+    return c.json<ApiResponse<never>>({ success: false, error: asyncQuery.error }, 400);
+  }
+
   // Idempotency: if an Idempotency-Key header is provided and IDEMPOTENCY_KV is bound,
   // return a cached response on retry instead of creating a duplicate filing.
-  const idempotencyKey = c.req.header('Idempotency-Key')?.trim() || null;
+  // Dry runs file nothing, so they neither use nor fill the cache.
+  const idempotencyKey = asyncQuery.dryRun ? null : c.req.header('Idempotency-Key')?.trim() || null;
   const kv = c.env.IDEMPOTENCY_KV;
 
   if (idempotencyKey && kv) {
     const cached = await kv.get(idempotencyKey, 'text');
     if (cached) {
       const parsed = JSON.parse(cached) as { status: number; body: unknown };
-      return c.json(parsed.body, parsed.status as 200 | 422 | 502);
+      return c.json(parsed.body, parsed.status as 200 | 202 | 422 | 502);
     }
   }
 
-  const parsed = await parseBody(c);
+  const raw = await readFormJson(c);
+  if (Either.isLeft(raw)) {
+    return c.json<ApiResponse<never>>(
+      { success: false, error: raw.left.message },
+      referenceErrorStatus(raw.left),
+    );
+  }
+  const parsed = parseFormBody(raw.right);
   if (!parsed.success) {
     return c.json<ApiResponse<never>>(
       { success: false, error: 'Invalid request body', details: parsed.error.flatten() },
       400,
     );
   }
-  const body = parsed.data as Form1099NECRequest;
+  const { form, data: body } = parsed;
+  const provider = payloadProvider(c.env, asyncQuery.provider);
+  const unsupported = providerFormError(provider, form.formType);
+  if (unsupported) return c.json<ApiResponse<never>>({ success: false, error: unsupported }, 400);
+  const denied = await payerAccess(c.env, requestOwner(c), [body.payer]);
+  if (denied) return c.json(denied.body, denied.status);
+
+  // ?async=true: file as a one-form job instead of waiting on AI review + TaxBandits
+  if (asyncQuery.async) {
+    const job = await startFilingJob(c.env, form, [body], asyncQuery.callbackUrl, requestOwner(c));
+    if (job.status === 202 && idempotencyKey && kv) {
+      await kv.put(idempotencyKey, JSON.stringify(job), { expirationTtl: IDEMPOTENCY_TTL });
+    }
+    if (job.body.success) c.header('Location', `/jobs/${job.body.data.jobId}`);
+    return c.json(job.body, job.status);
+  }
 
-  const validationProgram = validateForm(c.env, body).pipe(
+  const [priorYears] = await Effect.runPromise(priorYearFilings(c.env, requestOwner(c), [body]));
+  const validationProgram = validateForm(c.env, form, body, priorYears).pipe(
     Effect.catchTag('AIValidationError', (err) =>
-      Effect.succeed(aiFallbackResult(body, err.message)),
+      Effect.succeed(aiFallbackResult(form, body, err.message)),
     ),
   );
-  const validation = await Effect.runPromise(validationProgram);
+  let validation = await Effect.runPromise(validationProgram);
+
+  // ?dry_run=true: the payload the provider would get, whether or not validation passed
+  if (asyncQuery.dryRun) {
+    const dryRun = await Effect.runPromise(
+      Effect.either(provider.preview(callerTenant(c), form, [body])),
+    );
+    if (Either.isLeft(dryRun)) {
+      return c.json<ApiResponse<{ validation: ValidationResult }>>(
+        { success: false, error: dryRun.left.message, details: { validation } },
+        422,
+      );
+    }
+    const { payload, issues, comparison } = dryRun.right;
+    return c.json<
+      ApiResponse<{
+        dry_run: true;
+        provider: ProviderName;
+        would_file: boolean;
+        validation: ValidationResult;
+        payload: ProviderPreview['payload'];
+        payload_issues: ValidationIssue[];
+        comparison?: PayloadDifference[];
+      }>
+    >({
+      success: true,
+      data: {
+        dry_run: true,
+        provider: provider.name,
+        would_file: validation.valid && !issues.some((i) => i.severity === 'error'),
+        validation,
+        payload,
+        payload_issues: issues,
+        comparison,
+      },
+    });
+  }
+
+  if (validation.valid && c.req.query('tin_match') === 'true') {
+    const matched = await Effect.runPromise(
+      Effect.either(runTinMatching(c.env, callerTenant(c), [body], [validation])),
+    );
+    if (Either.isLeft(matched)) {
+      return c.json<ApiResponse<{ validation: ValidationResult }>>(
+        {
+          success: false,
+          error: `TIN matching failed: ${scrubTINs(matched.left.message)}`,
+          details: { validation },
+        },
+        matched.left._tag === 'TINVaultError' ? 422 : 502,
+      );
+    }
+    validation = matched.right[0] ?? validation;
+  }
 
   if (!validation.valid) {
     return c.json<ApiResponse<{ validation: ValidationResult }>>(
@@ -398,39 +834,46 @@ app.post('/file', async (c) => {
     );
   }
 
-  const filingProgram = create1099NEC(c.env, body).pipe(
-    Effect.tap((created) =>
-      Effect.promise(async () => {
-        if (c.env.WEBHOOK_STATE && created.SubmissionId) {
-          const stub = c.env.WEBHOOK_STATE.get(c.env.WEBHOOK_STATE.idFromName('global'));
-          await stub.trackSubmission(created.SubmissionId, 'FORM1099NEC');
-        }
-      }),
-    ),
-    Effect.map((created) => {
-      const responseBody: ApiResponse<{
-        validation: ValidationResult;
-        filing: TaxBanditsCreateResponse;
-      }> = {
-        success: true,
-        data: { validation, filing: created },
-      };
-      return { status: 200 as const, body: responseBody };
-    }),
-    Effect.catchAll((err) =>
-      Effect.succeed({
-        status: 502 as const,
-        body: {
-          success: false,
-          error: 'TaxBandits API call failed',
-          details: {
-            validation,
-            taxbandits_error: scrubTINs(err.message),
-          },
-        } as ApiResponse<{ validation: ValidationResult }>,
+  const filingProgram = filingProvider(c.env)
+    .createSubmission(callerTenant(c), form, [body])
+    .pipe(
+      Effect.tap((created) =>
+        recordSubmission(c.env, form, created, [body], [validation], requestOwner(c)),
+      ),
+      Effect.map((created) => {
+        const responseBody: ApiResponse<{
+          validation: ValidationResult;
+          filing: TaxBanditsCreateResponse;
+        }> = {
+          success: true,
+          data: { validation, filing: created },
+        };
+        return { status: 200 as const, body: responseBody };
       }),
-    ),
-  );
+      Effect.catchTag('TINVaultError', (err) =>
+        Effect.succeed({
+          status: 422 as const,
+          body: {
+            success: false,
+            error: err.message,
+            details: { validation },
+          } as ApiResponse<{ validation: ValidationResult }>,
+        }),
+      ),
+      Effect.catchAll((err) =>
+        Effect.succeed({
+          status: 502 as const,
+          body: {
+            success: false,
+            error: 'TaxBandits API call failed',
+            details: {
+              validation,
+              taxbandits_error: scrubTINs(err.message),
+            },
+          } as ApiResponse<{ validation: ValidationResult }>,
+        }),
+      ),
+    );
   const result = await Effect.runPromise(filingProgram);
 
   // Cache successful filing response for idempotency
@@ -443,31 +886,154 @@ app.post('/file', async (c) => {
   return c.json(result.body, result.status);
 });
 
-/** POST /file/batch — Validate + create multiple 1099-NECs in one TaxBandits submission. */
+/** Outcome of one payer's TaxBandits submission within a batch. */
+interface PayerSubmission {
+  payer: { name: string; tin: string }; // TIN masked
+  form_indexes: number[]; // positions in the request's `forms`
+  submission_id: string | null;
+  filing?: TaxBanditsCreateResponse;
+  error?: string;
+}
+
+interface BatchFilingResult {
+  validations: ValidationResult[];
+  submissions: PayerSubmission[];
+  summary: ReturnType<typeof batchSummary>;
+}
+
+function batchSummary(submissions: PayerSubmission[]) {
+  const created = submissions.filter((s) => s.submission_id !== null);
+  const formsFiled = created.reduce((n, s) => n + s.form_indexes.length, 0);
+  const formsTotal = submissions.reduce((n, s) => n + s.form_indexes.length, 0);
+  return {
+    payers: submissions.length,
+    submissions_created: created.length,
+    submissions_failed: submissions.length - created.length,
+    forms_filed: formsFiled,
+    forms_failed: formsTotal - formsFiled,
+  };
+}
+
+/**
+ * POST /file/batch — Validate + create multiple 1099s, one TaxBandits submission
+ * per payer. All forms share the body-level `form_type` (default 1099-NEC).
+ * Validation is all-or-nothing; filing is per payer, so a batch can partly
+ * succeed (207). `?dry_run=true` returns each payer's payload instead.
+ */
 app.post('/file/batch', async (c) => {
-  const raw = await c.req.json().catch(() => null);
-  const schema = z.object({ forms: z.array(Form1099NECSchema).min(1).max(100) });
-  const parsed = schema.safeParse(raw);
+  const asyncQuery = parseAsyncQuery(c.req.query());
+  if (!asyncQuery.ok) {
+    return c.json<ApiResponse<never>>({ success: false, error: asyncQuery.error }, 400);
+  }
+  const raw = await readFormJson(c);
+  if (Either.isLeft(raw)) {
+    return c.json<ApiResponse<never>>(
+      { success: false, error: raw.left.message },
+      referenceErrorStatus(raw.left),
+    );
+  }
+  const parsed = parseBatchBody(raw.right, 100);
   if (!parsed.success) {
     return c.json<ApiResponse<never>>(
       { success: false, error: 'Invalid request body', details: parsed.error.flatten() },
       400,
     );
   }
-  const forms = parsed.data.forms as Form1099NECRequest[];
+  const { form, data: forms } = parsed;
+  const provider = payloadProvider(c.env, asyncQuery.provider);
+  const unsupported = providerFormError(provider, form.formType);
+  if (unsupported) return c.json<ApiResponse<never>>({ success: false, error: unsupported }, 400);
+  const denied = await payerAccess(
+    c.env,
+    requestOwner(c),
+    forms.map((f) => f.payer),
+  );
+  if (denied) return c.json(denied.body, denied.status);
+
+  // ?async=true: chunk per payer and file in the background, like POST /jobs
+  if (asyncQuery.async) {
+    const job = await startFilingJob(c.env, form, forms, asyncQuery.callbackUrl, requestOwner(c));
+    if (job.body.success) c.header('Location', `/jobs/${job.body.data.jobId}`);
+    return c.json(job.body, job.status);
+  }
 
   // Validate all forms
+  const priorYears = await Effect.runPromise(priorYearFilings(c.env, requestOwner(c), forms));
   const validationProgram = Effect.forEach(
     forms,
-    (f) =>
-      validateForm(c.env, f).pipe(
+    (f, i) =>
+      validateForm(c.env, form, f, priorYears[i]).pipe(
         Effect.catchTag('AIValidationError', (err) =>
-          Effect.succeed(aiFallbackResult(f, err.message)),
+          Effect.succeed(aiFallbackResult(form, f, err.message)),
         ),
       ),
     { concurrency: 'unbounded' },
   );
-  const validations = await Effect.runPromise(validationProgram);
+  let validations = await Effect.runPromise(validationProgram);
+
+  // ?dry_run=true: one payload per payer, as the submissions below would be built
+  if (asyncQuery.dryRun) {
+    const dryRuns = await Effect.runPromise(
+      Effect.either(
+        Effect.forEach(groupByPayer(forms), (group) =>
+          provider.preview(callerTenant(c), form, group.forms).pipe(
+            Effect.map(({ payload, issues, comparison }) => ({
+              payer: { name: group.payer.name, tin: maskTIN(tinLast4(group.payer)) },
+              form_indexes: group.indexes,
+              payload,
+              payload_issues: issues,
+              comparison,
+            })),
+          ),
+        ),
+      ),
+    );
+    if (Either.isLeft(dryRuns)) {
+      return c.json<ApiResponse<{ validations: ValidationResult[] }>>(
+        { success: false, error: dryRuns.left.message, details: { validations } },
+        422,
+      );
+    }
+    const submissions = dryRuns.right;
+    const wouldFile =
+      validations.every((v) => v.valid) &&
+      submissions.every((s) => !s.payload_issues.some((i) => i.severity === 'error'));
+    return c.json<
+      ApiResponse<{
+        dry_run: true;
+        provider: ProviderName;
+        would_file: boolean;
+        validations: ValidationResult[];
+        submissions: typeof submissions;
+      }>
+    >({
+      success: true,
+      data: {
+        dry_run: true,
+        provider: provider.name,
+        would_file: wouldFile,
+        validations,
+        submissions,
+      },
+    });
+  }
+
+  if (validations.every((v) => v.valid) && c.req.query('tin_match') === 'true') {
+    const matched = await Effect.runPromise(
+      Effect.either(runTinMatching(c.env, callerTenant(c), forms, validations)),
+    );
+    if (Either.isLeft(matched)) {
+      return c.json<ApiResponse<{ validations: ValidationResult[] }>>(
+        {
+          success: false,
+          error: `TIN matching failed: ${scrubTINs(matched.left.message)}`,
+          details: { validations },
+        },
+        matched.left._tag === 'TINVaultError' ? 422 : 502,
+      );
+    }
+    validations = matched.right;
+  }
 
   const failed = validations.filter((v) => !v.valid);
   if (failed.length > 0) {
@@ -481,72 +1047,249 @@ app.post('/file/batch', async (c) => {
     );
   }
 
-  const filingProgram = createBatch1099NEC(c.env, forms).pipe(
-    Effect.tap((created) =>
-      Effect.promise(async () => {
-        if (c.env.WEBHOOK_STATE && created.SubmissionId) {
-          const stub = c.env.WEBHOOK_STATE.get(c.env.WEBHOOK_STATE.idFromName('global'));
-          await stub.trackSubmission(created.SubmissionId, 'FORM1099NEC');
-        }
-      }),
-    ),
-    Effect.map((created) => ({
-      status: 200 as const,
-      body: {
-        success: true,
-        data: { validations, filing: created },
-      } as ApiResponse<{ validations: ValidationResult[]; filing: TaxBanditsCreateResponse }>,
-    })),
-    Effect.catchAll((err) =>
-      Effect.succeed({
-        status: 502 as const,
-        body: {
-          success: false,
-          error: 'TaxBandits API call failed',
-          details: {
-            validations,
-            taxbandits_error: scrubTINs(err.message),
-          },
-        } as ApiResponse<{ validations: ValidationResult[] }>,
-      }),
-    ),
+  // One TaxBandits submission per payer; a failed payer doesn't stop the others
+  const filingProgram = Effect.forEach(groupByPayer(forms), (group) => {
+    const base = {
+      payer: { name: group.payer.name, tin: maskTIN(tinLast4(group.payer)) },
+      form_indexes: group.indexes,
+    };
+    return filingProvider(c.env)
+      .createSubmission(callerTenant(c), form, group.forms)
+      .pipe(
+        Effect.tap((created) =>
+          recordSubmission(
+            c.env,
+            form,
+            created,
+            group.forms,
+            group.indexes.map((i) => validations[i] as ValidationResult),
+            requestOwner(c),
+          ),
+        ),
+        Effect.map((created) => ({
+          result: { ...base, submission_id: created.SubmissionId, filing: created },
+          failure: null,
+        })),
+        Effect.catchTag('TINVaultError', (err) =>
+          Effect.succeed({
+            result: { ...base, submission_id: null, error: err.message },
+            failure: 'vault' as const,
+          }),
+        ),
+        Effect.catchAll((err) =>
+          Effect.succeed({
+            result: {
+              ...base,
+              submission_id: null,
+              error: `TaxBandits API call failed: ${scrubTINs(err.message)}`,
+            },
+            failure: 'taxbandits' as const,
+          }),
+        ),
+      );
+  });
+  const outcomes: Array<{ result: PayerSubmission; failure: 'vault' | 'taxbandits' | null }> =
+    await Effect.runPromise(filingProgram);
+  const submissions = outcomes.map((o) => o.result);
+  const summary = batchSummary(submissions);
+
+  if (summary.submissions_failed === 0) {
+    return c.json<ApiResponse<BatchFilingResult>>({
+      success: true,
+      data: { validations, submissions, summary },
+    });
+  }
+  return c.json<ApiResponse<BatchFilingResult>>(
+    {
+      success: false,
+      error: `${summary.submissions_failed} of ${summary.payers} payer submissions failed`,
+      details: { validations, submissions, summary },
+    },
+    summary.submissions_created > 0
+      ? 207
+      : outcomes.every((o) => o.failure === 'vault')
+        ? 422
+        : 502,
   );
-  const result = await Effect.runPromise(filingProgram);
-  return c.json(result.body, result.status);
 });
 
-/** POST /transmit/:submissionId — Transmit to the IRS. */
-app.post('/transmit/:submissionId', async (c) => {
-  const idCheck = SubmissionIdSchema.safeParse(c.req.param('submissionId'));
-  if (!idCheck.success) {
+// ---------------------------------------------------------------------------
+// Bulk filing jobs — chunked per payer, filed on FILING_QUEUE or WebhookState's alarm
+// ---------------------------------------------------------------------------
+
+/** POST /jobs — Upload forms once; they are validated and filed in the background. */
+app.post('/jobs', async (c) => {
+  if (!c.env.WEBHOOK_STATE) {
     return c.json<ApiResponse<never>>(
-      { success: false, error: 'Invalid submission ID — must be a UUID' },
+      { success: false, error: 'Filing jobs are not configured' },
+      503,
+    );
+  }
+  const query = JobQuerySchema.pick({ callback_url: true }).safeParse(c.req.query());
+  if (!query.success) {
+    return c.json<ApiResponse<never>>(
+      { success: false, error: query.error.issues[0]?.message ?? 'Invalid query' },
+      400,
+    );
+  }
+  const raw = await readFormJson(c);
+  if (Either.isLeft(raw)) {
+    return c.json<ApiResponse<never>>(
+      { success: false, error: raw.left.message },
+      referenceErrorStatus(raw.left),
+    );
+  }
+  const parsed = parseBatchBody(raw.right, JOB_MAX_FORMS);
+  if (!parsed.success) {
+    return c.json<ApiResponse<never>>(
+      { success: false, error: 'Invalid request body', details: parsed.error.flatten() },
       400,
     );
   }
 
-  const program = transmit(c.env, idCheck.data).pipe(
-    Effect.map((data) => ({
-      status: 200 as const,
-      body: { success: true, data } as ApiResponse<TaxBanditsTransmitResponse>,
-    })),
-    Effect.catchAll((err) =>
-      Effect.succeed({
-        status: 502 as const,
-        body: {
-          success: false,
-          error: 'Transmit failed',
-          details: scrubTINs(err.message),
-        } as ApiResponse<never>,
-      }),
-    ),
+  const denied = await payerAccess(
+    c.env,
+    requestOwner(c),
+    parsed.data.map((f) => f.payer),
   );
-  const result = await Effect.runPromise(program);
+  if (denied) return c.json(denied.body, denied.status);
+
+  const job = await startFilingJob(
+    c.env,
+    parsed.form,
+    parsed.data,
+    query.data.callback_url ?? null,
+    requestOwner(c),
+  );
+  if (job.body.success) c.header('Location', `/jobs/${job.body.data.jobId}`);
+  return c.json(job.body, job.status);
+});
+
+/** GET /jobs/:jobId — Job progress. */
+app.get('/jobs/:jobId', async (c) => {
+  const ns = c.env.WEBHOOK_STATE;
+  if (!ns) return c.json({ success: false, error: 'Filing jobs are not configured' }, 503);
+  const job = await callerState(ns, c).getJob(c.req.param('jobId'));
+  if (!job) return c.json({ success: false, error: 'Job not found' }, 404);
+  return c.json<ApiResponse<FilingJob>>({ success: true, data: job });
+});
+
+/** POST /jobs/:jobId/resume — Requeue the chunks that failed at TaxBandits. */
+app.post('/jobs/:jobId/resume', async (c) => {
+  const ns = c.env.WEBHOOK_STATE;
+  if (!ns) return c.json({ success: false, error: 'Filing jobs are not configured' }, 503);
+  const stub = callerState(ns, c);
+  const jobId = c.req.param('jobId');
+  const existing = await stub.getJob(jobId);
+  if (!existing) {
+    return c.json({ success: false, error: 'Job not found' }, 404);
+  }
+  const queue = c.env.FILING_QUEUE;
+  if (existing.runner === 'queue' && !queue) {
+    return c.json({ success: false, error: 'FILING_QUEUE is not configured' }, 503);
+  }
+  const resumed = await stub.resumeJob(jobId);
+  if (resumed === 0) {
+    return c.json({ success: false, error: 'No failed chunks to resume' }, 409);
+  }
+  const job = await stub.getJob(jobId);
+  if (job && queue && job.runner === 'queue') {
+    const pending = job.chunks.filter((ch) => ch.status === 'PENDING');
+    await Effect.runPromise(
+      enqueueJobChunks(
+        queue,
+        callerTenant(c),
+        jobId,
+        pending.map((ch) => ch.chunkIndex),
+      ),
+    );
+  }
+  return c.json<ApiResponse<FilingJob | null>>({ success: true, data: job }, 202);
+});
+
+// ---------------------------------------------------------------------------
+// Submission approval — a second person signs off before /transmit
+// ---------------------------------------------------------------------------
+
+const REVIEW_REFUSALS: Record<ReviewRefusal, { status: 403 | 404 | 409; error: string }> = {
+  UNIDENTIFIED_REVIEWER: {
+    status: 403,
+    error: 'Reviewing a submission needs an API key identity (x-api-key) or the admin Bearer token',
+  },
+  NOT_FOUND: { status: 404, error: 'Submission not found' },
+  SELF_REVIEW: {
+    status: 403,
+    error:
+      'The preparer of a submission cannot review it — another organization member or the admin (Bearer token) can',
+  },
+  ALREADY_REVIEWED: { status: 409, error: 'Submission has already been reviewed' },
+  ALREADY_TRANSMITTED: { status: 409, error: 'Submission has already been transmitted' },
+};
+
+/**
+ * Record the caller's approval or rejection of one of their tenant's
+ * submissions. The admin reviews in whichever tenant filed the submission.
+ */
+async function reviewCallerSubmission(
+  c: IdentityContext & {
+    env: Env;
+    req: {
+      param: (name: 'submissionId') => string;
+      header: (name: string) => string | undefined;
+      json: () => Promise<unknown>;
+    };
+  },
+  decision: 'APPROVED' | 'REJECTED',
+  schema: typeof ApproveBodySchema | typeof RejectBodySchema,
+): Promise<{ status: 200 | 400 | 403 | 404 | 409 | 503; body: ApiResponse<SubmissionRecord> }> {
+  const ns = c.env.WEBHOOK_STATE;
+  if (!ns) {
+    return {
+      status: 503,
+      body: { success: false, error: 'Submission approvals are not configured' },
+    };
+  }
+  const parsed = schema.safeParse((await c.req.json().catch(() => null)) ?? {});
+  if (!parsed.success) {
+    return {
+      status: 400,
+      body: { success: false, error: 'Invalid request body', details: parsed.error.flatten() },
+    };
+  }
+  const submissionId = c.req.param('submissionId');
+  const admin = isAdminRequest(c);
+  const stub = admin ? tenantState(ns, await findTenant(ns, submissionId)) : callerState(ns, c);
+  const outcome = await stub.reviewSubmission(
+    submissionId,
+    decision,
+    admin ? ADMIN_REVIEWER : requestOwner(c),
+    parsed.data.note ?? null,
+  );
+  if (!outcome.ok) {
+    const { status, error } = REVIEW_REFUSALS[outcome.reason];
+    return { status, body: { success: false, error } };
+  }
+  return { status: 200, body: { success: true, data: outcome.submission } };
+}
+
+/** POST /submissions/:submissionId/approve — Clear a submission for /transmit. */
+app.post('/submissions/:submissionId/approve', async (c) => {
+  const result = await reviewCallerSubmission(c, 'APPROVED', ApproveBodySchema);
   return c.json(result.body, result.status);
 });
 
-/** GET /status/:submissionId — Check filing status. */
-app.get('/status/:submissionId', async (c) => {
+/** POST /submissions/:submissionId/reject — Refuse a submission; it can no longer be transmitted. */
+app.post('/submissions/:submissionId/reject', async (c) => {
+  const result = await reviewCallerSubmission(c, 'REJECTED', RejectBodySchema);
+  return c.json(result.body, result.status);
+});
+
+/**
+ * POST /transmit/:submissionId — Transmit an approved submission to the IRS,
+ * or with `transmit_at` in the body schedule it (see ./scheduled-transmit).
+ * The form type is the tracked submission's; `?form_type=` must agree with it.
+ */
+app.post('/transmit/:submissionId', async (c) => {
   const idCheck = SubmissionIdSchema.safeParse(c.req.param('submissionId'));
   if (!idCheck.success) {
     return c.json<ApiResponse<never>>(
@@ -555,36 +1298,928 @@ app.get('/status/:submissionId', async (c) => {
     );
   }
 
-  const program = getStatus(c.env, idCheck.data).pipe(
-    Effect.map((data) => ({
-      status: 200 as const,
-      body: { success: true, data } as ApiResponse<TaxBanditsStatusResponse>,
-    })),
-    Effect.catchAll((err) =>
-      Effect.succeed({
-        status: 502 as const,
-        body: {
-          success: false,
-          error: 'Status check failed',
-          details: scrubTINs(err.message),
-        } as ApiResponse<never>,
-      }),
-    ),
-  );
-  const result = await Effect.runPromise(program);
-  return c.json(result.body, result.status);
-});
+  const formTypeCheck = parseFormTypeQuery(c.req.query('form_type'));
+  if (!formTypeCheck.success) {
+    return c.json<ApiResponse<never>>(
+      { success: false, error: 'Invalid form_type — must be 1099-NEC or 1099-MISC' },
+      400,
+    );
+  }
 
-/** GET /openapi.json — OpenAPI 3.1 specification. */
-// ---------------------------------------------------------------------------
+  const body = TransmitBodySchema.safeParse((await c.req.json().catch(() => null)) ?? {});
+  if (!body.success) {
+    return c.json<ApiResponse<never>>(
+      { success: false, error: 'Invalid request body', details: body.error.flatten() },
+      400,
+    );
+  }
+
+  const ns = c.env.WEBHOOK_STATE;
+  if (!ns) {
+    return c.json({ success: false, error: 'Submission approvals are not configured' }, 503);
+  }
+  const submission = await callerState(ns, c).getSubmission(idCheck.data);
+  if (!submission) {
+    return c.json<ApiResponse<never>>({ success: false, error: 'Submission not found' }, 404);
+  }
+  if (submission.approvalStatus !== 'APPROVED') {
+    const error =
+      submission.approvalStatus === 'REJECTED'
+        ? 'Submission was rejected in review and cannot be transmitted'
+        : 'Submission is awaiting approval by a reviewer other than its preparer';
+    return c.json<ApiResponse<never>>({ success: false, error }, 409);
+  }
+  const formType = formTypeFromTaxBandits(submission.formType) ?? formTypeCheck.data;
+  if (c.req.query('form_type') !== undefined && formTypeCheck.data !== formType) {
+    return c.json<ApiResponse<never>>(
+      { success: false, error: `form_type does not match the submission, a ${formType}` },
+      400,
+    );
+  }
+  if (submission.status !== 'CREATED') {
+    return c.json<ApiResponse<never>>(
+      { success: false, error: 'Submission has already been transmitted' },
+      409,
+    );
+  }
+
+  if (body.data.transmit_at) {
+    const transmitAt = Date.parse(body.data.transmit_at);
+    const now = Date.now();
+    if (transmitAt <= now || transmitAt > now + MAX_SCHEDULE_AHEAD_DAYS * 24 * 60 * 60 * 1000) {
+      return c.json<ApiResponse<never>>(
+        {
+          success: false,
+          error: `transmit_at must be in the future and within ${MAX_SCHEDULE_AHEAD_DAYS} days`,
+        },
+        400,
+      );
+    }
+    const scheduled = await callerState(ns, c).scheduleTransmit(idCheck.data, formType, transmitAt);
+    if (!scheduled) {
+      return c.json<ApiResponse<never>>(
+        { success: false, error: 'Scheduled transmission is already under way' },
+        409,
+      );
+    }
+    return c.json<ApiResponse<ScheduledTransmission>>({ success: true, data: scheduled }, 202);
+  }
+
+  // A pending or running schedule will send it — cancel the schedule to transmit now
+  const schedule = await callerState(ns, c).getScheduledTransmission(idCheck.data);
+  if (schedule && (schedule.status === 'SCHEDULED' || schedule.status === 'RUNNING')) {
+    return c.json<ApiResponse<never>>(
+      {
+        success: false,
+        error: `Submission has a ${schedule.status.toLowerCase()} scheduled transmission — cancel it with DELETE /transmit/${idCheck.data} to transmit now`,
+      },
+      409,
+    );
+  }
+
+  const program = filingProvider(c.env)
+    .transmit(idCheck.data, getFormDefinition(formType))
+    .pipe(
+      Effect.tap(() => Effect.promise(() => callerState(ns, c).markTransmitted(idCheck.data))),
+      Effect.map((data) => ({
+        status: 200 as const,
+        body: { success: true, data } as ApiResponse<TaxBanditsTransmitResponse>,
+      })),
+      Effect.catchAll((err) =>
+        Effect.succeed({
+          status: 502 as const,
+          body: {
+            success: false,
+            error: 'Transmit failed',
+            details: scrubTINs(err.message),
+          } as ApiResponse<never>,
+        }),
+      ),
+    );
+  const result = await Effect.runPromise(program);
+  return c.json(result.body, result.status);
+});
+
+/** GET /transmit/scheduled — The caller's scheduled transmissions, soonest first (`?status=`). */
+app.get('/transmit/scheduled', async (c) => {
+  const ns = c.env.WEBHOOK_STATE;
+  if (!ns) {
+    return c.json({ success: false, error: 'Scheduled transmission is not configured' }, 503);
+  }
+  const query = ScheduledTransmitQuerySchema.safeParse(c.req.query());
+  if (!query.success) {
+    return c.json<ApiResponse<never>>(
+      { success: false, error: 'Invalid query', details: query.error.flatten() },
+      400,
+    );
+  }
+  const scheduled = await callerState(ns, c).listScheduledTransmissions(query.data.status);
+  return c.json<ApiResponse<ScheduledTransmission[]>>({ success: true, data: scheduled });
+});
+
+/** DELETE /transmit/:submissionId — Cancel a submission's scheduled transmission. */
+app.delete('/transmit/:submissionId', async (c) => {
+  const ns = c.env.WEBHOOK_STATE;
+  if (!ns) {
+    return c.json({ success: false, error: 'Scheduled transmission is not configured' }, 503);
+  }
+  const stub = callerState(ns, c);
+  const submissionId = c.req.param('submissionId');
+  const existing = await stub.getScheduledTransmission(submissionId);
+  if (!existing) {
+    return c.json({ success: false, error: 'No scheduled transmission for this submission' }, 404);
+  }
+  const cancelled = await stub.cancelScheduledTransmit(submissionId);
+  if (!cancelled) {
+    return c.json(
+      { success: false, error: `Scheduled transmission is ${existing.status}, not SCHEDULED` },
+      409,
+    );
+  }
+  return c.json<ApiResponse<ScheduledTransmission>>({ success: true, data: cancelled });
+});
+
+/** GET /status/:submissionId — Check filing status. */
+app.get('/status/:submissionId', async (c) => {
+  const idCheck = SubmissionIdSchema.safeParse(c.req.param('submissionId'));
+  if (!idCheck.success) {
+    return c.json<ApiResponse<never>>(
+      { success: false, error: 'Invalid submission ID — must be a UUID' },
+      400,
+    );
+  }
+
+  const formTypeCheck = parseFormTypeQuery(c.req.query('form_type'));
+  if (!formTypeCheck.success) {
+    return c.json<ApiResponse<never>>(
+      { success: false, error: 'Invalid form_type — must be 1099-NEC or 1099-MISC' },
+      400,
+    );
+  }
+
+  const program = filingProvider(c.env)
+    .getStatus(idCheck.data, getFormDefinition(formTypeCheck.data))
+    .pipe(
+      Effect.map((data) => ({
+        status: 200 as const,
+        body: { success: true, data } as ApiResponse<TaxBanditsStatusResponse>,
+      })),
+      Effect.catchAll((err) =>
+        Effect.succeed({
+          status: 502 as const,
+          body: {
+            success: false,
+            error: 'Status check failed',
+            details: scrubTINs(err.message),
+          } as ApiResponse<never>,
+        }),
+      ),
+    );
+  const result = await Effect.runPromise(program);
+  return c.json(result.body, result.status);
+});
+
+// ---------------------------------------------------------------------------
+// Corrections & voids — 1099-NEC records already transmitted to the IRS
+// ---------------------------------------------------------------------------
+
+/** Validate the `:submissionId/:recordId` pair (TaxBandits RecordIds are UUIDs too). */
+function parseRecordParams(c: { req: { param: (name: string) => string | undefined } }) {
+  return z
+    .object({ submissionId: SubmissionIdSchema, recordId: SubmissionIdSchema })
+    .safeParse({ submissionId: c.req.param('submissionId'), recordId: c.req.param('recordId') });
+}
+
+/**
+ * Validate a correction/void with the correction-aware rules and prompt, file
+ * it against the original record, and track its lifecycle next to the
+ * original submission in `owner`'s WebhookState.
+ */
+async function fileCorrection(
+  env: Env,
+  owner: SubmissionOwner,
+  target: CorrectionTarget,
+  data: Form1099NECRequest,
+) {
+  const denied = await payerAccess(env, owner, [data.payer]);
+  if (denied) return denied;
+  const ns = env.WEBHOOK_STATE;
+  if (!ns) {
+    return {
+      status: 503 as const,
+      body: { success: false, error: 'Corrections are not configured' } as ApiResponse<never>,
+    };
+  }
+  const tenant = tenantOf(owner);
+  const stub = tenantState(ns, tenant);
+  // Only the caller's tenant's submissions, and only once they have been transmitted
+  const original = await stub.getSubmission(target.submissionId);
+  if (!original) {
+    return {
+      status: 404 as const,
+      body: { success: false, error: 'Submission not found' } as ApiResponse<never>,
+    };
+  }
+  if (original.status === 'CREATED') {
+    return {
+      status: 409 as const,
+      body: {
+        success: false,
+        error: 'Submission has not been transmitted — fix it and file again instead',
+      } as ApiResponse<never>,
+    };
+  }
+  if (original.formType !== 'FORM1099NEC') {
+    return {
+      status: 422 as const,
+      body: {
+        success: false,
+        error: `Corrections are only supported for 1099-NEC submissions (got ${original.formType})`,
+      } as ApiResponse<never>,
+    };
+  }
+
+  const form = correctionFormDefinition(target);
+  const validation = await Effect.runPromise(
+    validateForm(env, form, data).pipe(
+      Effect.catchTag('AIValidationError', (err) =>
+        Effect.succeed(aiFallbackResult(form, data, err.message)),
+      ),
+    ),
+  );
+  if (!validation.valid) {
+    return {
+      status: 422 as const,
+      body: {
+        success: false,
+        error: 'Validation failed — fix issues before filing the correction',
+        details: { validation },
+      } as ApiResponse<{ validation: ValidationResult }>,
+    };
+  }
+
+  const filed = target.isVoid ? voidedForm(data) : data;
+  const program = filingProvider(env)
+    .createSubmission(tenantOf(owner), form, [data])
+    .pipe(
+      Effect.tap((created) =>
+        persistFormRecords(env, form, created, [filed], [validation], true, owner),
+      ),
+      Effect.flatMap((created) =>
+        Effect.promise(async () => {
+          await registerSubmission(ns, created.SubmissionId, tenant);
+          // Tracked like any submission so it goes through approval before /transmit
+          await stub.trackSubmission(created.SubmissionId, form.taxBanditsFormType, owner);
+          const correction = await stub.trackCorrection({
+            ...target,
+            correctionSubmissionId: created.SubmissionId,
+            correctionRecordId: created.FormRecords?.[0]?.RecordId ?? null,
+          });
+          return {
+            status: 200 as const,
+            body: {
+              success: true,
+              data: { validation, correction, filing: created },
+            } as ApiResponse<{
+              validation: ValidationResult;
+              correction: CorrectionRecord | null;
+              filing: TaxBanditsCreateResponse;
+            }>,
+          };
+        }),
+      ),
+      Effect.catchTag('TINVaultError', (err) =>
+        Effect.succeed({
+          status: 422 as const,
+          body: {
+            success: false,
+            error: err.message,
+            details: { validation },
+          } as ApiResponse<{ validation: ValidationResult }>,
+        }),
+      ),
+      Effect.catchAll((err) =>
+        Effect.succeed({
+          status: 502 as const,
+          body: {
+            success: false,
+            error: 'TaxBandits API call failed',
+            details: { validation, taxbandits_error: scrubTINs(err.message) },
+          } as ApiResponse<{ validation: ValidationResult }>,
+        }),
+      ),
+    );
+  return Effect.runPromise(program);
+}
+
+/** POST /correct/:submissionId/:recordId — File a Type 1 / Type 2 correction. */
+app.post('/correct/:submissionId/:recordId', async (c) => {
+  const params = parseRecordParams(c);
+  if (!params.success) {
+    return c.json<ApiResponse<never>>(
+      { success: false, error: 'Invalid submission or record ID — must be UUIDs' },
+      400,
+    );
+  }
+
+  const raw = await readCorrectionJson(c);
+  if (Either.isLeft(raw)) {
+    return c.json<ApiResponse<never>>(
+      { success: false, error: raw.left.message },
+      referenceErrorStatus(raw.left),
+    );
+  }
+  const parsed = CorrectionBodySchema.safeParse(raw.right);
+  if (!parsed.success) {
+    return c.json<ApiResponse<never>>(
+      { success: false, error: 'Invalid request body', details: parsed.error.flatten() },
+      400,
+    );
+  }
+
+  const result = await fileCorrection(
+    c.env,
+    requestOwner(c),
+    { ...params.data, correctionType: parsed.data.correction_type, isVoid: false },
+    parsed.data.form,
+  );
+  return c.json(result.body, result.status);
+});
+
+/** POST /void/:submissionId/:recordId — Void a record (Type 1 correction, all amounts zero). */
+app.post('/void/:submissionId/:recordId', async (c) => {
+  const params = parseRecordParams(c);
+  if (!params.success) {
+    return c.json<ApiResponse<never>>(
+      { success: false, error: 'Invalid submission or record ID — must be UUIDs' },
+      400,
+    );
+  }
+
+  const raw = await readCorrectionJson(c);
+  if (Either.isLeft(raw)) {
+    return c.json<ApiResponse<never>>(
+      { success: false, error: raw.left.message },
+      referenceErrorStatus(raw.left),
+    );
+  }
+  const parsed = VoidBodySchema.safeParse(raw.right);
+  if (!parsed.success) {
+    return c.json<ApiResponse<never>>(
+      { success: false, error: 'Invalid request body', details: parsed.error.flatten() },
+      400,
+    );
+  }
+
+  const result = await fileCorrection(
+    c.env,
+    requestOwner(c),
+    { ...params.data, correctionType: 'TYPE1', isVoid: true },
+    parsed.data.form,
+  );
+  return c.json(result.body, result.status);
+});
+
+// ---------------------------------------------------------------------------
+// TIN vault — exchange TINs for tin_ref tokens
+// ---------------------------------------------------------------------------
+
+/** POST /vault/tins — Encrypt TINs at rest and return a `tin_ref` for each, in order. */
+app.post('/vault/tins', async (c) => {
+  if (!c.env.TIN_VAULT_KEY || !c.env.WEBHOOK_STATE) {
+    return c.json<ApiResponse<never>>(
+      { success: false, error: 'TIN vault not configured — set TIN_VAULT_KEY' },
+      503,
+    );
+  }
+
+  const raw = await c.req.json().catch(() => null);
+  const parsed = VaultTinsBodySchema.safeParse(raw);
+  if (!parsed.success) {
+    return c.json<ApiResponse<never>>(
+      { success: false, error: 'Invalid request body', details: parsed.error.flatten() },
+      400,
+    );
+  }
+
+  const program = Effect.forEach(parsed.data.tins, (t) =>
+    tokenizeTIN(c.env, callerTenant(c), t.tin, t.tin_type),
+  ).pipe(
+    Effect.map((tinRefs) => ({
+      status: 200 as const,
+      body: { success: true, data: { tin_refs: tinRefs } } as ApiResponse<{ tin_refs: string[] }>,
+    })),
+    Effect.catchAll((err) =>
+      Effect.succeed({
+        status: 500 as const,
+        body: { success: false, error: scrubTINs(err.message) } as ApiResponse<never>,
+      }),
+    ),
+  );
+  const result = await Effect.runPromise(program);
+  return c.json(result.body, result.status);
+});
+
+// ---------------------------------------------------------------------------
+// IRS TIN matching
+// ---------------------------------------------------------------------------
+
+/** POST /tin-match — Check recipient name/TIN pairs against IRS records. */
+app.post('/tin-match', async (c) => {
+  const raw = await c.req.json().catch(() => null);
+  const parsed = TinMatchBodySchema.safeParse(raw);
+  if (!parsed.success) {
+    return c.json<ApiResponse<never>>(
+      { success: false, error: 'Invalid request body', details: parsed.error.flatten() },
+      400,
+    );
+  }
+  const { recipients } = parsed.data;
+
+  const program = revealParties(c.env, callerTenant(c), recipients).pipe(
+    Effect.flatMap((revealed) =>
+      matchTINs(
+        c.env,
+        filingProvider(c.env),
+        revealed.map((r) => ({ name: r.name, tin: r.tin ?? '', tinType: r.tin_type })),
+      ),
+    ),
+    Effect.map((results) => ({
+      status: 200 as const,
+      body: {
+        success: true,
+        data: {
+          results: results.map((match, i) => ({
+            name: recipients[i]?.name ?? '',
+            tin: maskTIN(tinLast4(recipients[i] ?? {})),
+            ...match,
+          })),
+        },
+      } as ApiResponse<{ results: Array<TinMatchResult & { name: string; tin: string }> }>,
+    })),
+    Effect.catchTag('TINVaultError', (err) =>
+      Effect.succeed({
+        status: 422 as const,
+        body: { success: false, error: err.message } as ApiResponse<never>,
+      }),
+    ),
+    Effect.catchAll((err) =>
+      Effect.succeed({
+        status: 502 as const,
+        body: {
+          success: false,
+          error: 'TIN matching failed',
+          details: { taxbandits_error: scrubTINs(err.message) },
+        } as ApiResponse<never>,
+      }),
+    ),
+  );
+  const result = await Effect.runPromise(program);
+  return c.json(result.body, result.status);
+});
+
+// ---------------------------------------------------------------------------
+// W-9 collection — request links (API) and the hosted form (public)
+// ---------------------------------------------------------------------------
+
+/** POST /w9/requests — Create a W-9 request; the response holds the recipient's link. */
+app.post('/w9/requests', async (c) => {
+  const raw = await c.req.json().catch(() => null);
+  const parsed = W9RequestBodySchema.safeParse(raw ?? {});
+  if (!parsed.success) {
+    return c.json<ApiResponse<never>>(
+      { success: false, error: 'Invalid request body', details: parsed.error.flatten() },
+      400,
+    );
+  }
+
+  const result = await Effect.runPromise(
+    Effect.either(
+      createW9Request(c.env, callerTenant(c), {
+        reference: parsed.data.reference,
+        recipientName: parsed.data.recipient_name,
+        email: parsed.data.email,
+        expiresInDays: parsed.data.expires_in_days,
+      }),
+    ),
+  );
+  if (Either.isLeft(result)) {
+    return c.json<ApiResponse<never>>(
+      { success: false, error: result.left.message },
+      referenceErrorStatus(result.left),
+    );
+  }
+  const { request, token } = result.right;
+  const url = `${new URL(c.req.url).origin}/w9/${token}`;
+  return c.json({ success: true, data: { ...w9RequestView(request), url } }, 201);
+});
+
+/** GET /w9/requests — List the caller's tenant's W-9 requests, newest first. */
+app.get('/w9/requests', async (c) => {
+  const ns = c.env.WEBHOOK_STATE;
+  if (!ns) return c.json<ApiResponse<never>>({ success: false, error: 'No state store' }, 503);
+  const status = c.req.query('status')?.toUpperCase();
+  const requests = await globalState(ns).listW9Requests(callerTenant(c), {
+    reference: c.req.query('reference'),
+    status,
+  });
+  return c.json({ success: true, data: requests.map(w9RequestView) });
+});
+
+/** GET /w9/requests/:requestId — One of the caller's tenant's W-9 requests with its submitted data. */
+app.get('/w9/requests/:requestId', async (c) => {
+  const ns = c.env.WEBHOOK_STATE;
+  if (!ns) return c.json<ApiResponse<never>>({ success: false, error: 'No state store' }, 503);
+  const request = await globalState(ns).getW9Request(c.req.param('requestId'), callerTenant(c));
+  if (!request) {
+    return c.json<ApiResponse<never>>({ success: false, error: 'W-9 request not found' }, 404);
+  }
+  return c.json({ success: true, data: w9RequestView(request) });
+});
+
+/** Status and page for a link that can't take a submission. */
+function w9Unavailable(err: W9RequestError) {
+  switch (err.reason) {
+    case 'not_found':
+      return { status: 404 as const, html: renderW9Message('Link not found', err.message) };
+    case 'expired':
+      return { status: 410 as const, html: renderW9Message('Link expired', err.message) };
+    case 'completed':
+      return {
+        status: 409 as const,
+        html: renderW9Message('Already submitted', 'This W-9 has already been submitted.'),
+      };
+    default:
+      return {
+        status: 503 as const,
+        html: renderW9Message('Unavailable', 'W-9 collection is not available.'),
+      };
+  }
+}
+
+/** Look up the link's request and check it can still be filled in. */
+function openW9Link(env: Env, token: string) {
+  return findW9RequestByToken(env, token).pipe(
+    Effect.filterOrFail(
+      (request) => request.status === 'PENDING',
+      (request) =>
+        new W9RequestError({
+          reason: request.status === 'COMPLETED' ? 'completed' : 'expired',
+          message:
+            request.status === 'COMPLETED'
+              ? 'This W-9 has already been submitted.'
+              : 'This W-9 request has expired. Ask the payer for a new link.',
+        }),
+    ),
+  );
+}
+
+/** GET /w9/:token — Hosted W-9 form. */
+app.get('/w9/:token', async (c) => {
+  const result = await Effect.runPromise(Effect.either(openW9Link(c.env, c.req.param('token'))));
+  if (Either.isLeft(result)) {
+    const { status, html } = w9Unavailable(result.left);
+    return c.html(html, status, W9_PAGE_HEADERS);
+  }
+  return c.html(renderW9Form(result.right), 200, W9_PAGE_HEADERS);
+});
+
+/** POST /w9/:token — Hosted W-9 form submission. */
+app.post('/w9/:token', async (c) => {
+  const link = await Effect.runPromise(Effect.either(openW9Link(c.env, c.req.param('token'))));
+  if (Either.isLeft(link)) {
+    const { status, html } = w9Unavailable(link.left);
+    return c.html(html, status, W9_PAGE_HEADERS);
+  }
+
+  const form = await c.req.parseBody().catch(() => ({}) as Record<string, unknown>);
+  const values: Record<string, string> = {};
+  for (const [key, value] of Object.entries(form)) {
+    if (typeof value === 'string' && value.trim() !== '') values[key] = value;
+  }
+  const parsed = W9SubmissionSchema.safeParse(values);
+  if (!parsed.success) {
+    const errors = parsed.error.issues.map((i) => `${i.path.join('.') || 'form'}: ${i.message}`);
+    return c.html(renderW9Form(link.right, { values, errors }), 400, W9_PAGE_HEADERS);
+  }
+
+  const submitted = await Effect.runPromise(
+    Effect.either(submitW9(c.env, link.right, parsed.data)),
+  );
+  if (Either.isLeft(submitted)) {
+    const err = submitted.left;
+    const { status, html } = w9Unavailable(
+      err._tag === 'W9RequestError'
+        ? err
+        : new W9RequestError({ reason: 'unavailable', message: err.message }),
+    );
+    return c.html(html, status, W9_PAGE_HEADERS);
+  }
+  return c.html(
+    renderW9Message('Thank you', 'Your W-9 has been submitted. You can close this page.'),
+    200,
+    W9_PAGE_HEADERS,
+  );
+});
+
+// ---------------------------------------------------------------------------
+// Recipient copies — rendered locally from the stored form data
+// ---------------------------------------------------------------------------
+
+/** GET /forms/:submissionId/:recordId/pdf — Copy B (For Recipient) of a filed 1099-NEC. */
+app.get('/forms/:submissionId/:recordId/pdf', async (c) => {
+  const params = parseRecordParams(c);
+  if (!params.success) {
+    return c.json<ApiResponse<never>>(
+      { success: false, error: 'Invalid submission or record ID — must be UUIDs' },
+      400,
+    );
+  }
+
+  const { submissionId, recordId } = params.data;
+  const stub = c.env.WEBHOOK_STATE ? callerState(c.env.WEBHOOK_STATE, c) : null;
+  const record = stub ? await stub.getFormRecord(submissionId, recordId) : null;
+  if (!record) {
+    return c.json<ApiResponse<never>>(
+      { success: false, error: 'No stored form data for this record' },
+      404,
+    );
+  }
+  if (record.formType !== 'FORM1099NEC') {
+    return c.json<ApiResponse<never>>(
+      {
+        success: false,
+        error: `Recipient copies are only available for 1099-NEC records (got ${record.formType})`,
+      },
+      422,
+    );
+  }
+
+  // Copy B needs the payer TIN in full — reveal it if the form was filed with a tin_ref
+  const data = record.data as Form1099NECRequest;
+  if (!data.payer.tin_ref && data.payer.tin?.startsWith('*')) {
+    return c.json<ApiResponse<never>>(
+      {
+        success: false,
+        error:
+          'The payer TIN was stored masked; recipient copies need the TIN vault (TIN_VAULT_KEY)',
+      },
+      422,
+    );
+  }
+  const payerTin = data.payer.tin_ref
+    ? await Effect.runPromise(Effect.either(revealTIN(c.env, callerTenant(c), data.payer.tin_ref)))
+    : null;
+  if (payerTin && payerTin._tag === 'Left') {
+    return c.json<ApiResponse<never>>({ success: false, error: payerTin.left.message }, 422);
+  }
+  const form = payerTin ? { ...data, payer: { ...data.payer, tin: payerTin.right } } : data;
+
+  const pdf = renderNECCopyB(form, {
+    recordId,
+    corrected: record.corrected,
+  });
+  return c.body(pdf, 200, {
+    'Content-Type': 'application/pdf',
+    'Content-Disposition': `inline; filename="1099-NEC-${recordId}.pdf"`,
+    'Cache-Control': 'no-store',
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Payer profiles — referenced as `payer_id` instead of a `payer` block
+// ---------------------------------------------------------------------------
+
+/** Store a validated profile body, answering 500 if its TIN can't be vaulted. */
+async function storePayerProfile(
+  env: Env,
+  tenant: string,
+  body: unknown,
+  store: (input: PayerProfileInput) => Promise<PayerProfile | null>,
+): Promise<{ status: 200 | 400 | 404 | 500; body: ApiResponse<PayerProfile> }> {
+  const parsed = PayerProfileBodySchema.safeParse(body);
+  if (!parsed.success) {
+    return {
+      status: 400,
+      body: { success: false, error: 'Invalid request body', details: parsed.error.flatten() },
+    };
+  }
+  const input = await Effect.runPromise(Effect.either(payerProfileInput(env, tenant, parsed.data)));
+  if (Either.isLeft(input)) {
+    return { status: 500, body: { success: false, error: scrubTINs(input.left.message) } };
+  }
+  const profile = await store(input.right);
+  if (!profile) return { status: 404, body: { success: false, error: 'Payer profile not found' } };
+  return { status: 200, body: { success: true, data: maskPayerProfile(profile) } };
+}
+
+/** POST /payers — Save a payer's details; file with `payer_id` instead of `payer`. */
+app.post('/payers', async (c) => {
+  const ns = c.env.WEBHOOK_STATE;
+  if (!ns) return c.json({ success: false, error: 'Payer profiles are not configured' }, 503);
+  const stub = callerState(ns, c);
+  const body = await c.req.json().catch(() => null);
+  const result = await storePayerProfile(c.env, callerTenant(c), body, (input) =>
+    stub.createPayerProfile(input),
+  );
+  return c.json(result.body, result.status === 200 ? 201 : result.status);
+});
+
+/** GET /payers — The caller's (or their organization's) payer profiles. */
+app.get('/payers', async (c) => {
+  const ns = c.env.WEBHOOK_STATE;
+  if (!ns) return c.json({ success: false, error: 'Payer profiles are not configured' }, 503);
+  const profiles = await callerState(ns, c).listPayerProfiles();
+  return c.json<ApiResponse<PayerProfile[]>>({
+    success: true,
+    data: profiles.map(maskPayerProfile),
+  });
+});
+
+/** GET /payers/:payerId — One payer profile. */
+app.get('/payers/:payerId', async (c) => {
+  const ns = c.env.WEBHOOK_STATE;
+  if (!ns) return c.json({ success: false, error: 'Payer profiles are not configured' }, 503);
+  const [profile] = await callerState(ns, c).getPayerProfiles([c.req.param('payerId')]);
+  if (!profile) return c.json({ success: false, error: 'Payer profile not found' }, 404);
+  return c.json<ApiResponse<PayerProfile>>({ success: true, data: maskPayerProfile(profile) });
+});
+
+/** PUT /payers/:payerId — Replace a payer profile. Forms already filed keep the old details. */
+app.put('/payers/:payerId', async (c) => {
+  const ns = c.env.WEBHOOK_STATE;
+  if (!ns) return c.json({ success: false, error: 'Payer profiles are not configured' }, 503);
+  const stub = callerState(ns, c);
+  const payerId = c.req.param('payerId');
+  const body = await c.req.json().catch(() => null);
+  const result = await storePayerProfile(c.env, callerTenant(c), body, (input) =>
+    stub.updatePayerProfile(payerId, input),
+  );
+  return c.json(result.body, result.status);
+});
+
+/** DELETE /payers/:payerId — Remove a payer profile. */
+app.delete('/payers/:payerId', async (c) => {
+  const ns = c.env.WEBHOOK_STATE;
+  if (!ns) return c.json({ success: false, error: 'Payer profiles are not configured' }, 503);
+  const payerId = c.req.param('payerId');
+  const deleted = await callerState(ns, c).deletePayerProfile(payerId);
+  if (!deleted) return c.json({ success: false, error: 'Payer profile not found' }, 404);
+  return c.json({ success: true, data: { payerId } });
+});
+
+// ---------------------------------------------------------------------------
+// Recipient directory — referenced as `recipient_id` instead of a `recipient` block
+// ---------------------------------------------------------------------------
+
+/**
+ * Store a recipient body: a `recipient.w9_request_id` fills the TIN from the
+ * completed W-9 (and links the request), the payer profile must exist, and
+ * the TIN is vaulted when the vault is configured.
+ */
+async function storeRecipientProfile(
+  env: Env,
+  tenant: string,
+  stub: DurableObjectStub<WebhookState>,
+  body: unknown,
+  store: (input: RecipientProfileInput) => Promise<RecipientProfile | null>,
+): Promise<{
+  status: 200 | 400 | 404 | 422 | 500 | 503;
+  body: ApiResponse<RecipientProfileView>;
+}> {
+  const recipient =
+    typeof body === 'object' && body !== null && 'recipient' in body ? body.recipient : null;
+  const linkedW9 =
+    typeof recipient === 'object' && recipient !== null && 'w9_request_id' in recipient
+      ? recipient.w9_request_id
+      : undefined;
+  const resolved = await Effect.runPromise(Effect.either(resolveW9Recipients(env, tenant, body)));
+  if (Either.isLeft(resolved)) {
+    return {
+      status: referenceErrorStatus(resolved.left),
+      body: { success: false, error: resolved.left.message },
+    };
+  }
+  const parsed = RecipientProfileBodySchema.safeParse(resolved.right);
+  if (!parsed.success) {
+    return {
+      status: 400,
+      body: { success: false, error: 'Invalid request body', details: parsed.error.flatten() },
+    };
+  }
+  const [payer] = await stub.getPayerProfiles([parsed.data.payer_id]);
+  if (!payer) {
+    return {
+      status: 422,
+      body: { success: false, error: `Unknown payer_id: ${parsed.data.payer_id}` },
+    };
+  }
+  const w9RequestId =
+    parsed.data.w9_request_id ?? (typeof linkedW9 === 'string' ? linkedW9 : undefined);
+  const input = await Effect.runPromise(
+    Effect.either(
+      recipientProfileInput(env, tenant, { ...parsed.data, w9_request_id: w9RequestId }),
+    ),
+  );
+  if (Either.isLeft(input)) {
+    return { status: 500, body: { success: false, error: scrubTINs(input.left.message) } };
+  }
+  const profile = await store(input.right);
+  if (!profile) return { status: 404, body: { success: false, error: 'Recipient not found' } };
+  const [view] = await Effect.runPromise(recipientProfileViews(env, tenant, [profile]));
+  return { status: 200, body: { success: true, data: view! } };
+}
+
+/** POST /recipients — Add a contractor to the directory; file with `recipient_id` instead of `recipient`. */
+app.post('/recipients', async (c) => {
+  const ns = c.env.WEBHOOK_STATE;
+  if (!ns)
+    return c.json({ success: false, error: 'The recipient directory is not configured' }, 503);
+  const stub = callerState(ns, c);
+  const result = await storeRecipientProfile(
+    c.env,
+    callerTenant(c),
+    stub,
+    await c.req.json().catch(() => null),
+    (input) => stub.createRecipientProfile(input),
+  );
+  return c.json(result.body, result.status === 200 ? 201 : result.status);
+});
+
+/** GET /recipients — The caller's recipient directory (?payer_id= for one payer's recipients). */
+app.get('/recipients', async (c) => {
+  const ns = c.env.WEBHOOK_STATE;
+  if (!ns)
+    return c.json({ success: false, error: 'The recipient directory is not configured' }, 503);
+  const query = RecipientListQuerySchema.safeParse(c.req.query());
+  if (!query.success) {
+    return c.json<ApiResponse<never>>(
+      { success: false, error: 'Invalid query', details: query.error.flatten() },
+      400,
+    );
+  }
+  const profiles = await callerState(ns, c).listRecipientProfiles(query.data.payer_id);
+  const views = await Effect.runPromise(recipientProfileViews(c.env, callerTenant(c), profiles));
+  return c.json<ApiResponse<RecipientProfileView[]>>({ success: true, data: views });
+});
+
+/** GET /recipients/:recipientId — One recipient with its address history, filed amounts and W-9 status. */
+app.get('/recipients/:recipientId', async (c) => {
+  const ns = c.env.WEBHOOK_STATE;
+  if (!ns)
+    return c.json({ success: false, error: 'The recipient directory is not configured' }, 503);
+  const [profile] = await callerState(ns, c).getRecipientProfiles([c.req.param('recipientId')]);
+  if (!profile) return c.json({ success: false, error: 'Recipient not found' }, 404);
+  const [view] = await Effect.runPromise(recipientProfileViews(c.env, callerTenant(c), [profile]));
+  return c.json<ApiResponse<RecipientProfileView>>({ success: true, data: view! });
+});
+
+/**
+ * PUT /recipients/:recipientId — Replace a recipient's details. A new address
+ * is added to the address history; filed amounts are kept.
+ */
+app.put('/recipients/:recipientId', async (c) => {
+  const ns = c.env.WEBHOOK_STATE;
+  if (!ns)
+    return c.json({ success: false, error: 'The recipient directory is not configured' }, 503);
+  const stub = callerState(ns, c);
+  const recipientId = c.req.param('recipientId');
+  const result = await storeRecipientProfile(
+    c.env,
+    callerTenant(c),
+    stub,
+    await c.req.json().catch(() => null),
+    (input) => stub.updateRecipientProfile(recipientId, input),
+  );
+  return c.json(result.body, result.status);
+});
+
+/** DELETE /recipients/:recipientId — Remove a recipient and its history. */
+app.delete('/recipients/:recipientId', async (c) => {
+  const ns = c.env.WEBHOOK_STATE;
+  if (!ns)
+    return c.json({ success: false, error: 'The recipient directory is not configured' }, 503);
+  const recipientId = c.req.param('recipientId');
+  const deleted = await callerState(ns, c).deleteRecipientProfile(recipientId);
+  if (!deleted) return c.json({ success: false, error: 'Recipient not found' }, 404);
+  return c.json({ success: true, data: { recipientId } });
+});
+
+// ---------------------------------------------------------------------------
 // CSV import
 // ---------------------------------------------------------------------------
 
-/** POST /file/csv — Upload CSV, validate each row, return Form1099NECRequest[]. */
+/**
+ * POST /file/csv — Upload CSV, validate each row, return Form1099NECRequest[].
+ * `payers` previews how `/file/batch` will split the forms into submissions.
+ * The shared payer is a `payer` block or a `payer_id`; rows may name their
+ * own in a `payer_id` column.
+ */
 app.post('/file/csv', async (c) => {
   const contentType = c.req.header('content-type') ?? '';
   let csvText: string;
-  let defaultPayer: Form1099NECRequest['payer'] | undefined;
+  let payerInput: unknown;
+  let payerId: unknown;
 
   if (contentType.includes('multipart/form-data')) {
     const formData = await c.req.formData();
@@ -595,18 +2230,44 @@ app.post('/file/csv', async (c) => {
     csvText = await file.text();
     const payerJson = formData.get('payer');
     if (payerJson && typeof payerJson === 'string') {
-      defaultPayer = JSON.parse(payerJson) as Form1099NECRequest['payer'];
+      try {
+        payerInput = JSON.parse(payerJson);
+      } catch {
+        return c.json({ success: false, error: 'payer field must be JSON' }, 400);
+      }
     }
+    payerId = formData.get('payer_id') ?? undefined;
   } else {
-    const body = await c.req.json<{ csv: string; payer?: Form1099NECRequest['payer'] }>();
+    const body = await c.req.json<{ csv: string; payer?: unknown; payer_id?: unknown }>();
     if (!body.csv) {
       return c.json({ success: false, error: 'Missing csv field in request body' }, 400);
     }
     csvText = body.csv;
-    defaultPayer = body.payer;
+    payerInput = body.payer;
+    payerId = body.payer_id;
+  }
+
+  if (payerId !== undefined && (typeof payerId !== 'string' || payerInput !== undefined)) {
+    return c.json({ success: false, error: 'payer_id must be a string and replaces payer' }, 400);
+  }
+  // Rows may fill in the rest of a partial payer, so only its shape is checked here
+  if (payerInput !== undefined && (typeof payerInput !== 'object' || payerInput === null)) {
+    return c.json({ success: false, error: 'payer must be an object' }, 400);
+  }
+  const defaultPayer = (payerInput as Form1099NECRequest['payer'] | undefined) ?? payerId;
+  const ns = c.env.WEBHOOK_STATE;
+  const profiles = ns ? await callerState(ns, c).listPayerProfiles() : [];
+  if (typeof defaultPayer === 'string' && !profiles.some((p) => p.payerId === defaultPayer)) {
+    return c.json({ success: false, error: `Unknown payer_id: ${defaultPayer}` }, 422);
   }
 
-  const result = csvToForms(csvText, defaultPayer);
+  const result = csvToForms(csvText, defaultPayer, new Map(profiles.map((p) => [p.payerId, p])));
+  const denied = await payerAccess(
+    c.env,
+    requestOwner(c),
+    result.forms.map((f) => f.payer),
+  );
+  if (denied) return c.json(denied.body, denied.status);
 
   if (result.forms.length === 0) {
     return c.json(
@@ -623,6 +2284,11 @@ app.post('/file/csv', async (c) => {
     success: true,
     data: {
       forms: result.forms,
+      payers: groupByPayer(result.forms).map((g) => ({
+        name: g.payer.name,
+        tin: maskTIN(tinLast4(g.payer)),
+        forms: g.indexes.length,
+      })),
       errors: result.errors,
       parsed: result.forms.length,
       failed: result.errors.length,
@@ -673,22 +2339,38 @@ app.post('/quickbooks/generate', async (c) => {
     return c.json({ success: false, error: 'QuickBooks not configured' }, 503);
   }
 
-  const body = await c.req.json<{
-    payer: Form1099NECRequest['payer'];
+  const raw = await Effect.runPromise(
+    Effect.either(resolveCallerPayers(c, await c.req.json().catch(() => null))),
+  );
+  if (Either.isLeft(raw)) {
+    return c.json<ApiResponse<never>>(
+      { success: false, error: raw.left.message },
+      referenceErrorStatus(raw.left),
+    );
+  }
+  // A payer_id has been replaced by the profile's payer and defaults
+  const body = raw.right as {
+    payer?: Form1099NECRequest['payer'];
+    kind_of_employer?: Form1099NECRequest['kind_of_employer'];
+    kind_of_payer?: Form1099NECRequest['kind_of_payer'];
     taxYear?: string;
-    vendorTins: Record<string, string>;
+    vendorTins?: Record<string, string>;
     threshold?: number;
-  }>();
+  };
 
-  if (!body.payer || !body.vendorTins) {
-    return c.json({ success: false, error: 'payer and vendorTins are required' }, 400);
+  if (!body.payer) {
+    return c.json({ success: false, error: 'payer or payer_id is required' }, 400);
   }
+  const denied = await payerAccess(c.env, requestOwner(c), [body.payer]);
+  if (denied) return c.json(denied.body, denied.status);
 
+  // Completed W-9 requests whose reference is a QB vendor ID fill in missing TINs
+  const w9Tins = await Effect.runPromise(completedW9Tins(c.env, callerTenant(c)));
   const input: QBGenerateInput = {
     userId,
     payer: body.payer,
     taxYear: body.taxYear ?? new Date().getFullYear().toString(),
-    vendorTins: body.vendorTins,
+    vendorTins: { ...w9Tins, ...body.vendorTins },
     threshold: body.threshold,
   };
 
@@ -709,9 +2391,16 @@ app.post('/quickbooks/generate', async (c) => {
   if ('status' in result && 'error' in result) {
     return c.json({ success: false, error: result.error }, result.status as 401 | 502 | 422);
   }
-  return c.json({ success: true, data: result });
+  const { kind_of_employer, kind_of_payer } = body;
+  const forms = result.forms.map((f) => ({
+    ...f,
+    ...(kind_of_employer && { kind_of_employer }),
+    ...(kind_of_payer && { kind_of_payer }),
+  }));
+  return c.json({ success: true, data: { ...result, forms } });
 });
 
+/** GET /openapi.json — OpenAPI 3.1 specification. */
 app.get('/openapi.json', (c) => c.json(openApiSpec));
 
 /** POST /webhook/status — TaxBandits e-file status webhook callback */
@@ -742,17 +2431,19 @@ app.post('/webhook/status', async (c) => {
     return c.json({ success: false, error: 'Invalid webhook payload' }, 400);
   }
 
-  // Persist to Durable Object
-  if (c.env.WEBHOOK_STATE) {
-    const stub = c.env.WEBHOOK_STATE.get(c.env.WEBHOOK_STATE.idFromName('global'));
+  // Persist to the Durable Object of the tenant that filed it
+  const ns = c.env.WEBHOOK_STATE;
+  if (ns) {
+    const stub = tenantState(ns, await findTenant(ns, payload.SubmissionId));
     await stub.trackSubmission(payload.SubmissionId, payload.FormType);
 
     // Determine overall status from records
-    const hasRejected = payload.Records.some((r) => r.Status === 'Rejected');
-    const allAccepted = payload.Records.every((r) => r.Status === 'Accepted');
-    const status = hasRejected ? 'REJECTED' : allAccepted ? 'ACCEPTED' : 'PARTIAL';
+    const status = submissionStatus(payload.Records.map((r) => r.Status));
 
     await stub.updateStatus(payload.SubmissionId, status, JSON.stringify(payload.Records));
+    await stub.updateRecordStatuses(payload.SubmissionId, payload.Records);
+    // Corrections are filed as their own records — advance their lifecycle too
+    await stub.updateCorrectionStatuses(payload.Records);
   }
 
   // Audit log
@@ -767,28 +2458,347 @@ app.post('/webhook/status', async (c) => {
   return c.json({ success: true });
 });
 
-/** GET /webhook/submissions — List tracked submissions */
+/** GET /webhook/submissions — List the caller's tracked submissions */
 app.get('/webhook/submissions', async (c) => {
   if (!c.env.WEBHOOK_STATE) {
     return c.json({ success: false, error: 'Webhook state not configured' }, 503);
   }
-  const stub = c.env.WEBHOOK_STATE.get(c.env.WEBHOOK_STATE.idFromName('global'));
+  const stub = callerState(c.env.WEBHOOK_STATE, c);
   const submissions = await stub.listSubmissions();
   return c.json({ success: true, data: submissions });
 });
 
-/** GET /webhook/submissions/:submissionId — Get single submission status */
+/** GET /webhook/submissions/:submissionId — Get single submission status (caller's own only) */
 app.get('/webhook/submissions/:submissionId', async (c) => {
   if (!c.env.WEBHOOK_STATE) {
     return c.json({ success: false, error: 'Webhook state not configured' }, 503);
   }
   const submissionId = c.req.param('submissionId');
-  const stub = c.env.WEBHOOK_STATE.get(c.env.WEBHOOK_STATE.idFromName('global'));
+  const stub = callerState(c.env.WEBHOOK_STATE, c);
   const submission = await stub.getSubmission(submissionId);
   if (!submission) {
     return c.json({ success: false, error: 'Submission not found' }, 404);
   }
-  return c.json({ success: true, data: submission });
+  const formRecords = await stub.listFormRecords(submissionId);
+  const corrections = await stub.listCorrections(submissionId);
+  return c.json({ success: true, data: { ...submission, formRecords, corrections } });
+});
+
+// ---------------------------------------------------------------------------
+// Filing deadlines and late-filing penalties
+// ---------------------------------------------------------------------------
+
+/**
+ * GET /deadlines?tax_year= — Due dates and IRS late-filing penalties for each
+ * form type, plus the on-time status and projected penalty exposure of the
+ * caller's submissions for that tax year.
+ */
+app.get('/deadlines', async (c) => {
+  const query = DeadlineQuerySchema.safeParse(c.req.query());
+  if (!query.success) {
+    return c.json<ApiResponse<never>>(
+      { success: false, error: 'Invalid query', details: query.error.flatten() },
+      400,
+    );
+  }
+  const now = new Date();
+  const taxYear = query.data.tax_year ? Number(query.data.tax_year) : now.getFullYear() - 1;
+  const formTypes = Object.values(FORM_REGISTRY).map((f) => f.formType);
+
+  const ns = c.env.WEBHOOK_STATE;
+  const tracked = ns ? await callerState(ns, c).listTaxYearSubmissions(String(taxYear)) : [];
+  const submissions = tracked.map((s) =>
+    submissionDeadline(s, formTypeFromTaxBandits(s.formType), now),
+  );
+  return c.json<
+    ApiResponse<{
+      taxYear: number;
+      forms: FormDeadline[];
+      submissions: SubmissionDeadline[];
+      exposure: number;
+    }>
+  >({
+    success: true,
+    data: {
+      taxYear,
+      forms: deadlineCalendar(taxYear, formTypes, now),
+      submissions,
+      exposure: submissions.reduce((sum, s) => sum + s.exposure, 0),
+    },
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Outbound webhooks — customer endpoints for filing lifecycle events
+// ---------------------------------------------------------------------------
+
+/**
+ * POST /webhooks/endpoints — Register an HTTPS endpoint for the caller's
+ * organization or user (default) or, with `scope: "api_key"`, for the calling key only.
+ * The signing secret is returned once.
+ */
+app.post('/webhooks/endpoints', async (c) => {
+  const ns = c.env.WEBHOOK_STATE;
+  if (!ns) return c.json({ success: false, error: 'Webhook state not configured' }, 503);
+  const parsed = WebhookEndpointBodySchema.safeParse(await c.req.json().catch(() => null));
+  if (!parsed.success) {
+    return c.json<ApiResponse<never>>(
+      { success: false, error: 'Invalid request body', details: parsed.error.flatten() },
+      400,
+    );
+  }
+  const caller = requestOwner(c);
+  if (parsed.data.scope === 'api_key' && !caller.apiKeyId) {
+    return c.json<ApiResponse<never>>(
+      { success: false, error: 'scope "api_key" requires x-api-key authentication' },
+      400,
+    );
+  }
+  const owner =
+    parsed.data.scope === 'api_key'
+      ? `key:${caller.apiKeyId}`
+      : (webhookOwners({ ...caller, apiKeyId: null })[0] ?? DEFAULT_WEBHOOK_OWNER);
+  const endpoint = await callerState(ns, c).createWebhookEndpoint({
+    owner,
+    url: parsed.data.url,
+    events: parsed.data.events,
+    description: parsed.data.description ?? null,
+  });
+  if (!endpoint) {
+    return c.json<ApiResponse<never>>(
+      { success: false, error: `At most ${MAX_WEBHOOK_ENDPOINTS} webhook endpoints per owner` },
+      409,
+    );
+  }
+  return c.json<ApiResponse<WebhookEndpoint & { secret: string }>>(
+    { success: true, data: endpoint },
+    201,
+  );
+});
+
+/** GET /webhooks/endpoints — The caller's endpoints: their user's and their key's. */
+app.get('/webhooks/endpoints', async (c) => {
+  const ns = c.env.WEBHOOK_STATE;
+  if (!ns) return c.json({ success: false, error: 'Webhook state not configured' }, 503);
+  const endpoints = await callerState(ns, c).listWebhookEndpoints(webhookOwners(requestOwner(c)));
+  return c.json<ApiResponse<WebhookEndpoint[]>>({ success: true, data: endpoints });
+});
+
+/** DELETE /webhooks/endpoints/:endpointId — Stop sending events; pending deliveries fail. */
+app.delete('/webhooks/endpoints/:endpointId', async (c) => {
+  const ns = c.env.WEBHOOK_STATE;
+  if (!ns) return c.json({ success: false, error: 'Webhook state not configured' }, 503);
+  const endpointId = c.req.param('endpointId');
+  const deleted = await callerState(ns, c).deleteWebhookEndpoint(
+    webhookOwners(requestOwner(c)),
+    endpointId,
+  );
+  if (!deleted) return c.json({ success: false, error: 'Webhook endpoint not found' }, 404);
+  return c.json({ success: true, data: { endpointId } });
+});
+
+/** GET /webhooks/deliveries — Delivery log, newest first (?endpoint_id=, ?status=). */
+app.get('/webhooks/deliveries', async (c) => {
+  const ns = c.env.WEBHOOK_STATE;
+  if (!ns) return c.json({ success: false, error: 'Webhook state not configured' }, 503);
+  const query = WebhookDeliveryQuerySchema.safeParse(c.req.query());
+  if (!query.success) {
+    return c.json<ApiResponse<never>>(
+      { success: false, error: query.error.issues[0]?.message ?? 'Invalid query' },
+      400,
+    );
+  }
+  const deliveries = await callerState(ns, c).listWebhookDeliveries(
+    webhookOwners(requestOwner(c)),
+    {
+      endpointId: query.data.endpoint_id,
+      status: query.data.status,
+    },
+  );
+  return c.json<ApiResponse<WebhookDelivery[]>>({ success: true, data: deliveries });
+});
+
+// ---------------------------------------------------------------------------
+// Organizations — org-scoped API keys and the org's client payers. Orgs,
+// members and invitations themselves live under /api/auth/organization/*.
+// ---------------------------------------------------------------------------
+
+/**
+ * The caller's role in the organization named by the route. Only API key
+ * callers have one, and an org-scoped key can't act for another organization.
+ */
+async function orgMembership(c: {
+  env: Env;
+  req: { param: (name: 'organizationId') => string };
+  get: IdentityContext['get'];
+}): Promise<{ ok: true; role: string } | { ok: false; status: 403 | 503; error: string }> {
+  if (!c.env.AUTH_DB || !c.env.BETTER_AUTH_SECRET) {
+    return { ok: false, status: 503, error: 'Auth not configured' };
+  }
+  const organizationId = c.req.param('organizationId');
+  const { userId, organizationId: keyOrg } = requestOwner(c);
+  if (!userId) {
+    return {
+      ok: false,
+      status: 403,
+      error: 'Organization routes require x-api-key authentication',
+    };
+  }
+  if (keyOrg && keyOrg !== organizationId) {
+    return { ok: false, status: 403, error: 'API key is scoped to another organization' };
+  }
+  const role = await getOrgRole(c.env.AUTH_DB, organizationId, userId);
+  if (!role) return { ok: false, status: 403, error: 'Not a member of this organization' };
+  return { ok: true, role };
+}
+
+/** The organization's WebhookState, where its client payers are registered. */
+function orgState(ns: DurableObjectNamespace<WebhookState>, organizationId: string) {
+  return tenantState(ns, tenantOf({ userId: null, apiKeyId: null, organizationId }));
+}
+
+/**
+ * POST /orgs/:organizationId/keys — Mint an org-scoped API key for the
+ * caller. Permissions default to the caller's role and can't exceed it.
+ * The key is returned once.
+ */
+app.post('/orgs/:organizationId/keys', async (c) => {
+  const member = await orgMembership(c);
+  if (!member.ok)
+    return c.json<ApiResponse<never>>({ success: false, error: member.error }, member.status);
+  const parsed = OrgApiKeyBodySchema.safeParse(await c.req.json().catch(() => ({})));
+  if (!parsed.success) {
+    return c.json<ApiResponse<never>>(
+      { success: false, error: 'Invalid request body', details: parsed.error.flatten() },
+      400,
+    );
+  }
+  const granted = orgRolePermissions(member.role);
+  const permissions = parsed.data.permissions ?? granted;
+  const exceeds = Object.entries(permissions).some(([scope, actions]) =>
+    actions.some((action) => !granted[scope]?.includes(action)),
+  );
+  if (exceeds) {
+    return c.json<ApiResponse<never>>(
+      {
+        success: false,
+        error: `Permissions exceed organization role "${member.role}"`,
+        details: { allowed: granted },
+      },
+      403,
+    );
+  }
+  const organizationId = c.req.param('organizationId');
+  const key = await createAuth(c.env).api.createApiKey({
+    body: {
+      userId: requestOwner(c).userId ?? undefined,
+      name: parsed.data.name,
+      permissions,
+      expiresIn: parsed.data.expires_in,
+      metadata: { organizationId },
+    },
+  });
+  return c.json(
+    {
+      success: true,
+      data: {
+        id: key.id,
+        key: key.key,
+        name: key.name,
+        organizationId,
+        permissions,
+        expiresAt: key.expiresAt,
+      },
+    },
+    201,
+  );
+});
+
+/** GET /orgs/:organizationId/payers — The organization's clients; any member may list them. */
+app.get('/orgs/:organizationId/payers', async (c) => {
+  const ns = c.env.WEBHOOK_STATE;
+  if (!ns) return c.json({ success: false, error: 'Webhook state not configured' }, 503);
+  const member = await orgMembership(c);
+  if (!member.ok)
+    return c.json<ApiResponse<never>>({ success: false, error: member.error }, member.status);
+  const payers = await orgState(ns, c.req.param('organizationId')).listOrgPayers();
+  return c.json<ApiResponse<OrgPayer[]>>({ success: true, data: payers });
+});
+
+/** POST /orgs/:organizationId/payers — Register a client payer (owner or admin). */
+app.post('/orgs/:organizationId/payers', async (c) => {
+  const ns = c.env.WEBHOOK_STATE;
+  if (!ns) return c.json({ success: false, error: 'Webhook state not configured' }, 503);
+  const member = await orgMembership(c);
+  if (!member.ok)
+    return c.json<ApiResponse<never>>({ success: false, error: member.error }, member.status);
+  if (!orgRoleAllows(member.role, { organization: ['update'] })) {
+    return c.json({ success: false, error: 'Only owners and admins manage client payers' }, 403);
+  }
+  const parsed = OrgPayerBodySchema.safeParse(await c.req.json().catch(() => null));
+  if (!parsed.success) {
+    return c.json<ApiResponse<never>>(
+      { success: false, error: 'Invalid request body', details: parsed.error.flatten() },
+      400,
+    );
+  }
+  const payer = await orgState(ns, c.req.param('organizationId')).addOrgPayer(
+    payerTinKey(parsed.data.tin),
+    parsed.data.name,
+  );
+  if (!payer) {
+    return c.json({ success: false, error: 'A payer with this TIN is already registered' }, 409);
+  }
+  return c.json<ApiResponse<OrgPayer>>({ success: true, data: payer }, 201);
+});
+
+/** DELETE /orgs/:organizationId/payers/:payerId — Stop filing for a client (owner or admin). */
+app.delete('/orgs/:organizationId/payers/:payerId', async (c) => {
+  const ns = c.env.WEBHOOK_STATE;
+  if (!ns) return c.json({ success: false, error: 'Webhook state not configured' }, 503);
+  const member = await orgMembership(c);
+  if (!member.ok)
+    return c.json<ApiResponse<never>>({ success: false, error: member.error }, member.status);
+  if (!orgRoleAllows(member.role, { organization: ['update'] })) {
+    return c.json({ success: false, error: 'Only owners and admins manage client payers' }, 403);
+  }
+  const payerId = c.req.param('payerId');
+  const removed = await orgState(ns, c.req.param('organizationId')).removeOrgPayer(payerId);
+  if (!removed) return c.json({ success: false, error: 'Payer not found' }, 404);
+  return c.json({ success: true, data: { payerId } });
+});
+
+// ---------------------------------------------------------------------------
+// Admin — cross-tenant views, legacy bearer token only
+// ---------------------------------------------------------------------------
+
+/** GET /admin/submissions — Submissions of every tenant, or one (?tenant=), newest first. */
+app.get('/admin/submissions', async (c) => {
+  requireAdmin(c);
+  const ns = c.env.WEBHOOK_STATE;
+  if (!ns) return c.json({ success: false, error: 'Webhook state not configured' }, 503);
+  const query = AdminSubmissionsQuerySchema.safeParse(c.req.query());
+  if (!query.success) {
+    return c.json<ApiResponse<never>>(
+      { success: false, error: query.error.issues[0]?.message ?? 'Invalid query' },
+      400,
+    );
+  }
+  const { tenant, limit } = query.data;
+  const tenants = tenant ? [tenant] : [GLOBAL_TENANT, ...(await globalState(ns).listTenants())];
+  const perTenant = await Promise.all(
+    tenants.map(async (t) =>
+      (await tenantState(ns, t).listSubmissions(limit)).map((s) => ({ tenant: t, ...s })),
+    ),
+  );
+  const submissions = perTenant
+    .flat()
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    .slice(0, limit);
+  return c.json<ApiResponse<Array<SubmissionRecord & { tenant: string }>>>({
+    success: true,
+    data: submissions,
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -812,6 +2822,13 @@ app.onError((err, c) => {
   return c.json<ApiResponse<never>>({ success: false, error: 'Internal server error' }, 500);
 });
 
-export default app;
+export default {
+  fetch: app.fetch,
+  queue: handleFilingQueue,
+  /** Cron trigger: poll TaxBandits for submissions whose webhook may have been missed. */
+  scheduled: (_controller, env, ctx) => {
+    ctx.waitUntil(Effect.runPromise(reconcileSubmissions(env)));
+  },
+} satisfies ExportedHandler<Env, FilingQueueMessage>;
 
 export { WebhookState } from './webhook-state';
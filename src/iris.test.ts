@@ -0,0 +1,317 @@
+import { describe, it, expect } from 'vitest';
+import { env, createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import { Effect } from 'effect';
+import worker from './index';
+import {
+  buildIrisTransmission,
+  compareWithTaxBandits,
+  irisXml,
+  lintIrisTransmission,
+  maskIrisTINs,
+  type IrisTransmitter,
+  type PayloadDifference,
+} from './iris';
+import { getFormDefinition } from './forms';
+import { irisProvider, payloadProvider } from './providers';
+import { buildBatchCreateRequest } from './taxbandits';
+import { GLOBAL_TENANT } from './tenants';
+import type { Env, Form1099NECRequest, ValidationIssue } from './types';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const testEnv = env as unknown as Env;
+
+const TRANSMITTER: IrisTransmitter = { tcc: 'TC123', tin: null, name: null, test: true };
+
+async function call(path: string, body: unknown) {
+  const ctx = createExecutionContext();
+  const res = await worker.fetch(
+    new Request(`http://localhost${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    }),
+    testEnv,
+    ctx,
+  );
+  await waitOnExecutionContext(ctx);
+  return res;
+}
+
+function necForm(overrides: Partial<Form1099NECRequest> = {}): Form1099NECRequest {
+  return {
+    payer: {
+      name: 'Acme Corp',
+      tin: '27-1234567',
+      tin_type: 'EIN',
+      address: '100 Main St',
+      city: 'New York',
+      state: 'NY',
+      zip_code: '10001',
+      phone: '(212) 555-1234',
+      email: 'payroll@acme.com',
+    },
+    recipient: {
+      first_name: 'Jane',
+      last_name: 'Smith',
+      tin: '412789654',
+      tin_type: 'SSN',
+      address: '200 Oak Ave',
+      city: 'Austin',
+      state: 'TX',
+      zip_code: '78701-1234',
+    },
+    nonemployee_compensation: 5000,
+    is_federal_tax_withheld: true,
+    federal_tax_withheld: 500,
+    is_state_filing: true,
+    states: [{ state: 'TX', state_tax_withheld: 0 }],
+    tax_year: '2024',
+    ...overrides,
+  };
+}
+
+const fields = (issues: ValidationIssue[]) => issues.map((i) => i.field);
+
+// ---------------------------------------------------------------------------
+// buildIrisTransmission()
+// ---------------------------------------------------------------------------
+describe('buildIrisTransmission', () => {
+  it('builds the manifest, issuer header and one detail per recipient', () => {
+    const business = necForm();
+    business.recipient = { ...business.recipient, tin: '98-7654321', tin_type: 'EIN' };
+    const transmission = buildIrisTransmission(
+      [necForm(), business],
+      TRANSMITTER,
+      new Date('2025-01-15T00:00:00Z'),
+    );
+
+    const manifest = transmission.IRTransmissionManifest;
+    expect(manifest.UniqueTransmissionId).toMatch(/^[0-9a-f-]{36}:IRIS:TC123::A$/);
+    expect(manifest).toMatchObject({
+      TaxYr: '2024',
+      PriorYearDataInd: '0',
+      TestCd: 'T',
+      TotalRecipientFormCnt: '2',
+    });
+    expect(manifest.TransmitterGrp).toMatchObject({
+      TIN: '271234567',
+      TransmitterControlCd: 'TC123',
+    });
+
+    const header = transmission.IRSubmission1Grp.IRSubmission1Header;
+    expect(header).toMatchObject({ FormTypeCd: '1099NEC', TotalReportedRcpntFormCnt: '2' });
+    expect(header.IssuerDetail).toMatchObject({ TIN: '271234567', PhoneNum: '2125551234' });
+
+    const [person, company] = transmission.IRSubmission1Grp.IRSubmission1Detail.Form1099NECDetail;
+    expect(person).toMatchObject({
+      RecordId: '1',
+      RecipientTIN: '412789654',
+      TINSubmittedTypeCd: 'INDIVIDUAL_TIN',
+      RecipientName: { PersonName: { PersonFirstNm: 'Jane', PersonLastNm: 'Smith' } },
+      MailingAddressGrp: { USAddress: { ZIPCd: '787011234' } },
+      NonemployeeCompensationAmt: '5000.00',
+      FederalIncomeTaxWithheldAmt: '500.00',
+      StateLocalTaxGrp: {
+        StateTaxGrp: [
+          { StateAbbreviationCd: 'TX', StateTaxWithheldAmt: '0.00', StateIncomeAmt: '5000.00' },
+        ],
+      },
+    });
+    expect(company).toMatchObject({
+      RecipientTIN: '987654321',
+      TINSubmittedTypeCd: 'BUSINESS_TIN',
+      RecipientName: { BusinessName: { BusinessNameLine1Txt: 'Jane Smith' } },
+    });
+  });
+
+  it('marks older tax years as prior-year data', () => {
+    const old = buildIrisTransmission(
+      [necForm({ tax_year: '2022' })],
+      TRANSMITTER,
+      new Date('2025-01-15T00:00:00Z'),
+    );
+    expect(old.IRTransmissionManifest.PriorYearDataInd).toBe('1');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// lintIrisTransmission()
+// ---------------------------------------------------------------------------
+describe('lintIrisTransmission', () => {
+  it('passes a transmission built from a valid form', () => {
+    expect(lintIrisTransmission(buildIrisTransmission([necForm()], TRANSMITTER))).toEqual([]);
+  });
+
+  it('requires a TCC', () => {
+    const untcc = buildIrisTransmission([necForm()], { ...TRANSMITTER, tcc: null });
+    expect(fields(lintIrisTransmission(untcc))).toEqual([
+      'IRTransmissionManifest.TransmitterGrp.TransmitterControlCd',
+    ]);
+  });
+
+  it('flags names and addresses IRIS limits more tightly than TaxBandits', () => {
+    const form = necForm();
+    form.payer = { ...form.payer, name: 'Acme, Inc.' };
+    form.recipient = {
+      ...form.recipient,
+      first_name: 'Maximiliana-Josephine',
+      address: '4500 Industrial Park Boulevard Suite 12',
+      city: 'Rancho Santa Margarita',
+    };
+    const issues = lintIrisTransmission(buildIrisTransmission([form], TRANSMITTER));
+    // The payer also stands in as transmitter, so its name is flagged twice
+    expect(fields(issues)).toEqual([
+      'IRTransmissionManifest.TransmitterGrp.CompanyGrp.BusinessName.BusinessNameLine1Txt',
+      'IRSubmission1Header.IssuerDetail.BusinessName.BusinessNameLine1Txt',
+      'Form1099NECDetail[0].RecipientName.PersonName.PersonFirstNm',
+      'Form1099NECDetail[0].MailingAddressGrp.USAddress.AddressLine1Txt',
+    ]);
+    expect(issues.map((i) => i.message)).toContain(
+      'Form1099NECDetail[0].RecipientName.PersonName.PersonFirstNm exceeds 20 characters (21)',
+    );
+  });
+
+  it('never echoes the values it rejects', () => {
+    const form = necForm();
+    form.recipient = { ...form.recipient, tin: '41278965', address: 'PO Box 7, Unit <9>' };
+    const issues = lintIrisTransmission(buildIrisTransmission([form], TRANSMITTER));
+    expect(fields(issues)).toEqual([
+      'Form1099NECDetail[0].RecipientTIN',
+      'Form1099NECDetail[0].MailingAddressGrp.USAddress.AddressLine1Txt',
+    ]);
+    const text = JSON.stringify(issues);
+    expect(text).not.toContain('41278965');
+    expect(text).not.toContain('PO Box');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// compareWithTaxBandits()
+// ---------------------------------------------------------------------------
+describe('compareWithTaxBandits', () => {
+  it('finds nothing to report when both are built from the same forms', () => {
+    const forms = [necForm(), necForm({ nonemployee_compensation: 750, is_state_filing: false })];
+    const transmission = buildIrisTransmission(forms, TRANSMITTER);
+    expect(compareWithTaxBandits(transmission, buildBatchCreateRequest(forms))).toEqual([]);
+  });
+
+  it('reports what differs, with TINs masked', () => {
+    const forms = [necForm()];
+    const transmission = buildIrisTransmission(forms, TRANSMITTER);
+    const payload = buildBatchCreateRequest(forms);
+    const record = payload.ReturnData[0]!;
+    record.Recipient.TIN = '412789655';
+    record.NECFormData.B1NEC = '5001.00';
+    expect(compareWithTaxBandits(transmission, payload)).toEqual<PayloadDifference[]>([
+      { field: 'forms[0].recipient.tin', iris: '*****9654', taxbandits: '*****9655' },
+      { field: 'forms[0].nonemployee_compensation', iris: '5000.00', taxbandits: '5001.00' },
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// irisXml() and maskIrisTINs()
+// ---------------------------------------------------------------------------
+describe('irisXml', () => {
+  it('serializes in schema order, escaping text and masking TINs', () => {
+    const form = necForm();
+    form.payer = { ...form.payer, name: 'Smith & Sons' };
+    const xml = irisXml(maskIrisTINs(buildIrisTransmission([form], TRANSMITTER)));
+
+    expect(xml).toMatch(
+      /^<\?xml version="1\.0" encoding="UTF-8"\?>\n<IRTransmission xmlns="urn:us:gov:treasury:irs:ir">/,
+    );
+    expect(xml).toContain('<BusinessNameLine1Txt>Smith &amp; Sons</BusinessNameLine1Txt>');
+    expect(xml).toContain('<RecipientTIN>*****9654</RecipientTIN>');
+    expect(xml).toContain('<ZIPCd>787011234</ZIPCd>');
+    expect(xml).not.toContain('412789654');
+    expect(xml).not.toContain('271234567');
+    expect(xml.indexOf('<IRTransmissionManifest>')).toBeLessThan(xml.indexOf('<IRSubmission1Grp>'));
+    expect(xml.indexOf('<RecipientTIN>')).toBeLessThan(xml.indexOf('<NonemployeeCompensationAmt>'));
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Providers
+// ---------------------------------------------------------------------------
+describe('payload providers', () => {
+  it('previews the IRIS XML with its lint and comparison', async () => {
+    const preview = await Effect.runPromise(
+      irisProvider(testEnv).preview(GLOBAL_TENANT, getFormDefinition('1099-NEC'), [necForm()]),
+    );
+    expect(preview.provider).toBe('iris');
+    expect(typeof preview.payload).toBe('string');
+    expect(preview.payload).not.toContain('412789654');
+    // The test env sets no IRIS_TCC
+    expect(fields(preview.issues)).toEqual([
+      'IRTransmissionManifest.TransmitterGrp.TransmitterControlCd',
+    ]);
+    expect(preview.comparison).toEqual([]);
+  });
+
+  it('defaults to TaxBandits, which builds every form type', () => {
+    expect(payloadProvider(testEnv).name).toBe('taxbandits');
+    expect(payloadProvider(testEnv).formTypes).toEqual(['1099-NEC', '1099-MISC']);
+    expect(payloadProvider(testEnv, 'iris').formTypes).toEqual(['1099-NEC']);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// ?provider=iris on dry runs (HTTP)
+// ---------------------------------------------------------------------------
+describe('IRIS dry runs (HTTP)', () => {
+  it('answers /file with the IRIS XML', async () => {
+    const res = await call('/file?dry_run=true&provider=iris', necForm());
+    expect(res.status).toBe(200);
+    const text = await res.text();
+    expect(text).not.toContain('412789654');
+    const { data } = JSON.parse(text) as {
+      data: {
+        provider: string;
+        would_file: boolean;
+        payload: string;
+        comparison: PayloadDifference[];
+      };
+    };
+    expect(data.provider).toBe('iris');
+    expect(data.payload).toContain('<FormTypeCd>1099NEC</FormTypeCd>');
+    expect(data.comparison).toEqual([]);
+    expect(data.would_file).toBe(false);
+  });
+
+  it('answers /file/batch with one transmission per payer', async () => {
+    const other = necForm();
+    other.payer = { ...other.payer, name: 'Globex', tin: '98-7654321' };
+    const res = await call('/file/batch?dry_run=true&provider=iris', {
+      forms: [necForm(), other],
+    });
+    expect(res.status).toBe(200);
+    const { data } = await res.json<{
+      data: { provider: string; submissions: Array<{ form_indexes: number[]; payload: string }> };
+    }>();
+    expect(data.provider).toBe('iris');
+    expect(data.submissions.map((s) => s.form_indexes)).toEqual([[0], [1]]);
+    expect(data.submissions[1]?.payload).toContain(
+      '<BusinessNameLine1Txt>Globex</BusinessNameLine1Txt>',
+    );
+  });
+
+  it('only builds IRIS XML for 1099-NEC dry runs', async () => {
+    expect((await call('/file?provider=iris', necForm())).status).toBe(400);
+    expect((await call('/file?dry_run=true&provider=irs', necForm())).status).toBe(400);
+    const misc = {
+      form_type: '1099-MISC',
+      payer: necForm().payer,
+      recipient: necForm().recipient,
+      rents: 1200,
+      is_federal_tax_withheld: false,
+      is_state_filing: false,
+    };
+    const res = await call('/file?dry_run=true&provider=iris', misc);
+    expect(res.status).toBe(400);
+    expect((await res.json<{ error: string }>()).error).toContain('only supports 1099-NEC');
+  });
+});
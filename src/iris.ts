@@ -0,0 +1,570 @@
+import type {
+  Env,
+  ForeignAddress,
+  Form1099NECRequest,
+  PayerInfo,
+  RecipientInfo,
+  TaxBanditsCreateRequest,
+  ValidationIssue,
+} from './types';
+import { stateLines } from './state-rules';
+import { scrubTINs } from './pii';
+
+// ============================================================
+// IRS IRIS A2A XML — 1099-NEC transmissions built locally
+//
+// IRIS (the Information Returns Intake System) takes 1099s straight from a
+// transmitter holding a TCC (Transmitter Control Code). We build the XML an
+// A2A transmission would carry from the same `Form1099NECRequest`s we send
+// TaxBandits, lint it against the IRS e-file common-type rules (lengths,
+// character patterns, code formats), and compare it with the TaxBandits
+// payload. Element names and order follow the IRIS A2A Form 1099 schema
+// (Publication 5718); the lint is not a full XSD validation, so run the
+// output through the IRS schema package before transmitting it.
+// ============================================================
+
+const IR_NAMESPACE = 'urn:us:gov:treasury:irs:ir';
+
+/** IRS e-file common types (maximum lengths and character patterns) that IRIS enforces. */
+const RULES = {
+  businessName: {
+    max: 75,
+    pattern: /^(([A-Za-z0-9#\-()]|&|')\s?)*([A-Za-z0-9#\-()]|&|')$/,
+    allowed: "letters, digits, # - ( ) & ' and single spaces",
+  },
+  personName: {
+    max: 20,
+    pattern: /^([A-Za-z0-9'-] ?)*[A-Za-z0-9'-]$/,
+    allowed: "letters, digits, ' - and single spaces",
+  },
+  street: {
+    max: 35,
+    pattern: /^[A-Za-z0-9]( ?[A-Za-z0-9\-/])*$/,
+    allowed: 'letters, digits, - / and single spaces',
+  },
+  city: {
+    max: 22,
+    pattern: /^([A-Za-z] ?)*[A-Za-z]$/,
+    allowed: 'letters and single spaces',
+  },
+  province: { max: 17 },
+  foreignPostalCode: { max: 16 },
+} as const;
+
+const AMOUNT = /^\d{1,15}\.\d{2}$/;
+
+type TINSubmittedTypeCd = 'BUSINESS_TIN' | 'INDIVIDUAL_TIN';
+
+interface IrisMailingAddress {
+  USAddress?: {
+    AddressLine1Txt: string;
+    CityNm: string;
+    StateAbbreviationCd: string;
+    ZIPCd: string;
+  };
+  ForeignAddress?: {
+    AddressLine1Txt: string;
+    AddressLine2Txt?: string;
+    CityNm: string;
+    ProvinceOrStateNm?: string;
+    CountryCd: string;
+    ForeignPostalCd?: string;
+  };
+}
+
+interface IrisBusinessName {
+  BusinessNameLine1Txt: string;
+}
+
+interface IrisRecipientName {
+  BusinessName?: IrisBusinessName;
+  PersonName?: { PersonFirstNm: string; PersonLastNm: string };
+}
+
+interface IrisStateTax {
+  StateAbbreviationCd: string;
+  StateIdNum?: string;
+  StateTaxWithheldAmt: string;
+  StateIncomeAmt: string;
+}
+
+/** One recipient's 1099-NEC. */
+export interface IrisNECDetail {
+  TaxYr: string;
+  RecordId: string;
+  VoidInd: '0';
+  CorrectedInd: '0';
+  RecipientTIN: string;
+  TINSubmittedTypeCd: TINSubmittedTypeCd;
+  RecipientName: IrisRecipientName;
+  MailingAddressGrp: IrisMailingAddress;
+  SecondTINNoticeInd: '0';
+  NonemployeeCompensationAmt: string;
+  DirectSalesInd: '0';
+  FederalIncomeTaxWithheldAmt?: string;
+  StateLocalTaxGrp?: { StateTaxGrp: IrisStateTax[] };
+}
+
+/** An `IRTransmission`: the manifest plus one 1099-NEC submission for one issuer (payer). */
+export interface IrisTransmission {
+  IRTransmissionManifest: {
+    UniqueTransmissionId: string; // `<uuid>:IRIS:<TCC>::A`
+    TaxYr: string;
+    PriorYearDataInd: '0' | '1';
+    TransmissionTypeCd: 'O'; // original
+    TestCd: 'T' | 'P';
+    TransmitterGrp: {
+      TIN: string;
+      TINSubmittedTypeCd: TINSubmittedTypeCd;
+      TransmitterControlCd: string;
+      ForeignEntityInd: '0';
+      CompanyGrp: { BusinessName: IrisBusinessName };
+    };
+    VendorCd: 'I'; // in-house software
+    TotalIssuerFormCnt: string;
+    TotalRecipientFormCnt: string;
+    PaperSubmissionInd: '0';
+    SubmissionChannelCd: 'A2A';
+  };
+  IRSubmission1Grp: {
+    IRSubmission1Header: {
+      SubmissionId: string;
+      TaxYr: string;
+      IssuerDetail: {
+        ForeignEntityInd: '0' | '1';
+        TIN: string;
+        TINSubmittedTypeCd: TINSubmittedTypeCd;
+        BusinessName: IrisBusinessName;
+        MailingAddressGrp: IrisMailingAddress;
+        PhoneNum: string;
+      };
+      FormTypeCd: '1099NEC';
+      ParentFormTypeCd: '1096';
+      CFSFElectionInd: '0';
+      TotalReportedRcpntFormCnt: string;
+    };
+    IRSubmission1Detail: { Form1099NECDetail: IrisNECDetail[] };
+  };
+}
+
+/** Who transmits, from the optional `IRIS_*` env vars. The payer stands in when unset. */
+export interface IrisTransmitter {
+  tcc: string | null;
+  tin: string | null;
+  name: string | null;
+  test: boolean; // TestCd T — follows TAXBANDITS_ENV, so sandbox files are never marked production
+}
+
+export function irisTransmitter(env: Env): IrisTransmitter {
+  return {
+    tcc: env.IRIS_TCC ?? null,
+    tin: env.IRIS_TRANSMITTER_TIN ?? null,
+    name: env.IRIS_TRANSMITTER_NAME ?? null,
+    test: env.TAXBANDITS_ENV !== 'production',
+  };
+}
+
+// ============================================================
+// Transform our types → IRIS
+// ============================================================
+
+function digits(value: string): string {
+  return value.replace(/\D/g, '');
+}
+
+/** Digits-only TIN. `tin_ref`s are swapped for TINs by `revealTINs` first. */
+function irisTIN(party: { tin?: string; tin_ref?: string }): string {
+  if (!party.tin) throw new Error('TIN missing — tin_ref must be revealed before building XML');
+  return party.tin.replace(/-/g, '');
+}
+
+function foreignAddress(foreign: ForeignAddress): IrisMailingAddress {
+  return {
+    ForeignAddress: {
+      AddressLine1Txt: foreign.address_line1,
+      AddressLine2Txt: foreign.address_line2,
+      CityNm: foreign.city,
+      ProvinceOrStateNm: foreign.province_or_state,
+      CountryCd: foreign.country,
+      ForeignPostalCd: foreign.postal_code,
+    },
+  };
+}
+
+function mailingAddress(party: PayerInfo | RecipientInfo): IrisMailingAddress {
+  if (party.foreign_address) return foreignAddress(party.foreign_address);
+  return {
+    USAddress: {
+      AddressLine1Txt: party.address ?? '',
+      CityNm: party.city ?? '',
+      StateAbbreviationCd: party.state ?? '',
+      ZIPCd: digits(party.zip_code ?? ''),
+    },
+  };
+}
+
+/** Individuals are filed under their name parts; businesses under one name line. */
+function recipientName(recipient: RecipientInfo): IrisRecipientName {
+  if (recipient.tin_type === 'SSN') {
+    return {
+      PersonName: { PersonFirstNm: recipient.first_name, PersonLastNm: recipient.last_name },
+    };
+  }
+  return {
+    BusinessName: {
+      BusinessNameLine1Txt: `${recipient.first_name} ${recipient.last_name}`.trim(),
+    },
+  };
+}
+
+function stateTaxes(data: Form1099NECRequest): Pick<IrisNECDetail, 'StateLocalTaxGrp'> {
+  const lines = stateLines(data);
+  if (!data.is_state_filing || lines.length === 0) return {};
+  return {
+    StateLocalTaxGrp: {
+      StateTaxGrp: lines.map((line) => ({
+        StateAbbreviationCd: line.state,
+        StateIdNum: line.state_id?.replace(/[\s-]/g, ''),
+        StateTaxWithheldAmt: (line.state_tax_withheld ?? 0).toFixed(2),
+        StateIncomeAmt: (line.state_income ?? data.nonemployee_compensation).toFixed(2),
+      })),
+    },
+  };
+}
+
+function necDetail(data: Form1099NECRequest, taxYear: string, index: number): IrisNECDetail {
+  return {
+    TaxYr: taxYear,
+    RecordId: String(index + 1),
+    VoidInd: '0',
+    CorrectedInd: '0',
+    RecipientTIN: irisTIN(data.recipient),
+    TINSubmittedTypeCd: data.recipient.tin_type === 'SSN' ? 'INDIVIDUAL_TIN' : 'BUSINESS_TIN',
+    RecipientName: recipientName(data.recipient),
+    MailingAddressGrp: mailingAddress(data.recipient),
+    SecondTINNoticeInd: '0',
+    NonemployeeCompensationAmt: data.nonemployee_compensation.toFixed(2),
+    DirectSalesInd: '0',
+    FederalIncomeTaxWithheldAmt: data.is_federal_tax_withheld
+      ? (data.federal_tax_withheld ?? 0).toFixed(2)
+      : undefined,
+    ...stateTaxes(data),
+  };
+}
+
+/**
+ * The IRIS transmission for `forms` — one payer, as for a TaxBandits
+ * submission. Vaulted TINs must already be revealed.
+ */
+export function buildIrisTransmission(
+  forms: Form1099NECRequest[],
+  transmitter: IrisTransmitter,
+  now: Date = new Date(),
+): IrisTransmission {
+  const first = forms[0];
+  if (!first) throw new Error('An IRIS transmission needs at least one form');
+  const payer = first.payer;
+  const taxYear = first.tax_year ?? now.getFullYear().toString();
+  const payerTIN = irisTIN(payer);
+  const payerTINType = (payer.tin_type ?? 'EIN') === 'EIN' ? 'BUSINESS_TIN' : 'INDIVIDUAL_TIN';
+  const count = String(forms.length);
+
+  return {
+    IRTransmissionManifest: {
+      UniqueTransmissionId: `${crypto.randomUUID()}:IRIS:${transmitter.tcc ?? ''}::A`,
+      TaxYr: taxYear,
+      PriorYearDataInd: Number(taxYear) < now.getFullYear() - 1 ? '1' : '0',
+      TransmissionTypeCd: 'O',
+      TestCd: transmitter.test ? 'T' : 'P',
+      TransmitterGrp: {
+        TIN: transmitter.tin ? digits(transmitter.tin) : payerTIN,
+        TINSubmittedTypeCd: transmitter.tin ? 'BUSINESS_TIN' : payerTINType,
+        TransmitterControlCd: transmitter.tcc ?? '',
+        ForeignEntityInd: '0',
+        CompanyGrp: { BusinessName: { BusinessNameLine1Txt: transmitter.name ?? payer.name } },
+      },
+      VendorCd: 'I',
+      TotalIssuerFormCnt: '1',
+      TotalRecipientFormCnt: count,
+      PaperSubmissionInd: '0',
+      SubmissionChannelCd: 'A2A',
+    },
+    IRSubmission1Grp: {
+      IRSubmission1Header: {
+        SubmissionId: '1',
+        TaxYr: taxYear,
+        IssuerDetail: {
+          ForeignEntityInd: payer.foreign_address ? '1' : '0',
+          TIN: payerTIN,
+          TINSubmittedTypeCd: payerTINType,
+          BusinessName: { BusinessNameLine1Txt: payer.name },
+          MailingAddressGrp: mailingAddress(payer),
+          PhoneNum: digits(payer.phone),
+        },
+        FormTypeCd: '1099NEC',
+        ParentFormTypeCd: '1096',
+        CFSFElectionInd: '0',
+        TotalReportedRcpntFormCnt: count,
+      },
+      IRSubmission1Detail: {
+        Form1099NECDetail: forms.map((data, i) => necDetail(data, taxYear, i)),
+      },
+    },
+  };
+}
+
+// ============================================================
+// Lint — IRS e-file common-type rules
+// ============================================================
+
+type Check = (field: string, ok: boolean, message: string) => void;
+
+function lintText(
+  check: Check,
+  field: string,
+  value: string | undefined,
+  rule: { max: number; pattern?: RegExp; allowed?: string },
+): void {
+  check(field, !!value && value.trim().length > 0, 'is required');
+  if (!value) return;
+  check(field, value.length <= rule.max, `exceeds ${rule.max} characters (${value.length})`);
+  if (rule.pattern && rule.allowed) {
+    check(field, rule.pattern.test(value), `may only contain ${rule.allowed}`);
+  }
+}
+
+function lintAddress(check: Check, path: string, address: IrisMailingAddress): void {
+  const foreign = address.ForeignAddress;
+  if (foreign) {
+    const at = `${path}.ForeignAddress`;
+    lintText(check, `${at}.AddressLine1Txt`, foreign.AddressLine1Txt, RULES.street);
+    if (foreign.AddressLine2Txt) {
+      lintText(check, `${at}.AddressLine2Txt`, foreign.AddressLine2Txt, RULES.street);
+    }
+    lintText(check, `${at}.CityNm`, foreign.CityNm, RULES.city);
+    if (foreign.ProvinceOrStateNm) {
+      lintText(check, `${at}.ProvinceOrStateNm`, foreign.ProvinceOrStateNm, RULES.province);
+    }
+    check(`${at}.CountryCd`, /^[A-Z]{2}$/.test(foreign.CountryCd), 'must be a 2-letter code');
+    if (foreign.ForeignPostalCd) {
+      lintText(check, `${at}.ForeignPostalCd`, foreign.ForeignPostalCd, RULES.foreignPostalCode);
+    }
+    return;
+  }
+  const us = address.USAddress;
+  if (!us) return;
+  const at = `${path}.USAddress`;
+  lintText(check, `${at}.AddressLine1Txt`, us.AddressLine1Txt, RULES.street);
+  lintText(check, `${at}.CityNm`, us.CityNm, RULES.city);
+  check(
+    `${at}.StateAbbreviationCd`,
+    /^[A-Z]{2}$/.test(us.StateAbbreviationCd),
+    'must be a 2-letter state code',
+  );
+  check(`${at}.ZIPCd`, /^\d{5}(\d{4})?$/.test(us.ZIPCd), 'must be 5 or 9 digits');
+}
+
+function lintAmount(check: Check, field: string, value: string | undefined): void {
+  if (value !== undefined) {
+    check(field, AMOUNT.test(value), 'must be a non-negative amount like 1234.56');
+  }
+}
+
+/**
+ * Check a transmission against the IRIS field rules. Run it before masking —
+ * TIN checks need the digits — but messages never echo field values, so the
+ * issues are safe to return.
+ */
+export function lintIrisTransmission(transmission: IrisTransmission): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const check: Check = (field, ok, message) => {
+    if (!ok) issues.push({ field, message: `${field} ${message}`, severity: 'error' });
+  };
+
+  const manifest = transmission.IRTransmissionManifest;
+  check('IRTransmissionManifest.TaxYr', /^\d{4}$/.test(manifest.TaxYr), 'must be a 4-digit year');
+  const transmitter = 'IRTransmissionManifest.TransmitterGrp';
+  check(
+    `${transmitter}.TransmitterControlCd`,
+    /^[A-Z0-9]{5}$/.test(manifest.TransmitterGrp.TransmitterControlCd),
+    'must be a 5-character TCC — set IRIS_TCC',
+  );
+  check(`${transmitter}.TIN`, /^\d{9}$/.test(manifest.TransmitterGrp.TIN), 'must be 9 digits');
+  lintText(
+    check,
+    `${transmitter}.CompanyGrp.BusinessName.BusinessNameLine1Txt`,
+    manifest.TransmitterGrp.CompanyGrp.BusinessName.BusinessNameLine1Txt,
+    RULES.businessName,
+  );
+
+  const group = transmission.IRSubmission1Grp;
+  const issuer = group.IRSubmission1Header.IssuerDetail;
+  const header = 'IRSubmission1Header.IssuerDetail';
+  check(`${header}.TIN`, /^\d{9}$/.test(issuer.TIN), 'must be 9 digits');
+  lintText(
+    check,
+    `${header}.BusinessName.BusinessNameLine1Txt`,
+    issuer.BusinessName.BusinessNameLine1Txt,
+    RULES.businessName,
+  );
+  lintAddress(check, `${header}.MailingAddressGrp`, issuer.MailingAddressGrp);
+  check(`${header}.PhoneNum`, /^\d{10}$/.test(issuer.PhoneNum), 'must be 10 digits');
+
+  group.IRSubmission1Detail.Form1099NECDetail.forEach((detail, i) => {
+    const path = `Form1099NECDetail[${i}]`;
+    check(`${path}.RecipientTIN`, /^\d{9}$/.test(detail.RecipientTIN), 'must be 9 digits');
+    const name = detail.RecipientName;
+    if (name.PersonName) {
+      const at = `${path}.RecipientName.PersonName`;
+      lintText(check, `${at}.PersonFirstNm`, name.PersonName.PersonFirstNm, RULES.personName);
+      lintText(check, `${at}.PersonLastNm`, name.PersonName.PersonLastNm, RULES.personName);
+    } else {
+      lintText(
+        check,
+        `${path}.RecipientName.BusinessName.BusinessNameLine1Txt`,
+        name.BusinessName?.BusinessNameLine1Txt,
+        RULES.businessName,
+      );
+    }
+    lintAddress(check, `${path}.MailingAddressGrp`, detail.MailingAddressGrp);
+    lintAmount(check, `${path}.NonemployeeCompensationAmt`, detail.NonemployeeCompensationAmt);
+    lintAmount(check, `${path}.FederalIncomeTaxWithheldAmt`, detail.FederalIncomeTaxWithheldAmt);
+    detail.StateLocalTaxGrp?.StateTaxGrp.forEach((state, j) => {
+      const at = `${path}.StateLocalTaxGrp.StateTaxGrp[${j}]`;
+      check(
+        `${at}.StateAbbreviationCd`,
+        /^[A-Z]{2}$/.test(state.StateAbbreviationCd),
+        'must be a 2-letter state code',
+      );
+      lintAmount(check, `${at}.StateTaxWithheldAmt`, state.StateTaxWithheldAmt);
+      lintAmount(check, `${at}.StateIncomeAmt`, state.StateIncomeAmt);
+    });
+  });
+  return issues;
+}
+
+// ============================================================
+// Comparison with the TaxBandits payload
+// ============================================================
+
+/** A value the two payloads carry differently. TINs are masked. */
+export interface PayloadDifference {
+  field: string; // named after the request field both were built from
+  iris: string | null;
+  taxbandits: string | null;
+}
+
+function recipientNameText(name: IrisRecipientName): string {
+  return name.PersonName
+    ? `${name.PersonName.PersonFirstNm} ${name.PersonName.PersonLastNm}`
+    : (name.BusinessName?.BusinessNameLine1Txt ?? '');
+}
+
+function statesText(states: Array<{ code: string; income?: string; withheld?: string }>) {
+  return states.map((s) => `${s.code} ${s.income ?? '-'}/${s.withheld ?? '-'}`).join(', ');
+}
+
+/**
+ * Compare what IRIS and TaxBandits would each receive for the same forms:
+ * tax year, payer, recipient count, and each recipient's TIN, name and
+ * amounts. Addresses are left out — TaxBandits reformats them itself.
+ */
+export function compareWithTaxBandits(
+  transmission: IrisTransmission,
+  payload: TaxBanditsCreateRequest,
+): PayloadDifference[] {
+  const differences: PayloadDifference[] = [];
+  const compare = (field: string, iris: string | null, taxbandits: string | null) => {
+    if (iris !== taxbandits) differences.push({ field, iris, taxbandits });
+  };
+  const masked = (tin: string | undefined) => (tin === undefined ? null : scrubTINs(tin));
+
+  const header = transmission.IRSubmission1Grp.IRSubmission1Header;
+  const business = payload.ReturnHeader.Business;
+  compare('tax_year', header.TaxYr, payload.SubmissionManifest.TaxYear);
+  compare('payer.tin', masked(header.IssuerDetail.TIN), masked(business.EINorSSN));
+  compare('payer.name', header.IssuerDetail.BusinessName.BusinessNameLine1Txt, business.BusinessNm);
+
+  const details = transmission.IRSubmission1Grp.IRSubmission1Detail.Form1099NECDetail;
+  compare('forms', String(details.length), String(payload.ReturnData.length));
+  details.forEach((detail, i) => {
+    const record = payload.ReturnData[i];
+    if (!record) return;
+    const at = `forms[${i}]`;
+    const form = record.NECFormData;
+    compare(`${at}.recipient.tin`, masked(detail.RecipientTIN), masked(record.Recipient.TIN));
+    compare(
+      `${at}.recipient.name`,
+      recipientNameText(detail.RecipientName),
+      record.Recipient.FirstPayeeNm,
+    );
+    compare(`${at}.nonemployee_compensation`, detail.NonemployeeCompensationAmt, form.B1NEC);
+    compare(
+      `${at}.federal_tax_withheld`,
+      detail.FederalIncomeTaxWithheldAmt ?? null,
+      form.B4FedTaxWH ?? null,
+    );
+    compare(
+      `${at}.states`,
+      statesText(
+        (detail.StateLocalTaxGrp?.StateTaxGrp ?? []).map((s) => ({
+          code: s.StateAbbreviationCd,
+          income: s.StateIncomeAmt,
+          withheld: s.StateTaxWithheldAmt,
+        })),
+      ),
+      statesText(
+        (form.States ?? []).map((s) => ({
+          code: s.StateCd,
+          income: s.StateIncome,
+          withheld: s.StateTaxWithheld,
+        })),
+      ),
+    );
+  });
+  return differences;
+}
+
+// ============================================================
+// XML
+// ============================================================
+
+/** Elements holding a TIN, masked by `maskIrisTINs`. */
+const TIN_ELEMENTS = new Set(['TIN', 'RecipientTIN']);
+
+/** A copy of the transmission with every TIN masked, for returning to callers. */
+export function maskIrisTINs(transmission: IrisTransmission): IrisTransmission {
+  return JSON.parse(JSON.stringify(transmission), (key: string, value: unknown) =>
+    TIN_ELEMENTS.has(key) && typeof value === 'string' ? scrubTINs(value) : value,
+  ) as IrisTransmission;
+}
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/** One element; arrays repeat it, absent values leave it out. */
+function xmlElement(name: string, value: unknown, indent: string): string {
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value)) return value.map((item) => xmlElement(name, item, indent)).join('');
+  if (typeof value === 'object') {
+    const children = Object.entries(value)
+      .map(([child, v]) => xmlElement(child, v, `${indent}  `))
+      .join('');
+    return `${indent}<${name}>\n${children}${indent}</${name}>\n`;
+  }
+  return `${indent}<${name}>${escapeXml(String(value))}</${name}>\n`;
+}
+
+/** Serialize a transmission as an IRIS `IRTransmission` document. */
+export function irisXml(transmission: IrisTransmission): string {
+  const body = Object.entries(transmission)
+    .map(([name, value]) => xmlElement(name, value, '  '))
+    .join('');
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<IRTransmission xmlns="${IR_NAMESPACE}">\n${body}</IRTransmission>\n`;
+}
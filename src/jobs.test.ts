@@ -0,0 +1,227 @@
+import { describe, it, expect } from 'vitest';
+import { env, runDurableObjectAlarm, runInDurableObject } from 'cloudflare:test';
+import { Effect, Either } from 'effect';
+import { JOB_CHUNK_SIZE, chunkForms, createFilingJob } from './jobs';
+import { getFormDefinition } from './forms';
+import { NO_OWNER } from './outbound-webhooks';
+import { isTinRef } from './vault';
+import type { Env, Form1099NECRequest } from './types';
+import type { WebhookState } from './webhook-state';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const testEnv = env as unknown as Env;
+
+function form(payerTin = '27-1234567', payerName = 'Acme Corp'): Form1099NECRequest {
+  return {
+    payer: {
+      name: payerName,
+      tin: payerTin,
+      tin_type: 'EIN',
+      address: '100 Main St',
+      city: 'New York',
+      state: 'NY',
+      zip_code: '10001',
+      phone: '2125551234',
+      email: 'payroll@acme.com',
+    },
+    recipient: {
+      first_name: 'Jane',
+      last_name: 'Smith',
+      tin: '412789654',
+      tin_type: 'SSN',
+      address: '200 Oak Ave',
+      city: 'Austin',
+      state: 'TX',
+      zip_code: '78701',
+    },
+    nonemployee_compensation: 5000,
+    is_federal_tax_withheld: false,
+    is_state_filing: false,
+    tax_year: '2025',
+  };
+}
+
+function stub() {
+  const ns = testEnv.WEBHOOK_STATE;
+  if (!ns) throw new Error('WEBHOOK_STATE binding missing');
+  return ns.get(ns.idFromName('global'));
+}
+
+/** How long `drainAlarms` keeps going — chunks run slowly on a loaded machine. */
+const DRAIN_TIMEOUT_MS = 20_000;
+
+function openChunks(): Promise<number> {
+  return runInDurableObject(stub(), (_: WebhookState, state) => {
+    const row = state.storage.sql
+      .exec("SELECT COUNT(*) AS n FROM job_chunks WHERE status IN ('PENDING', 'RUNNING')")
+      .one();
+    return Number(row['n']);
+  });
+}
+
+/**
+ * Run alarms until no chunk is pending or running. Alarms also fire on their
+ * own, so a pass can find nothing to run while a chunk is still in flight —
+ * keep going until the count reaches zero rather than stopping after a fixed
+ * number of passes.
+ */
+async function drainAlarms() {
+  const deadline = Date.now() + DRAIN_TIMEOUT_MS;
+  let open = await openChunks();
+  while (open > 0 && Date.now() < deadline) {
+    const ran = await runDurableObjectAlarm(stub());
+    if (!ran) await new Promise((resolve) => setTimeout(resolve, 50));
+    open = await openChunks();
+  }
+  expect(open).toBe(0);
+}
+
+function setChunkStatus(jobId: string, chunkIndex: number, status: string, extra = '') {
+  return runInDurableObject(stub(), (_: WebhookState, state) => {
+    state.storage.sql.exec(
+      `UPDATE job_chunks SET status = ?${extra} WHERE job_id = ? AND chunk_index = ?`,
+      status,
+      jobId,
+      chunkIndex,
+    );
+  });
+}
+
+// ---------------------------------------------------------------------------
+// chunkForms()
+// ---------------------------------------------------------------------------
+describe('chunkForms', () => {
+  it('splits each payer into chunks of at most one submission', () => {
+    const forms = [
+      ...Array.from({ length: 230 }, () => form()),
+      ...Array.from({ length: 5 }, () => form('98-7654321', 'Globex LLC')),
+    ];
+    const chunks = chunkForms(forms);
+    expect(chunks.map((c) => c.forms.length)).toEqual([JOB_CHUNK_SIZE, JOB_CHUNK_SIZE, 30, 5]);
+    expect(chunks.map((c) => c.payerName)).toEqual([
+      'Acme Corp',
+      'Acme Corp',
+      'Acme Corp',
+      'Globex LLC',
+    ]);
+    expect(chunks[3]?.payerTin).toBe('***4321');
+  });
+
+  it('keeps the upload positions of interleaved payers', () => {
+    const chunks = chunkForms([form(), form('98-7654321'), form(), form('98-7654321')]);
+    expect(chunks.map((c) => c.formIndexes)).toEqual([
+      [0, 2],
+      [1, 3],
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// WebhookState jobs — storage, alarm and resume
+// ---------------------------------------------------------------------------
+describe('WebhookState filing jobs', { timeout: DRAIN_TIMEOUT_MS * 2 }, () => {
+  function createJob(jobId: string, forms: Form1099NECRequest[]) {
+    return stub().createJob(
+      { jobId, formType: '1099-NEC', runner: 'alarm', callbackUrl: null, owner: NO_OWNER },
+      chunkForms(forms),
+    );
+  }
+
+  it('stores a job with one chunk per payer, without form data in the view', async () => {
+    const job = await createJob('job_store', [form(), form('98-7654321'), form()]);
+    expect(job.totalForms).toBe(3);
+    expect(job.chunks).toHaveLength(2);
+    expect(job.chunks[0]).toMatchObject({ payerName: 'Acme Corp', formIndexes: [0, 2] });
+    expect(JSON.stringify(job)).not.toContain('412789654');
+    await drainAlarms();
+  });
+
+  it('works through every chunk, recording each outcome', async () => {
+    await createJob('job_run', [form(), form('98-7654321')]);
+    await drainAlarms();
+    const job = await stub().getJob('job_run');
+    expect(job?.chunks.every((c) => c.status !== 'PENDING' && c.status !== 'RUNNING')).toBe(true);
+    expect(job?.chunks.every((c) => c.attempts === 1)).toBe(true);
+    expect(['COMPLETED', 'FAILED']).toContain(job?.status);
+  });
+
+  it('reports the forms of an invalid chunk by upload position', async () => {
+    const bad = form('98-7654321');
+    bad.nonemployee_compensation = -5;
+    await createJob('job_invalid', [form(), bad]);
+    await drainAlarms();
+    const job = await stub().getJob('job_invalid');
+    const chunk = job?.chunks[1];
+    expect(chunk?.status).toBe('INVALID');
+    expect(chunk?.invalid[0]?.formIndex).toBe(1);
+    expect(job?.status).toBe('FAILED');
+  });
+
+  it('marks a chunk left RUNNING as failed on the next alarm', async () => {
+    await createJob('job_interrupted', [form()]);
+    await drainAlarms();
+    await setChunkStatus('job_interrupted', 0, 'RUNNING');
+    await createJob('job_next', [form()]); // schedules the next alarm
+    await drainAlarms();
+    const job = await stub().getJob('job_interrupted');
+    expect(job?.chunks[0]?.status).toBe('FAILED');
+    expect(job?.chunks[0]?.error).toContain('Interrupted');
+  });
+
+  it('resumes only the failed chunks', async () => {
+    await createJob('job_resume', [form(), form('98-7654321'), form('11-2223333')]);
+    await drainAlarms();
+    await setChunkStatus('job_resume', 0, 'FILED', ", submission_id = 'sub-1'");
+    await setChunkStatus('job_resume', 1, 'FAILED', ", error = 'HTTP 503'");
+    await setChunkStatus('job_resume', 2, 'INVALID');
+
+    expect(await stub().resumeJob('job_resume')).toBe(1);
+    const job = await stub().getJob('job_resume');
+    expect(job?.chunks.map((c) => c.status)).toEqual(['FILED', 'PENDING', 'INVALID']);
+    expect(job?.chunks[1]?.error).toBeNull();
+    expect(job?.progress).toMatchObject({ FILED: 1, PENDING: 1, INVALID: 1, formsFiled: 1 });
+    expect(job?.status).toBe('RUNNING');
+
+    expect(await stub().resumeJob('job_resume')).toBe(0);
+    await drainAlarms();
+  });
+
+  it('returns null for an unknown job', async () => {
+    expect(await stub().getJob('job_missing')).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// createFilingJob — TINs held until the chunk is filed
+// ---------------------------------------------------------------------------
+describe('createFilingJob', { timeout: DRAIN_TIMEOUT_MS * 2 }, () => {
+  it('vaults payer and recipient TINs before storing the chunks', async () => {
+    const vaultEnv = { ...testEnv, TIN_VAULT_KEY: 'test-job-secret' } as Env;
+    const job = await Effect.runPromise(
+      createFilingJob(vaultEnv, getFormDefinition('1099-NEC'), [form()]),
+    );
+    const forms = await runInDurableObject(stub(), (_: WebhookState, state) =>
+      String(
+        state.storage.sql.exec('SELECT forms FROM job_chunks WHERE job_id = ?', job.jobId).one()[
+          'forms'
+        ],
+      ),
+    );
+    expect(forms).not.toContain('1234567');
+    expect(forms).not.toContain('789654');
+    const [stored] = JSON.parse(forms) as Form1099NECRequest[];
+    expect(isTinRef(stored?.payer.tin_ref ?? '')).toBe(true);
+    expect(isTinRef(stored?.recipient.tin_ref ?? '')).toBe(true);
+    await drainAlarms();
+  });
+
+  it('refuses to store plain TINs without the vault', async () => {
+    const result = await Effect.runPromise(
+      Effect.either(createFilingJob(testEnv, getFormDefinition('1099-NEC'), [form()])),
+    );
+    expect(Either.isLeft(result)).toBe(true);
+  });
+});
@@ -0,0 +1,236 @@
+import { Effect } from 'effect';
+import type {
+  Env,
+  FilingQueueMessage,
+  Form1099Request,
+  TINVaultError,
+  ValidationResult,
+} from './types';
+import type { FormDefinition } from './forms';
+import { getFormDefinition } from './forms';
+import { aiFallbackResult, validateForm } from './agent';
+import { groupByPayer } from './taxbandits';
+import { filingProvider } from './providers';
+import { recordSubmission } from './form-records';
+import { priorYearFilings } from './recipients';
+import { maskTIN, scrubTINs } from './pii';
+import { tinLast4, tokenizePartyTIN } from './vault';
+import { NO_OWNER, type SubmissionOwner } from './outbound-webhooks';
+import { tenantOf, tenantState } from './tenants';
+import type {
+  ClaimedJobChunk,
+  FilingJob,
+  JobChunkInput,
+  JobChunkOutcome,
+  JobRunner,
+} from './webhook-state';
+
+// ============================================================
+// Bulk filing jobs
+//
+// A job takes one upload of up to JOB_MAX_FORMS forms, splits it into chunks
+// of one payer and at most one TaxBandits submission each, and files them in
+// the background. With a FILING_QUEUE binding every chunk is a queue message
+// (see ./queue); without one, WebhookState's alarm runs one chunk at a time.
+// Either way the outcome is recorded before moving on, and a chunk that fails
+// at TaxBandits can be resumed without touching the chunks that were filed.
+// ============================================================
+
+export const JOB_MAX_FORMS = 5000;
+
+/** TaxBandits accepts at most 100 forms per submission. */
+export const JOB_CHUNK_SIZE = 100;
+
+/** AI reviews running at once within a chunk. */
+export const JOB_VALIDATION_CONCURRENCY = 5;
+
+/** Largest accepted `POST /jobs` body. */
+export const JOB_BODY_LIMIT = 8 * 1024 * 1024;
+
+/** How long a job callback may take before it's given up on. */
+const JOB_CALLBACK_TIMEOUT = '10 seconds';
+
+/**
+ * Split forms into chunks: grouped by payer, then cut to JOB_CHUNK_SIZE.
+ * Each chunk remembers where its forms sat in the upload.
+ */
+export function chunkForms<T extends Form1099Request>(forms: T[]): JobChunkInput[] {
+  return groupByPayer(forms).flatMap((group) => {
+    const chunks: JobChunkInput[] = [];
+    for (let start = 0; start < group.forms.length; start += JOB_CHUNK_SIZE) {
+      chunks.push({
+        payerName: group.payer.name,
+        payerTin: maskTIN(tinLast4(group.payer)),
+        formIndexes: group.indexes.slice(start, start + JOB_CHUNK_SIZE),
+        forms: group.forms.slice(start, start + JOB_CHUNK_SIZE),
+      });
+    }
+    return chunks;
+  });
+}
+
+/**
+ * Payer and recipient TINs as they are held until the chunk is filed: always
+ * vaulted. Unlike stored form records, a TIN that can't be vaulted fails the
+ * upload — a masked TIN couldn't be filed later.
+ */
+function vaultForJob<T extends Form1099Request>(
+  env: Env,
+  tenant: string,
+  forms: T[],
+): Effect.Effect<T[], TINVaultError> {
+  return Effect.forEach(
+    forms,
+    (f) =>
+      Effect.all([
+        tokenizePartyTIN(env, tenant, f.payer),
+        tokenizePartyTIN(env, tenant, f.recipient),
+      ]).pipe(Effect.map(([payer, recipient]) => ({ ...f, payer, recipient }))),
+    { concurrency: 10 },
+  );
+}
+
+/** Send chunks of `tenant`'s queue job to FILING_QUEUE, at most 100 messages per batch. */
+export function enqueueJobChunks(
+  queue: Queue<FilingQueueMessage>,
+  tenant: string,
+  jobId: string,
+  chunkIndexes: number[],
+): Effect.Effect<void> {
+  const batches: number[][] = [];
+  for (let i = 0; i < chunkIndexes.length; i += 100) batches.push(chunkIndexes.slice(i, i + 100));
+  return Effect.forEach(
+    batches,
+    (batch) =>
+      Effect.promise(() =>
+        queue.sendBatch(batch.map((chunkIndex) => ({ body: { jobId, chunkIndex, tenant } }))),
+      ),
+    { discard: true },
+  );
+}
+
+/**
+ * Store a job in `owner`'s WebhookState and start filing: on FILING_QUEUE when it's
+ * bound, otherwise on the alarm. `callbackUrl` receives the job once no
+ * chunk is left to run; `owner`'s webhook endpoints hear about its submissions.
+ */
+export function createFilingJob<T extends Form1099Request>(
+  env: Env,
+  form: FormDefinition<T>,
+  forms: T[],
+  callbackUrl: string | null = null,
+  owner: SubmissionOwner = NO_OWNER,
+): Effect.Effect<FilingJob, TINVaultError> {
+  const ns = env.WEBHOOK_STATE;
+  if (!ns) return Effect.dieMessage('WEBHOOK_STATE is required for filing jobs');
+  const queue = env.FILING_QUEUE;
+  const runner: JobRunner = queue ? 'queue' : 'alarm';
+  const tenant = tenantOf(owner);
+  return Effect.gen(function* () {
+    const stored = yield* vaultForJob(env, tenant, forms);
+    const job = yield* Effect.promise(() =>
+      tenantState(ns, tenant).createJob(
+        {
+          jobId: `job_${crypto.randomUUID()}`,
+          formType: form.formType,
+          runner,
+          callbackUrl,
+          owner,
+        },
+        chunkForms(stored),
+      ),
+    );
+    if (queue) {
+      yield* enqueueJobChunks(
+        queue,
+        tenant,
+        job.jobId,
+        job.chunks.map((c) => c.chunkIndex),
+      );
+    }
+    return job;
+  });
+}
+
+/**
+ * POST a finished job to its callback URL. Best effort: the job is always
+ * available from `GET /jobs/:jobId`, so a failed callback is only logged.
+ */
+export function notifyJobCallback(url: string, job: FilingJob): Effect.Effect<void> {
+  return Effect.tryPromise(() =>
+    fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Tax-Agent-Job-Id': job.jobId },
+      body: JSON.stringify({
+        event: job.status === 'COMPLETED' ? 'job.completed' : 'job.failed',
+        job,
+      }),
+    }),
+  ).pipe(
+    Effect.timeout(JOB_CALLBACK_TIMEOUT),
+    Effect.flatMap((res) => {
+      void res.body?.cancel();
+      return res.ok ? Effect.void : Effect.fail(new Error(`callback returned HTTP ${res.status}`));
+    }),
+    Effect.catchAll((err) =>
+      Effect.sync(() => console.error(`Job ${job.jobId} callback failed:`, scrubTINs(String(err)))),
+    ),
+  );
+}
+
+/**
+ * Validate and file one chunk. Never fails — the outcome says what happened.
+ * A chunk whose forms all passed validation on an earlier attempt isn't
+ * reviewed again.
+ */
+export function runJobChunk(env: Env, chunk: ClaimedJobChunk): Effect.Effect<JobChunkOutcome> {
+  const form = getFormDefinition(chunk.formType);
+  const previouslyValid =
+    chunk.validations.length === chunk.forms.length && chunk.validations.every((v) => v.valid);
+
+  return Effect.gen(function* () {
+    const priorYears = previouslyValid
+      ? []
+      : yield* priorYearFilings(env, chunk.owner, chunk.forms);
+    const validations: ValidationResult[] = previouslyValid
+      ? chunk.validations
+      : yield* Effect.forEach(
+          chunk.forms,
+          (f, i) =>
+            validateForm(env, form, f, priorYears[i]).pipe(
+              Effect.catchTag('AIValidationError', (err) =>
+                Effect.succeed(aiFallbackResult(form, f, err.message)),
+              ),
+            ),
+          { concurrency: JOB_VALIDATION_CONCURRENCY },
+        );
+    if (validations.some((v) => !v.valid)) {
+      return { status: 'INVALID' as const, validations };
+    }
+
+    return yield* filingProvider(env)
+      .createSubmission(tenantOf(chunk.owner), form, chunk.forms)
+      .pipe(
+        Effect.tap((created) =>
+          recordSubmission(env, form, created, chunk.forms, validations, chunk.owner),
+        ),
+        Effect.map(
+          (created): JobChunkOutcome => ({
+            status: 'FILED',
+            submissionId: created.SubmissionId,
+            validations,
+          }),
+        ),
+        Effect.catchAll((err) =>
+          Effect.succeed<JobChunkOutcome>({
+            status: 'FAILED',
+            error:
+              err._tag === 'TINVaultError'
+                ? err.message
+                : `TaxBandits API call failed: ${scrubTINs(err.message)}`,
+            validations,
+          }),
+        ),
+      );
+  });
+}
@@ -57,22 +57,246 @@ const taxBanditsFormRecord = {
   },
 } as const;
 
+const foreignAddressSchema = {
+  type: 'object',
+  description: 'Non-US address. When present, address/city/state/zip_code must be omitted.',
+  required: ['address_line1', 'city', 'country'],
+  properties: {
+    address_line1: { type: 'string', minLength: 1, maxLength: 200 },
+    address_line2: { type: 'string', maxLength: 200 },
+    city: { type: 'string', minLength: 1, maxLength: 100 },
+    province_or_state: { type: 'string', maxLength: 100 },
+    postal_code: { type: 'string', maxLength: 20 },
+    country: { type: 'string', pattern: '^[A-Z]{2}$', description: 'ISO 3166-1 alpha-2, not US' },
+  },
+} as const;
+
+const tinRefSchema = {
+  type: 'string',
+  pattern: '^tin_[se]\\d{4}_[A-Za-z0-9_-]{22}$',
+  description: 'Token from POST /vault/tins, sent in place of tin',
+} as const;
+
+const w9RequestSchema = {
+  type: 'object',
+  properties: {
+    requestId: { type: 'string' },
+    reference: { type: ['string', 'null'] },
+    recipientName: { type: ['string', 'null'] },
+    email: { type: ['string', 'null'] },
+    status: { type: 'string', enum: ['PENDING', 'COMPLETED', 'EXPIRED'] },
+    expiresAt: { type: 'string', format: 'date-time' },
+    createdAt: { type: 'string', format: 'date-time' },
+    completedAt: { type: ['string', 'null'], format: 'date-time' },
+    submission: {
+      type: ['object', 'null'],
+      description: 'W-9 data as submitted; the TIN only as tinRef plus a masked tin',
+      properties: {
+        name: { type: 'string' },
+        businessName: { type: 'string' },
+        taxClassification: {
+          type: 'string',
+          enum: [
+            'INDIVIDUAL',
+            'C_CORPORATION',
+            'S_CORPORATION',
+            'PARTNERSHIP',
+            'TRUST_ESTATE',
+            'LLC',
+            'OTHER',
+          ],
+        },
+        llcClassification: { type: 'string', enum: ['C', 'S', 'P'] },
+        exemptPayeeCode: { type: 'string' },
+        address: { type: 'string' },
+        city: { type: 'string' },
+        state: { type: 'string' },
+        zipCode: { type: 'string' },
+        tinType: { type: 'string', enum: ['SSN', 'EIN'] },
+        tinRef: tinRefSchema,
+        tin: { type: 'string', description: 'Masked' },
+        signature: { type: 'string' },
+        certifiedAt: { type: 'string', format: 'date-time' },
+      },
+    },
+  },
+} as const;
+
+const payerSubmissionSchema = {
+  type: 'object',
+  required: ['payer', 'form_indexes', 'submission_id'],
+  properties: {
+    payer: {
+      type: 'object',
+      properties: { name: { type: 'string' }, tin: { type: 'string', description: 'Masked' } },
+    },
+    form_indexes: {
+      type: 'array',
+      items: { type: 'integer' },
+      description: "Positions of this payer's forms in the request",
+    },
+    submission_id: { type: ['string', 'null'] },
+    filing: { type: 'object', description: 'TaxBandits create response' },
+    error: { type: 'string', description: "Why this payer's submission failed" },
+  },
+} as const;
+
+const batchSummarySchema = {
+  type: 'object',
+  properties: {
+    payers: { type: 'integer' },
+    submissions_created: { type: 'integer' },
+    submissions_failed: { type: 'integer' },
+    forms_filed: { type: 'integer' },
+    forms_failed: { type: 'integer' },
+  },
+} as const;
+
+const jobChunkStatus = {
+  type: 'string',
+  enum: ['PENDING', 'RUNNING', 'FILED', 'INVALID', 'FAILED'],
+} as const;
+
+const filingJobSchema = {
+  type: 'object',
+  required: ['jobId', 'formType', 'status', 'totalForms', 'progress', 'chunks'],
+  properties: {
+    jobId: { type: 'string' },
+    formType: { type: 'string', enum: ['1099-NEC', '1099-MISC'] },
+    status: { type: 'string', enum: ['PENDING', 'RUNNING', 'COMPLETED', 'FAILED'] },
+    runner: {
+      type: 'string',
+      enum: ['alarm', 'queue'],
+      description: 'queue when FILING_QUEUE is bound, otherwise the Durable Object alarm',
+    },
+    totalForms: { type: 'integer' },
+    progress: {
+      type: 'object',
+      description: 'Chunk counts per status, plus the number of forms filed',
+      properties: {
+        PENDING: { type: 'integer' },
+        RUNNING: { type: 'integer' },
+        FILED: { type: 'integer' },
+        INVALID: { type: 'integer' },
+        FAILED: { type: 'integer' },
+        formsFiled: { type: 'integer' },
+      },
+    },
+    chunks: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          chunkIndex: { type: 'integer' },
+          payerName: { type: 'string' },
+          payerTin: { type: 'string', description: 'Masked' },
+          formIndexes: {
+            type: 'array',
+            items: { type: 'integer' },
+            description: "Positions of this chunk's forms in the upload",
+          },
+          status: jobChunkStatus,
+          attempts: { type: 'integer' },
+          submissionId: { type: ['string', 'null'] },
+          invalid: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                formIndex: { type: 'integer' },
+                issues: { type: 'array', items: { $ref: '#/components/schemas/ValidationIssue' } },
+              },
+            },
+          },
+          error: { type: ['string', 'null'] },
+          updatedAt: { type: 'string', format: 'date-time' },
+        },
+      },
+    },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' },
+  },
+} as const;
+
+const webhookEventTypes = {
+  type: 'string',
+  enum: ['submission.created', 'submission.transmitted', 'record.accepted', 'record.rejected'],
+} as const;
+
+const webhookEndpointSchema = {
+  type: 'object',
+  required: ['endpointId', 'owner', 'url', 'events', 'createdAt'],
+  properties: {
+    endpointId: { type: 'string' },
+    owner: {
+      type: 'string',
+      description: 'org:<id>, user:<id>, key:<id>, or default without an API key',
+    },
+    url: { type: 'string', format: 'uri' },
+    events: { type: 'array', items: webhookEventTypes },
+    description: { type: ['string', 'null'] },
+    createdAt: { type: 'string' },
+  },
+} as const;
+
+const orgPayerSchema = {
+  type: 'object',
+  required: ['payerId', 'name', 'tin', 'createdAt'],
+  properties: {
+    payerId: { type: 'string', description: 'pay_…' },
+    name: { type: 'string' },
+    tin: { type: 'string', description: 'Masked, e.g. ***6789' },
+    createdAt: { type: 'string' },
+  },
+} as const;
+
+const webhookDeliverySchema = {
+  type: 'object',
+  properties: {
+    deliveryId: { type: 'string' },
+    endpointId: { type: 'string' },
+    event: {
+      type: 'object',
+      description: 'The body POSTed to the endpoint',
+      properties: {
+        id: { type: 'string' },
+        type: webhookEventTypes,
+        created_at: { type: 'string', format: 'date-time' },
+        data: {
+          type: 'object',
+          description: 'submission_id and form_type, plus status + records or a single record',
+        },
+      },
+    },
+    status: { type: 'string', enum: ['PENDING', 'DELIVERED', 'FAILED'] },
+    attempts: { type: 'integer' },
+    nextAttemptAt: { type: ['string', 'null'] },
+    lastStatusCode: { type: ['integer', 'null'] },
+    lastError: { type: ['string', 'null'] },
+    createdAt: { type: 'string' },
+    updatedAt: { type: 'string' },
+  },
+} as const;
+
 const payerSchema = {
   type: 'object',
-  required: ['name', 'tin', 'address', 'city', 'state', 'zip_code', 'phone', 'email'],
+  description: 'US address fields are required unless foreign_address is given.',
+  required: ['name', 'phone', 'email'],
   properties: {
     name: { type: 'string', minLength: 1, maxLength: 200 },
     tin: {
       type: 'string',
       minLength: 9,
       maxLength: 11,
-      description: 'EIN: XX-XXXXXXX or SSN: 9 digits',
+      description: 'EIN: XX-XXXXXXX or SSN: 9 digits. Exactly one of tin or tin_ref.',
     },
+    tin_ref: tinRefSchema,
     tin_type: { type: 'string', enum: ['EIN', 'SSN'], default: 'EIN' },
     address: { type: 'string', minLength: 1, maxLength: 200 },
     city: { type: 'string', minLength: 1, maxLength: 100 },
     state: { type: 'string', minLength: 2, maxLength: 2 },
     zip_code: { type: 'string', pattern: '^\\d{5}(-\\d{4})?$' },
+    foreign_address: foreignAddressSchema,
     phone: { type: 'string', minLength: 10, maxLength: 15 },
     email: { type: 'string', format: 'email' },
     business_type: {
@@ -85,35 +309,84 @@ const payerSchema = {
 
 const recipientSchema = {
   type: 'object',
-  required: ['first_name', 'last_name', 'tin', 'tin_type', 'address', 'city', 'state', 'zip_code'],
+  description: 'US address fields are required unless foreign_address is given.',
+  required: ['first_name', 'last_name', 'tin_type'],
   properties: {
     first_name: { type: 'string', minLength: 1, maxLength: 100 },
     last_name: { type: 'string', minLength: 1, maxLength: 100 },
-    tin: { type: 'string', minLength: 9, maxLength: 11 },
+    tin: {
+      type: 'string',
+      minLength: 9,
+      maxLength: 11,
+      description: 'Exactly one of tin or tin_ref.',
+    },
+    tin_ref: tinRefSchema,
+    w9_request_id: {
+      type: 'string',
+      description:
+        "Completed W-9 request of the caller's tenant; fills in tin_ref, tin_type and (when absent) name and address. Not combinable with tin or tin_ref. Unknown or another tenant's request: 404.",
+    },
     tin_type: { type: 'string', enum: ['SSN', 'EIN'] },
     address: { type: 'string', minLength: 1, maxLength: 200 },
     city: { type: 'string', minLength: 1, maxLength: 100 },
     state: { type: 'string', minLength: 2, maxLength: 2 },
     zip_code: { type: 'string', pattern: '^\\d{5}(-\\d{4})?$' },
+    foreign_address: foreignAddressSchema,
+  },
+} as const;
+
+const stateLinesSchema = {
+  type: 'array',
+  minItems: 1,
+  maxItems: 2,
+  description:
+    'One entry per state, at most two. Replaces state/state_income/state_tax_withheld (sending both is rejected).',
+  items: {
+    type: 'object',
+    required: ['state'],
+    properties: {
+      state: { type: 'string', minLength: 2, maxLength: 2 },
+      state_income: { type: 'number', minimum: 0 },
+      state_tax_withheld: { type: 'number', minimum: 0 },
+      state_id: { type: 'string', description: "Payer's state withholding account number" },
+    },
   },
 } as const;
 
+/** A form names its payer with a `payer` block or a saved profile's `payer_id`. */
+const payerIdField = {
+  type: 'string',
+  description:
+    'A payer profile from POST /payers, instead of payer. Fills kind_of_employer, kind_of_payer and states[].state_id the form leaves out.',
+} as const;
+
+/** Or a directory recipient's `recipient_id`, which brings its payer along. */
+const recipientIdField = {
+  type: 'string',
+  description:
+    "A recipient from POST /recipients, instead of recipient. The form is filed under the recipient's payer profile (payer_id, if sent, must match) and its amount joins the recipient's history.",
+} as const;
+const formParties = [
+  { required: ['payer', 'recipient'] },
+  { required: ['payer_id', 'recipient'] },
+  { required: ['recipient_id'] },
+];
+
 const form1099NECBody = {
   type: 'object',
-  required: [
-    'payer',
-    'recipient',
-    'nonemployee_compensation',
-    'is_federal_tax_withheld',
-    'is_state_filing',
-  ],
+  required: ['nonemployee_compensation', 'is_federal_tax_withheld', 'is_state_filing'],
+  anyOf: formParties,
   properties: {
+    form_type: { type: 'string', const: '1099-NEC', default: '1099-NEC' },
     payer: payerSchema,
+    payer_id: payerIdField,
     recipient: recipientSchema,
+    recipient_id: recipientIdField,
     nonemployee_compensation: { type: 'number', exclusiveMinimum: 0 },
     is_federal_tax_withheld: { type: 'boolean' },
     federal_tax_withheld: { type: 'number', minimum: 0 },
     is_state_filing: { type: 'boolean' },
+    states: stateLinesSchema,
     state: { type: 'string', minLength: 2, maxLength: 2 },
     state_income: { type: 'number', minimum: 0 },
     state_tax_withheld: { type: 'number', minimum: 0 },
@@ -131,6 +404,345 @@ const form1099NECBody = {
   },
 } as const;
 
+const miscAmount = { type: 'number', minimum: 0 } as const;
+
+const form1099MISCBody = {
+  type: 'object',
+  required: ['form_type', 'is_federal_tax_withheld', 'is_state_filing'],
+  anyOf: formParties,
+  properties: {
+    form_type: { type: 'string', const: '1099-MISC' },
+    payer: payerSchema,
+    payer_id: payerIdField,
+    recipient: recipientSchema,
+    recipient_id: recipientIdField,
+    rents: { ...miscAmount, description: 'Box 1' },
+    royalties: { ...miscAmount, description: 'Box 2' },
+    other_income: { ...miscAmount, description: 'Box 3' },
+    is_federal_tax_withheld: { type: 'boolean' },
+    federal_tax_withheld: { ...miscAmount, description: 'Box 4' },
+    fishing_boat_proceeds: { ...miscAmount, description: 'Box 5' },
+    medical_payments: { ...miscAmount, description: 'Box 6' },
+    direct_sales: { type: 'boolean', description: 'Box 7: $5,000+ of consumer products' },
+    substitute_payments: { ...miscAmount, description: 'Box 8' },
+    crop_insurance: { ...miscAmount, description: 'Box 9' },
+    gross_proceeds_attorney: { ...miscAmount, description: 'Box 10' },
+    is_state_filing: { type: 'boolean' },
+    states: stateLinesSchema,
+    state: { type: 'string', minLength: 2, maxLength: 2 },
+    state_income: miscAmount,
+    state_tax_withheld: miscAmount,
+    tax_year: { type: 'string', pattern: '^\\d{4}$' },
+  },
+} as const;
+
+const payerProfileSchema = {
+  type: 'object',
+  required: [
+    'payerId',
+    'payer',
+    'kindOfEmployer',
+    'kindOfPayer',
+    'stateIds',
+    'createdAt',
+    'updatedAt',
+  ],
+  properties: {
+    payerId: { type: 'string', description: 'payer_…' },
+    payer: {
+      ...payerSchema,
+      description: 'tin is a tin_ref when TIN_VAULT_KEY is set, masked otherwise',
+    },
+    kindOfEmployer: { type: ['string', 'null'] },
+    kindOfPayer: { type: ['string', 'null'] },
+    stateIds: {
+      type: 'object',
+      additionalProperties: { type: 'string' },
+      description: 'State code → payer state withholding ID',
+    },
+    createdAt: { type: 'string' },
+    updatedAt: { type: 'string' },
+  },
+} as const;
+
+const payerProfileBody = {
+  type: 'object',
+  required: ['payer'],
+  properties: {
+    payer: payerSchema,
+    kind_of_employer: { type: 'string', enum: form1099NECBody.properties.kind_of_employer.enum },
+    kind_of_payer: { type: 'string', enum: form1099NECBody.properties.kind_of_payer.enum },
+    state_ids: {
+      type: 'object',
+      additionalProperties: { type: 'string', maxLength: 30 },
+      description: 'e.g. { "CA": "123-4567-8" }',
+    },
+  },
+} as const;
+
+const recipientFilingSchema = {
+  type: 'object',
+  required: ['taxYear', 'formType', 'amount', 'submissionId', 'filedAt'],
+  properties: {
+    taxYear: { type: 'string' },
+    formType: { type: 'string', enum: ['1099-NEC', '1099-MISC'] },
+    amount: { type: 'number', description: 'Federal total of the latest accepted filing' },
+    submissionId: { type: 'string' },
+    filedAt: { type: 'string' },
+  },
+} as const;
+
+const recipientProfileSchema = {
+  type: 'object',
+  required: [
+    'recipientId',
+    'payerId',
+    'recipient',
+    'w9RequestId',
+    'w9Status',
+    'addresses',
+    'filings',
+    'createdAt',
+    'updatedAt',
+  ],
+  properties: {
+    recipientId: { type: 'string', description: 'rcp_…' },
+    payerId: { type: 'string', description: 'The payer profile the recipient is filed under' },
+    recipient: {
+      ...recipientSchema,
+      description: 'tin is a tin_ref when TIN_VAULT_KEY is set, masked otherwise',
+    },
+    w9RequestId: { type: ['string', 'null'] },
+    w9Status: { type: ['string', 'null'], enum: ['PENDING', 'COMPLETED', 'EXPIRED', null] },
+    addresses: {
+      type: 'array',
+      description: 'Address history, newest first',
+      items: {
+        type: 'object',
+        properties: {
+          address: { type: 'string' },
+          city: { type: 'string' },
+          state: { type: 'string' },
+          zip_code: { type: 'string' },
+          foreign_address: { type: 'object' },
+          recordedAt: { type: 'string' },
+        },
+      },
+    },
+    filings: {
+      type: 'array',
+      description: 'One amount per tax year and form type, newest year first',
+      items: recipientFilingSchema,
+    },
+    createdAt: { type: 'string' },
+    updatedAt: { type: 'string' },
+  },
+} as const;
+
+const recipientProfileBody = {
+  type: 'object',
+  required: ['payer_id', 'recipient'],
+  properties: {
+    payer_id: { type: 'string', description: 'An existing payer profile' },
+    recipient: {
+      ...recipientSchema,
+      description: 'recipient.w9_request_id may stand in for tin with a completed W-9 request',
+    },
+    w9_request_id: { type: 'string', description: 'Link a W-9 request for its status' },
+  },
+} as const;
+
+const penaltyTierSchema = {
+  type: 'string',
+  enum: ['NONE', 'WITHIN_30_DAYS', 'BY_AUGUST_1', 'AFTER_AUGUST_1'],
+} as const;
+
+const formDeadlineSchema = {
+  type: 'object',
+  properties: {
+    formType: { type: 'string', enum: ['1099-NEC', '1099-MISC'] },
+    dueDates: {
+      type: 'object',
+      properties: {
+        recipientCopy: { type: 'string', format: 'date' },
+        electronic: { type: 'string', format: 'date' },
+        paper: { type: 'string', format: 'date' },
+      },
+    },
+    daysUntilDue: {
+      type: 'integer',
+      description: 'To the electronic due date; negative once past',
+    },
+    penaltyTierToday: penaltyTierSchema,
+    penalties: {
+      type: 'object',
+      description: 'IRC §6721 penalty per return',
+      properties: {
+        within30Days: { type: 'number' },
+        byAugust1: { type: 'number' },
+        afterAugust1: { type: 'number' },
+        intentionalDisregard: { type: 'number' },
+      },
+    },
+  },
+} as const;
+
+const submissionDeadlineSchema = {
+  type: 'object',
+  properties: {
+    submissionId: { type: 'string' },
+    formType: { type: ['string', 'null'] },
+    status: { type: 'string' },
+    createdAt: { type: 'string' },
+    transmittedAt: { type: ['string', 'null'] },
+    dueDate: { type: ['string', 'null'], format: 'date' },
+    timeliness: { type: ['string', 'null'], enum: ['ON_TIME', 'LATE', 'DUE', 'OVERDUE', null] },
+    penaltyTier: penaltyTierSchema,
+    penaltyPerReturn: { type: 'number' },
+    returns: { type: 'integer' },
+    exposure: { type: 'number', description: 'penaltyPerReturn × returns' },
+  },
+} as const;
+
+const submissionRecordSchema = {
+  type: 'object',
+  properties: {
+    submissionId: { type: 'string' },
+    status: { type: 'string' },
+    formType: { type: 'string' },
+    createdAt: { type: 'string' },
+    updatedAt: { type: 'string' },
+    records: { type: 'string' },
+    taxYear: { type: ['string', 'null'] },
+    transmittedAt: { type: ['string', 'null'] },
+    preparedBy: {
+      type: ['string', 'null'],
+      description: '`user:<id>` or `key:<id>` of the filer; null for the Bearer token and dev mode',
+    },
+    approvalStatus: { type: 'string', enum: ['PENDING', 'APPROVED', 'REJECTED'] },
+    reviewedBy: { type: ['string', 'null'] },
+    reviewedAt: { type: ['string', 'null'] },
+    reviewNote: { type: ['string', 'null'] },
+  },
+} as const;
+
+const scheduledTransmissionSchema = {
+  type: 'object',
+  properties: {
+    submissionId: { type: 'string' },
+    formType: { type: 'string', enum: ['1099-NEC', '1099-MISC'] },
+    transmitAt: { type: 'string', description: 'UTC, `YYYY-MM-DD HH:MM:SS`' },
+    status: {
+      type: 'string',
+      enum: ['SCHEDULED', 'RUNNING', 'TRANSMITTED', 'FAILED', 'CANCELLED'],
+    },
+    attempts: { type: 'integer' },
+    nextAttemptAt: { type: ['string', 'null'] },
+    lastError: { type: ['string', 'null'] },
+    createdAt: { type: 'string' },
+    updatedAt: { type: 'string' },
+  },
+} as const;
+
+const form1099Body = { oneOf: [form1099NECBody, form1099MISCBody] } as const;
+
+const formTypeQueryParam = {
+  name: 'form_type',
+  in: 'query',
+  required: false,
+  schema: { type: 'string', enum: ['1099-NEC', '1099-MISC'], default: '1099-NEC' },
+  description: 'Form type the submission was created with',
+} as const;
+
+const tinMatchQueryParam = {
+  name: 'tin_match',
+  in: 'query',
+  required: false,
+  schema: { type: 'boolean', default: false },
+  description:
+    'Run IRS TIN matching on each recipient before filing. Mismatches are validation errors (422).',
+} as const;
+
+const asyncQueryParam = {
+  name: 'async',
+  in: 'query',
+  required: false,
+  schema: { type: 'boolean', default: false },
+  description:
+    'Store the forms as a filing job and return 202 with it instead of waiting for validation and filing. Poll GET /jobs/{jobId}.',
+} as const;
+
+const dryRunQueryParam = {
+  name: 'dry_run',
+  in: 'query',
+  required: false,
+  schema: { type: 'boolean', default: false },
+  description:
+    'Validate and build the TaxBandits Create payload without sending it. Returns 200 with the payload (TINs masked), payload_issues from a lint against TaxBandits field limits, and would_file. Not combinable with async or tin_match; Idempotency-Key is ignored.',
+} as const;
+
+const providerQueryParam = {
+  name: 'provider',
+  in: 'query',
+  required: false,
+  schema: { type: 'string', enum: ['taxbandits', 'iris'], default: 'taxbandits' },
+  description:
+    'Provider that builds the dry-run payload. iris returns IRS IRIS A2A XML for 1099-NEC, linted against IRS e-file field rules and compared with the TaxBandits payload. Requires dry_run=true.',
+} as const;
+
+/** The payload a dry run would have sent, TINs masked, with its lint results. */
+const dryRunPayloadFields = {
+  provider: { type: 'string', enum: ['taxbandits', 'iris'] },
+  payload: {
+    oneOf: [
+      {
+        type: 'object',
+        description: 'TaxBandits Create request exactly as built, with every TIN masked',
+      },
+      { type: 'string', description: 'IRIS XML (provider=iris), with every TIN masked' },
+    ],
+  },
+  payload_issues: { type: 'array', items: validationIssue },
+  comparison: {
+    type: 'array',
+    description:
+      'provider=iris only: values the IRIS XML and the TaxBandits payload carry differently (TINs masked)',
+    items: {
+      type: 'object',
+      required: ['field', 'iris', 'taxbandits'],
+      properties: {
+        field: { type: 'string' },
+        iris: { type: ['string', 'null'] },
+        taxbandits: { type: ['string', 'null'] },
+      },
+    },
+  },
+} as const;
+
+const callbackUrlQueryParam = {
+  name: 'callback_url',
+  in: 'query',
+  required: false,
+  schema: { type: 'string', format: 'uri', pattern: '^https://' },
+  description:
+    'https URL that receives `{ event: "job.completed" | "job.failed", job }` once no chunk of the job is left to run.',
+} as const;
+
+const jobAcceptedResponse = {
+  description: 'Filing job stored; Location points at GET /jobs/{jobId}',
+  content: {
+    'application/json': {
+      schema: {
+        type: 'object',
+        properties: {
+          success: { type: 'boolean', const: true },
+          data: { $ref: '#/components/schemas/FilingJob' },
+        },
+      },
+    },
+  },
+} as const;
+
 const submissionIdParam = {
   name: 'submissionId',
   in: 'path',
@@ -139,13 +751,21 @@ const submissionIdParam = {
   description: 'TaxBandits submission UUID',
 } as const;
 
+const recordIdParam = {
+  name: 'recordId',
+  in: 'path',
+  required: true,
+  schema: { type: 'string', format: 'uuid' },
+  description: 'TaxBandits RecordId of the transmitted form (from FormRecords)',
+} as const;
+
 export const openApiSpec: Record<string, unknown> = {
   openapi: '3.1.0',
   info: {
     title: 'Tax Agent API',
     version: '2.0.0',
     description:
-      'AI-powered tax form agent — validates 1099-NEC data with Workers AI and files via TaxBandits.',
+      'AI-powered tax form agent — validates 1099-NEC and 1099-MISC data with Workers AI and files via TaxBandits.',
     license: { name: 'MIT' },
   },
   servers: [{ url: 'https://tax-agent.coey.dev' }],
@@ -169,12 +789,21 @@ export const openApiSpec: Record<string, unknown> = {
     schemas: {
       Payer: payerSchema,
       Recipient: recipientSchema,
+      ForeignAddress: foreignAddressSchema,
       Form1099NECRequest: form1099NECBody,
+      Form1099MISCRequest: form1099MISCBody,
       ValidationIssue: validationIssue,
       ValidationResult: validationResult,
       TaxBanditsError: taxBanditsError,
       TaxBanditsFormRecord: taxBanditsFormRecord,
       ErrorResponse: errorResponse,
+      W9Request: w9RequestSchema,
+      FilingJob: filingJobSchema,
+      WebhookEndpoint: webhookEndpointSchema,
+      WebhookDelivery: webhookDeliverySchema,
+      PayerProfile: payerProfileSchema,
+      RecipientProfile: recipientProfileSchema,
+      OrgPayer: orgPayerSchema,
     },
   },
   paths: {
@@ -258,10 +887,10 @@ export const openApiSpec: Record<string, unknown> = {
     '/validate': {
       post: {
         operationId: 'validateForm',
-        summary: 'Validate 1099-NEC data with AI (does not file)',
+        summary: 'Validate 1099-NEC or 1099-MISC data with AI (does not file)',
         requestBody: {
           required: true,
-          content: { 'application/json': { schema: form1099NECBody } },
+          content: { 'application/json': { schema: form1099Body } },
         },
         responses: {
           '200': {
@@ -299,7 +928,7 @@ export const openApiSpec: Record<string, unknown> = {
     '/file': {
       post: {
         operationId: 'fileForm',
-        summary: 'Validate + create 1099-NEC in TaxBandits',
+        summary: 'Validate + create a 1099-NEC or 1099-MISC in TaxBandits',
         parameters: [
           {
             name: 'Idempotency-Key',
@@ -309,14 +938,21 @@ export const openApiSpec: Record<string, unknown> = {
             description:
               'Optional idempotency key. If provided (and IDEMPOTENCY_KV is bound), retries with the same key return the cached response for 24 h.',
           },
+          tinMatchQueryParam,
+          asyncQueryParam,
+          callbackUrlQueryParam,
+          dryRunQueryParam,
+          providerQueryParam,
         ],
         requestBody: {
           required: true,
-          content: { 'application/json': { schema: form1099NECBody } },
+          content: { 'application/json': { schema: form1099Body } },
         },
         responses: {
+          '202': jobAcceptedResponse,
           '200': {
-            description: 'Form validated and filed successfully',
+            description:
+              'Form validated and filed — or, with dry_run=true, the payload that would have been sent',
             content: {
               'application/json': {
                 schema: {
@@ -325,31 +961,54 @@ export const openApiSpec: Record<string, unknown> = {
                   properties: {
                     success: { type: 'boolean', const: true },
                     data: {
-                      type: 'object',
-                      required: ['validation', 'filing'],
-                      properties: {
-                        validation: validationResult,
-                        filing: {
+                      oneOf: [
+                        {
+                          type: 'object',
+                          required: ['validation', 'filing'],
+                          properties: {
+                            validation: validationResult,
+                            filing: {
+                              type: 'object',
+                              required: [
+                                'StatusCode',
+                                'StatusName',
+                                'StatusMessage',
+                                'SubmissionId',
+                                'FormRecords',
+                              ],
+                              properties: {
+                                StatusCode: { type: 'integer' },
+                                StatusName: { type: 'string' },
+                                StatusMessage: { type: 'string' },
+                                SubmissionId: { type: 'string' },
+                                FormRecords: { type: 'array', items: taxBanditsFormRecord },
+                                Errors: {
+                                  oneOf: [
+                                    { type: 'array', items: taxBanditsError },
+                                    { type: 'null' },
+                                  ],
+                                },
+                              },
+                            },
+                          },
+                        },
+                        {
                           type: 'object',
                           required: [
-                            'StatusCode',
-                            'StatusName',
-                            'StatusMessage',
-                            'SubmissionId',
-                            'FormRecords',
+                            'dry_run',
+                            'would_file',
+                            'validation',
+                            'payload',
+                            'payload_issues',
                           ],
                           properties: {
-                            StatusCode: { type: 'integer' },
-                            StatusName: { type: 'string' },
-                            StatusMessage: { type: 'string' },
-                            SubmissionId: { type: 'string' },
-                            FormRecords: { type: 'array', items: taxBanditsFormRecord },
-                            Errors: {
-                              oneOf: [{ type: 'array', items: taxBanditsError }, { type: 'null' }],
-                            },
+                            dry_run: { type: 'boolean', const: true },
+                            would_file: { type: 'boolean' },
+                            validation: validationResult,
+                            ...dryRunPayloadFields,
                           },
                         },
-                      },
+                      ],
                     },
                   },
                 },
@@ -364,12 +1023,16 @@ export const openApiSpec: Record<string, unknown> = {
             description: 'Unauthorized',
             content: { 'application/json': { schema: errorResponse } },
           },
+          '403': {
+            description: "A payer isn't a client of the key's organization",
+            content: { 'application/json': { schema: errorResponse } },
+          },
           '422': {
-            description: 'AI validation found errors — fix before filing',
+            description: 'AI validation or TIN matching found errors — fix before filing',
             content: { 'application/json': { schema: errorResponse } },
           },
           '502': {
-            description: 'TaxBandits API call failed',
+            description: 'TaxBandits API call (filing or TIN matching) failed',
             content: { 'application/json': { schema: errorResponse } },
           },
         },
@@ -380,8 +1043,18 @@ export const openApiSpec: Record<string, unknown> = {
     '/file/batch': {
       post: {
         operationId: 'fileBatch',
-        summary: 'Validate + create up to 100 1099-NECs in one TaxBandits submission',
+        summary:
+          'Validate + create up to 100 1099s of one form type, one TaxBandits submission per payer',
+        description:
+          'Forms are grouped by payer TIN (or payer tin_ref) and each payer is filed as its own submission. Validation is all-or-nothing; filing is per payer, so a batch can partly succeed.',
         security: [{ BearerAuth: [] }],
+        parameters: [
+          tinMatchQueryParam,
+          asyncQueryParam,
+          callbackUrlQueryParam,
+          dryRunQueryParam,
+          providerQueryParam,
+        ],
         requestBody: {
           required: true,
           content: {
@@ -390,11 +1063,21 @@ export const openApiSpec: Record<string, unknown> = {
                 type: 'object',
                 required: ['forms'],
                 properties: {
+                  form_type: {
+                    type: 'string',
+                    enum: ['1099-NEC', '1099-MISC'],
+                    default: '1099-NEC',
+                  },
                   forms: {
                     type: 'array',
                     minItems: 1,
                     maxItems: 100,
-                    items: { $ref: '#/components/schemas/Form1099NECRequest' },
+                    items: {
+                      oneOf: [
+                        { $ref: '#/components/schemas/Form1099NECRequest' },
+                        { $ref: '#/components/schemas/Form1099MISCRequest' },
+                      ],
+                    },
                   },
                 },
               },
@@ -402,43 +1085,25 @@ export const openApiSpec: Record<string, unknown> = {
           },
         },
         responses: {
-          '200': { description: 'All forms validated and filed successfully' },
-          '400': { description: 'Invalid request body' },
-          '401': { description: 'Unauthorized' },
-          '422': { description: 'One or more forms failed validation' },
-          '429': { description: 'Rate limit exceeded' },
-          '502': { description: 'TaxBandits API error' },
-        },
-      },
-    },
-
-    // ------------------------------------------- POST /transmit/{submissionId}
-    '/transmit/{submissionId}': {
-      post: {
-        operationId: 'transmitSubmission',
-        summary: 'Transmit a submission to the IRS',
-        parameters: [submissionIdParam],
-        responses: {
+          '202': jobAcceptedResponse,
           '200': {
-            description: 'Submission transmitted',
+            description:
+              'All forms validated; every payer submission created. With dry_run=true, data is { dry_run, provider, would_file, validations, submissions[] } where each submission has payer, form_indexes, payload, payload_issues and, for provider=iris, comparison.',
             content: {
               'application/json': {
                 schema: {
                   type: 'object',
-                  required: ['success', 'data'],
                   properties: {
                     success: { type: 'boolean', const: true },
                     data: {
                       type: 'object',
-                      required: ['StatusCode', 'StatusName', 'StatusMessage', 'SubmissionId'],
                       properties: {
-                        StatusCode: { type: 'integer' },
-                        StatusName: { type: 'string' },
-                        StatusMessage: { type: 'string' },
-                        SubmissionId: { type: 'string' },
-                        Errors: {
-                          oneOf: [{ type: 'array', items: taxBanditsError }, { type: 'null' }],
+                        validations: {
+                          type: 'array',
+                          items: { $ref: '#/components/schemas/ValidationResult' },
                         },
+                        submissions: { type: 'array', items: payerSubmissionSchema },
+                        summary: batchSummarySchema,
                       },
                     },
                   },
@@ -446,188 +1111,1627 @@ export const openApiSpec: Record<string, unknown> = {
               },
             },
           },
-          '400': {
-            description: 'Invalid submission ID',
-            content: { 'application/json': { schema: errorResponse } },
-          },
-          '401': {
-            description: 'Unauthorized',
-            content: { 'application/json': { schema: errorResponse } },
+          '207': {
+            description:
+              'Some payer submissions were created, others failed — details carries validations, submissions and summary',
           },
-          '502': {
-            description: 'TaxBandits transmit failed',
+          '400': { description: 'Invalid request body' },
+          '401': { description: 'Unauthorized' },
+          '403': { description: "A payer isn't a client of the key's organization" },
+          '422': {
+            description:
+              'One or more forms failed validation or TIN matching, or every payer failed on an unknown tin_ref',
+          },
+          '429': { description: 'Rate limit exceeded' },
+          '502': { description: 'Every payer submission failed at TaxBandits' },
+        },
+      },
+    },
+
+    // ------------------------------------------- POST /jobs
+    '/jobs': {
+      post: {
+        operationId: 'createFilingJob',
+        summary: 'Queue up to 5,000 1099s of one form type as a background filing job',
+        description:
+          'Forms are grouped by payer and cut into chunks of at most 100, one TaxBandits submission each. Chunks are validated and filed in the background — on FILING_QUEUE when bound, otherwise one at a time on the Durable Object alarm; poll GET /jobs/{jobId} for progress.',
+        security: [{ BearerAuth: [] }],
+        parameters: [callbackUrlQueryParam],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['forms'],
+                properties: {
+                  form_type: {
+                    type: 'string',
+                    enum: ['1099-NEC', '1099-MISC'],
+                    default: '1099-NEC',
+                  },
+                  forms: {
+                    type: 'array',
+                    minItems: 1,
+                    maxItems: 5000,
+                    items: {
+                      oneOf: [
+                        { $ref: '#/components/schemas/Form1099NECRequest' },
+                        { $ref: '#/components/schemas/Form1099MISCRequest' },
+                      ],
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '202': jobAcceptedResponse,
+          '400': { description: 'Invalid request body' },
+          '401': { description: 'Unauthorized' },
+          '403': { description: "A payer isn't a client of the key's organization" },
+          '413': { description: 'Body larger than 8 MB' },
+          '422': {
+            description: 'A payer or recipient TIN could not be vaulted, or an unknown tin_ref',
+          },
+          '503': {
+            description: 'WEBHOOK_STATE or the TIN vault (TIN_VAULT_KEY) is not configured',
+          },
+        },
+      },
+    },
+
+    // ------------------------------------------- GET /jobs/{jobId}
+    '/jobs/{jobId}': {
+      get: {
+        operationId: 'getFilingJob',
+        summary: 'Filing job progress and per-chunk status',
+        security: [{ BearerAuth: [] }],
+        parameters: [{ name: 'jobId', in: 'path', required: true, schema: { type: 'string' } }],
+        responses: {
+          '200': {
+            description: 'Job found',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    success: { type: 'boolean', const: true },
+                    data: { $ref: '#/components/schemas/FilingJob' },
+                  },
+                },
+              },
+            },
+          },
+          '401': { description: 'Unauthorized' },
+          '404': { description: 'Job not found' },
+        },
+      },
+    },
+
+    // ------------------------------------------- POST /jobs/{jobId}/resume
+    '/jobs/{jobId}/resume': {
+      post: {
+        operationId: 'resumeFilingJob',
+        summary: 'Retry the failed chunks of a filing job',
+        description:
+          'FAILED chunks go back to PENDING; filed chunks are left alone. INVALID chunks are not retried — upload the corrected forms as a new job.',
+        security: [{ BearerAuth: [] }],
+        parameters: [{ name: 'jobId', in: 'path', required: true, schema: { type: 'string' } }],
+        responses: {
+          '202': {
+            description: 'Failed chunks queued again',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    success: { type: 'boolean', const: true },
+                    data: { $ref: '#/components/schemas/FilingJob' },
+                  },
+                },
+              },
+            },
+          },
+          '401': { description: 'Unauthorized' },
+          '404': { description: 'Job not found' },
+          '409': { description: 'No failed chunks to resume' },
+        },
+      },
+    },
+
+    // -------------------------------- POST /submissions/{submissionId}/approve
+    '/submissions/{submissionId}/approve': {
+      post: {
+        operationId: 'approveSubmission',
+        summary: 'Approve a submission for transmission',
+        description:
+          'A reviewer other than the preparer clears a PENDING submission for /transmit: another organization member, or the admin Bearer token for any tenant.',
+        parameters: [submissionIdParam],
+        requestBody: {
+          required: false,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: { note: { type: 'string', maxLength: 500 } },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Decision recorded',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    success: { type: 'boolean', const: true },
+                    data: submissionRecordSchema,
+                  },
+                },
+              },
+            },
+          },
+          '400': {
+            description: 'Invalid request body',
+            content: { 'application/json': { schema: errorResponse } },
+          },
+          '403': {
+            description: 'The caller prepared the submission',
+            content: { 'application/json': { schema: errorResponse } },
+          },
+          '404': {
+            description: "Submission not found in the caller's tenant",
+            content: { 'application/json': { schema: errorResponse } },
+          },
+          '409': {
+            description: 'Submission already reviewed or transmitted',
+            content: { 'application/json': { schema: errorResponse } },
+          },
+        },
+      },
+    },
+
+    // -------------------------------- POST /submissions/{submissionId}/reject
+    '/submissions/{submissionId}/reject': {
+      post: {
+        operationId: 'rejectSubmission',
+        summary: 'Reject a submission',
+        description:
+          'A reviewer other than the preparer (another organization member, or the admin Bearer token) refuses a PENDING submission; it can no longer be transmitted.',
+        parameters: [submissionIdParam],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['note'],
+                properties: { note: { type: 'string', minLength: 1, maxLength: 500 } },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Decision recorded',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    success: { type: 'boolean', const: true },
+                    data: submissionRecordSchema,
+                  },
+                },
+              },
+            },
+          },
+          '400': {
+            description: 'Invalid request body',
+            content: { 'application/json': { schema: errorResponse } },
+          },
+          '403': {
+            description: 'The caller prepared the submission',
+            content: { 'application/json': { schema: errorResponse } },
+          },
+          '404': {
+            description: "Submission not found in the caller's tenant",
+            content: { 'application/json': { schema: errorResponse } },
+          },
+          '409': {
+            description: 'Submission already reviewed or transmitted',
+            content: { 'application/json': { schema: errorResponse } },
+          },
+        },
+      },
+    },
+
+    // ------------------------------------------- POST /transmit/{submissionId}
+    '/transmit/{submissionId}': {
+      post: {
+        operationId: 'transmitSubmission',
+        summary: 'Transmit an approved submission to the IRS',
+        description:
+          'Only submissions approved through /submissions/{submissionId}/approve are sent. With `transmit_at` the transmission is scheduled instead (202) and retried on failure.',
+        parameters: [
+          submissionIdParam,
+          {
+            ...formTypeQueryParam,
+            schema: { type: 'string', enum: ['1099-NEC', '1099-MISC'] },
+            description:
+              'Optional check: the form type recorded for the submission is used, and a different value returns 400',
+          },
+        ],
+        requestBody: {
+          required: false,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  transmit_at: {
+                    type: 'string',
+                    format: 'date-time',
+                    description: 'When to transmit: in the future, within 365 days',
+                  },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Submission transmitted',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['success', 'data'],
+                  properties: {
+                    success: { type: 'boolean', const: true },
+                    data: {
+                      type: 'object',
+                      required: ['StatusCode', 'StatusName', 'StatusMessage', 'SubmissionId'],
+                      properties: {
+                        StatusCode: { type: 'integer' },
+                        StatusName: { type: 'string' },
+                        StatusMessage: { type: 'string' },
+                        SubmissionId: { type: 'string' },
+                        Errors: {
+                          oneOf: [{ type: 'array', items: taxBanditsError }, { type: 'null' }],
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          '202': {
+            description: 'Transmission scheduled',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    success: { type: 'boolean', const: true },
+                    data: scheduledTransmissionSchema,
+                  },
+                },
+              },
+            },
+          },
+          '400': {
+            description: 'Invalid submission ID or transmit_at',
+            content: { 'application/json': { schema: errorResponse } },
+          },
+          '401': {
+            description: 'Unauthorized',
+            content: { 'application/json': { schema: errorResponse } },
+          },
+          '404': {
+            description: "Submission not found in the caller's tenant",
             content: { 'application/json': { schema: errorResponse } },
           },
+          '409': {
+            description:
+              'Submission is awaiting approval, was rejected, was already transmitted, or has a scheduled transmission pending or running',
+            content: { 'application/json': { schema: errorResponse } },
+          },
+          '502': {
+            description: 'TaxBandits transmit failed',
+            content: { 'application/json': { schema: errorResponse } },
+          },
+        },
+      },
+      delete: {
+        operationId: 'cancelScheduledTransmission',
+        summary: 'Cancel a scheduled transmission',
+        parameters: [submissionIdParam],
+        responses: {
+          '200': {
+            description: 'Cancelled',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    success: { type: 'boolean', const: true },
+                    data: scheduledTransmissionSchema,
+                  },
+                },
+              },
+            },
+          },
+          '404': {
+            description: 'No scheduled transmission for this submission',
+            content: { 'application/json': { schema: errorResponse } },
+          },
+          '409': {
+            description: 'The transmission is no longer SCHEDULED',
+            content: { 'application/json': { schema: errorResponse } },
+          },
+        },
+      },
+    },
+
+    // ------------------------------------------------ GET /transmit/scheduled
+    '/transmit/scheduled': {
+      get: {
+        operationId: 'listScheduledTransmissions',
+        summary: 'List scheduled transmissions',
+        description: "The caller's scheduled transmissions, soonest first.",
+        parameters: [
+          {
+            name: 'status',
+            in: 'query',
+            required: false,
+            schema: scheduledTransmissionSchema.properties.status,
+          },
+        ],
+        responses: {
+          '200': {
+            description: 'Scheduled transmissions',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    success: { type: 'boolean', const: true },
+                    data: { type: 'array', items: scheduledTransmissionSchema },
+                  },
+                },
+              },
+            },
+          },
+          '400': {
+            description: 'Invalid status',
+            content: { 'application/json': { schema: errorResponse } },
+          },
+        },
+      },
+    },
+
+    // -------------------------------------------- GET /status/{submissionId}
+    '/status/{submissionId}': {
+      get: {
+        operationId: 'getStatus',
+        summary: 'Check filing status',
+        parameters: [submissionIdParam, formTypeQueryParam],
+        responses: {
+          '200': {
+            description: 'Status retrieved',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['success', 'data'],
+                  properties: {
+                    success: { type: 'boolean', const: true },
+                    data: {
+                      type: 'object',
+                      required: [
+                        'StatusCode',
+                        'StatusName',
+                        'StatusMessage',
+                        'SubmissionId',
+                        'FormStatus',
+                      ],
+                      properties: {
+                        StatusCode: { type: 'integer' },
+                        StatusName: { type: 'string' },
+                        StatusMessage: { type: 'string' },
+                        SubmissionId: { type: 'string' },
+                        FormStatus: { type: 'string' },
+                        FormRecords: {
+                          oneOf: [{ type: 'array', items: taxBanditsFormRecord }, { type: 'null' }],
+                        },
+                        Errors: {
+                          oneOf: [{ type: 'array', items: taxBanditsError }, { type: 'null' }],
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          '400': {
+            description: 'Invalid submission ID',
+            content: { 'application/json': { schema: errorResponse } },
+          },
+          '401': {
+            description: 'Unauthorized',
+            content: { 'application/json': { schema: errorResponse } },
+          },
+          '502': {
+            description: 'TaxBandits status check failed',
+            content: { 'application/json': { schema: errorResponse } },
+          },
+        },
+      },
+    },
+
+    // ------------------------------- POST /correct/{submissionId}/{recordId}
+    '/correct/{submissionId}/{recordId}': {
+      post: {
+        operationId: 'correctRecord',
+        summary: 'Validate + file a Type 1 / Type 2 correction for a transmitted 1099-NEC record',
+        description:
+          'TYPE1 fixes a wrong amount, checkbox or address; TYPE2 fixes a wrong recipient TIN or name. The body carries the full corrected form. Transmit the returned SubmissionId with POST /transmit.',
+        parameters: [submissionIdParam, recordIdParam],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['correction_type', 'form'],
+                properties: {
+                  correction_type: { type: 'string', enum: ['TYPE1', 'TYPE2'] },
+                  form: { $ref: '#/components/schemas/Form1099NECRequest' },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': { description: 'Correction validated, created and tracked' },
+          '400': { description: 'Invalid IDs or request body' },
+          '401': { description: 'Unauthorized' },
+          '403': { description: "A payer isn't a client of the key's organization" },
+          '404': { description: "The original submission isn't in the caller's tenant" },
+          '409': { description: 'The original submission has not been transmitted' },
+          '422': { description: 'Validation failed, or the submission is not a 1099-NEC' },
+          '502': { description: 'TaxBandits API error' },
+        },
+      },
+    },
+
+    // ---------------------------------- POST /void/{submissionId}/{recordId}
+    '/void/{submissionId}/{recordId}': {
+      post: {
+        operationId: 'voidRecord',
+        summary: 'Void a transmitted 1099-NEC record',
+        description:
+          'Files a Type 1 correction with every amount zeroed. The body carries the form as originally filed.',
+        parameters: [submissionIdParam, recordIdParam],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['form'],
+                properties: { form: { $ref: '#/components/schemas/Form1099NECRequest' } },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': { description: 'Void validated, created and tracked' },
+          '400': { description: 'Invalid IDs or request body' },
+          '401': { description: 'Unauthorized' },
+          '403': { description: "A payer isn't a client of the key's organization" },
+          '404': { description: "The original submission isn't in the caller's tenant" },
+          '409': { description: 'The original submission has not been transmitted' },
+          '422': { description: 'Validation failed, or the submission is not a 1099-NEC' },
+          '502': { description: 'TaxBandits API error' },
+        },
+      },
+    },
+
+    // ------------------------------ GET /forms/{submissionId}/{recordId}/pdf
+    '/forms/{submissionId}/{recordId}/pdf': {
+      get: {
+        operationId: 'getRecipientCopy',
+        summary: 'Recipient Copy B PDF of a filed 1099-NEC',
+        description:
+          'Renders Copy B (For Recipient) from the form data stored when the record was created. The recipient TIN is truncated to its last four digits. Requires the forms:read permission.',
+        parameters: [submissionIdParam, recordIdParam],
+        responses: {
+          '200': {
+            description: 'The recipient copy',
+            content: { 'application/pdf': { schema: { type: 'string', format: 'binary' } } },
+          },
+          '400': { description: 'Invalid submission or record ID' },
+          '401': { description: 'Unauthorized' },
+          '404': { description: 'No stored form data for this record' },
+          '422': {
+            description:
+              'The record is not a 1099-NEC, or its payer TIN was stored masked (no TIN vault)',
+          },
+        },
+      },
+    },
+
+    // ------------------------------------------------------- POST /tin-match
+    '/tin-match': {
+      post: {
+        operationId: 'tinMatch',
+        summary: 'Check recipient name/TIN pairs against IRS records',
+        description:
+          'IRS TIN matching through TaxBandits. Matched and mismatched results are cached for 30 days per name + TIN hash; cached results are flagged.',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['recipients'],
+                properties: {
+                  recipients: {
+                    type: 'array',
+                    minItems: 1,
+                    maxItems: 100,
+                    items: {
+                      type: 'object',
+                      required: ['name', 'tin_type'],
+                      description: 'Exactly one of tin or tin_ref.',
+                      properties: {
+                        name: { type: 'string', minLength: 1, maxLength: 200 },
+                        tin: { type: 'string', minLength: 9, maxLength: 11 },
+                        tin_ref: tinRefSchema,
+                        tin_type: { type: 'string', enum: ['SSN', 'EIN'] },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'One result per recipient, in request order',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    success: { type: 'boolean' },
+                    data: {
+                      type: 'object',
+                      properties: {
+                        results: {
+                          type: 'array',
+                          items: {
+                            type: 'object',
+                            properties: {
+                              name: { type: 'string' },
+                              tin: { type: 'string', description: 'Masked' },
+                              status: {
+                                type: 'string',
+                                enum: ['MATCHED', 'MISMATCHED', 'UNAVAILABLE'],
+                              },
+                              code: { type: 'string', description: 'IRS TIN matching code 0–8' },
+                              message: { type: 'string' },
+                              cached: { type: 'boolean' },
+                            },
+                          },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          '400': { description: 'Invalid request body' },
+          '401': { description: 'Unauthorized' },
+          '422': { description: 'Unknown tin_ref' },
+          '502': { description: 'TaxBandits TIN matching call failed' },
+        },
+      },
+    },
+
+    // ------------------------------------------------------ /w9/requests
+    '/w9/requests': {
+      post: {
+        operationId: 'createW9Request',
+        summary: 'Create a W-9 request link for a recipient',
+        description:
+          'Returns a link to a hosted W-9 form. The submitted TIN is stored in the TIN vault. Requires the TIN_VAULT_KEY secret.',
+        requestBody: {
+          required: false,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  reference: {
+                    type: 'string',
+                    maxLength: 200,
+                    description: 'Your ID for the recipient, e.g. a QuickBooks vendor ID',
+                  },
+                  recipient_name: { type: 'string', maxLength: 200 },
+                  email: { type: 'string', format: 'email' },
+                  expires_in_days: { type: 'integer', minimum: 1, maximum: 90, default: 30 },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '201': {
+            description: 'W-9 request created',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    success: { type: 'boolean' },
+                    data: {
+                      allOf: [
+                        { $ref: '#/components/schemas/W9Request' },
+                        {
+                          type: 'object',
+                          properties: {
+                            url: {
+                              type: 'string',
+                              description: 'Hosted form link for the recipient',
+                            },
+                          },
+                        },
+                      ],
+                    },
+                  },
+                },
+              },
+            },
+          },
+          '400': { description: 'Invalid request body' },
+          '401': { description: 'Unauthorized' },
+          '503': { description: 'TIN vault not configured' },
+        },
+      },
+      get: {
+        operationId: 'listW9Requests',
+        summary: 'List W-9 requests, newest first',
+        parameters: [
+          { name: 'reference', in: 'query', required: false, schema: { type: 'string' } },
+          {
+            name: 'status',
+            in: 'query',
+            required: false,
+            schema: { type: 'string', enum: ['PENDING', 'COMPLETED', 'EXPIRED'] },
+          },
+        ],
+        responses: {
+          '200': {
+            description: 'W-9 requests',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    success: { type: 'boolean' },
+                    data: { type: 'array', items: { $ref: '#/components/schemas/W9Request' } },
+                  },
+                },
+              },
+            },
+          },
+          '401': { description: 'Unauthorized' },
+        },
+      },
+    },
+
+    '/w9/requests/{requestId}': {
+      get: {
+        operationId: 'getW9Request',
+        summary: 'W-9 request status and submitted data',
+        parameters: [{ name: 'requestId', in: 'path', required: true, schema: { type: 'string' } }],
+        responses: {
+          '200': {
+            description: 'W-9 request',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    success: { type: 'boolean' },
+                    data: { $ref: '#/components/schemas/W9Request' },
+                  },
+                },
+              },
+            },
+          },
+          '401': { description: 'Unauthorized' },
+          '404': { description: 'W-9 request not found' },
+        },
+      },
+    },
+
+    // ------------------------------------------------------ POST /vault/tins
+    '/vault/tins': {
+      post: {
+        operationId: 'vaultTins',
+        summary: 'Encrypt TINs and return tin_ref tokens',
+        description:
+          'Stores each TIN encrypted under its own data key and returns an opaque tin_ref to send in place of tin. Vaulting the same TIN again returns the same tin_ref. Requires the TIN_VAULT_KEY secret.',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['tins'],
+                properties: {
+                  tins: {
+                    type: 'array',
+                    minItems: 1,
+                    maxItems: 100,
+                    items: {
+                      type: 'object',
+                      required: ['tin', 'tin_type'],
+                      properties: {
+                        tin: { type: 'string', minLength: 9, maxLength: 11 },
+                        tin_type: { type: 'string', enum: ['SSN', 'EIN'] },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'One tin_ref per TIN, in request order',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    success: { type: 'boolean' },
+                    data: {
+                      type: 'object',
+                      properties: { tin_refs: { type: 'array', items: tinRefSchema } },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          '400': { description: 'Invalid request body' },
+          '401': { description: 'Unauthorized' },
+          '503': { description: 'TIN vault is not configured' },
+        },
+      },
+    },
+
+    // --------------------------------------------------- GET /openapi.json
+    '/openapi.json': {
+      get: {
+        operationId: 'getOpenApiSpec',
+        summary: 'OpenAPI 3.1 specification',
+        security: [],
+        responses: {
+          '200': {
+            description: 'The OpenAPI specification document',
+            content: { 'application/json': { schema: { type: 'object' } } },
+          },
+        },
+      },
+    },
+
+    // ------------------------------------------------ POST /webhook/status
+    '/webhook/status': {
+      post: {
+        summary: 'TaxBandits webhook callback',
+        description:
+          'Receives HMAC-SHA256 signed status updates from TaxBandits when the IRS accepts or rejects a filing.',
+        parameters: [
+          {
+            name: 'Signature',
+            in: 'header',
+            required: true,
+            schema: { type: 'string' },
+            description: 'HMAC-SHA256 signature',
+          },
+          {
+            name: 'TimeStamp',
+            in: 'header',
+            required: true,
+            schema: { type: 'string' },
+            description: 'Timestamp used in signature computation',
+          },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  SubmissionId: { type: 'string', format: 'uuid' },
+                  FormType: { type: 'string', example: 'FORM1099NEC' },
+                  Records: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        RecordId: { type: 'string' },
+                        Status: { type: 'string', enum: ['Accepted', 'Rejected'] },
+                        StatusCode: { type: 'integer' },
+                        StatusTime: { type: 'string', format: 'date-time' },
+                        Errors: { type: 'array', items: { type: 'object' }, nullable: true },
+                      },
+                    },
+                  },
+                },
+                required: ['SubmissionId', 'FormType', 'Records'],
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Webhook received',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/SuccessResponse' },
+              },
+            },
+          },
+          '401': {
+            description: 'Invalid signature',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+
+    // --------------------------------------------- GET /webhook/submissions
+    '/webhook/submissions': {
+      get: {
+        summary: 'List tracked submissions',
+        description:
+          "Returns the caller's submissions tracked via webhook callbacks — those filed with the same user's API keys, or the shared global tenant for the Bearer token.",
+        security: [{ BearerAuth: [] }],
+        responses: {
+          '200': {
+            description: 'List of submissions',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    success: { type: 'boolean' },
+                    data: { type: 'array', items: submissionRecordSchema },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+
+    // ---------------------------------- GET /webhook/submissions/{submissionId}
+    '/webhook/submissions/{submissionId}': {
+      get: {
+        summary: 'Get a tracked submission',
+        description:
+          'Submission status with one entry per form record (recipient, masked TIN, amounts, status, validation issues and TaxBandits/IRS errors) and any corrections filed against it.',
+        security: [{ BearerAuth: [] }],
+        parameters: [submissionIdParam],
+        responses: {
+          '200': {
+            description: 'The submission',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    success: { type: 'boolean' },
+                    data: {
+                      type: 'object',
+                      properties: {
+                        submissionId: { type: 'string' },
+                        status: { type: 'string' },
+                        formType: { type: 'string' },
+                        records: { type: 'string' },
+                        formRecords: {
+                          type: 'array',
+                          items: {
+                            type: 'object',
+                            properties: {
+                              sequence: { type: 'integer' },
+                              recordId: { type: ['string', 'null'] },
+                              recipientName: { type: 'string' },
+                              recipientTin: { type: 'string', description: 'Masked' },
+                              amount: { type: 'number' },
+                              federalTaxWithheld: { type: 'number' },
+                              status: { type: 'string' },
+                              validationIssues: {
+                                type: 'array',
+                                items: { $ref: '#/components/schemas/ValidationIssue' },
+                              },
+                              errors: {
+                                type: 'array',
+                                items: {
+                                  type: 'object',
+                                  properties: {
+                                    code: { type: 'string' },
+                                    message: { type: 'string' },
+                                  },
+                                },
+                              },
+                              corrected: { type: 'boolean' },
+                            },
+                          },
+                        },
+                        corrections: { type: 'array', items: { type: 'object' } },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          '404': { description: 'Submission not found' },
+        },
+      },
+    },
+
+    // ------------------------------------------- /webhooks/endpoints
+    '/webhooks/endpoints': {
+      post: {
+        operationId: 'createWebhookEndpoint',
+        summary: 'Register an HTTPS endpoint for signed filing events',
+        description:
+          'Events are POSTed with X-Tax-Agent-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "t.body">. Failed deliveries retry after 1 min, 5 min, 30 min, 2 h and 12 h. The secret is only returned here.',
+        security: [{ BearerAuth: [] }],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['url'],
+                properties: {
+                  url: { type: 'string', format: 'uri', description: 'https only' },
+                  events: {
+                    type: 'array',
+                    items: webhookEventTypes,
+                    description: 'Defaults to every event',
+                  },
+                  scope: {
+                    type: 'string',
+                    enum: ['user', 'api_key'],
+                    default: 'user',
+                    description: 'api_key: only submissions filed with the calling key',
+                  },
+                  description: { type: 'string', maxLength: 200 },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '201': {
+            description: 'Endpoint registered',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    success: { type: 'boolean', const: true },
+                    data: {
+                      allOf: [
+                        { $ref: '#/components/schemas/WebhookEndpoint' },
+                        {
+                          type: 'object',
+                          properties: { secret: { type: 'string', description: 'whsec_…' } },
+                        },
+                      ],
+                    },
+                  },
+                },
+              },
+            },
+          },
+          '400': { description: 'Invalid body, or scope api_key without x-api-key' },
+          '401': { description: 'Unauthorized' },
+          '409': { description: 'Owner already has 10 endpoints' },
+        },
+      },
+      get: {
+        operationId: 'listWebhookEndpoints',
+        summary: "The caller's webhook endpoints (secrets omitted)",
+        security: [{ BearerAuth: [] }],
+        responses: {
+          '200': {
+            description: 'Endpoints',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    success: { type: 'boolean', const: true },
+                    data: {
+                      type: 'array',
+                      items: { $ref: '#/components/schemas/WebhookEndpoint' },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+
+    '/webhooks/endpoints/{endpointId}': {
+      delete: {
+        operationId: 'deleteWebhookEndpoint',
+        summary: 'Remove a webhook endpoint; its pending deliveries fail',
+        security: [{ BearerAuth: [] }],
+        parameters: [
+          { name: 'endpointId', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        responses: {
+          '200': { description: 'Endpoint removed' },
+          '404': { description: 'Webhook endpoint not found' },
+        },
+      },
+    },
+
+    // ------------------------------------------- GET /webhooks/deliveries
+    '/webhooks/deliveries': {
+      get: {
+        operationId: 'listWebhookDeliveries',
+        summary: 'Delivery log for your endpoints, newest first (latest 100)',
+        security: [{ BearerAuth: [] }],
+        parameters: [
+          { name: 'endpoint_id', in: 'query', schema: { type: 'string' } },
+          {
+            name: 'status',
+            in: 'query',
+            schema: { type: 'string', enum: ['PENDING', 'DELIVERED', 'FAILED'] },
+          },
+        ],
+        responses: {
+          '200': {
+            description: 'Deliveries',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    success: { type: 'boolean', const: true },
+                    data: {
+                      type: 'array',
+                      items: { $ref: '#/components/schemas/WebhookDelivery' },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          '400': { description: 'Invalid query' },
+        },
+      },
+    },
+
+    // ------------------------------------------------------ GET/POST /payers
+    '/payers': {
+      post: {
+        operationId: 'createPayerProfile',
+        summary: 'Save a payer profile — file with payer_id instead of payer',
+        requestBody: {
+          required: true,
+          content: { 'application/json': { schema: payerProfileBody } },
+        },
+        responses: {
+          '201': {
+            description: 'Profile saved',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    success: { type: 'boolean', const: true },
+                    data: { $ref: '#/components/schemas/PayerProfile' },
+                  },
+                },
+              },
+            },
+          },
+          '400': { description: 'Invalid request body' },
+          '401': { description: 'Unauthorized' },
+          '500': { description: 'The payer TIN could not be vaulted' },
+          '503': { description: 'WebhookState not configured' },
+        },
+      },
+      get: {
+        operationId: 'listPayerProfiles',
+        summary: "Your (or your organization's) payer profiles, by name",
+        responses: {
+          '200': {
+            description: 'Payer profiles',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    success: { type: 'boolean', const: true },
+                    data: { type: 'array', items: { $ref: '#/components/schemas/PayerProfile' } },
+                  },
+                },
+              },
+            },
+          },
+          '401': { description: 'Unauthorized' },
+        },
+      },
+    },
+
+    // ---------------------------------------- GET/PUT/DELETE /payers/{payerId}
+    '/payers/{payerId}': {
+      get: {
+        operationId: 'getPayerProfile',
+        summary: 'One payer profile',
+        parameters: [{ name: 'payerId', in: 'path', required: true, schema: { type: 'string' } }],
+        responses: {
+          '200': {
+            description: 'Payer profile',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    success: { type: 'boolean', const: true },
+                    data: { $ref: '#/components/schemas/PayerProfile' },
+                  },
+                },
+              },
+            },
+          },
+          '404': { description: 'Payer profile not found' },
+        },
+      },
+      put: {
+        operationId: 'replacePayerProfile',
+        summary: 'Replace a payer profile; forms already filed keep the old details',
+        parameters: [{ name: 'payerId', in: 'path', required: true, schema: { type: 'string' } }],
+        requestBody: {
+          required: true,
+          content: { 'application/json': { schema: payerProfileBody } },
+        },
+        responses: {
+          '200': {
+            description: 'Profile replaced',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    success: { type: 'boolean', const: true },
+                    data: { $ref: '#/components/schemas/PayerProfile' },
+                  },
+                },
+              },
+            },
+          },
+          '400': { description: 'Invalid request body' },
+          '404': { description: 'Payer profile not found' },
+        },
+      },
+      delete: {
+        operationId: 'deletePayerProfile',
+        summary: 'Remove a payer profile',
+        parameters: [{ name: 'payerId', in: 'path', required: true, schema: { type: 'string' } }],
+        responses: {
+          '200': { description: 'Profile removed' },
+          '404': { description: 'Payer profile not found' },
         },
       },
     },
 
-    // -------------------------------------------- GET /status/{submissionId}
-    '/status/{submissionId}': {
+    // -------------------------------------------------- GET/POST /recipients
+    '/recipients': {
+      post: {
+        operationId: 'createRecipientProfile',
+        summary: 'Add a recipient to the directory — file with recipient_id instead of recipient',
+        requestBody: {
+          required: true,
+          content: { 'application/json': { schema: recipientProfileBody } },
+        },
+        responses: {
+          '201': {
+            description: 'Recipient saved',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    success: { type: 'boolean', const: true },
+                    data: { $ref: '#/components/schemas/RecipientProfile' },
+                  },
+                },
+              },
+            },
+          },
+          '400': { description: 'Invalid request body, or an unusable recipient.w9_request_id' },
+          '401': { description: 'Unauthorized' },
+          '422': { description: 'Unknown payer_id, or a W-9 request that is not completed' },
+          '500': { description: 'The recipient TIN could not be vaulted' },
+          '503': { description: 'WebhookState not configured' },
+        },
+      },
       get: {
-        operationId: 'getStatus',
-        summary: 'Check filing status',
-        parameters: [submissionIdParam],
+        operationId: 'listRecipientProfiles',
+        summary: "Your (or your organization's) recipient directory, by name",
+        parameters: [
+          {
+            name: 'payer_id',
+            in: 'query',
+            required: false,
+            schema: { type: 'string' },
+            description: "Only this payer profile's recipients",
+          },
+        ],
         responses: {
           '200': {
-            description: 'Status retrieved',
+            description: 'Recipients',
             content: {
               'application/json': {
                 schema: {
                   type: 'object',
-                  required: ['success', 'data'],
                   properties: {
                     success: { type: 'boolean', const: true },
                     data: {
-                      type: 'object',
-                      required: [
-                        'StatusCode',
-                        'StatusName',
-                        'StatusMessage',
-                        'SubmissionId',
-                        'FormStatus',
-                      ],
-                      properties: {
-                        StatusCode: { type: 'integer' },
-                        StatusName: { type: 'string' },
-                        StatusMessage: { type: 'string' },
-                        SubmissionId: { type: 'string' },
-                        FormStatus: { type: 'string' },
-                        FormRecords: {
-                          oneOf: [{ type: 'array', items: taxBanditsFormRecord }, { type: 'null' }],
-                        },
-                        Errors: {
-                          oneOf: [{ type: 'array', items: taxBanditsError }, { type: 'null' }],
-                        },
-                      },
+                      type: 'array',
+                      items: { $ref: '#/components/schemas/RecipientProfile' },
                     },
                   },
                 },
               },
             },
           },
-          '400': {
-            description: 'Invalid submission ID',
-            content: { 'application/json': { schema: errorResponse } },
-          },
-          '401': {
-            description: 'Unauthorized',
-            content: { 'application/json': { schema: errorResponse } },
+          '401': { description: 'Unauthorized' },
+        },
+      },
+    },
+
+    // ---------------------------------- GET/PUT/DELETE /recipients/{recipientId}
+    '/recipients/{recipientId}': {
+      get: {
+        operationId: 'getRecipientProfile',
+        summary: 'One recipient with its address history, prior-year amounts and W-9 status',
+        parameters: [
+          { name: 'recipientId', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        responses: {
+          '200': {
+            description: 'Recipient',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    success: { type: 'boolean', const: true },
+                    data: { $ref: '#/components/schemas/RecipientProfile' },
+                  },
+                },
+              },
+            },
           },
-          '502': {
-            description: 'TaxBandits status check failed',
-            content: { 'application/json': { schema: errorResponse } },
+          '404': { description: 'Recipient not found' },
+        },
+      },
+      put: {
+        operationId: 'replaceRecipientProfile',
+        summary: 'Replace a recipient; a changed address joins the address history',
+        parameters: [
+          { name: 'recipientId', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        requestBody: {
+          required: true,
+          content: { 'application/json': { schema: recipientProfileBody } },
+        },
+        responses: {
+          '200': {
+            description: 'Recipient replaced',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    success: { type: 'boolean', const: true },
+                    data: { $ref: '#/components/schemas/RecipientProfile' },
+                  },
+                },
+              },
+            },
           },
+          '400': { description: 'Invalid request body' },
+          '404': { description: 'Recipient not found' },
+          '422': { description: 'Unknown payer_id' },
+        },
+      },
+      delete: {
+        operationId: 'deleteRecipientProfile',
+        summary: 'Remove a recipient with its address history and filed amounts',
+        parameters: [
+          { name: 'recipientId', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        responses: {
+          '200': { description: 'Recipient removed' },
+          '404': { description: 'Recipient not found' },
         },
       },
     },
 
-    // --------------------------------------------------- GET /openapi.json
-    '/openapi.json': {
+    // -------------------------------------------------------- GET /deadlines
+    '/deadlines': {
       get: {
-        operationId: 'getOpenApiSpec',
-        summary: 'OpenAPI 3.1 specification',
-        security: [],
+        operationId: 'getDeadlines',
+        summary:
+          "Due dates and late-filing penalties for a tax year, with your submissions' on-time status",
+        parameters: [
+          {
+            name: 'tax_year',
+            in: 'query',
+            required: false,
+            schema: { type: 'string', pattern: '^\\d{4}$' },
+            description: 'Defaults to the previous calendar year',
+          },
+        ],
         responses: {
           '200': {
-            description: 'The OpenAPI specification document',
-            content: { 'application/json': { schema: { type: 'object' } } },
+            description: 'Deadline calendar and penalty exposure',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    success: { type: 'boolean', const: true },
+                    data: {
+                      type: 'object',
+                      properties: {
+                        taxYear: { type: 'integer' },
+                        forms: { type: 'array', items: formDeadlineSchema },
+                        submissions: { type: 'array', items: submissionDeadlineSchema },
+                        exposure: {
+                          type: 'number',
+                          description: 'Total projected penalty, before annual caps',
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
           },
+          '400': { description: 'Invalid tax_year' },
+          '401': { description: 'Unauthorized' },
         },
       },
     },
 
-    // ------------------------------------------------ POST /webhook/status
-    '/webhook/status': {
+    // ------------------------------------------ POST /orgs/{organizationId}/keys
+    '/orgs/{organizationId}/keys': {
       post: {
-        summary: 'TaxBandits webhook callback',
+        operationId: 'createOrgApiKey',
+        summary: 'Mint an org-scoped API key for the caller',
         description:
-          'Receives HMAC-SHA256 signed status updates from TaxBandits when the IRS accepts or rejects a filing.',
+          "Permissions default to the caller's organization role and can't exceed it. The key files into the organization's tenant, only for its client payers, and is returned once.",
+        security: [{ ApiKeyAuth: [] }],
         parameters: [
-          {
-            name: 'Signature',
-            in: 'header',
-            required: true,
-            schema: { type: 'string' },
-            description: 'HMAC-SHA256 signature',
-          },
-          {
-            name: 'TimeStamp',
-            in: 'header',
-            required: true,
-            schema: { type: 'string' },
-            description: 'Timestamp used in signature computation',
-          },
+          { name: 'organizationId', in: 'path', required: true, schema: { type: 'string' } },
         ],
         requestBody: {
-          required: true,
           content: {
             'application/json': {
               schema: {
                 type: 'object',
                 properties: {
-                  SubmissionId: { type: 'string', format: 'uuid' },
-                  FormType: { type: 'string', example: 'FORM1099NEC' },
-                  Records: {
-                    type: 'array',
-                    items: {
+                  name: { type: 'string', maxLength: 100 },
+                  permissions: {
+                    type: 'object',
+                    additionalProperties: { type: 'array', items: { type: 'string' } },
+                  },
+                  expires_in: {
+                    type: 'integer',
+                    minimum: 86400,
+                    maximum: 31536000,
+                    description: 'Seconds',
+                  },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '201': {
+            description: 'Key created',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    success: { type: 'boolean', const: true },
+                    data: {
                       type: 'object',
                       properties: {
-                        RecordId: { type: 'string' },
-                        Status: { type: 'string', enum: ['Accepted', 'Rejected'] },
-                        StatusCode: { type: 'integer' },
-                        StatusTime: { type: 'string', format: 'date-time' },
-                        Errors: { type: 'array', items: { type: 'object' }, nullable: true },
+                        id: { type: 'string' },
+                        key: { type: 'string' },
+                        name: { type: ['string', 'null'] },
+                        organizationId: { type: 'string' },
+                        permissions: {
+                          type: 'object',
+                          additionalProperties: { type: 'array', items: { type: 'string' } },
+                        },
+                        expiresAt: { type: ['string', 'null'] },
                       },
                     },
                   },
                 },
-                required: ['SubmissionId', 'FormType', 'Records'],
               },
             },
           },
+          '403': { description: 'Not a member, or permissions exceed the role' },
+          '503': { description: 'Auth not configured' },
         },
+      },
+    },
+
+    // -------------------------------------- GET/POST /orgs/{organizationId}/payers
+    '/orgs/{organizationId}/payers': {
+      get: {
+        operationId: 'listOrgPayers',
+        summary: "The organization's client payers",
+        security: [{ ApiKeyAuth: [] }],
+        parameters: [
+          { name: 'organizationId', in: 'path', required: true, schema: { type: 'string' } },
+        ],
         responses: {
           '200': {
-            description: 'Webhook received',
+            description: 'Client payers',
             content: {
               'application/json': {
-                schema: { $ref: '#/components/schemas/SuccessResponse' },
+                schema: {
+                  type: 'object',
+                  properties: {
+                    success: { type: 'boolean', const: true },
+                    data: { type: 'array', items: { $ref: '#/components/schemas/OrgPayer' } },
+                  },
+                },
               },
             },
           },
-          '401': {
-            description: 'Invalid signature',
+          '403': { description: 'Not a member of this organization' },
+        },
+      },
+      post: {
+        operationId: 'createOrgPayer',
+        summary: 'Register a client payer (owner or admin)',
+        security: [{ ApiKeyAuth: [] }],
+        parameters: [
+          { name: 'organizationId', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['name', 'tin'],
+                properties: {
+                  name: { type: 'string', maxLength: 200 },
+                  tin: { type: 'string', description: 'EIN or SSN' },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '201': {
+            description: 'Payer registered',
             content: {
               'application/json': {
-                schema: { $ref: '#/components/schemas/ErrorResponse' },
+                schema: {
+                  type: 'object',
+                  properties: {
+                    success: { type: 'boolean', const: true },
+                    data: { $ref: '#/components/schemas/OrgPayer' },
+                  },
+                },
               },
             },
           },
+          '403': { description: 'Not an owner or admin of this organization' },
+          '409': { description: 'A payer with this TIN is already registered' },
         },
       },
     },
 
-    // --------------------------------------------- GET /webhook/submissions
-    '/webhook/submissions': {
+    // ------------------------------ DELETE /orgs/{organizationId}/payers/{payerId}
+    '/orgs/{organizationId}/payers/{payerId}': {
+      delete: {
+        operationId: 'deleteOrgPayer',
+        summary: 'Remove a client payer (owner or admin)',
+        security: [{ ApiKeyAuth: [] }],
+        parameters: [
+          { name: 'organizationId', in: 'path', required: true, schema: { type: 'string' } },
+          { name: 'payerId', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        responses: {
+          '200': { description: 'Payer removed' },
+          '403': { description: 'Not an owner or admin of this organization' },
+          '404': { description: 'Payer not found' },
+        },
+      },
+    },
+
+    // ---------------------------------------------- GET /admin/submissions
+    '/admin/submissions': {
       get: {
-        summary: 'List tracked submissions',
-        description: 'Returns all submissions tracked via webhook callbacks.',
+        operationId: 'listAllSubmissions',
+        summary: 'Submissions across tenants, newest first (admin)',
+        description:
+          'Requires the TAX_AGENT_API_KEY Bearer token; API keys are not accepted. Each submission is tagged with its tenant.',
         security: [{ BearerAuth: [] }],
+        parameters: [
+          {
+            name: 'tenant',
+            in: 'query',
+            description: 'Only this tenant: `global`, `user:<id>` or `org:<id>`',
+            schema: { type: 'string' },
+          },
+          {
+            name: 'limit',
+            in: 'query',
+            schema: { type: 'integer', minimum: 1, maximum: 200, default: 50 },
+          },
+        ],
         responses: {
           '200': {
-            description: 'List of submissions',
+            description: 'Submissions',
             content: {
               'application/json': {
                 schema: {
                   type: 'object',
                   properties: {
-                    success: { type: 'boolean' },
+                    success: { type: 'boolean', const: true },
                     data: {
                       type: 'array',
                       items: {
                         type: 'object',
                         properties: {
+                          tenant: { type: 'string' },
                           submissionId: { type: 'string' },
                           status: { type: 'string' },
                           formType: { type: 'string' },
@@ -642,6 +2746,9 @@ export const openApiSpec: Record<string, unknown> = {
               },
             },
           },
+          '400': { description: 'Invalid query' },
+          '401': { description: 'Missing or wrong admin token' },
+          '403': { description: 'TAX_AGENT_API_KEY is not configured' },
         },
       },
     },
@@ -0,0 +1,241 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { env, createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import worker from './index';
+import { createAuth, migrateAuthDb, orgRoleAllows, orgRolePermissions } from './auth';
+import { payerTinKey } from './organizations';
+import { tenantState } from './tenants';
+import type { Env } from './types';
+import type { WebhookState } from './webhook-state';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const authEnv = {
+  ...env,
+  BETTER_AUTH_SECRET: 'test-secret-at-least-32-characters-long',
+  BETTER_AUTH_URL: 'http://localhost',
+  TIN_VAULT_KEY: 'test-org-secret',
+} as unknown as Env;
+
+function ns(): DurableObjectNamespace<WebhookState> {
+  const binding = authEnv.WEBHOOK_STATE;
+  if (!binding) throw new Error('WEBHOOK_STATE binding missing');
+  return binding;
+}
+
+async function call(path: string, key: string, init: { method?: string; body?: unknown } = {}) {
+  const ctx = createExecutionContext();
+  const res = await worker.fetch(
+    new Request(`http://localhost${path}`, {
+      method: init.method ?? 'GET',
+      headers: { 'x-api-key': key, 'Content-Type': 'application/json' },
+      body: init.body === undefined ? undefined : JSON.stringify(init.body),
+    }),
+    authEnv,
+    ctx,
+  );
+  await waitOnExecutionContext(ctx);
+  return res;
+}
+
+const CLIENT = { name: 'Client Co', tin: '12-3456789' };
+
+function necForm(payer: { name: string; tin: string }) {
+  return {
+    payer: {
+      ...payer,
+      address: '100 Main St',
+      city: 'Springfield',
+      state: 'IL',
+      zip_code: '62701',
+      phone: '2175551234',
+      email: 'books@client.example',
+    },
+    recipient: {
+      first_name: 'Jane',
+      last_name: 'Smith',
+      tin: '412789654',
+      tin_type: 'SSN' as const,
+      address: '200 Oak Ave',
+      city: 'Chicago',
+      state: 'IL',
+      zip_code: '60601',
+    },
+    nonemployee_compensation: 5000,
+    is_federal_tax_withheld: false,
+    is_state_filing: false,
+    tax_year: '2024',
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Roles
+// ---------------------------------------------------------------------------
+describe('organization roles', () => {
+  it('gives owners every API permission', () => {
+    expect(orgRolePermissions('owner')).toEqual({
+      filings: ['validate', 'create', 'transmit', 'correct'],
+      status: ['read'],
+      webhooks: ['read', 'manage'],
+      forms: ['read'],
+      w9: ['manage'],
+    });
+  });
+
+  it('lets admins file but not manage webhooks, and members only validate and read', () => {
+    expect(orgRoleAllows('admin', { filings: ['transmit', 'correct'] })).toBe(true);
+    expect(orgRoleAllows('admin', { webhooks: ['manage'] })).toBe(false);
+    expect(orgRoleAllows('member', { filings: ['validate'], status: ['read'] })).toBe(true);
+    expect(orgRoleAllows('member', { filings: ['create'] })).toBe(false);
+  });
+
+  it('maps better-auth organization statements too, and unions multiple roles', () => {
+    expect(orgRoleAllows('admin', { organization: ['update'] })).toBe(true);
+    expect(orgRoleAllows('member', { organization: ['update'] })).toBe(false);
+    expect(orgRoleAllows('member,admin', { filings: ['create'] })).toBe(true);
+    expect(orgRolePermissions('nobody')).toEqual({});
+  });
+
+  it('keys client payers by TIN digits', () => {
+    expect(payerTinKey('12-3456789')).toBe('123456789');
+    expect(payerTinKey('123456789')).toBe('123456789');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Org keys, client payers and filing (HTTP)
+// ---------------------------------------------------------------------------
+describe('organizations (HTTP)', () => {
+  let orgId: string;
+  let ownerKey: string;
+  let memberKey: string;
+  let outsiderKey: string;
+
+  beforeAll(async () => {
+    await migrateAuthDb(authEnv.AUTH_DB!);
+    const auth = createAuth(authEnv);
+    const [owner, member, outsider] = await Promise.all(
+      ['org-owner@example.com', 'org-member@example.com', 'org-outsider@example.com'].map((email) =>
+        auth.api.signUpEmail({ body: { email, password: 'TestPassword123!', name: email } }),
+      ),
+    );
+    const org = await auth.api.createOrganization({
+      body: { name: 'Firm LLP', slug: 'firm-llp', userId: owner!.user.id },
+    });
+    orgId = org!.id;
+    await auth.api.addMember({
+      body: { userId: member!.user.id, organizationId: orgId, role: 'member' },
+    });
+    const keyFor = async (userId: string) =>
+      (await auth.api.createApiKey({ body: { userId, permissions: { status: ['read'] } } })).key;
+    ownerKey = await keyFor(owner!.user.id);
+    memberKey = await keyFor(member!.user.id);
+    outsiderKey = await keyFor(outsider!.user.id);
+  }, 30_000);
+
+  async function orgKey(key: string, body: unknown = {}) {
+    return call(`/orgs/${orgId}/keys`, key, { method: 'POST', body });
+  }
+
+  it("mints org keys with the caller's role permissions, and no more", async () => {
+    const owner = await orgKey(ownerKey, { name: 'firm filing' });
+    expect(owner.status).toBe(201);
+    const ownerBody = await owner.json<{
+      data: { key: string; organizationId: string; permissions: Record<string, string[]> };
+    }>();
+    expect(ownerBody.data.organizationId).toBe(orgId);
+    expect(ownerBody.data.permissions.filings).toContain('transmit');
+
+    const member = await orgKey(memberKey);
+    expect(member.status).toBe(201);
+    const memberBody = await member.json<{ data: { permissions: Record<string, string[]> } }>();
+    expect(memberBody.data.permissions.filings).toEqual(['validate']);
+
+    const greedy = await orgKey(memberKey, { permissions: { filings: ['create'] } });
+    expect(greedy.status).toBe(403);
+    expect((await orgKey(outsiderKey)).status).toBe(403);
+  });
+
+  it('lets owners and admins manage client payers, and members list them', async () => {
+    const denied = await call(`/orgs/${orgId}/payers`, memberKey, { method: 'POST', body: CLIENT });
+    expect(denied.status).toBe(403);
+
+    const added = await call(`/orgs/${orgId}/payers`, ownerKey, { method: 'POST', body: CLIENT });
+    expect(added.status).toBe(201);
+    const { data: payer } = await added.json<{ data: { payerId: string; tin: string } }>();
+    expect(payer.tin).toBe('***6789');
+    const again = await call(`/orgs/${orgId}/payers`, ownerKey, {
+      method: 'POST',
+      body: { ...CLIENT, tin: '123456789' },
+    });
+    expect(again.status).toBe(409);
+
+    const listed = await call(`/orgs/${orgId}/payers`, memberKey);
+    expect(listed.status).toBe(200);
+    const list = await listed.json<{ data: Array<{ payerId: string }> }>();
+    expect(list.data.map((p) => p.payerId)).toEqual([payer.payerId]);
+    expect((await call(`/orgs/${orgId}/payers`, outsiderKey)).status).toBe(403);
+
+    const removed = await call(`/orgs/${orgId}/payers/${payer.payerId}`, ownerKey, {
+      method: 'DELETE',
+    });
+    expect(removed.status).toBe(200);
+    const gone = await call(`/orgs/${orgId}/payers/${payer.payerId}`, ownerKey, {
+      method: 'DELETE',
+    });
+    expect(gone.status).toBe(404);
+  });
+
+  it("refuses to file for payers that aren't the organization's clients", async () => {
+    const minted = await orgKey(ownerKey);
+    const { data } = await minted.json<{ data: { key: string } }>();
+    const res = await call('/jobs', data.key, {
+      method: 'POST',
+      body: { forms: [necForm({ name: 'Stranger Inc', tin: '98-7654321' })] },
+    });
+    expect(res.status).toBe(403);
+    const body = await res.json<{ error: string; details: { payers: unknown[] } }>();
+    expect(body.error).toContain('Stranger Inc');
+    expect(body.details.payers).toEqual([{ name: 'Stranger Inc', tin: '***4321' }]);
+  });
+
+  it("files client payers into the organization's tenant", async () => {
+    await call(`/orgs/${orgId}/payers`, ownerKey, { method: 'POST', body: CLIENT });
+    const minted = await orgKey(ownerKey);
+    const { data } = await minted.json<{ data: { key: string } }>();
+    const res = await call('/jobs', data.key, {
+      method: 'POST',
+      body: { forms: [necForm(CLIENT)] },
+    });
+    expect(res.status).toBe(202);
+    const job = await res.json<{ data: { jobId: string } }>();
+    // Let the background alarm finish before the test's storage is torn down
+    await vi.waitFor(async () => {
+      const stored = await tenantState(ns(), `org:${orgId}`).getJob(job.data.jobId);
+      expect(['COMPLETED', 'FAILED']).toContain(stored?.status);
+    });
+  });
+
+  it("caps an org key at its holder's role even when the key itself grants more", async () => {
+    const auth = createAuth(authEnv);
+    const member = await auth.api.signUpEmail({
+      body: { email: 'org-demoted@example.com', password: 'TestPassword123!', name: 'demoted' },
+    });
+    await auth.api.addMember({
+      body: { userId: member.user.id, organizationId: orgId, role: 'member' },
+    });
+    const { key } = await auth.api.createApiKey({
+      body: {
+        userId: member.user.id,
+        permissions: { filings: ['validate', 'create', 'transmit'] },
+        metadata: { organizationId: orgId },
+      },
+    });
+    const res = await call('/transmit/0b9c1e6a-4444-4d4d-9d4d-dddddddddddd', key, {
+      method: 'POST',
+    });
+    expect(res.status).toBe(403);
+    expect((await res.json<{ error: string }>()).error).toContain('"member"');
+  });
+});
@@ -0,0 +1,53 @@
+import { Effect } from 'effect';
+import { OrgPayerError } from './types';
+import type { Env, PayerInfo, TINVaultError } from './types';
+import type { SubmissionOwner } from './outbound-webhooks';
+import { maskTIN } from './pii';
+import { revealParties } from './vault';
+import { tenantOf, tenantState } from './tenants';
+
+// ============================================================
+// Organizations — accounting firms filing for their clients
+//
+// better-auth's organization plugin keeps orgs, members, roles and
+// invitations; ./auth maps the roles onto API permissions. An org-scoped
+// API key (one whose metadata names an organizationId) files into the
+// organization's tenant, and only for payers the organization registered
+// as its clients.
+// ============================================================
+
+/** A payer TIN as the client registry keys it: digits only. */
+export function payerTinKey(tin: string): string {
+  return tin.replace(/\D/g, '');
+}
+
+/**
+ * Fail with OrgPayerError unless every payer is a registered client of
+ * `owner`'s organization. Callers without an org-scoped key pass unchecked;
+ * vaulted payer TINs are revealed to compare them.
+ */
+export function checkOrgPayers(
+  env: Env,
+  owner: SubmissionOwner,
+  payers: PayerInfo[],
+): Effect.Effect<void, OrgPayerError | TINVaultError> {
+  const ns = env.WEBHOOK_STATE;
+  if (!owner.organizationId) return Effect.void;
+  const tenant = tenantOf(owner);
+  return Effect.gen(function* () {
+    const revealed = yield* revealParties(env, tenant, payers);
+    const keys = revealed.map((p) => payerTinKey(p.tin ?? ''));
+    // Without WebhookState there is no registry, so no payer is a client
+    const unknown = new Set(
+      ns ? yield* Effect.promise(() => tenantState(ns, tenant).unknownPayerTins(keys)) : keys,
+    );
+    const outside = new Map<string, { name: string; tin: string }>();
+    revealed.forEach((p, i) => {
+      const key = keys[i] ?? '';
+      if (unknown.has(key) && !outside.has(key)) {
+        outside.set(key, { name: p.name, tin: maskTIN(key) });
+      }
+    });
+    if (outside.size > 0) yield* Effect.fail(new OrgPayerError({ payers: [...outside.values()] }));
+  });
+}
@@ -0,0 +1,335 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { env, runDurableObjectAlarm, runInDurableObject } from 'cloudflare:test';
+import { Effect } from 'effect';
+import {
+  MAX_WEBHOOK_ENDPOINTS,
+  NO_OWNER,
+  WEBHOOK_RETRY_DELAYS,
+  WEBHOOK_SIGNATURE_HEADER,
+  sendWebhook,
+  signWebhookPayload,
+  webhookOwners,
+  webhookRetryDelay,
+  type SubmissionOwner,
+  type WebhookEvent,
+  type WebhookEventType,
+} from './outbound-webhooks';
+import type { Env, Form1099NECRequest } from './types';
+import type { WebhookState } from './webhook-state';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const testEnv = env as unknown as Env;
+
+function stub() {
+  const ns = testEnv.WEBHOOK_STATE;
+  if (!ns) throw new Error('WEBHOOK_STATE binding missing');
+  return ns.get(ns.idFromName('global'));
+}
+
+const OWNER: SubmissionOwner = { userId: 'user-1', apiKeyId: 'key-1', organizationId: null };
+
+/** Track a submission with one CREATED record, filed by `owner`, and announce it. */
+async function fileSubmission(submissionId: string, owner: SubmissionOwner = OWNER) {
+  await stub().trackSubmission(submissionId, 'FORM1099NEC', owner);
+  await stub().storeFormRecords(submissionId, 'FORM1099NEC', [
+    {
+      sequence: 1,
+      recordId: `${submissionId}-rec`,
+      recipientName: 'Jane Smith',
+      recipientTin: '***9654',
+      amount: 5000,
+      federalTaxWithheld: 0,
+      status: 'CREATED',
+      validationIssues: [],
+      errors: [],
+      data: {} as Form1099NECRequest,
+    },
+  ]);
+  await stub().announceSubmission(submissionId);
+}
+
+function createEndpoint(owner: string, events: WebhookEventType[] = ['submission.created']) {
+  return stub().createWebhookEndpoint({
+    owner,
+    url: `https://hooks.example.com/${owner}`,
+    events,
+    description: null,
+  });
+}
+
+/** Answer every endpoint with `status` and collect what was posted. */
+function mockEndpoints(status = 200) {
+  const posted: Array<{ url: string; headers: Headers; body: string }> = [];
+  vi.spyOn(globalThis, 'fetch').mockImplementation(async (input, init) => {
+    posted.push({
+      url: String(input),
+      headers: new Headers(init?.headers),
+      body: String(init?.body),
+    });
+    return new Response(null, { status });
+  });
+  return posted;
+}
+
+/** Run alarms until no delivery is due. Alarms also fire on their own, so wait for those too. */
+async function drainDeliveries() {
+  const s = stub();
+  await vi.waitFor(async () => {
+    await runDurableObjectAlarm(s);
+    const due = await runInDurableObject(s, (_: WebhookState, state) =>
+      state.storage.sql
+        .exec(
+          `SELECT COUNT(*) AS n FROM webhook_deliveries
+           WHERE status = 'PENDING' AND next_attempt_at <= datetime('now')`,
+        )
+        .one(),
+    );
+    expect(due['n']).toBe(0);
+  });
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+// ---------------------------------------------------------------------------
+// Signing and retry schedule
+// ---------------------------------------------------------------------------
+describe('signWebhookPayload', () => {
+  it('is an HMAC-SHA256 of "timestamp.body" that verifies with the secret', async () => {
+    const signature = await signWebhookPayload('whsec_test', 1700000000, '{"a":1}');
+    expect(signature).toMatch(/^[0-9a-f]{64}$/);
+    const key = await crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode('whsec_test'),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['verify'],
+    );
+    const bytes = new Uint8Array(signature.match(/../g)?.map((h) => parseInt(h, 16)) ?? []);
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      key,
+      bytes,
+      new TextEncoder().encode('1700000000.{"a":1}'),
+    );
+    expect(valid).toBe(true);
+  });
+
+  it('changes with the timestamp, so old signatures cannot be replayed as new', async () => {
+    const a = await signWebhookPayload('whsec_test', 1700000000, '{}');
+    const b = await signWebhookPayload('whsec_test', 1700000001, '{}');
+    expect(a).not.toBe(b);
+  });
+});
+
+describe('webhookRetryDelay', () => {
+  it('backs off after each failed attempt and gives up after the last delay', () => {
+    expect(webhookRetryDelay(1)).toBe(WEBHOOK_RETRY_DELAYS[0]);
+    expect(webhookRetryDelay(2)).toBeGreaterThan(webhookRetryDelay(1) ?? 0);
+    expect(webhookRetryDelay(WEBHOOK_RETRY_DELAYS.length)).toBe(WEBHOOK_RETRY_DELAYS.at(-1));
+    expect(webhookRetryDelay(WEBHOOK_RETRY_DELAYS.length + 1)).toBeNull();
+  });
+});
+
+describe('webhookOwners', () => {
+  it('maps an API key identity to its user and key owners', () => {
+    expect(webhookOwners(OWNER)).toEqual(['user:user-1', 'key:key-1']);
+  });
+
+  it('puts the organization of an org-scoped key first', () => {
+    expect(webhookOwners({ ...OWNER, organizationId: 'org-1' })).toEqual([
+      'org:org-1',
+      'user:user-1',
+      'key:key-1',
+    ]);
+  });
+
+  it('falls back to the default owner without an identity', () => {
+    expect(webhookOwners(NO_OWNER)).toEqual(['default']);
+  });
+});
+
+describe('sendWebhook', () => {
+  const delivery = { deliveryId: 'whd_1', eventType: 'record.accepted', payload: '{"id":"evt_1"}' };
+
+  it('posts the payload with signature, event and delivery headers', async () => {
+    const posted = mockEndpoints(204);
+    const attempt = await Effect.runPromise(
+      sendWebhook({ url: 'https://hooks.example.com/a', secret: 'whsec_test' }, delivery),
+    );
+    expect(attempt).toEqual({ ok: true, statusCode: 204, error: null });
+    const [request] = posted;
+    expect(request?.body).toBe(delivery.payload);
+    expect(request?.headers.get('X-Tax-Agent-Event')).toBe('record.accepted');
+    expect(request?.headers.get('X-Tax-Agent-Delivery')).toBe('whd_1');
+    const match = /^t=(\d+),v1=([0-9a-f]{64})$/.exec(
+      request?.headers.get(WEBHOOK_SIGNATURE_HEADER) ?? '',
+    );
+    expect(match).not.toBeNull();
+    expect(match?.[2]).toBe(
+      await signWebhookPayload('whsec_test', Number(match?.[1]), delivery.payload),
+    );
+  });
+
+  it('reports a non-2xx answer or a network error as a failed attempt', async () => {
+    mockEndpoints(500);
+    const rejected = await Effect.runPromise(
+      sendWebhook({ url: 'https://hooks.example.com/a', secret: 's' }, delivery),
+    );
+    expect(rejected).toEqual({ ok: false, statusCode: 500, error: 'HTTP 500' });
+
+    vi.spyOn(globalThis, 'fetch').mockRejectedValue(new Error('connection refused'));
+    const unreachable = await Effect.runPromise(
+      sendWebhook({ url: 'https://hooks.example.com/a', secret: 's' }, delivery),
+    );
+    expect(unreachable.ok).toBe(false);
+    expect(unreachable.statusCode).toBeNull();
+    expect(unreachable.error).toContain('connection refused');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// WebhookState — endpoints, events and deliveries
+// ---------------------------------------------------------------------------
+describe('WebhookState outbound webhooks', () => {
+  it('delivers submission.created to the owner’s endpoints, signed with their secret', async () => {
+    const posted = mockEndpoints();
+    const endpoint = await createEndpoint('user:user-1');
+    expect(endpoint?.secret).toMatch(/^whsec_/);
+
+    await fileSubmission('sub-created');
+    await drainDeliveries();
+
+    expect(posted).toHaveLength(1);
+    const event = JSON.parse(posted[0]?.body ?? '{}') as WebhookEvent;
+    expect(event.type).toBe('submission.created');
+    expect(event.id).toMatch(/^evt_/);
+    expect(event.data).toMatchObject({
+      submission_id: 'sub-created',
+      form_type: 'FORM1099NEC',
+      status: 'CREATED',
+      records: [{ recordId: 'sub-created-rec', recipientTin: '***9654' }],
+    });
+    const signature = posted[0]?.headers.get(WEBHOOK_SIGNATURE_HEADER) ?? '';
+    const [, t, v1] = /^t=(\d+),v1=(.+)$/.exec(signature) ?? [];
+    expect(v1).toBe(
+      await signWebhookPayload(endpoint?.secret ?? '', Number(t), posted[0]?.body ?? ''),
+    );
+
+    const [delivery] = await stub().listWebhookDeliveries(['user:user-1']);
+    expect(delivery).toMatchObject({ status: 'DELIVERED', attempts: 1, lastStatusCode: 200 });
+  });
+
+  it('only sends events to endpoints of the submission’s user or key', async () => {
+    const posted = mockEndpoints();
+    await createEndpoint('user:user-1');
+    await createEndpoint('key:key-1');
+    await createEndpoint('key:key-2');
+    await createEndpoint('user:user-2');
+    await createEndpoint('default');
+
+    await fileSubmission('sub-scoped');
+    await drainDeliveries();
+    expect(posted.map((p) => p.url).sort()).toEqual([
+      'https://hooks.example.com/key:key-1',
+      'https://hooks.example.com/user:user-1',
+    ]);
+  });
+
+  it('sends submissions filed without an identity to default endpoints', async () => {
+    const posted = mockEndpoints();
+    await createEndpoint('default');
+    await createEndpoint('user:user-1');
+    await fileSubmission('sub-legacy', NO_OWNER);
+    await drainDeliveries();
+    expect(posted.map((p) => p.url)).toEqual(['https://hooks.example.com/default']);
+  });
+
+  it('raises record events once per final status, for subscribed endpoints only', async () => {
+    const posted = mockEndpoints();
+    await createEndpoint('user:user-1', ['record.accepted', 'record.rejected']);
+    await fileSubmission('sub-records');
+    const accepted = [{ RecordId: 'sub-records-rec', Status: 'Accepted', Errors: null }];
+    await stub().updateRecordStatuses('sub-records', accepted);
+    await stub().updateRecordStatuses('sub-records', accepted);
+    await drainDeliveries();
+
+    expect(posted).toHaveLength(1);
+    const event = JSON.parse(posted[0]?.body ?? '{}') as WebhookEvent;
+    expect(event.type).toBe('record.accepted');
+    expect(event.data).toMatchObject({
+      submission_id: 'sub-records',
+      record: { recordId: 'sub-records-rec', status: 'ACCEPTED' },
+    });
+  });
+
+  it('raises submission.transmitted once when a submission is transmitted', async () => {
+    const posted = mockEndpoints();
+    await createEndpoint('user:user-1', ['submission.transmitted']);
+    await fileSubmission('sub-sent');
+    expect(await stub().markTransmitted('sub-sent')).toBe(true);
+    expect(await stub().markTransmitted('sub-sent')).toBe(false);
+    await drainDeliveries();
+
+    expect(posted.map((p) => JSON.parse(p.body) as WebhookEvent).map((e) => e.type)).toEqual([
+      'submission.transmitted',
+    ]);
+    expect((await stub().getSubmission('sub-sent'))?.status).toBe('TRANSMITTED');
+  });
+
+  it('retries a failed delivery with backoff, then fails it after the last retry', async () => {
+    mockEndpoints(503);
+    await createEndpoint('user:user-1');
+    await fileSubmission('sub-retry');
+    await drainDeliveries();
+
+    let [delivery] = await stub().listWebhookDeliveries(['user:user-1']);
+    expect(delivery).toMatchObject({
+      status: 'PENDING',
+      attempts: 1,
+      lastStatusCode: 503,
+      lastError: 'HTTP 503',
+    });
+    expect(delivery?.nextAttemptAt).not.toBeNull();
+
+    // Fast-forward to the last retry
+    await runInDurableObject(stub(), (_: WebhookState, state) => {
+      state.storage.sql.exec(
+        `UPDATE webhook_deliveries SET attempts = ?, next_attempt_at = datetime('now')`,
+        WEBHOOK_RETRY_DELAYS.length,
+      );
+    });
+    await drainDeliveries();
+    [delivery] = await stub().listWebhookDeliveries(['user:user-1']);
+    expect(delivery).toMatchObject({
+      status: 'FAILED',
+      attempts: WEBHOOK_RETRY_DELAYS.length + 1,
+      nextAttemptAt: null,
+    });
+  });
+
+  it('fails pending deliveries when their endpoint is deleted', async () => {
+    mockEndpoints(500);
+    const endpoint = await createEndpoint('user:user-1');
+    await fileSubmission('sub-deleted');
+    await drainDeliveries();
+
+    const endpointId = endpoint?.endpointId ?? '';
+    expect(await stub().deleteWebhookEndpoint(['user:user-2'], endpointId)).toBe(false);
+    expect(await stub().deleteWebhookEndpoint(['user:user-1'], endpointId)).toBe(true);
+    expect(await stub().listWebhookEndpoints(['user:user-1'])).toEqual([]);
+    const [delivery] = await stub().listWebhookDeliveries(['user:user-1']);
+    expect(delivery).toMatchObject({ status: 'FAILED', lastError: 'Endpoint deleted' });
+  });
+
+  it('caps the endpoints one owner can register', async () => {
+    for (let i = 0; i < MAX_WEBHOOK_ENDPOINTS; i++)
+      expect(await createEndpoint('user:user-1')).not.toBeNull();
+    expect(await createEndpoint('user:user-1')).toBeNull();
+    expect(await createEndpoint('user:user-2')).not.toBeNull();
+  });
+});
@@ -0,0 +1,166 @@
+import { Effect } from 'effect';
+import { base64urlBytes } from './taxbandits';
+import { scrubTINs } from './pii';
+import type { FormRecordSummary } from './webhook-state';
+
+// ============================================================
+// Outbound webhooks — filing lifecycle events for customers
+//
+// Customers register HTTPS endpoints, scoped to their user or to one API
+// key. WebhookState queues a delivery per matching endpoint when a
+// submission is created or transmitted, or a record is accepted or
+// rejected, and its alarm sends them: signed with the endpoint's secret,
+// retried with backoff, every attempt kept in the delivery log.
+// ============================================================
+
+export const WEBHOOK_EVENT_TYPES = [
+  'submission.created',
+  'submission.transmitted',
+  'record.accepted',
+  'record.rejected',
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+/** What an event says about the submission. Records are masked, as in /webhook/submissions. */
+export interface WebhookEventData {
+  submission_id: string;
+  form_type: string;
+  status?: string; // submission events
+  records?: FormRecordSummary[]; // submission events
+  record?: FormRecordSummary; // record events
+}
+
+/** The JSON body POSTed to an endpoint. */
+export interface WebhookEvent {
+  id: string; // evt_…, the same for every endpoint the event goes to
+  type: WebhookEventType;
+  created_at: string;
+  data: WebhookEventData;
+}
+
+export function newWebhookEvent(type: WebhookEventType, data: WebhookEventData): WebhookEvent {
+  return { id: `evt_${crypto.randomUUID()}`, type, created_at: new Date().toISOString(), data };
+}
+
+/**
+ * Who filed a submission: the API key's user and key, and the organization
+ * of an org-scoped key. All null for Bearer or dev-mode calls.
+ */
+export interface SubmissionOwner {
+  userId: string | null;
+  apiKeyId: string | null;
+  organizationId: string | null;
+}
+
+export const NO_OWNER: SubmissionOwner = { userId: null, apiKeyId: null, organizationId: null };
+
+/** Owner of endpoints registered without an API key identity — the deployment itself. */
+export const DEFAULT_WEBHOOK_OWNER = 'default';
+
+/**
+ * Endpoint owners that hear about `owner`'s submissions, and whose endpoints
+ * `owner` can manage: `org:<id>`, `user:<id>` and `key:<id>`, or the default
+ * owner. The first is where endpoints registered without `scope: "api_key"` go.
+ */
+export function webhookOwners(owner: SubmissionOwner): string[] {
+  const owners: string[] = [];
+  if (owner.organizationId) owners.push(`org:${owner.organizationId}`);
+  if (owner.userId) owners.push(`user:${owner.userId}`);
+  if (owner.apiKeyId) owners.push(`key:${owner.apiKeyId}`);
+  return owners.length > 0 ? owners : [DEFAULT_WEBHOOK_OWNER];
+}
+
+/** Endpoints one owner may register. */
+export const MAX_WEBHOOK_ENDPOINTS = 10;
+
+/** Seconds to wait before each retry; a delivery fails for good after the last. */
+export const WEBHOOK_RETRY_DELAYS = [60, 300, 1800, 7200, 43200];
+
+/** How long an endpoint gets to answer one attempt. */
+const WEBHOOK_DELIVERY_TIMEOUT = '10 seconds';
+
+/** Deliveries sent per alarm, and how many at once. */
+export const WEBHOOK_DELIVERY_BATCH = 25;
+export const WEBHOOK_DELIVERY_CONCURRENCY = 5;
+
+/** Header carrying `t=<unix seconds>,v1=<hex HMAC-SHA256 of "t.body">`. */
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Tax-Agent-Signature';
+
+/** Signing secret shown once when an endpoint is registered. */
+export function generateWebhookSecret(): string {
+  return `whsec_${base64urlBytes(crypto.getRandomValues(new Uint8Array(32)))}`;
+}
+
+/** Hex HMAC-SHA256 of `${timestamp}.${body}` with the endpoint's secret. */
+export async function signWebhookPayload(
+  secret: string,
+  timestamp: number,
+  body: string,
+): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  const sig = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`));
+  return [...new Uint8Array(sig)].map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/** Delay before the next attempt after `attempts` failed ones, or null to give up. */
+export function webhookRetryDelay(attempts: number): number | null {
+  return WEBHOOK_RETRY_DELAYS[attempts - 1] ?? null;
+}
+
+export interface WebhookAttempt {
+  ok: boolean;
+  statusCode: number | null;
+  error: string | null;
+}
+
+/**
+ * POST one delivery. Never fails — a network error, timeout or non-2xx
+ * answer comes back as `ok: false` for the caller to retry.
+ */
+export function sendWebhook(
+  endpoint: { url: string; secret: string },
+  delivery: { deliveryId: string; eventType: string; payload: string },
+): Effect.Effect<WebhookAttempt> {
+  const timestamp = Math.floor(Date.now() / 1000);
+  return Effect.promise(() =>
+    signWebhookPayload(endpoint.secret, timestamp, delivery.payload),
+  ).pipe(
+    Effect.flatMap((signature) =>
+      Effect.tryPromise(() =>
+        fetch(endpoint.url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            [WEBHOOK_SIGNATURE_HEADER]: `t=${timestamp},v1=${signature}`,
+            'X-Tax-Agent-Event': delivery.eventType,
+            'X-Tax-Agent-Delivery': delivery.deliveryId,
+          },
+          body: delivery.payload,
+          redirect: 'manual',
+        }),
+      ),
+    ),
+    Effect.timeout(WEBHOOK_DELIVERY_TIMEOUT),
+    Effect.map((res): WebhookAttempt => {
+      void res.body?.cancel();
+      return res.ok
+        ? { ok: true, statusCode: res.status, error: null }
+        : { ok: false, statusCode: res.status, error: `HTTP ${res.status}` };
+    }),
+    Effect.catchAll((err) =>
+      Effect.succeed<WebhookAttempt>({
+        ok: false,
+        statusCode: null,
+        error: err._tag === 'TimeoutException' ? 'Timed out' : scrubTINs(String(err.error)),
+      }),
+    ),
+  );
+}
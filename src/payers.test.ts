@@ -0,0 +1,248 @@
+import { describe, it, expect } from 'vitest';
+import { env, createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import { Effect, Either } from 'effect';
+import worker from './index';
+import { applyPayerProfile, payerProfileInput, resolvePayerProfiles } from './payers';
+import { PayerProfileBodySchema } from './schemas';
+import { isTinRef } from './vault';
+import { tenantState } from './tenants';
+import type { Env } from './types';
+import type { PayerProfile, WebhookState } from './webhook-state';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const testEnv = env as unknown as Env;
+
+function ns(): DurableObjectNamespace<WebhookState> {
+  const binding = testEnv.WEBHOOK_STATE;
+  if (!binding) throw new Error('WEBHOOK_STATE binding missing');
+  return binding;
+}
+
+async function call(path: string, init: { method?: string; body?: unknown } = {}) {
+  const ctx = createExecutionContext();
+  const res = await worker.fetch(
+    new Request(`http://localhost${path}`, {
+      method: init.method ?? 'GET',
+      headers: { 'Content-Type': 'application/json' },
+      body: init.body === undefined ? undefined : JSON.stringify(init.body),
+    }),
+    testEnv,
+    ctx,
+  );
+  await waitOnExecutionContext(ctx);
+  return res;
+}
+
+const PAYER = {
+  name: 'Acme Corp',
+  tin: '27-1234567',
+  tin_type: 'EIN' as const,
+  address: '100 Main St',
+  city: 'New York',
+  state: 'NY',
+  zip_code: '10001',
+  phone: '2125551234',
+  email: 'payroll@acme.com',
+  business_type: 'CORP' as const,
+};
+
+const PROFILE_BODY = {
+  payer: PAYER,
+  kind_of_employer: 'TAX_EXEMPT',
+  state_ids: { CA: '123-4567-8', NY: 'NY-99' },
+};
+
+const CSV =
+  'payer_id,recipient_first_name,recipient_last_name,recipient_tin,recipient_tin_type,recipient_address,recipient_city,recipient_state,recipient_zip,amount';
+
+function profile(overrides: Partial<PayerProfile> = {}): PayerProfile {
+  return {
+    payerId: 'payer_test',
+    payer: PAYER,
+    kindOfEmployer: 'TAX_EXEMPT',
+    kindOfPayer: 'REGULAR944',
+    stateIds: { CA: '123-4567-8' },
+    createdAt: '',
+    updatedAt: '',
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Filling forms from a profile
+// ---------------------------------------------------------------------------
+describe('applyPayerProfile', () => {
+  it('replaces payer_id with the payer and fills defaults the form leaves out', () => {
+    const form: Record<string, unknown> = {
+      payer_id: 'payer_test',
+      kind_of_payer: 'HOUSEHOLD',
+      states: [{ state: 'CA' }, { state: 'OR' }, { state: 'CA', state_id: 'mine' }],
+    };
+    applyPayerProfile(form, profile());
+    expect(form).toEqual({
+      payer: PAYER,
+      kind_of_employer: 'TAX_EXEMPT',
+      kind_of_payer: 'HOUSEHOLD',
+      states: [
+        { state: 'CA', state_id: '123-4567-8' },
+        { state: 'OR' },
+        { state: 'CA', state_id: 'mine' },
+      ],
+    });
+  });
+});
+
+describe('payerProfileInput', () => {
+  it('vaults the payer TIN when the vault is configured', async () => {
+    const body = PayerProfileBodySchema.parse(PROFILE_BODY);
+    const plain = await Effect.runPromise(payerProfileInput(testEnv, 'user:payer-profiles', body));
+    expect(plain.payer.tin).toBe('27-1234567');
+
+    const vaultEnv = { ...testEnv, TIN_VAULT_KEY: 'test-payer-secret' } as Env;
+    const vaulted = await Effect.runPromise(
+      payerProfileInput(vaultEnv, 'user:payer-profiles', body),
+    );
+    expect(vaulted.payer.tin).toBeUndefined();
+    expect(isTinRef(vaulted.payer.tin_ref ?? '')).toBe(true);
+    expect(vaulted.stateIds).toEqual({ CA: '123-4567-8', NY: 'NY-99' });
+  });
+});
+
+describe('resolvePayerProfiles', () => {
+  const stub = () => tenantState(ns(), 'user:payer-profiles');
+
+  it('resolves payer_id in single and batch bodies, leaving other bodies alone', async () => {
+    const input = await Effect.runPromise(
+      payerProfileInput(testEnv, 'user:payer-profiles', PayerProfileBodySchema.parse(PROFILE_BODY)),
+    );
+    const { payerId } = await stub().createPayerProfile(input);
+
+    const single = await Effect.runPromise(resolvePayerProfiles(stub(), { payer_id: payerId }));
+    expect(single).toMatchObject({ payer: PAYER, kind_of_employer: 'TAX_EXEMPT' });
+
+    const batch = await Effect.runPromise(
+      resolvePayerProfiles(stub(), { forms: [{ payer_id: payerId }, { payer: PAYER }] }),
+    );
+    expect(batch).toEqual({
+      forms: [{ payer: PAYER, kind_of_employer: 'TAX_EXEMPT' }, { payer: PAYER }],
+    });
+
+    const untouched = { payer: PAYER };
+    expect(await Effect.runPromise(resolvePayerProfiles(undefined, untouched))).toBe(untouched);
+  });
+
+  it('fails for unknown, malformed or doubled payer references', async () => {
+    const reason = async (raw: unknown, withStub = true) => {
+      const s = withStub ? stub() : undefined;
+      const result = await Effect.runPromise(Effect.either(resolvePayerProfiles(s, raw)));
+      return Either.isLeft(result) ? result.left.reason : null;
+    };
+    expect(await reason({ payer_id: 'payer_missing' })).toBe('not_found');
+    expect(await reason({ payer_id: 42 })).toBe('invalid');
+    expect(await reason({ payer_id: 'payer_x', payer: PAYER })).toBe('invalid');
+    expect(await reason({ payer_id: 'payer_x' }, false)).toBe('unavailable');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// /payers routes and payer_id on filing routes (HTTP)
+// ---------------------------------------------------------------------------
+describe('payer profiles (HTTP)', () => {
+  async function create(body: unknown = PROFILE_BODY) {
+    return call('/payers', { method: 'POST', body });
+  }
+
+  it('creates, reads, replaces and deletes a profile, masking a plain TIN', async () => {
+    const created = await create();
+    expect(created.status).toBe(201);
+    const { data } = await created.json<{ data: PayerProfile }>();
+    expect(data.payerId).toMatch(/^payer_/);
+    expect(data.payer.tin).toBe('***4567');
+    expect(data.stateIds).toEqual({ CA: '123-4567-8', NY: 'NY-99' });
+
+    const fetched = await call(`/payers/${data.payerId}`);
+    expect((await fetched.json<{ data: PayerProfile }>()).data.payer.name).toBe('Acme Corp');
+    const listed = await call('/payers');
+    const list = await listed.json<{ data: PayerProfile[] }>();
+    expect(list.data.map((p) => p.payerId)).toContain(data.payerId);
+
+    const replaced = await call(`/payers/${data.payerId}`, {
+      method: 'PUT',
+      body: { payer: { ...PAYER, name: 'Acme Holdings' } },
+    });
+    expect(replaced.status).toBe(200);
+    const updated = (await replaced.json<{ data: PayerProfile }>()).data;
+    expect(updated.payer.name).toBe('Acme Holdings');
+    expect(updated.kindOfEmployer).toBeNull();
+    expect(updated.stateIds).toEqual({});
+
+    expect((await call(`/payers/${data.payerId}`, { method: 'DELETE' })).status).toBe(200);
+    expect((await call(`/payers/${data.payerId}`)).status).toBe(404);
+    expect((await call(`/payers/${data.payerId}`, { method: 'DELETE' })).status).toBe(404);
+    const missing = await call(`/payers/${data.payerId}`, { method: 'PUT', body: PROFILE_BODY });
+    expect(missing.status).toBe(404);
+  });
+
+  it('rejects an invalid profile', async () => {
+    const res = await create({ payer: { ...PAYER, tin: '123' }, state_ids: { california: 'x' } });
+    expect(res.status).toBe(400);
+  });
+
+  it('fills /file/csv rows from a default payer_id or a payer_id column', async () => {
+    const { data } = await (await create()).json<{ data: PayerProfile }>();
+    const row = 'Jane,Smith,412789654,SSN,200 Oak Ave,Austin,TX,78701,5000';
+
+    const res = await call('/file/csv', {
+      method: 'POST',
+      body: { csv: `${CSV}\n${data.payerId},${row}\n,${row}`, payer_id: data.payerId },
+    });
+    expect(res.status).toBe(200);
+    const body = await res.json<{
+      data: { forms: Array<{ payer: { name: string }; kind_of_employer?: string }> };
+    }>();
+    expect(body.data.forms).toHaveLength(2);
+    expect(body.data.forms.every((f) => f.payer.name === 'Acme Corp')).toBe(true);
+    expect(body.data.forms[0]!.kind_of_employer).toBe('TAX_EXEMPT');
+
+    const unknown = await call('/file/csv', {
+      method: 'POST',
+      body: { csv: `${CSV}\n,${row}`, payer_id: 'payer_missing' },
+    });
+    expect(unknown.status).toBe(422);
+    const both = await call('/file/csv', {
+      method: 'POST',
+      body: { csv: `${CSV}\n,${row}`, payer_id: data.payerId, payer: PAYER },
+    });
+    expect(both.status).toBe(400);
+  });
+
+  it('answers filing routes with 422 for an unknown payer_id and 400 for payer plus payer_id', async () => {
+    const form = {
+      recipient: {
+        first_name: 'Jane',
+        last_name: 'Smith',
+        tin: '412789654',
+        tin_type: 'SSN',
+        address: '200 Oak Ave',
+        city: 'Austin',
+        state: 'TX',
+        zip_code: '78701',
+      },
+      nonemployee_compensation: 5000,
+      is_federal_tax_withheld: false,
+      is_state_filing: false,
+    };
+    const unknown = await call('/file', { method: 'POST', body: { ...form, payer_id: 'payer_x' } });
+    expect(unknown.status).toBe(422);
+    expect((await unknown.json<{ error: string }>()).error).toBe('Unknown payer_id: payer_x');
+
+    const both = await call('/jobs', {
+      method: 'POST',
+      body: { forms: [{ ...form, payer: PAYER, payer_id: 'payer_x' }] },
+    });
+    expect(both.status).toBe(400);
+  });
+});
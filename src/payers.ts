@@ -0,0 +1,142 @@
+import { Effect } from 'effect';
+import type { z } from 'zod';
+import { PayerProfileError } from './types';
+import type { Env, TINVaultError } from './types';
+import type { PayerProfile, PayerProfileInput, WebhookState } from './webhook-state';
+import type { PayerProfileBodySchema } from './schemas';
+import { maskTIN } from './pii';
+import { tokenizeTIN } from './vault';
+
+// ============================================================
+// Payer profiles — a payer's filing details, stored in the tenant
+//
+// Filing routes accept `payer_id` wherever they take a `payer` block. The
+// profile's payer replaces it, and the form inherits the profile's
+// kind_of_employer / kind_of_payer and state withholding IDs where it sets
+// none of its own.
+// ============================================================
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * A validated profile body as stored. The payer TIN is vaulted when the TIN
+ * vault is configured, and kept as sent otherwise — like the payer TINs of
+ * stored form records.
+ */
+export function payerProfileInput(
+  env: Env,
+  tenant: string,
+  body: z.infer<typeof PayerProfileBodySchema>,
+): Effect.Effect<PayerProfileInput, TINVaultError> {
+  const profile = {
+    kindOfEmployer: body.kind_of_employer ?? null,
+    kindOfPayer: body.kind_of_payer ?? null,
+    stateIds: body.state_ids,
+  };
+  const { tin, ...payer } = body.payer;
+  if (!tin || !env.TIN_VAULT_KEY || !env.WEBHOOK_STATE) {
+    return Effect.succeed({ ...profile, payer: body.payer });
+  }
+  return tokenizeTIN(env, tenant, tin, payer.tin_type).pipe(
+    Effect.map((tinRef) => ({ ...profile, payer: { ...payer, tin_ref: tinRef } })),
+  );
+}
+
+/** A profile as the API returns it: a payer TIN kept outside the vault is masked. */
+export function maskPayerProfile(profile: PayerProfile): PayerProfile {
+  if (!profile.payer.tin) return profile;
+  return { ...profile, payer: { ...profile.payer, tin: maskTIN(profile.payer.tin) } };
+}
+
+/**
+ * Fill a raw form from a profile: its payer replaces `payer_id`, and
+ * kind_of_employer, kind_of_payer and `states[].state_id` default to the
+ * profile's.
+ */
+export function applyPayerProfile(form: JsonObject, profile: PayerProfile): void {
+  delete form['payer_id'];
+  form['payer'] = structuredClone(profile.payer);
+  if (form['kind_of_employer'] === undefined && profile.kindOfEmployer) {
+    form['kind_of_employer'] = profile.kindOfEmployer;
+  }
+  if (form['kind_of_payer'] === undefined && profile.kindOfPayer) {
+    form['kind_of_payer'] = profile.kindOfPayer;
+  }
+  if (Array.isArray(form['states'])) {
+    for (const line of form['states']) {
+      if (!isObject(line) || line['state_id'] !== undefined) continue;
+      const stateId =
+        typeof line['state'] === 'string' ? profile.stateIds[line['state']] : undefined;
+      if (stateId) line['state_id'] = stateId;
+    }
+  }
+}
+
+/** Forms of a single-form body (the body itself) or a batch body (`forms[]`). */
+function formsOf(body: JsonObject): JsonObject[] {
+  const forms = Array.isArray(body['forms']) ? body['forms'] : [body];
+  return forms.filter(isObject);
+}
+
+/**
+ * Replace every `payer_id` in a raw form body with that payer profile from
+ * `stub`, the caller's WebhookState. Bodies without payer IDs are returned
+ * untouched.
+ */
+export function resolvePayerProfiles(
+  stub: DurableObjectStub<WebhookState> | undefined,
+  raw: unknown,
+): Effect.Effect<unknown, PayerProfileError> {
+  if (!isObject(raw)) return Effect.succeed(raw);
+  const body = structuredClone(raw);
+  const referencing = formsOf(body).filter((f) => f['payer_id'] !== undefined);
+  if (referencing.length === 0) return Effect.succeed(raw);
+
+  return Effect.gen(function* () {
+    const ids: string[] = [];
+    for (const form of referencing) {
+      const payerId = form['payer_id'];
+      if (typeof payerId !== 'string' || form['payer'] !== undefined) {
+        return yield* Effect.fail(
+          new PayerProfileError({
+            reason: 'invalid',
+            message: 'payer_id must be a string and replaces payer',
+          }),
+        );
+      }
+      ids.push(payerId);
+    }
+    if (!stub) {
+      return yield* Effect.fail(
+        new PayerProfileError({
+          reason: 'unavailable',
+          message: 'Payer profiles are not configured',
+        }),
+      );
+    }
+    const found = yield* Effect.tryPromise({
+      try: () => stub.getPayerProfiles(ids),
+      catch: (err) =>
+        new PayerProfileError({
+          reason: 'unavailable',
+          message: err instanceof Error ? err.message : String(err),
+        }),
+    });
+    const profiles = new Map(found.map((p) => [p.payerId, p]));
+    for (const form of referencing) {
+      const payerId = String(form['payer_id']);
+      const profile = profiles.get(payerId);
+      if (!profile) {
+        return yield* Effect.fail(
+          new PayerProfileError({ reason: 'not_found', message: `Unknown payer_id: ${payerId}` }),
+        );
+      }
+      applyPayerProfile(form, profile);
+    }
+    return body;
+  });
+}
@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+import { buildPdf, pdfString, renderNECCopyB } from './pdf';
+import type { Form1099NECRequest } from './types';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+function validForm(overrides: Partial<Form1099NECRequest> = {}): Form1099NECRequest {
+  return {
+    payer: {
+      name: 'Acme Corp',
+      tin: '27-1234567',
+      address: '100 Main St',
+      city: 'New York',
+      state: 'NY',
+      zip_code: '10001',
+      phone: '2125551234',
+      email: 'payroll@acme.com',
+    },
+    recipient: {
+      first_name: 'Jane',
+      last_name: 'Smith',
+      tin: '412789654',
+      tin_type: 'SSN',
+      address: '200 Oak Ave',
+      city: 'Austin',
+      state: 'TX',
+      zip_code: '78701',
+    },
+    nonemployee_compensation: 5000,
+    is_federal_tax_withheld: true,
+    federal_tax_withheld: 500,
+    is_state_filing: false,
+    tax_year: '2024',
+    ...overrides,
+  };
+}
+
+function text(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => String.fromCharCode(b)).join('');
+}
+
+// ---------------------------------------------------------------------------
+// pdfString() / buildPdf()
+// ---------------------------------------------------------------------------
+describe('pdfString', () => {
+  it('escapes parentheses and backslashes', () => {
+    expect(pdfString('A (B) \\ C')).toBe('(A \\(B\\) \\\\ C)');
+  });
+
+  it('maps WinAnsi punctuation and replaces unencodable characters', () => {
+    expect(pdfString('Copy B — 李')).toBe('(Copy B \x97 ?)');
+  });
+});
+
+describe('buildPdf', () => {
+  it('writes a header, trailer and an xref whose offsets point at each object', () => {
+    const pdf = text(buildPdf('BT ET'));
+    expect(pdf.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+
+    const startxref = Number(pdf.match(/startxref\n(\d+)/)?.[1]);
+    expect(pdf.slice(startxref, startxref + 4)).toBe('xref');
+
+    const offsets = [...pdf.slice(startxref).matchAll(/^(\d{10}) 00000 n $/gm)].map((m) =>
+      Number(m[1]),
+    );
+    expect(offsets).toHaveLength(6);
+    offsets.forEach((offset, i) => {
+      expect(pdf.slice(offset, offset + `${i + 1} 0 obj`.length)).toBe(`${i + 1} 0 obj`);
+    });
+  });
+
+  it('sets the stream /Length to the content length', () => {
+    const pdf = text(buildPdf('0 0 m 10 10 l S'));
+    expect(pdf).toContain('<< /Length 15 >>\nstream\n0 0 m 10 10 l S\nendstream');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// renderNECCopyB()
+// ---------------------------------------------------------------------------
+describe('renderNECCopyB', () => {
+  it('masks the recipient TIN but prints the payer TIN in full', () => {
+    const pdf = text(renderNECCopyB(validForm()));
+    expect(pdf).toContain('(***9654)');
+    expect(pdf).not.toContain('412789654');
+    expect(pdf).toContain('(27-1234567)');
+  });
+
+  it('prints Box 1 and Box 4 amounts', () => {
+    const pdf = text(renderNECCopyB(validForm()));
+    expect(pdf).toContain('($ 5000.00)');
+    expect(pdf).toContain('($ 500.00)');
+  });
+
+  it('leaves Box 4 empty when nothing was withheld', () => {
+    const pdf = text(
+      renderNECCopyB(validForm({ is_federal_tax_withheld: false, federal_tax_withheld: 500 })),
+    );
+    expect(pdf).not.toContain('($ 500.00)');
+  });
+
+  it('fills both state boxes', () => {
+    const pdf = text(
+      renderNECCopyB(
+        validForm({
+          is_state_filing: true,
+          states: [
+            { state: 'CA', state_income: 2000, state_tax_withheld: 100, state_id: '12345678' },
+            { state: 'OR', state_income: 2000 },
+          ],
+        }),
+      ),
+    );
+    expect(pdf).toContain('(CA 12345678)');
+    expect(pdf).toContain('($ 100.00)');
+    expect(pdf).toContain('(OR)');
+    expect(pdf).toContain('($ 2000.00)');
+  });
+
+  it('prints foreign addresses', () => {
+    const pdf = text(
+      renderNECCopyB(
+        validForm({
+          recipient: {
+            first_name: 'Jane',
+            last_name: 'Smith',
+            tin: '412789654',
+            tin_type: 'SSN',
+            foreign_address: {
+              address_line1: '10 Queen St',
+              city: 'Toronto',
+              province_or_state: 'ON',
+              postal_code: 'M5H 2N2',
+              country: 'CA',
+            },
+          },
+        }),
+      ),
+    );
+    expect(pdf).toContain('(Toronto, ON, M5H 2N2, CA)');
+  });
+
+  it('checks the CORRECTED box and prints the record ID', () => {
+    const plain = text(renderNECCopyB(validForm()));
+    const corrected = text(renderNECCopyB(validForm(), { corrected: true, recordId: 'rec-1' }));
+    expect(corrected.length).toBeGreaterThan(plain.length);
+    expect(corrected).toContain('(rec-1)');
+  });
+});
@@ -0,0 +1,247 @@
+import type { Form1099NECRequest, PayerInfo, RecipientInfo } from './types';
+import { maskTIN } from './pii';
+import { stateLines } from './state-rules';
+import { tinLast4 } from './vault';
+
+// ============================================================
+// Minimal PDF writer — zero dependencies
+//
+// One Letter-size page, the two standard Helvetica fonts and a single
+// content stream. Enough for a substitute payee statement (Copy B) without
+// pulling a PDF library into the Worker bundle.
+// ============================================================
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+
+/** WinAnsiEncoding codes for the punctuation outside Latin-1 that names and labels use. */
+const WIN_ANSI: Record<string, string> = {
+  '–': '\x96',
+  '—': '\x97',
+  '‘': '\x91',
+  '’': '\x92',
+  '“': '\x93',
+  '”': '\x94',
+  '…': '\x85',
+  '€': '\x80',
+};
+
+/** Escape a string for a PDF literal; characters WinAnsi cannot encode become '?'. */
+export function pdfString(str: string): string {
+  const encoded = Array.from(str, (ch) => WIN_ANSI[ch] ?? (ch.charCodeAt(0) <= 0xff ? ch : '?'));
+  return `(${encoded.join('').replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)')})`;
+}
+
+/** Latin-1 bytes — one byte per char, so string offsets equal byte offsets. */
+function latin1Bytes(str: string): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(str.length);
+  for (let i = 0; i < str.length; i++) bytes[i] = str.charCodeAt(i) & 0xff;
+  return bytes;
+}
+
+/** Assemble a one-page PDF around a content stream. */
+export function buildPdf(content: string): Uint8Array<ArrayBuffer> {
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents 6 0 R >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+  ];
+
+  let out = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(out.length);
+    out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+
+  const xref = out.length;
+  out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  for (const offset of offsets) out += `${offset.toString().padStart(10, '0')} 00000 n \n`;
+  out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return latin1Bytes(out);
+}
+
+/** Content-stream drawing helpers. Coordinates are PDF points from bottom-left. */
+class Canvas {
+  private ops: string[] = ['0.5 w'];
+
+  text(x: number, y: number, str: string, size = 9, bold = false, maxWidth?: number): void {
+    // Helvetica averages ~0.5em per glyph — good enough to keep text inside its box
+    const fit =
+      maxWidth && str.length * size * 0.5 > maxWidth
+        ? `${str.slice(0, Math.max(0, Math.floor(maxWidth / (size * 0.5)) - 1))}…`
+        : str;
+    this.ops.push(`BT /${bold ? 'F2' : 'F1'} ${size} Tf ${x} ${y} Td ${pdfString(fit)} Tj ET`);
+  }
+
+  rect(x: number, y: number, w: number, h: number): void {
+    this.ops.push(`${x} ${y} ${w} ${h} re S`);
+  }
+
+  /** Labelled form box: small caption in the top-left corner. */
+  box(x: number, top: number, w: number, h: number, label: string): void {
+    this.rect(x, top - h, w, h);
+    this.text(x + 3, top - 8, label, 6, false, w - 6);
+  }
+
+  checkbox(x: number, y: number, checked: boolean): void {
+    this.rect(x, y, 8, 8);
+    if (checked)
+      this.ops.push(
+        `${x + 1} ${y + 1} m ${x + 7} ${y + 7} l ${x + 1} ${y + 7} m ${x + 7} ${y + 1} l S`,
+      );
+  }
+
+  toString(): string {
+    return this.ops.join('\n');
+  }
+}
+
+function money(value: number | undefined): string {
+  return value ? `$ ${value.toFixed(2)}` : '';
+}
+
+/** Mailing address as printed lines (street, then city/state/ZIP or foreign locality). */
+function addressLines(party: PayerInfo | RecipientInfo): [string, string] {
+  const foreign = party.foreign_address;
+  if (foreign) {
+    const street = [foreign.address_line1, foreign.address_line2].filter(Boolean).join(', ');
+    const locality = [foreign.city, foreign.province_or_state, foreign.postal_code, foreign.country]
+      .filter(Boolean)
+      .join(', ');
+    return [street, locality];
+  }
+  return [party.address ?? '', `${party.city ?? ''}, ${party.state ?? ''} ${party.zip_code ?? ''}`];
+}
+
+export interface CopyBOptions {
+  /** Printed in the account number box so the copy can be matched to TaxBandits. */
+  recordId?: string;
+  /** Checks the CORRECTED box. */
+  corrected?: boolean;
+}
+
+/**
+ * Render Copy B (For Recipient) of a 1099-NEC as a substitute statement.
+ * The recipient TIN is truncated with `maskTIN`, as the IRS allows on payee
+ * statements; the payer TIN may not be truncated and is printed in full, so a
+ * vaulted payer TIN must be revealed by the caller.
+ */
+export function renderNECCopyB(
+  data: Form1099NECRequest,
+  options: CopyBOptions = {},
+): Uint8Array<ArrayBuffer> {
+  const c = new Canvas();
+  const taxYear = data.tax_year ?? new Date().getFullYear().toString();
+  const L = 36; // left margin
+  const MID = 336; // left/right column split
+  const R = 576; // right margin
+
+  // Title block
+  c.text(L, 770, 'Form 1099-NEC', 14, true);
+  c.text(L + 120, 772, 'Nonemployee Compensation', 11, true);
+  c.text(R - 110, 772, `Tax year ${taxYear}`, 11, true);
+  c.text(L, 755, 'Copy B — For Recipient', 9, true);
+  c.text(L + 120, 755, 'OMB No. 1545-0116', 7);
+  c.checkbox(R - 110, 752, options.corrected ?? false);
+  c.text(R - 98, 754, 'CORRECTED (if checked)', 7);
+
+  // Left column — payer and recipient
+  const payer = data.payer;
+  const [payerStreet, payerLocality] = addressLines(payer);
+  c.box(
+    L,
+    740,
+    MID - L,
+    90,
+    "PAYER'S name, street address, city or town, state or province, country, ZIP or foreign postal code, and telephone no.",
+  );
+  c.text(L + 6, 716, payer.name, 9, true, MID - L - 12);
+  c.text(L + 6, 704, payerStreet, 9, false, MID - L - 12);
+  c.text(L + 6, 692, payerLocality, 9, false, MID - L - 12);
+  c.text(L + 6, 680, payer.phone, 9);
+
+  c.box(L, 650, 150, 35, "PAYER'S TIN");
+  c.text(L + 6, 626, payer.tin ?? '', 10);
+  c.box(L + 150, 650, MID - L - 150, 35, "RECIPIENT'S TIN");
+  c.text(L + 156, 626, maskTIN(tinLast4(data.recipient)), 10);
+
+  const recipient = data.recipient;
+  const [recipientStreet, recipientLocality] = addressLines(recipient);
+  c.box(L, 615, MID - L, 25, "RECIPIENT'S name");
+  c.text(L + 6, 596, `${recipient.first_name} ${recipient.last_name}`, 10, false, MID - L - 12);
+  c.box(L, 590, MID - L, 25, 'Street address (including apt. no.)');
+  c.text(L + 6, 571, recipientStreet, 10, false, MID - L - 12);
+  c.box(
+    L,
+    565,
+    MID - L,
+    25,
+    'City or town, state or province, country, and ZIP or foreign postal code',
+  );
+  c.text(L + 6, 546, recipientLocality, 10, false, MID - L - 12);
+  c.box(L, 540, MID - L, 25, 'Account number (see instructions)');
+  c.text(L + 6, 521, options.recordId ?? '', 8, false, MID - L - 12);
+
+  // Right column — federal boxes
+  const W = R - MID;
+  c.box(MID, 740, W, 50, '1 Nonemployee compensation');
+  c.text(MID + 6, 706, money(data.nonemployee_compensation), 12, true);
+  c.box(
+    MID,
+    690,
+    W,
+    40,
+    '2 Payer made direct sales totaling $5,000 or more of consumer products to recipient for resale',
+  );
+  c.checkbox(MID + 6, 660, false);
+  c.box(MID, 650, W, 40, '3 Excess golden parachute payments');
+  c.box(MID, 610, W, 50, '4 Federal income tax withheld');
+  c.text(
+    MID + 6,
+    576,
+    data.is_federal_tax_withheld ? money(data.federal_tax_withheld) : '',
+    12,
+    true,
+  );
+  c.box(MID, 560, W, 45, 'Keep for your records');
+
+  // Bottom row — state boxes (two lines, like the printed form)
+  const lines = data.is_state_filing ? stateLines(data) : [];
+  const third = (R - L) / 3;
+  c.box(L, 515, third, 50, '5 State tax withheld');
+  c.box(L + third, 515, third, 50, "6 State/Payer's state no.");
+  c.box(L + 2 * third, 515, third, 50, '7 State income');
+  lines.forEach((line, i) => {
+    const y = 490 - i * 14;
+    c.text(L + 6, y, money(line.state_tax_withheld), 9);
+    c.text(L + third + 6, y, `${line.state} ${line.state_id ?? ''}`.trim(), 9, false, third - 12);
+    c.text(L + 2 * third + 6, y, money(line.state_income ?? data.nonemployee_compensation), 9);
+  });
+
+  // Footer
+  c.text(
+    L,
+    440,
+    'This is important tax information and is being furnished to the IRS. If you are required to file a return, a negligence penalty',
+    7,
+  );
+  c.text(
+    L,
+    431,
+    'or other sanction may be imposed on you if this income is taxable and the IRS determines that it has not been reported.',
+    7,
+  );
+  c.text(
+    L,
+    414,
+    'Form 1099-NEC (Substitute statement)   www.irs.gov/Form1099NEC   Department of the Treasury - Internal Revenue Service',
+    7,
+  );
+
+  return buildPdf(c.toString());
+}
@@ -0,0 +1,155 @@
+import { Effect } from 'effect';
+import type {
+  Env,
+  Form1099NECRequest,
+  Form1099Request,
+  FormType,
+  TINVaultError,
+  TaxBanditsAuthError,
+  TaxBanditsBusinessError,
+  TaxBanditsCreateRequest,
+  TaxBanditsCreateResponse,
+  TaxBanditsStatusResponse,
+  TaxBanditsTransientError,
+  TaxBanditsTransmitResponse,
+  ValidationIssue,
+} from './types';
+import type { FormDefinition } from './forms';
+import {
+  buildBatchCreateRequest,
+  createSubmission,
+  getStatus,
+  tinMatch,
+  transmit,
+} from './taxbandits';
+import { dryRunSubmission } from './dry-run';
+import {
+  buildIrisTransmission,
+  compareWithTaxBandits,
+  irisTransmitter,
+  irisXml,
+  lintIrisTransmission,
+  maskIrisTINs,
+  type PayloadDifference,
+} from './iris';
+import { revealTINs } from './vault';
+import { toTinMatchOutcome, type TinMatchOutcome, type TinMatchQuery } from './tin-match';
+
+// ============================================================
+// Filing providers
+//
+// Everything that builds or sends a filing goes through a provider.
+// TaxBandits builds, files, transmits and reports status; IRIS only builds
+// (the XML an IRS A2A transmission would carry), for `?provider=iris` dry
+// runs. Submissions, records and webhooks keep TaxBandits' response shapes.
+// ============================================================
+
+export type ProviderName = 'taxbandits' | 'iris';
+
+/** Only TaxBandits can file; other providers are preview-only. */
+export const DEFAULT_PROVIDER: ProviderName = 'taxbandits';
+
+export type ProviderFailure =
+  | TaxBanditsAuthError
+  | TaxBanditsTransientError
+  | TaxBanditsBusinessError;
+
+/** What a provider would send for one submission, built but never sent. */
+export interface ProviderPreview {
+  provider: ProviderName;
+  payload: TaxBanditsCreateRequest<object> | string; // TINs masked; IRIS returns XML
+  issues: ValidationIssue[]; // `error`s would be rejected by the provider
+  comparison?: PayloadDifference[]; // against the TaxBandits payload, for other providers
+}
+
+/** A provider that can build a submission's payload. */
+export interface PayloadProvider {
+  readonly name: ProviderName;
+  readonly formTypes: readonly FormType[];
+  /**
+   * Build and lint the payload for `forms` (one payer). `tenant`'s vaulted
+   * TINs are revealed to build it.
+   */
+  preview<T extends Form1099Request>(
+    tenant: string,
+    form: FormDefinition<T>,
+    forms: T[],
+  ): Effect.Effect<ProviderPreview, TINVaultError>;
+}
+
+/** A provider that can also file, transmit and report on submissions. */
+export interface FilingProvider extends PayloadProvider {
+  createSubmission<T extends Form1099Request>(
+    tenant: string,
+    form: FormDefinition<T>,
+    forms: T[],
+  ): Effect.Effect<TaxBanditsCreateResponse, ProviderFailure | TINVaultError>;
+  transmit(
+    submissionId: string,
+    form: Pick<FormDefinition, 'paths'>,
+  ): Effect.Effect<TaxBanditsTransmitResponse, ProviderFailure>;
+  getStatus(
+    submissionId: string,
+    form: Pick<FormDefinition, 'paths'>,
+  ): Effect.Effect<TaxBanditsStatusResponse, ProviderFailure>;
+  /** IRS TIN matching: one outcome per name/TIN pair, in order. */
+  tinMatch(queries: TinMatchQuery[]): Effect.Effect<TinMatchOutcome[], ProviderFailure>;
+}
+
+export function taxBanditsProvider(env: Env): FilingProvider {
+  return {
+    name: 'taxbandits',
+    formTypes: ['1099-NEC', '1099-MISC'],
+    preview: (tenant, form, forms) =>
+      dryRunSubmission(env, tenant, form, forms).pipe(
+        Effect.map((dryRun): ProviderPreview => ({ provider: 'taxbandits', ...dryRun })),
+      ),
+    createSubmission: (tenant, form, forms) => createSubmission(env, tenant, form, forms),
+    transmit: (submissionId, form) => transmit(env, submissionId, form),
+    getStatus: (submissionId, form) => getStatus(env, submissionId, form),
+    tinMatch: (queries) =>
+      tinMatch(env, queries).pipe(
+        Effect.map((res) =>
+          queries.map((_, i) => {
+            const record = res.TINMatchingRecords?.find((r) => r.SequenceId === String(i + 1));
+            return toTinMatchOutcome(record?.ResultCode);
+          }),
+        ),
+      ),
+  };
+}
+
+/** IRS IRIS A2A XML for 1099-NEC, compared with the TaxBandits payload for the same forms. */
+export function irisProvider(env: Env): PayloadProvider {
+  return {
+    name: 'iris',
+    formTypes: ['1099-NEC'],
+    preview: (tenant, form, forms) => {
+      if (form.formType !== '1099-NEC') {
+        return Effect.dieMessage(`IRIS XML is not built for ${form.formType}`);
+      }
+      return revealTINs(env, tenant, forms).pipe(
+        Effect.map((revealed): ProviderPreview => {
+          const nec = revealed as Form1099NECRequest[];
+          const transmission = buildIrisTransmission(nec, irisTransmitter(env));
+          return {
+            provider: 'iris',
+            payload: irisXml(maskIrisTINs(transmission)),
+            issues: lintIrisTransmission(transmission),
+            comparison: compareWithTaxBandits(transmission, buildBatchCreateRequest(nec)),
+          };
+        }),
+      );
+    },
+  };
+}
+
+/** The provider that files — TaxBandits. */
+export function filingProvider(env: Env): FilingProvider {
+  return taxBanditsProvider(env);
+}
+
+/** A provider to preview with, by name. */
+export function payloadProvider(env: Env, name: ProviderName = DEFAULT_PROVIDER): PayloadProvider {
+  return name === 'iris' ? irisProvider(env) : taxBanditsProvider(env);
+}
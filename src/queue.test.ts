@@ -0,0 +1,190 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { env, runInDurableObject } from 'cloudflare:test';
+import { Effect } from 'effect';
+import { MemoryQueue, handleFilingQueue } from './queue';
+import { createFilingJob } from './jobs';
+import { getFormDefinition } from './forms';
+import type { Env, FilingQueueMessage, Form1099NECRequest } from './types';
+import type { WebhookState } from './webhook-state';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+function form(payerTin = '27-1234567', payerName = 'Acme Corp'): Form1099NECRequest {
+  return {
+    payer: {
+      name: payerName,
+      tin: payerTin,
+      tin_type: 'EIN',
+      address: '100 Main St',
+      city: 'New York',
+      state: 'NY',
+      zip_code: '10001',
+      phone: '2125551234',
+      email: 'payroll@acme.com',
+    },
+    recipient: {
+      first_name: 'Jane',
+      last_name: 'Smith',
+      tin: '412789654',
+      tin_type: 'SSN',
+      address: '200 Oak Ave',
+      city: 'Austin',
+      state: 'TX',
+      zip_code: '78701',
+    },
+    nonemployee_compensation: 5000,
+    is_federal_tax_withheld: false,
+    is_state_filing: false,
+    tax_year: '2025',
+  };
+}
+
+/** An env with the TIN vault jobs need, whose in-memory FILING_QUEUE the test drains by hand. */
+function queueEnv() {
+  const queue = new MemoryQueue<FilingQueueMessage>('filing');
+  const testEnv = {
+    ...(env as unknown as Env),
+    FILING_QUEUE: queue,
+    TIN_VAULT_KEY: 'test-queue-secret',
+  } as Env;
+  return { queue, testEnv };
+}
+
+function stub() {
+  const ns = (env as unknown as Env).WEBHOOK_STATE;
+  if (!ns) throw new Error('WEBHOOK_STATE binding missing');
+  return ns.get(ns.idFromName('global'));
+}
+
+function startJob(testEnv: Env, forms: Form1099NECRequest[], callbackUrl: string | null = null) {
+  return Effect.runPromise(
+    createFilingJob(testEnv, getFormDefinition('1099-NEC'), forms, callbackUrl),
+  );
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+// ---------------------------------------------------------------------------
+// MemoryQueue
+// ---------------------------------------------------------------------------
+describe('MemoryQueue', () => {
+  it('delivers sent messages as one batch and acks them by default', async () => {
+    const queue = new MemoryQueue<number>();
+    await queue.send(1);
+    await queue.sendBatch([{ body: 2 }, { body: 3 }]);
+    const seen: number[][] = [];
+    const delivered = await queue.drain(async (batch) => {
+      seen.push(batch.messages.map((m) => m.body));
+    });
+    expect(seen).toEqual([[1, 2, 3]]);
+    expect(delivered).toBe(3);
+    expect(queue.size).toBe(0);
+  });
+
+  it('redelivers retried messages with a higher attempt count', async () => {
+    const queue = new MemoryQueue<string>();
+    await queue.sendBatch([{ body: 'ok' }, { body: 'flaky' }]);
+    const attempts: Array<[string, number]> = [];
+    await queue.drain(async (batch) => {
+      for (const m of batch.messages) {
+        attempts.push([m.body, m.attempts]);
+        if (m.body === 'flaky' && m.attempts < 2) m.retry();
+      }
+    });
+    expect(attempts).toEqual([
+      ['ok', 1],
+      ['flaky', 1],
+      ['flaky', 2],
+    ]);
+  });
+
+  it('retries the whole batch when the consumer throws, up to maxRetries', async () => {
+    const queue = new MemoryQueue<string>('q', 2);
+    await queue.send('boom');
+    const delivered = await queue.drain(async () => {
+      throw new Error('consumer crashed');
+    });
+    expect(delivered).toBe(3);
+    expect(queue.size).toBe(0);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// handleFilingQueue — queue jobs end to end
+// ---------------------------------------------------------------------------
+describe('handleFilingQueue', () => {
+  it('sends one message per chunk and leaves the alarm out of it', async () => {
+    const { queue, testEnv } = queueEnv();
+    const job = await startJob(testEnv, [form(), form('98-7654321')]);
+    expect(job.runner).toBe('queue');
+    expect(queue.size).toBe(2);
+    const alarm = await runInDurableObject(stub(), (_: WebhookState, state) =>
+      state.storage.getAlarm(),
+    );
+    expect(alarm).toBeNull();
+  });
+
+  it('runs every chunk once and records the outcome', async () => {
+    const { queue, testEnv } = queueEnv();
+    const bad = form('98-7654321');
+    bad.nonemployee_compensation = -5;
+    const job = await startJob(testEnv, [form(), bad]);
+
+    await queue.drain((batch) => handleFilingQueue(batch, testEnv));
+    const done = await stub().getJob(job.jobId);
+    expect(done?.chunks.every((c) => c.attempts === 1)).toBe(true);
+    expect(done?.chunks[1]?.status).toBe('INVALID');
+    expect(done?.status).toBe('FAILED');
+  });
+
+  it('fails a chunk delivered again while RUNNING instead of filing it twice', async () => {
+    const { queue, testEnv } = queueEnv();
+    const job = await startJob(testEnv, [form()]);
+    const claimed = await stub().claimQueuedJobChunk(job.jobId, 0);
+    expect(claimed?.forms).toHaveLength(1);
+
+    await queue.drain((batch) => handleFilingQueue(batch, testEnv));
+    const chunk = (await stub().getJob(job.jobId))?.chunks[0];
+    expect(chunk?.status).toBe('FAILED');
+    expect(chunk?.error).toContain('Interrupted');
+    expect(chunk?.attempts).toBe(1);
+  });
+
+  it('posts the finished job to its callback URL once', async () => {
+    const fetchSpy = vi
+      .spyOn(globalThis, 'fetch')
+      .mockImplementation(async () => new Response(null, { status: 204 }));
+    const { queue, testEnv } = queueEnv();
+    const job = await startJob(
+      testEnv,
+      [form(), form('98-7654321')],
+      'https://hooks.example.com/jobs',
+    );
+
+    await queue.drain((batch) => handleFilingQueue(batch, testEnv));
+    const callbacks = fetchSpy.mock.calls.filter(
+      ([url]) => String(url) === 'https://hooks.example.com/jobs',
+    );
+    expect(callbacks).toHaveLength(1);
+    const body = JSON.parse(String(callbacks[0]?.[1]?.body)) as {
+      event: string;
+      job: { jobId: string; status: string };
+    };
+    expect(body.event).toBe('job.failed');
+    expect(body.job.jobId).toBe(job.jobId);
+    expect(JSON.stringify(body)).not.toContain('412789654');
+  });
+
+  it('acks messages for chunks that are no longer pending', async () => {
+    const { queue, testEnv } = queueEnv();
+    const job = await startJob(testEnv, [form()]);
+    await queue.drain((batch) => handleFilingQueue(batch, testEnv));
+    await queue.send({ jobId: job.jobId, chunkIndex: 0 });
+    expect(await queue.drain((batch) => handleFilingQueue(batch, testEnv))).toBe(1);
+    expect((await stub().getJob(job.jobId))?.chunks[0]?.attempts).toBe(1);
+  });
+});
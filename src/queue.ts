@@ -0,0 +1,141 @@
+import { Effect, Either } from 'effect';
+import type { Env, FilingQueueMessage } from './types';
+import type { WebhookState } from './webhook-state';
+import { notifyJobCallback, runJobChunk } from './jobs';
+import { scrubTINs } from './pii';
+import { GLOBAL_TENANT, tenantState } from './tenants';
+
+// ============================================================
+// FILING_QUEUE consumer
+//
+// Each message is one chunk of a queue job (see ./jobs). The consumer claims
+// the chunk from its tenant's WebhookState, validates and files it here — not
+// inside the Durable Object — and records the outcome. MemoryQueue stands in for the
+// binding where there is no real queue, e.g. in tests.
+// ============================================================
+
+/** Claim, run and record one chunk. Fails only when WebhookState can't be reached. */
+function runQueuedChunk(
+  env: Env,
+  stub: DurableObjectStub<WebhookState>,
+  message: FilingQueueMessage,
+): Effect.Effect<void, Error> {
+  return Effect.gen(function* () {
+    const chunk = yield* Effect.tryPromise({
+      try: () => stub.claimQueuedJobChunk(message.jobId, message.chunkIndex),
+      catch: (err) => new Error(String(err)),
+    });
+    if (!chunk) return;
+    const outcome = yield* runJobChunk(env, chunk);
+    const { job, callbackUrl } = yield* Effect.tryPromise({
+      try: () => stub.finishJobChunk(chunk, outcome),
+      catch: (err) => new Error(String(err)),
+    });
+    if (job && callbackUrl) yield* notifyJobCallback(callbackUrl, job);
+  });
+}
+
+/**
+ * Queue handler for FILING_QUEUE. Messages run one after another; one whose
+ * chunk couldn't be claimed or recorded is retried, and WebhookState fails
+ * the chunk on redelivery if it was left RUNNING.
+ */
+export async function handleFilingQueue(
+  batch: MessageBatch<FilingQueueMessage>,
+  env: Env,
+): Promise<void> {
+  const ns = env.WEBHOOK_STATE;
+  if (!ns) {
+    console.error('FILING_QUEUE message received without WEBHOOK_STATE');
+    batch.retryAll();
+    return;
+  }
+  for (const message of batch.messages) {
+    const stub = tenantState(ns, message.body.tenant ?? GLOBAL_TENANT);
+    const result = await Effect.runPromise(Effect.either(runQueuedChunk(env, stub, message.body)));
+    if (Either.isLeft(result)) {
+      console.error(
+        `Job ${message.body.jobId} chunk ${message.body.chunkIndex} not recorded:`,
+        scrubTINs(result.left.message),
+      );
+      message.retry();
+    } else {
+      message.ack();
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// In-memory stand-in
+// ---------------------------------------------------------------------------
+
+/**
+ * A Queue binding kept in memory. `send` / `sendBatch` collect messages and
+ * `drain` delivers them to a consumer the way Cloudflare Queues would:
+ * messages neither acked nor retried are acked, a throwing consumer retries
+ * the whole batch, and a message is dropped after `maxRetries` retries.
+ */
+export class MemoryQueue<Body = unknown> implements Queue<Body> {
+  private queued: Array<{ body: Body; attempts: number }> = [];
+  private sent = 0;
+
+  constructor(
+    readonly name = 'memory-queue',
+    private readonly maxRetries = 3,
+  ) {}
+
+  /** Messages waiting for the next `drain`. */
+  get size(): number {
+    return this.queued.length;
+  }
+
+  async send(body: Body): Promise<void> {
+    this.queued.push({ body, attempts: 1 });
+  }
+
+  async sendBatch(messages: Iterable<MessageSendRequest<Body>>): Promise<void> {
+    for (const message of messages) this.queued.push({ body: message.body, attempts: 1 });
+  }
+
+  /**
+   * Deliver queued messages — including retries — until none are left.
+   * Returns the number of deliveries.
+   */
+  async drain(consumer: (batch: MessageBatch<Body>) => Promise<void>): Promise<number> {
+    let delivered = 0;
+    while (this.queued.length > 0) {
+      const round = this.queued;
+      this.queued = [];
+      const retried = new Set<number>();
+      const messages = round.map(
+        (m, i): Message<Body> => ({
+          id: `${this.name}-${++this.sent}`,
+          timestamp: new Date(),
+          body: m.body,
+          attempts: m.attempts,
+          retry: () => void retried.add(i),
+          ack: () => void retried.delete(i),
+        }),
+      );
+      const batch: MessageBatch<Body> = {
+        queue: this.name,
+        messages,
+        retryAll: () => round.forEach((_, i) => retried.add(i)),
+        ackAll: () => retried.clear(),
+      };
+      try {
+        await consumer(batch);
+      } catch {
+        batch.retryAll();
+      }
+      delivered += round.length;
+      for (const i of retried) {
+        const m = round[i];
+        if (m && m.attempts <= this.maxRetries) {
+          this.queued.push({ body: m.body, attempts: m.attempts + 1 });
+        }
+      }
+    }
+    return delivered;
+  }
+}
@@ -1,5 +1,7 @@
 import { Effect, Schedule, Data } from 'effect';
 import type { Env, Form1099NECRequest } from './types';
+import { isTinRef, tinTypeOf } from './vault';
+import { taxYearRules } from './tax-year-rules';
 
 // ============================================================
 // QuickBooks Error Types — typed error channel
@@ -306,8 +308,9 @@ export function vendorTo1099(
     recipient: {
       first_name: vendor.GivenName ?? nameParts[0] ?? vendor.DisplayName,
       last_name: vendor.FamilyName ?? (nameParts.slice(1).join(' ') || vendor.DisplayName),
-      tin: tinOverride, // must come from W-9, not QB
-      tin_type: tinOverride.includes('-') ? 'EIN' : 'SSN',
+      // must come from W-9, not QB — a vaulted tin_ref is passed through as-is
+      ...(isTinRef(tinOverride) ? { tin_ref: tinOverride } : { tin: tinOverride }),
+      tin_type: tinTypeOf(tinOverride),
       address: vendor.BillAddr?.Line1 ?? '',
       city: vendor.BillAddr?.City ?? '',
       state: vendor.BillAddr?.CountrySubDivisionCode ?? '',
@@ -328,9 +331,9 @@ export interface QBGenerateInput {
   userId: string;
   payer: Form1099NECRequest['payer'];
   taxYear: string;
-  /** Map of QB vendor ID → full TIN (from W-9 collection). */
+  /** Map of QB vendor ID → full TIN (from W-9 collection) or its `tin_ref`. */
   vendorTins: Record<string, string>;
-  /** Minimum payment threshold (default: 600). */
+  /** Minimum payment threshold (default: the tax year's 1099-NEC threshold). */
   threshold?: number;
 }
 
@@ -345,7 +348,7 @@ export function generateFromQB(
   env: Env,
   input: QBGenerateInput,
 ): Effect.Effect<QBGenerateResult, QBAuthError | QBTransientError | QBBusinessError> {
-  const threshold = input.threshold ?? 600;
+  const threshold = input.threshold ?? taxYearRules(input.taxYear).necThreshold;
 
   return Effect.gen(function* () {
     const tokens = yield* getValidToken(env, input.userId);
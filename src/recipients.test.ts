@@ -0,0 +1,351 @@
+import { describe, it, expect } from 'vitest';
+import { env, createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import { Effect, Either } from 'effect';
+import worker from './index';
+import { persistFormRecords } from './form-records';
+import { getFormDefinition } from './forms';
+import { NO_OWNER } from './outbound-webhooks';
+import { priorYearFilings, recipientFilings, resolveRecipientProfiles } from './recipients';
+import { tenantState } from './tenants';
+import type { Env, Form1099NECRequest, TaxBanditsCreateResponse } from './types';
+import type { RecipientProfile, WebhookState } from './webhook-state';
+import type { RecipientProfileView } from './recipients';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const testEnv = env as unknown as Env;
+
+function ns(): DurableObjectNamespace<WebhookState> {
+  const binding = testEnv.WEBHOOK_STATE;
+  if (!binding) throw new Error('WEBHOOK_STATE binding missing');
+  return binding;
+}
+
+async function call(path: string, init: { method?: string; body?: unknown } = {}) {
+  const ctx = createExecutionContext();
+  const res = await worker.fetch(
+    new Request(`http://localhost${path}`, {
+      method: init.method ?? 'GET',
+      headers: { 'Content-Type': 'application/json' },
+      body: init.body === undefined ? undefined : JSON.stringify(init.body),
+    }),
+    testEnv,
+    ctx,
+  );
+  await waitOnExecutionContext(ctx);
+  return res;
+}
+
+const PAYER = {
+  name: 'Acme Corp',
+  tin: '27-1234567',
+  tin_type: 'EIN' as const,
+  address: '100 Main St',
+  city: 'New York',
+  state: 'NY',
+  zip_code: '10001',
+  phone: '2125551234',
+  email: 'payroll@acme.com',
+  business_type: 'CORP' as const,
+};
+
+const RECIPIENT = {
+  first_name: 'Jane',
+  last_name: 'Smith',
+  tin: '412789654',
+  tin_type: 'SSN' as const,
+  address: '200 Oak Ave',
+  city: 'Austin',
+  state: 'TX',
+  zip_code: '78701',
+};
+
+/** A directory entry under a fresh payer profile in `tenant`. */
+async function seed(tenant: string): Promise<RecipientProfile> {
+  const stub = tenantState(ns(), tenant);
+  const payer = await stub.createPayerProfile({
+    payer: PAYER,
+    kindOfEmployer: null,
+    kindOfPayer: null,
+    stateIds: {},
+  });
+  return stub.createRecipientProfile({
+    payerId: payer.payerId,
+    recipient: RECIPIENT,
+    w9RequestId: null,
+  });
+}
+
+function necForm(recipientId: string, amount: number, taxYear: string): Form1099NECRequest {
+  return {
+    payer: PAYER,
+    recipient: RECIPIENT,
+    nonemployee_compensation: amount,
+    is_federal_tax_withheld: false,
+    is_state_filing: false,
+    tax_year: taxYear,
+    recipient_id: recipientId,
+  };
+}
+
+function created(submissionId: string, recordIds: string[]): TaxBanditsCreateResponse {
+  return {
+    StatusCode: 200,
+    StatusName: 'Ok',
+    StatusMessage: 'Successful API call',
+    SubmissionId: submissionId,
+    FormRecords: recordIds.map((recordId, i) => ({
+      RecordId: recordId,
+      RecordStatus: recordId ? 'Created' : 'Failed',
+      Sequence: String(i + 1),
+      Errors: null,
+    })),
+    Errors: null,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Address history and filed amounts (WebhookState)
+// ---------------------------------------------------------------------------
+describe('recipient directory storage', () => {
+  it('adds an address to the history only when it changes', async () => {
+    const stub = tenantState(ns(), 'user:recipient-addresses');
+    const entry = await seed('user:recipient-addresses');
+    expect(entry.addresses).toHaveLength(1);
+
+    const input = { payerId: entry.payerId, w9RequestId: null };
+    await stub.updateRecipientProfile(entry.recipientId, { ...input, recipient: RECIPIENT });
+    const moved = await stub.updateRecipientProfile(entry.recipientId, {
+      ...input,
+      recipient: { ...RECIPIENT, address: '9 Elm St', zip_code: '78702' },
+    });
+    expect(moved?.recipient.address).toBe('9 Elm St');
+    expect(moved?.addresses.map((a) => a.address)).toEqual(['9 Elm St', '200 Oak Ave']);
+    expect(
+      await stub.updateRecipientProfile('rcp_missing', { ...input, recipient: RECIPIENT }),
+    ).toBe(null);
+  });
+
+  it('records accepted filings, replacing a tax year on refiling', async () => {
+    const tenant = 'user:recipient-filings';
+    const owner = { ...NO_OWNER, userId: 'recipient-filings' };
+    const entry = await seed(tenant);
+    const nec = getFormDefinition('1099-NEC');
+
+    await Effect.runPromise(
+      persistFormRecords(
+        testEnv,
+        nec,
+        created('sub-2023', ['rec-1']),
+        [necForm(entry.recipientId, 4000, '2023')],
+        [],
+        false,
+        owner,
+      ),
+    );
+    await Effect.runPromise(
+      persistFormRecords(
+        testEnv,
+        nec,
+        created('sub-2023b', ['rec-2']),
+        [necForm(entry.recipientId, 5000, '2023')],
+        [],
+        true,
+        owner,
+      ),
+    );
+    await Effect.runPromise(
+      persistFormRecords(
+        testEnv,
+        nec,
+        created('sub-2024', ['rec-3']),
+        [necForm(entry.recipientId, 6000, '2024')],
+        [],
+        false,
+        owner,
+      ),
+    );
+
+    const [stored] = await tenantState(ns(), tenant).getRecipientProfiles([entry.recipientId]);
+    expect(stored?.filings.map((f) => [f.taxYear, f.amount, f.submissionId])).toEqual([
+      ['2024', 6000, 'sub-2024'],
+      ['2023', 5000, 'sub-2023b'],
+    ]);
+
+    const [priorTo2025, unrelated] = await Effect.runPromise(
+      priorYearFilings(testEnv, owner, [
+        necForm(entry.recipientId, 7000, '2025'),
+        { ...necForm(entry.recipientId, 7000, '2025'), recipient_id: undefined },
+      ]),
+    );
+    expect(priorTo2025?.map((f) => f.taxYear)).toEqual(['2024', '2023']);
+    expect(unrelated).toEqual([]);
+    const [priorTo2024] = await Effect.runPromise(
+      priorYearFilings(testEnv, owner, [necForm(entry.recipientId, 7000, '2024')]),
+    );
+    expect(priorTo2024?.map((f) => f.taxYear)).toEqual(['2023']);
+  });
+
+  it('only records forms TaxBandits accepted that came from the directory', () => {
+    const nec = getFormDefinition('1099-NEC');
+    const forms = [
+      necForm('rcp_a', 100, '2024'),
+      { ...necForm('rcp_b', 200, '2024'), recipient_id: undefined },
+      necForm('rcp_c', 300, '2024'),
+    ];
+    expect(recipientFilings(nec, created('sub', ['rec-a', 'rec-b', '']), forms)).toEqual([
+      {
+        recipientId: 'rcp_a',
+        taxYear: '2024',
+        formType: '1099-NEC',
+        amount: 100,
+        submissionId: 'sub',
+      },
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// recipient_id in form bodies
+// ---------------------------------------------------------------------------
+describe('resolveRecipientProfiles', () => {
+  const tenant = 'user:recipient-resolve';
+  const stub = () => tenantState(ns(), tenant);
+
+  it("fills the recipient and the recipient's payer_id, keeping recipient_id", async () => {
+    const entry = await seed(tenant);
+    const single = await Effect.runPromise(
+      resolveRecipientProfiles(stub(), { recipient_id: entry.recipientId, tax_year: '2024' }),
+    );
+    expect(single).toEqual({
+      recipient_id: entry.recipientId,
+      recipient: RECIPIENT,
+      payer_id: entry.payerId,
+      tax_year: '2024',
+    });
+
+    const batch = await Effect.runPromise(
+      resolveRecipientProfiles(stub(), {
+        forms: [{ recipient_id: entry.recipientId, payer_id: entry.payerId }, { payer: PAYER }],
+      }),
+    );
+    expect(batch).toEqual({
+      forms: [
+        { recipient_id: entry.recipientId, recipient: RECIPIENT, payer_id: entry.payerId },
+        { payer: PAYER },
+      ],
+    });
+  });
+
+  it('fails for unknown, malformed or conflicting recipient references', async () => {
+    const entry = await seed(tenant);
+    const reason = async (raw: unknown, withStub = true) => {
+      const s = withStub ? stub() : undefined;
+      const result = await Effect.runPromise(Effect.either(resolveRecipientProfiles(s, raw)));
+      return Either.isLeft(result) ? result.left.reason : null;
+    };
+    expect(await reason({ recipient_id: 'rcp_missing' })).toBe('not_found');
+    expect(await reason({ recipient_id: 7 })).toBe('invalid');
+    expect(await reason({ recipient_id: entry.recipientId, recipient: RECIPIENT })).toBe('invalid');
+    expect(await reason({ recipient_id: entry.recipientId, payer: PAYER })).toBe('invalid');
+    expect(await reason({ recipient_id: entry.recipientId, payer_id: 'payer_other' })).toBe(
+      'invalid',
+    );
+    expect(await reason({ recipient_id: entry.recipientId }, false)).toBe('unavailable');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// /recipients routes and recipient_id on filing routes (HTTP)
+// ---------------------------------------------------------------------------
+describe('recipient directory (HTTP)', () => {
+  async function payerId(): Promise<string> {
+    const res = await call('/payers', { method: 'POST', body: { payer: PAYER } });
+    return (await res.json<{ data: { payerId: string } }>()).data.payerId;
+  }
+
+  it('creates, lists, replaces and deletes a recipient, masking a plain TIN', async () => {
+    const payer = await payerId();
+    const res = await call('/recipients', {
+      method: 'POST',
+      body: { payer_id: payer, recipient: RECIPIENT },
+    });
+    expect(res.status).toBe(201);
+    const { data } = await res.json<{ data: RecipientProfileView }>();
+    expect(data.recipientId).toMatch(/^rcp_/);
+    expect(data.recipient.tin).toBe('***9654');
+    expect(data).toMatchObject({ payerId: payer, w9Status: null, filings: [] });
+
+    const listed = await call(`/recipients?payer_id=${payer}`);
+    const list = await listed.json<{ data: RecipientProfileView[] }>();
+    expect(list.data.map((r) => r.recipientId)).toEqual([data.recipientId]);
+
+    const replaced = await call(`/recipients/${data.recipientId}`, {
+      method: 'PUT',
+      body: { payer_id: payer, recipient: { ...RECIPIENT, address: '9 Elm St' } },
+    });
+    expect(replaced.status).toBe(200);
+    const updated = (await replaced.json<{ data: RecipientProfileView }>()).data;
+    expect(updated.addresses.map((a) => a.address)).toEqual(['9 Elm St', '200 Oak Ave']);
+
+    expect((await call(`/recipients/${data.recipientId}`)).status).toBe(200);
+    expect((await call(`/recipients/${data.recipientId}`, { method: 'DELETE' })).status).toBe(200);
+    expect((await call(`/recipients/${data.recipientId}`)).status).toBe(404);
+    const missing = await call(`/recipients/${data.recipientId}`, {
+      method: 'PUT',
+      body: { payer_id: payer, recipient: RECIPIENT },
+    });
+    expect(missing.status).toBe(404);
+  });
+
+  it('rejects an invalid recipient or an unknown payer_id', async () => {
+    const invalid = await call('/recipients', {
+      method: 'POST',
+      body: { payer_id: await payerId(), recipient: { ...RECIPIENT, tin: '12' } },
+    });
+    expect(invalid.status).toBe(400);
+    const unknown = await call('/recipients', {
+      method: 'POST',
+      body: { payer_id: 'payer_missing', recipient: RECIPIENT },
+    });
+    expect(unknown.status).toBe(422);
+  });
+
+  it('answers filing routes with 422 for an unknown recipient_id and 400 for a second recipient', async () => {
+    const form = { nonemployee_compensation: 5000, is_federal_tax_withheld: false };
+    const unknown = await call('/validate', {
+      method: 'POST',
+      body: { ...form, is_state_filing: false, recipient_id: 'rcp_x' },
+    });
+    expect(unknown.status).toBe(422);
+    expect((await unknown.json<{ error: string }>()).error).toBe('Unknown recipient_id: rcp_x');
+
+    const both = await call('/file/batch', {
+      method: 'POST',
+      body: { forms: [{ ...form, recipient_id: 'rcp_x', recipient: RECIPIENT }] },
+    });
+    expect(both.status).toBe(400);
+  });
+
+  it('validates a form filed by recipient_id with the payer it is filed under', async () => {
+    const payer = await payerId();
+    const created = await call('/recipients', {
+      method: 'POST',
+      body: { payer_id: payer, recipient: RECIPIENT },
+    });
+    const { data } = await created.json<{ data: RecipientProfileView }>();
+    const res = await call('/validate', {
+      method: 'POST',
+      body: {
+        recipient_id: data.recipientId,
+        nonemployee_compensation: 5000,
+        is_federal_tax_withheld: false,
+        is_state_filing: false,
+      },
+    });
+    // The AI binding may be unavailable in tests; the body still parsed
+    expect(res.status).toBe(200);
+  });
+});
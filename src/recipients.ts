@@ -0,0 +1,226 @@
+import { Effect } from 'effect';
+import type { z } from 'zod';
+import { RecipientProfileError } from './types';
+import type { Env, Form1099Request, TINVaultError, TaxBanditsCreateResponse } from './types';
+import type { FormDefinition } from './forms';
+import type {
+  RecipientFiling,
+  RecipientProfile,
+  RecipientProfileInput,
+  W9Request,
+  WebhookState,
+} from './webhook-state';
+import type { RecipientProfileBodySchema } from './schemas';
+import type { SubmissionOwner } from './outbound-webhooks';
+import { maskTIN } from './pii';
+import { tenantOf, tenantState } from './tenants';
+import { tokenizeTIN } from './vault';
+import { w9RequestStatuses } from './w9';
+
+// ============================================================
+// Recipient directory — the contractors a payer files for every year
+//
+// Each recipient belongs to one payer profile. Filing routes accept
+// `recipient_id` instead of a `recipient` block; the form is filed under the
+// recipient's payer, and its amount is recorded against the recipient once
+// TaxBandits accepts it. Those amounts give the AI reviewer the prior years
+// to compare against.
+// ============================================================
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** How many tax years back the AI reviewer sees. */
+const PRIOR_YEARS = 3;
+
+/** A directory entry as the API returns it, with its linked W-9's status. */
+export type RecipientProfileView = RecipientProfile & {
+  w9Status: W9Request['status'] | null;
+};
+
+/**
+ * A validated recipient body as stored. The TIN is vaulted when the TIN vault
+ * is configured, and kept as sent otherwise — like payer profiles.
+ */
+export function recipientProfileInput(
+  env: Env,
+  tenant: string,
+  body: z.infer<typeof RecipientProfileBodySchema>,
+): Effect.Effect<RecipientProfileInput, TINVaultError> {
+  const entry = { payerId: body.payer_id, w9RequestId: body.w9_request_id ?? null };
+  const { tin, ...recipient } = body.recipient;
+  if (!tin || !env.TIN_VAULT_KEY || !env.WEBHOOK_STATE) {
+    return Effect.succeed({ ...entry, recipient: body.recipient });
+  }
+  return tokenizeTIN(env, tenant, tin, recipient.tin_type).pipe(
+    Effect.map((tinRef) => ({ ...entry, recipient: { ...recipient, tin_ref: tinRef } })),
+  );
+}
+
+/**
+ * Entries as the API returns them: a TIN kept outside the vault is masked and
+ * linked W-9 requests are looked up, among `tenant`'s, for their status.
+ */
+export function recipientProfileViews(
+  env: Env,
+  tenant: string,
+  profiles: RecipientProfile[],
+): Effect.Effect<RecipientProfileView[]> {
+  const requestIds = profiles.flatMap((p) => (p.w9RequestId ? [p.w9RequestId] : []));
+  return w9RequestStatuses(env, tenant, requestIds).pipe(
+    Effect.map((statuses) =>
+      profiles.map((profile) => ({
+        ...profile,
+        recipient: profile.recipient.tin
+          ? { ...profile.recipient, tin: maskTIN(profile.recipient.tin) }
+          : profile.recipient,
+        w9Status: profile.w9RequestId ? (statuses[profile.w9RequestId] ?? null) : null,
+      })),
+    ),
+  );
+}
+
+/** Fill a raw form from a directory entry: its recipient, filed under its payer profile. */
+export function applyRecipientProfile(form: JsonObject, profile: RecipientProfile): void {
+  form['recipient'] = structuredClone(profile.recipient);
+  form['payer_id'] = profile.payerId;
+}
+
+/** Forms of a single-form body (the body itself) or a batch body (`forms[]`). */
+function formsOf(body: JsonObject): JsonObject[] {
+  const forms = Array.isArray(body['forms']) ? body['forms'] : [body];
+  return forms.filter(isObject);
+}
+
+function invalid(message: string) {
+  return Effect.fail(new RecipientProfileError({ reason: 'invalid', message }));
+}
+
+/**
+ * Replace every `recipient_id` in a raw form body with that directory entry
+ * from `stub`, the caller's WebhookState. The form gets the entry's payer as
+ * `payer_id` (resolved by `resolvePayerProfiles` next) and keeps its
+ * `recipient_id`. Bodies without recipient IDs are returned untouched.
+ */
+export function resolveRecipientProfiles(
+  stub: DurableObjectStub<WebhookState> | undefined,
+  raw: unknown,
+): Effect.Effect<unknown, RecipientProfileError> {
+  if (!isObject(raw)) return Effect.succeed(raw);
+  const body = structuredClone(raw);
+  const referencing = formsOf(body).filter((f) => f['recipient_id'] !== undefined);
+  if (referencing.length === 0) return Effect.succeed(raw);
+
+  return Effect.gen(function* () {
+    const ids: string[] = [];
+    for (const form of referencing) {
+      const recipientId = form['recipient_id'];
+      if (typeof recipientId !== 'string' || form['recipient'] !== undefined) {
+        return yield* invalid('recipient_id must be a string and replaces recipient');
+      }
+      if (form['payer'] !== undefined) {
+        return yield* invalid(
+          "recipient_id files under the recipient's payer profile — use payer_id, not payer",
+        );
+      }
+      ids.push(recipientId);
+    }
+    if (!stub) {
+      return yield* Effect.fail(
+        new RecipientProfileError({
+          reason: 'unavailable',
+          message: 'The recipient directory is not configured',
+        }),
+      );
+    }
+    const found = yield* Effect.tryPromise({
+      try: () => stub.getRecipientProfiles(ids),
+      catch: (err) =>
+        new RecipientProfileError({
+          reason: 'unavailable',
+          message: err instanceof Error ? err.message : String(err),
+        }),
+    });
+    const profiles = new Map(found.map((p) => [p.recipientId, p]));
+    for (const form of referencing) {
+      const recipientId = String(form['recipient_id']);
+      const profile = profiles.get(recipientId);
+      if (!profile) {
+        return yield* Effect.fail(
+          new RecipientProfileError({
+            reason: 'not_found',
+            message: `Unknown recipient_id: ${recipientId}`,
+          }),
+        );
+      }
+      if (form['payer_id'] !== undefined && form['payer_id'] !== profile.payerId) {
+        return yield* invalid(`Recipient ${recipientId} is filed under ${profile.payerId}`);
+      }
+      applyRecipientProfile(form, profile);
+    }
+    return body;
+  });
+}
+
+function taxYearOf(data: Form1099Request): string {
+  return data.tax_year ?? new Date().getFullYear().toString();
+}
+
+/**
+ * For each form filed from the directory, its recipient's amounts for the
+ * preceding tax years (newest first) from `owner`'s tenant — the AI
+ * reviewer's prior-year context. Empty for other forms, and for every form
+ * if the directory can't be read.
+ */
+export function priorYearFilings(
+  env: Env,
+  owner: SubmissionOwner,
+  forms: Form1099Request[],
+): Effect.Effect<RecipientFiling[][]> {
+  const none = forms.map((): RecipientFiling[] => []);
+  const ns = env.WEBHOOK_STATE;
+  const ids = forms.flatMap((f) => (f.recipient_id ? [f.recipient_id] : []));
+  if (!ns || ids.length === 0) return Effect.succeed(none);
+
+  return Effect.tryPromise(() => tenantState(ns, tenantOf(owner)).getRecipientProfiles(ids)).pipe(
+    Effect.map((profiles) => {
+      const byId = new Map(profiles.map((p) => [p.recipientId, p]));
+      return forms.map((f) => {
+        const year = Number(taxYearOf(f));
+        const filings = f.recipient_id ? (byId.get(f.recipient_id)?.filings ?? []) : [];
+        return filings.filter((x) => {
+          const prior = Number(x.taxYear);
+          return prior < year && prior >= year - PRIOR_YEARS;
+        });
+      });
+    }),
+    Effect.orElseSucceed(() => none),
+  );
+}
+
+/**
+ * The directory amounts a created submission records: one per form filed with
+ * a `recipient_id` that TaxBandits accepted (returned a RecordId for).
+ */
+export function recipientFilings<T extends Form1099Request>(
+  form: FormDefinition<T>,
+  created: TaxBanditsCreateResponse,
+  forms: T[],
+): Array<Omit<RecipientFiling, 'filedAt'> & { recipientId: string }> {
+  return (created.FormRecords ?? []).flatMap((record, i) => {
+    const data = forms[i];
+    if (!data?.recipient_id || !record.RecordId) return [];
+    return [
+      {
+        recipientId: data.recipient_id,
+        taxYear: taxYearOf(data),
+        formType: form.formType,
+        amount: form.federalAmount(data),
+        submissionId: created.SubmissionId,
+      },
+    ];
+  });
+}
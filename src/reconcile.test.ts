@@ -0,0 +1,201 @@
+import { describe, it, expect } from 'vitest';
+import { env, runInDurableObject } from 'cloudflare:test';
+import { Effect } from 'effect';
+import { reconcileSubmissions, RECONCILE_STALE_MINUTES } from './reconcile';
+import { filingProvider, type FilingProvider } from './providers';
+import { TaxBanditsTransientError } from './types';
+import type { Env, Form1099NECRequest, TaxBanditsStatusResponse } from './types';
+import type { WebhookState } from './webhook-state';
+import { registerSubmission } from './tenants';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const testEnv = env as unknown as Env;
+
+function ns() {
+  const binding = testEnv.WEBHOOK_STATE;
+  if (!binding) throw new Error('WEBHOOK_STATE binding missing');
+  return binding;
+}
+
+function stub(tenant = 'global') {
+  return ns().get(ns().idFromName(tenant));
+}
+
+/** Track a submission with one CREATED record in `tenant`, last updated `minutesAgo`. */
+async function seedSubmission(
+  submissionId: string,
+  minutesAgo: number,
+  status = 'CREATED',
+  tenant = 'global',
+) {
+  await registerSubmission(ns(), submissionId, tenant);
+  await stub(tenant).trackSubmission(submissionId, 'FORM1099NEC');
+  await stub(tenant).storeFormRecords(submissionId, 'FORM1099NEC', [
+    {
+      sequence: 1,
+      recordId: `${submissionId}-rec`,
+      recipientName: 'Jane Smith',
+      recipientTin: '***9654',
+      amount: 5000,
+      federalTaxWithheld: 0,
+      status: 'CREATED',
+      validationIssues: [],
+      errors: [],
+      data: {} as Form1099NECRequest,
+    },
+  ]);
+  await runInDurableObject(stub(tenant), (_: WebhookState, state) => {
+    state.storage.sql.exec(
+      `UPDATE submissions SET status = ?, updated_at = datetime('now', ?) WHERE submission_id = ?`,
+      status,
+      `-${minutesAgo} minutes`,
+      submissionId,
+    );
+  });
+}
+
+/** TaxBandits with a local status lookup: one record per submission, calls recorded. */
+function stubProvider(recordStatus: string, errors: TaxBanditsStatusResponse['Errors'] = null) {
+  const calls: string[] = [];
+  const provider: FilingProvider = {
+    ...filingProvider(testEnv),
+    getStatus: (submissionId) => {
+      calls.push(submissionId);
+      return Effect.succeed({
+        StatusCode: 200,
+        StatusName: 'Ok',
+        StatusMessage: 'Successful API call',
+        SubmissionId: submissionId,
+        FormStatus: recordStatus,
+        FormRecords: [
+          { RecordId: `${submissionId}-rec`, RecordStatus: recordStatus, Errors: errors },
+        ],
+        Errors: null,
+      });
+    },
+  };
+  return { provider, calls };
+}
+
+const failingProvider: FilingProvider = {
+  ...filingProvider(testEnv),
+  getStatus: () => Effect.fail(new TaxBanditsTransientError({ status: 503, message: 'down' })),
+};
+
+function createMockAuditLog() {
+  const points: Array<{ indexes?: string[]; blobs?: string[]; doubles?: number[] }> = [];
+  return {
+    binding: {
+      writeDataPoint(point: { indexes?: string[]; blobs?: string[]; doubles?: number[] }) {
+        points.push(point);
+      },
+    } as unknown as AnalyticsEngineDataset,
+    points,
+  };
+}
+
+const STALE = RECONCILE_STALE_MINUTES + 5;
+
+// ---------------------------------------------------------------------------
+// reconcileSubmissions()
+// ---------------------------------------------------------------------------
+describe('reconcileSubmissions', () => {
+  it('applies a missed webhook: submission status, record status and errors', async () => {
+    await seedSubmission('sub-missed', STALE);
+    const { provider } = stubProvider('Rejected', [
+      { Id: 'F1099NEC-502-01', Name: 'TIN', Message: 'TIN mismatch', Type: 'Error' },
+    ]);
+
+    const summary = await Effect.runPromise(reconcileSubmissions(testEnv, provider));
+    expect(summary).toEqual({
+      checked: 1,
+      drifted: 1,
+      statusesChanged: 1,
+      recordsChanged: 1,
+      failed: 0,
+    });
+    expect((await stub().getSubmission('sub-missed'))?.status).toBe('REJECTED');
+    const [record] = await stub().listFormRecords('sub-missed');
+    expect(record?.status).toBe('REJECTED');
+    expect(record?.errors).toEqual([{ code: 'F1099NEC-502-01', message: 'TIN mismatch' }]);
+  });
+
+  it("sweeps every tenant's submissions, least recently checked first", async () => {
+    await seedSubmission('sub-global', STALE);
+    await seedSubmission('sub-tenant', STALE + 30, 'CREATED', 'user:u1');
+    const { provider, calls } = stubProvider('Accepted');
+
+    const summary = await Effect.runPromise(reconcileSubmissions(testEnv, provider));
+    expect(calls).toEqual(['sub-tenant', 'sub-global']);
+    expect(summary.statusesChanged).toBe(2);
+    expect((await stub('user:u1').getSubmission('sub-tenant'))?.status).toBe('ACCEPTED');
+    expect(await stub().getSubmission('sub-tenant')).toBeNull();
+  });
+
+  it('leaves recent and final submissions alone', async () => {
+    await seedSubmission('sub-recent', 5);
+    await seedSubmission('sub-accepted', STALE, 'ACCEPTED');
+    const { provider, calls } = stubProvider('Accepted');
+
+    const summary = await Effect.runPromise(reconcileSubmissions(testEnv, provider));
+    expect(calls).toEqual([]);
+    expect(summary.checked).toBe(0);
+  });
+
+  it('counts an unchanged submission as checked and skips it next run', async () => {
+    await seedSubmission('sub-same', STALE);
+    const { provider, calls } = stubProvider('Created');
+
+    const first = await Effect.runPromise(reconcileSubmissions(testEnv, provider));
+    expect(first).toMatchObject({ checked: 1, drifted: 0 });
+    await Effect.runPromise(reconcileSubmissions(testEnv, provider));
+    expect(calls).toEqual(['sub-same']);
+  });
+
+  it('moves a transmitted submission on without an IRS answer', async () => {
+    await seedSubmission('sub-sent', STALE);
+    const { provider } = stubProvider('Transmitted');
+    await Effect.runPromise(reconcileSubmissions(testEnv, provider));
+    expect((await stub().getSubmission('sub-sent'))?.status).toBe('TRANSMITTED');
+  });
+
+  it('keeps a submission stale when TaxBandits fails, for the next run', async () => {
+    await seedSubmission('sub-down', STALE);
+    const audit = createMockAuditLog();
+    const summary = await Effect.runPromise(
+      reconcileSubmissions({ ...testEnv, AUDIT_LOG: audit.binding }, failingProvider),
+    );
+    expect(summary).toMatchObject({ checked: 0, failed: 1 });
+    expect(audit.points).toContainEqual({
+      indexes: ['sub-down'],
+      blobs: ['reconcile-failed', 'FORM1099NEC', 'down'],
+    });
+
+    const { provider, calls } = stubProvider('Accepted');
+    await Effect.runPromise(reconcileSubmissions(testEnv, provider));
+    expect(calls).toEqual(['sub-down']);
+  });
+
+  it('writes drift metrics to the audit log', async () => {
+    await seedSubmission('sub-metrics', STALE);
+    const audit = createMockAuditLog();
+    const { provider } = stubProvider('Accepted');
+
+    await Effect.runPromise(
+      reconcileSubmissions({ ...testEnv, AUDIT_LOG: audit.binding }, provider),
+    );
+    expect(audit.points).toContainEqual({
+      indexes: ['sub-metrics'],
+      blobs: ['reconcile', 'FORM1099NEC', 'ACCEPTED'],
+      doubles: [1],
+    });
+    expect(audit.points).toContainEqual({
+      indexes: ['reconcile'],
+      blobs: ['reconcile-run'],
+      doubles: [1, 1, 1, 1, 0],
+    });
+  });
+});
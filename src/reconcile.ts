@@ -0,0 +1,176 @@
+import { Effect } from 'effect';
+import type { Env } from './types';
+import { formTypeFromTaxBandits, getFormDefinition } from './forms';
+import { filingProvider, type FilingProvider } from './providers';
+import { submissionStatus } from './webhook';
+import { scrubTINs } from './pii';
+import type { StaleSubmissionRecord, SubmissionRecord, WebhookState } from './webhook-state';
+import { GLOBAL_TENANT, globalState, tenantState } from './tenants';
+
+// ============================================================
+// Status reconciliation
+//
+// Submission statuses move when TaxBandits calls /webhook/status. A missed
+// webhook would leave a submission CREATED forever, so the cron trigger
+// polls TaxBandits for submissions that haven't changed in a while and
+// applies what it finds: overall status, record statuses and record errors.
+// Every tenant's WebhookState is swept; the least recently checked
+// submissions go first, whichever tenant holds them.
+// ============================================================
+
+/** A submission is stale once it hasn't changed or been checked for this long. */
+export const RECONCILE_STALE_MINUTES = 60;
+
+/** Submissions polled per cron run; the least recently checked go first. */
+export const RECONCILE_BATCH_SIZE = 50;
+
+/** TaxBandits status calls in flight at once. */
+const RECONCILE_CONCURRENCY = 5;
+
+/** One cron run: how many submissions were polled and how many had drifted. */
+export interface ReconcileSummary {
+  checked: number;
+  drifted: number; // submissions whose status or records differed from TaxBandits
+  statusesChanged: number;
+  recordsChanged: number;
+  failed: number; // status calls that failed; retried on the next run
+}
+
+type Outcome =
+  | { kind: 'checked'; statusChanged: boolean; recordsChanged: number }
+  | { kind: 'failed' };
+
+/** Record a submission that couldn't be checked; it stays stale for the next run. */
+function failed(env: Env, submission: SubmissionRecord, reason: string): Outcome {
+  env.AUDIT_LOG?.writeDataPoint({
+    indexes: [submission.submissionId],
+    blobs: ['reconcile-failed', submission.formType, scrubTINs(reason)],
+  });
+  return { kind: 'failed' };
+}
+
+function reconcileOne(
+  env: Env,
+  provider: FilingProvider,
+  stub: DurableObjectStub<WebhookState>,
+  submission: SubmissionRecord,
+): Effect.Effect<Outcome> {
+  const formType = formTypeFromTaxBandits(submission.formType);
+  if (!formType) {
+    return Effect.succeed(failed(env, submission, `unknown form type ${submission.formType}`));
+  }
+  return provider.getStatus(submission.submissionId, getFormDefinition(formType)).pipe(
+    Effect.flatMap((res) => {
+      const records = (res.FormRecords ?? []).map((r) => ({
+        RecordId: r.RecordId,
+        Status: r.RecordStatus,
+        Errors: r.Errors,
+      }));
+      const status =
+        records.length > 0 ? submissionStatus(records.map((r) => r.Status)) : submission.status;
+      return Effect.promise(() =>
+        stub.reconcileSubmission(submission.submissionId, status, records),
+      );
+    }),
+    Effect.map((drift): Outcome => {
+      if (drift?.statusChanged && env.AUDIT_LOG) {
+        env.AUDIT_LOG.writeDataPoint({
+          indexes: [submission.submissionId],
+          blobs: ['reconcile', submission.formType, drift.status],
+          doubles: [drift.recordsChanged],
+        });
+      }
+      return {
+        kind: 'checked',
+        statusChanged: drift?.statusChanged ?? false,
+        recordsChanged: drift?.recordsChanged ?? 0,
+      };
+    }),
+    Effect.catchAll((err) => Effect.sync(() => failed(env, submission, err.message))),
+  );
+}
+
+interface StaleSubmission {
+  stub: DurableObjectStub<WebhookState>; // the tenant's WebhookState holding it
+  submission: StaleSubmissionRecord;
+}
+
+/**
+ * Up to `limit` stale submissions across tenants, least recently checked
+ * first. Each tenant offers its own `limit` oldest, so a tenant with many
+ * submissions that never settle can't starve the others.
+ */
+function staleSubmissions(
+  ns: DurableObjectNamespace<WebhookState>,
+  limit: number,
+): Effect.Effect<StaleSubmission[]> {
+  return Effect.gen(function* () {
+    const tenants = yield* Effect.promise(() => globalState(ns).listTenants());
+    const perTenant = yield* Effect.forEach(
+      [GLOBAL_TENANT, ...tenants],
+      (tenant) => {
+        const stub = tenantState(ns, tenant);
+        return Effect.promise(() => stub.listStaleSubmissions(RECONCILE_STALE_MINUTES, limit)).pipe(
+          Effect.map((found) => found.map((submission) => ({ stub, submission }))),
+        );
+      },
+      { concurrency: RECONCILE_CONCURRENCY },
+    );
+    return perTenant
+      .flat()
+      .sort((a, b) => a.submission.lastCheckedAt.localeCompare(b.submission.lastCheckedAt))
+      .slice(0, limit);
+  });
+}
+
+/**
+ * Poll TaxBandits for up to RECONCILE_BATCH_SIZE stale submissions and apply
+ * their current status. A failed call leaves the submission stale, so the
+ * next run tries it again.
+ */
+export function reconcileSubmissions(
+  env: Env,
+  provider: FilingProvider = filingProvider(env),
+): Effect.Effect<ReconcileSummary> {
+  const ns = env.WEBHOOK_STATE;
+  const empty: ReconcileSummary = {
+    checked: 0,
+    drifted: 0,
+    statusesChanged: 0,
+    recordsChanged: 0,
+    failed: 0,
+  };
+  if (!ns) return Effect.succeed(empty);
+
+  return Effect.gen(function* () {
+    const stale = yield* staleSubmissions(ns, RECONCILE_BATCH_SIZE);
+    const outcomes = yield* Effect.forEach(
+      stale,
+      ({ stub, submission }) => reconcileOne(env, provider, stub, submission),
+      { concurrency: RECONCILE_CONCURRENCY },
+    );
+    const summary = outcomes.reduce((acc, o) => {
+      if (o.kind === 'failed') return { ...acc, failed: acc.failed + 1 };
+      return {
+        ...acc,
+        checked: acc.checked + 1,
+        drifted: acc.drifted + (o.statusChanged || o.recordsChanged > 0 ? 1 : 0),
+        statusesChanged: acc.statusesChanged + (o.statusChanged ? 1 : 0),
+        recordsChanged: acc.recordsChanged + o.recordsChanged,
+      };
+    }, empty);
+
+    env.AUDIT_LOG?.writeDataPoint({
+      indexes: ['reconcile'],
+      blobs: ['reconcile-run'],
+      doubles: [
+        summary.checked,
+        summary.drifted,
+        summary.statusesChanged,
+        summary.recordsChanged,
+        summary.failed,
+      ],
+    });
+    return summary;
+  });
+}
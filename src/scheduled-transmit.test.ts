@@ -0,0 +1,308 @@
+import { describe, it, expect } from 'vitest';
+import {
+  env,
+  createExecutionContext,
+  runInDurableObject,
+  waitOnExecutionContext,
+} from 'cloudflare:test';
+import { Effect } from 'effect';
+import worker from './index';
+import { filingProvider, type FilingProvider } from './providers';
+import { attemptScheduledTransmit, scheduledTransmitRetryDelay } from './scheduled-transmit';
+import { GLOBAL_TENANT, tenantState } from './tenants';
+import {
+  TaxBanditsBusinessError,
+  TaxBanditsTransientError,
+  type Env,
+  type TaxBanditsTransmitResponse,
+} from './types';
+import type { ScheduledTransmission, WebhookState } from './webhook-state';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const testEnv = env as unknown as Env;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function stub() {
+  const binding: DurableObjectNamespace<WebhookState> | undefined = testEnv.WEBHOOK_STATE;
+  if (!binding) throw new Error('WEBHOOK_STATE binding missing');
+  return tenantState(binding, GLOBAL_TENANT);
+}
+
+const REVIEWER = { userId: 'user-rev', apiKeyId: 'key-rev', organizationId: null };
+
+/** A tracked, approved submission, ready to be scheduled. */
+async function approved(submissionId: string) {
+  await stub().trackSubmission(submissionId, 'FORM1099NEC', {
+    userId: 'user-prep',
+    apiKeyId: 'key-prep',
+    organizationId: null,
+  });
+  await stub().reviewSubmission(submissionId, 'APPROVED', REVIEWER);
+}
+
+const transmitted = (submissionId: string): TaxBanditsTransmitResponse => ({
+  StatusCode: 200,
+  StatusName: 'Ok',
+  StatusMessage: 'Successful API call',
+  SubmissionId: submissionId,
+  Errors: null,
+});
+
+/** TaxBandits answering every transmit with `outcome`, calls recorded. */
+function provider(outcome: 'ok' | 'transient' | 'business', calls: string[] = []): FilingProvider {
+  return {
+    ...filingProvider(testEnv),
+    transmit: (submissionId) => {
+      calls.push(submissionId);
+      if (outcome === 'transient') {
+        return Effect.fail(new TaxBanditsTransientError({ status: 503, message: 'Unavailable' }));
+      }
+      if (outcome === 'business') {
+        return Effect.fail(
+          new TaxBanditsBusinessError({
+            statusCode: 400,
+            errors: [
+              {
+                Id: 'F00-100',
+                Name: 'SubmissionId',
+                Message: 'Already transmitted',
+                Type: 'Error',
+              },
+            ],
+          }),
+        );
+      }
+      return Effect.succeed(transmitted(submissionId));
+    },
+  };
+}
+
+/**
+ * Schedule a day out — far enough that the real alarm won't fire during the
+ * test — then move it into the past so `transmitDue` picks it up.
+ */
+async function scheduleDue(submissionId: string) {
+  await stub().scheduleTransmit(submissionId, '1099-NEC', Date.now() + DAY_MS);
+  await runInDurableObject(stub(), (_: WebhookState, state) => {
+    state.storage.sql.exec(
+      `UPDATE scheduled_transmissions SET next_attempt_at = datetime('now', '-1 minute')
+       WHERE submission_id = ?`,
+      submissionId,
+    );
+  });
+}
+
+function transmitDue(transmitProvider: FilingProvider) {
+  return runInDurableObject(stub(), (instance: WebhookState) =>
+    instance.transmitDue(transmitProvider),
+  );
+}
+
+async function call(method: string, path: string, body?: unknown) {
+  const ctx = createExecutionContext();
+  const res = await worker.fetch(
+    new Request(`http://localhost${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      ...(body === undefined ? {} : { body: JSON.stringify(body) }),
+    }),
+    testEnv,
+    ctx,
+  );
+  await waitOnExecutionContext(ctx);
+  return res;
+}
+
+// ---------------------------------------------------------------------------
+// Attempts and retries
+// ---------------------------------------------------------------------------
+describe('attemptScheduledTransmit', () => {
+  it('retries transient failures but not a refusal from TaxBandits', async () => {
+    const run = (outcome: 'ok' | 'transient' | 'business') =>
+      Effect.runPromise(attemptScheduledTransmit(provider(outcome), 'sub-1', '1099-NEC'));
+    expect(await run('ok')).toEqual({ ok: true });
+    expect(await run('transient')).toEqual({ ok: false, error: 'Unavailable', retryable: true });
+    expect(await run('business')).toMatchObject({ ok: false, retryable: false });
+  });
+
+  it('backs off, then gives up', () => {
+    expect(scheduledTransmitRetryDelay(1)).toBe(60);
+    expect(scheduledTransmitRetryDelay(4)).toBe(3600);
+    expect(scheduledTransmitRetryDelay(5)).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// WebhookState
+// ---------------------------------------------------------------------------
+describe('scheduled transmissions (WebhookState)', () => {
+  it('stores, reschedules and cancels a schedule', async () => {
+    const first = await stub().scheduleTransmit('sched-1', '1099-NEC', Date.UTC(2027, 0, 29, 15));
+    expect(first).toMatchObject({
+      transmitAt: '2027-01-29 15:00:00',
+      status: 'SCHEDULED',
+      nextAttemptAt: '2027-01-29 15:00:00',
+    });
+    await stub().scheduleTransmit('sched-1', '1099-NEC', Date.UTC(2027, 0, 30, 9));
+    await stub().scheduleTransmit('sched-0', '1099-MISC', Date.UTC(2027, 0, 20));
+    expect(
+      (await stub().listScheduledTransmissions()).map((s) => [s.submissionId, s.transmitAt]),
+    ).toEqual([
+      ['sched-0', '2027-01-20 00:00:00'],
+      ['sched-1', '2027-01-30 09:00:00'],
+    ]);
+
+    expect((await stub().cancelScheduledTransmit('sched-1'))?.status).toBe('CANCELLED');
+    expect(await stub().cancelScheduledTransmit('sched-1')).toBeNull();
+    expect(
+      (await stub().listScheduledTransmissions('SCHEDULED')).map((s) => s.submissionId),
+    ).toEqual(['sched-0']);
+  });
+
+  it('transmits a due submission and marks it TRANSMITTED', async () => {
+    await approved('sched-ok');
+    await scheduleDue('sched-ok');
+    await stub().scheduleTransmit('sched-later', '1099-NEC', Date.now() + DAY_MS);
+    const calls: string[] = [];
+
+    expect(await transmitDue(provider('ok', calls))).toBe(1);
+    expect(calls).toEqual(['sched-ok']);
+    expect(await stub().getScheduledTransmission('sched-ok')).toMatchObject({
+      status: 'TRANSMITTED',
+      attempts: 1,
+      nextAttemptAt: null,
+    });
+    expect((await stub().getSubmission('sched-ok'))?.status).toBe('TRANSMITTED');
+  });
+
+  it('retries a transient failure with backoff, and fails on a refusal', async () => {
+    await approved('sched-retry');
+    await scheduleDue('sched-retry');
+    await transmitDue(provider('transient'));
+    const retry = await stub().getScheduledTransmission('sched-retry');
+    expect(retry).toMatchObject({ status: 'SCHEDULED', attempts: 1, lastError: 'Unavailable' });
+    expect(retry?.nextAttemptAt && retry.nextAttemptAt > retry.updatedAt).toBe(true);
+
+    await approved('sched-refused');
+    await scheduleDue('sched-refused');
+    await transmitDue(provider('business'));
+    expect(await stub().getScheduledTransmission('sched-refused')).toMatchObject({
+      status: 'FAILED',
+      lastError: 'F00-100: Already transmitted',
+    });
+  });
+
+  it('skips submissions transmitted meanwhile or never approved', async () => {
+    await approved('sched-sent');
+    await scheduleDue('sched-sent');
+    await stub().markTransmitted('sched-sent');
+    await stub().trackSubmission('sched-pending', 'FORM1099NEC');
+    await scheduleDue('sched-pending');
+    const calls: string[] = [];
+
+    expect(await transmitDue(provider('ok', calls))).toBe(0);
+    expect(calls).toEqual([]);
+    expect((await stub().getScheduledTransmission('sched-sent'))?.status).toBe('CANCELLED');
+    expect(await stub().getScheduledTransmission('sched-pending')).toMatchObject({
+      status: 'FAILED',
+      lastError: 'Submission is not approved',
+    });
+  });
+
+  it('fails a transmission left RUNNING instead of sending it twice', async () => {
+    await approved('sched-cut');
+    await scheduleDue('sched-cut');
+    await runInDurableObject(stub(), (_: WebhookState, state) => {
+      state.storage.sql.exec(
+        "UPDATE scheduled_transmissions SET status = 'RUNNING' WHERE submission_id = 'sched-cut'",
+      );
+    });
+    const calls: string[] = [];
+    await transmitDue(provider('ok', calls));
+    expect(calls).toEqual([]);
+    expect((await stub().getScheduledTransmission('sched-cut'))?.status).toBe('FAILED');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// POST /transmit/:id with transmit_at, GET /transmit/scheduled, DELETE (HTTP)
+// ---------------------------------------------------------------------------
+describe('scheduled transmission routes (HTTP)', () => {
+  const SUBMISSION_ID = '5e2b7c1d-1111-4a4a-9a9a-aaaaaaaaaaaa';
+  const PENDING_ID = '5e2b7c1d-2222-4b4b-9b9b-bbbbbbbbbbbb';
+  const MISC_ID = '5e2b7c1d-3333-4c4c-9c9c-cccccccccccc';
+  const tomorrow = () => new Date(Date.now() + DAY_MS).toISOString();
+
+  it('schedules an approved submission, lists it and cancels it', async () => {
+    await approved(SUBMISSION_ID);
+    const res = await call('POST', `/transmit/${SUBMISSION_ID}`, { transmit_at: tomorrow() });
+    expect(res.status).toBe(202);
+    const { data } = await res.json<{ data: ScheduledTransmission }>();
+    expect(data).toMatchObject({ submissionId: SUBMISSION_ID, status: 'SCHEDULED' });
+
+    const list = await call('GET', '/transmit/scheduled?status=SCHEDULED');
+    const listed = await list.json<{ data: ScheduledTransmission[] }>();
+    expect(listed.data.map((s) => s.submissionId)).toEqual([SUBMISSION_ID]);
+
+    expect((await call('DELETE', `/transmit/${SUBMISSION_ID}`)).status).toBe(200);
+    expect((await call('DELETE', `/transmit/${SUBMISSION_ID}`)).status).toBe(409);
+    expect((await call('DELETE', `/transmit/${PENDING_ID}`)).status).toBe(404);
+  });
+
+  it('rejects a past, far-off or malformed transmit_at', async () => {
+    await approved(SUBMISSION_ID);
+    const at = (transmit_at: string) => call('POST', `/transmit/${SUBMISSION_ID}`, { transmit_at });
+    expect((await at(new Date(Date.now() - 60_000).toISOString())).status).toBe(400);
+    expect((await at(new Date(Date.now() + 400 * DAY_MS).toISOString())).status).toBe(400);
+    expect((await at('next tuesday')).status).toBe(400);
+    expect((await call('GET', '/transmit/scheduled?status=LATER')).status).toBe(400);
+  });
+
+  it('schedules with the form type the submission was filed as', async () => {
+    await stub().trackSubmission(MISC_ID, 'FORM1099MISC', {
+      userId: 'user-prep',
+      apiKeyId: 'key-prep',
+      organizationId: null,
+    });
+    await stub().reviewSubmission(MISC_ID, 'APPROVED', REVIEWER);
+    const res = await call('POST', `/transmit/${MISC_ID}`, { transmit_at: tomorrow() });
+    expect(res.status).toBe(202);
+    expect((await stub().getScheduledTransmission(MISC_ID))?.formType).toBe('1099-MISC');
+    await call('DELETE', `/transmit/${MISC_ID}`);
+  });
+
+  it('refuses to transmit now while a schedule is pending or running', async () => {
+    const id = '5e2b7c1d-4444-4d4d-9d9d-dddddddddddd';
+    await approved(id);
+    await call('POST', `/transmit/${id}`, { transmit_at: tomorrow() });
+    const pending = await call('POST', `/transmit/${id}`);
+    expect(pending.status).toBe(409);
+    expect((await pending.json<{ error: string }>()).error).toContain('scheduled');
+
+    await runInDurableObject(stub(), (_: WebhookState, state) => {
+      state.storage.sql.exec(
+        "UPDATE scheduled_transmissions SET status = 'RUNNING' WHERE submission_id = ?",
+        id,
+      );
+    });
+    expect((await call('POST', `/transmit/${id}`)).status).toBe(409);
+  });
+
+  it('refuses to transmit a submission already transmitted', async () => {
+    const id = '5e2b7c1d-5555-4e4e-9e9e-eeeeeeeeeeee';
+    await approved(id);
+    await stub().markTransmitted(id);
+    const res = await call('POST', `/transmit/${id}`);
+    expect(res.status).toBe(409);
+    expect((await res.json<{ error: string }>()).error).toContain('already been transmitted');
+  });
+
+  it('only schedules approved submissions', async () => {
+    await stub().trackSubmission(PENDING_ID, 'FORM1099NEC');
+    const res = await call('POST', `/transmit/${PENDING_ID}`, { transmit_at: tomorrow() });
+    expect(res.status).toBe(409);
+  });
+});
@@ -0,0 +1,56 @@
+import { Effect } from 'effect';
+import type { FormType } from './types';
+import { getFormDefinition } from './forms';
+import type { FilingProvider } from './providers';
+import { scrubTINs } from './pii';
+
+// ============================================================
+// Scheduled transmission
+//
+// `POST /transmit/:submissionId` with a `transmit_at` stores the schedule in
+// the tenant's WebhookState instead of transmitting. Its alarm wakes at the
+// earliest due time, transmits each due submission and retries a failed
+// transmit with backoff. A submission is only scheduled once approved, and
+// one transmitted some other way before its time is skipped.
+// ============================================================
+
+/** How far ahead a transmission can be scheduled. */
+export const MAX_SCHEDULE_AHEAD_DAYS = 365;
+
+/** Seconds to wait before each retry; a transmission fails for good after the last. */
+export const SCHEDULED_TRANSMIT_RETRY_DELAYS = [60, 300, 900, 3600];
+
+/** Due transmissions claimed per alarm, and how many are sent at once. */
+export const SCHEDULED_TRANSMIT_BATCH = 25;
+export const SCHEDULED_TRANSMIT_CONCURRENCY = 5;
+
+/** Delay before the next attempt after `attempts` failed ones, or null to give up. */
+export function scheduledTransmitRetryDelay(attempts: number): number | null {
+  return SCHEDULED_TRANSMIT_RETRY_DELAYS[attempts - 1] ?? null;
+}
+
+/**
+ * The result of one attempt. TaxBandits refusing the submission outright
+ * isn't retried — sending the same request again won't change its answer.
+ */
+export type ScheduledTransmitAttempt =
+  | { ok: true }
+  | { ok: false; error: string; retryable: boolean };
+
+/** Transmit one due submission. Never fails — the attempt says what happened. */
+export function attemptScheduledTransmit(
+  provider: FilingProvider,
+  submissionId: string,
+  formType: FormType,
+): Effect.Effect<ScheduledTransmitAttempt> {
+  return provider.transmit(submissionId, getFormDefinition(formType)).pipe(
+    Effect.map((): ScheduledTransmitAttempt => ({ ok: true })),
+    Effect.catchAll((err) =>
+      Effect.succeed<ScheduledTransmitAttempt>({
+        ok: false,
+        error: scrubTINs(err.message),
+        retryable: err._tag !== 'TaxBanditsBusinessError',
+      }),
+    ),
+  );
+}
@@ -0,0 +1,464 @@
+import { z } from 'zod';
+import { TIN_REF_PATTERN } from './vault';
+import { WEBHOOK_EVENT_TYPES } from './outbound-webhooks';
+
+// ---------------------------------------------------------------------------
+// Zod schemas — runtime validation for form bodies.
+// Each form type registered in ./forms points at its schema here.
+// ---------------------------------------------------------------------------
+
+export const ForeignAddressSchema = z.object({
+  address_line1: z.string().min(1).max(200),
+  address_line2: z.string().max(200).optional(),
+  city: z.string().min(1).max(100),
+  province_or_state: z.string().max(100).optional(),
+  postal_code: z.string().max(20).optional(),
+  country: z
+    .string()
+    .regex(/^[A-Z]{2}$/, 'Country must be an ISO 3166-1 alpha-2 code (e.g. CA, GB)')
+    .refine((c) => c !== 'US', 'Use the US address fields for US addresses'),
+});
+
+/** US address fields; each becomes optional when `foreign_address` is given. */
+const usAddressFields = {
+  address: z.string().min(1).max(200).optional(),
+  city: z.string().min(1).max(100).optional(),
+  state: z.string().length(2).optional(),
+  zip_code: z
+    .string()
+    .regex(/^\d{5}(-\d{4})?$/, 'ZIP must be 5 or 9 digits')
+    .optional(),
+  foreign_address: ForeignAddressSchema.optional(),
+};
+
+/** A party needs either the full US address or a `foreign_address` — not both. */
+function checkAddress(
+  party: {
+    foreign_address?: unknown;
+    address?: string;
+    city?: string;
+    state?: string;
+    zip_code?: string;
+  },
+  ctx: z.RefinementCtx,
+): void {
+  const usFields = ['address', 'city', 'state', 'zip_code'] as const;
+  if (party.foreign_address) {
+    if (usFields.some((f) => party[f] !== undefined)) {
+      ctx.addIssue({
+        code: 'custom',
+        message: 'Provide either US address fields or foreign_address, not both',
+        path: ['foreign_address'],
+      });
+    }
+    return;
+  }
+  for (const field of usFields) {
+    if (party[field] === undefined) {
+      ctx.addIssue({
+        code: 'custom',
+        message: `${field} is required unless foreign_address is provided`,
+        path: [field],
+      });
+    }
+  }
+}
+
+const tinRefField = z
+  .string()
+  .regex(TIN_REF_PATTERN, 'tin_ref must be a token from POST /vault/tins')
+  .optional();
+
+/** Exactly one of `tin` / `tin_ref`. */
+function checkTIN(party: { tin?: string; tin_ref?: string }, ctx: z.RefinementCtx): void {
+  if (!party.tin === !party.tin_ref) {
+    ctx.addIssue({
+      code: 'custom',
+      message: party.tin ? 'Provide either tin or tin_ref, not both' : 'tin or tin_ref is required',
+      path: ['tin'],
+    });
+  }
+}
+
+export const PayerSchema = z
+  .object({
+    name: z.string().min(1).max(200),
+    tin: z.string().min(9).max(11).optional(),
+    tin_ref: tinRefField,
+    tin_type: z.enum(['EIN', 'SSN']).default('EIN'),
+    ...usAddressFields,
+    phone: z.string().min(10).max(15),
+    email: z.string().email(),
+    business_type: z
+      .enum(['CORP', 'SCORP', 'PART', 'TRUST', 'LLC', 'EXEMPT', 'ESTE'])
+      .default('LLC'),
+  })
+  .refine(
+    (p) => {
+      if (!p.tin) return true;
+      if (p.tin_type === 'EIN') return /^\d{2}-\d{7}$/.test(p.tin);
+      return /^\d{9}$/.test(p.tin.replace(/-/g, ''));
+    },
+    {
+      message: 'EIN must be XX-XXXXXXX format; SSN must be 9 digits',
+      path: ['tin'],
+    },
+  )
+  .superRefine(checkTIN)
+  .superRefine(checkAddress);
+
+export const RecipientSchema = z
+  .object({
+    first_name: z.string().min(1).max(100),
+    last_name: z.string().min(1).max(100),
+    tin: z.string().min(9).max(11).optional(),
+    tin_ref: tinRefField,
+    tin_type: z.enum(['SSN', 'EIN']),
+    ...usAddressFields,
+  })
+  .superRefine(checkTIN)
+  .superRefine(checkAddress);
+
+const KindOfEmployerEnum = z.enum([
+  'FEDERALGOVT',
+  'STATEGOVT',
+  'TRIBALGOVT',
+  'TAX_EXEMPT',
+  'NONEAPPLY',
+]);
+const KindOfEmployerSchema = KindOfEmployerEnum.default('NONEAPPLY');
+
+const KindOfPayerEnum = z.enum([
+  'REGULAR941',
+  'REGULAR944',
+  'AGRICULTURAL943',
+  'HOUSEHOLD',
+  'MILITARY',
+  'MEDICARE',
+]);
+const KindOfPayerSchema = KindOfPayerEnum.default('REGULAR941');
+
+const StateLineSchema = z.object({
+  state: z.string().length(2),
+  state_income: z.number().nonnegative().finite().optional(),
+  state_tax_withheld: z.number().nonnegative().finite().optional(),
+  state_id: z.string().min(1).max(30).optional(),
+});
+
+/** Up to two state lines, as on the printed form; `states[]` replaces the single state/state_income fields. */
+const StatesSchema = z
+  .array(StateLineSchema)
+  .min(1)
+  .max(2, 'A form carries at most two state lines; file another form for further states')
+  .optional();
+
+/** Reject bodies that use both `states[]` and the single-state fields. */
+function checkStateFields(
+  form: { states?: unknown[]; state?: string; state_income?: number; state_tax_withheld?: number },
+  ctx: z.RefinementCtx,
+): void {
+  const single =
+    form.state !== undefined ||
+    form.state_income !== undefined ||
+    form.state_tax_withheld !== undefined;
+  if (form.states && single) {
+    ctx.addIssue({
+      code: 'custom',
+      message: 'Use either states[] or state/state_income/state_tax_withheld, not both',
+      path: ['states'],
+    });
+  }
+}
+
+const TaxYearSchema = z
+  .string()
+  .regex(/^\d{4}$/, 'Must be 4-digit year')
+  .optional();
+
+/** Kept on a form filed from the recipient directory, so the filing lands in its history. */
+const RecipientIdField = z.string().min(1).max(100).optional();
+
+export const Form1099NECSchema = z
+  .object({
+    form_type: z.literal('1099-NEC').default('1099-NEC'),
+    payer: PayerSchema,
+    recipient: RecipientSchema,
+    nonemployee_compensation: z.number().positive().finite(),
+    is_federal_tax_withheld: z.boolean(),
+    federal_tax_withheld: z.number().nonnegative().finite().optional(),
+    is_state_filing: z.boolean(),
+    states: StatesSchema,
+    state: z.string().length(2).optional(),
+    state_income: z.number().nonnegative().finite().optional(),
+    state_tax_withheld: z.number().nonnegative().finite().optional(),
+    tax_year: TaxYearSchema,
+    kind_of_employer: KindOfEmployerSchema,
+    kind_of_payer: KindOfPayerSchema,
+    recipient_id: RecipientIdField,
+  })
+  .superRefine(checkStateFields);
+
+const MISCAmountSchema = z.number().nonnegative().finite().optional();
+
+export const Form1099MISCSchema = z
+  .object({
+    form_type: z.literal('1099-MISC').default('1099-MISC'),
+    payer: PayerSchema,
+    recipient: RecipientSchema,
+    rents: MISCAmountSchema,
+    royalties: MISCAmountSchema,
+    other_income: MISCAmountSchema,
+    is_federal_tax_withheld: z.boolean(),
+    federal_tax_withheld: z.number().nonnegative().finite().optional(),
+    fishing_boat_proceeds: MISCAmountSchema,
+    medical_payments: MISCAmountSchema,
+    direct_sales: z.boolean().optional(),
+    substitute_payments: MISCAmountSchema,
+    crop_insurance: MISCAmountSchema,
+    gross_proceeds_attorney: MISCAmountSchema,
+    is_state_filing: z.boolean(),
+    states: StatesSchema,
+    state: z.string().length(2).optional(),
+    state_income: z.number().nonnegative().finite().optional(),
+    state_tax_withheld: z.number().nonnegative().finite().optional(),
+    tax_year: TaxYearSchema,
+    kind_of_employer: KindOfEmployerSchema,
+    kind_of_payer: KindOfPayerSchema,
+    recipient_id: RecipientIdField,
+  })
+  .superRefine(checkStateFields);
+
+// ---------------------------------------------------------------------------
+// Corrections — POST /correct and /void (1099-NEC only)
+// ---------------------------------------------------------------------------
+
+export const CorrectionBodySchema = z.object({
+  correction_type: z.enum(['TYPE1', 'TYPE2']),
+  form: Form1099NECSchema,
+});
+
+export const VoidBodySchema = z.object({
+  form: Form1099NECSchema,
+});
+
+/** POST /vault/tins — TINs to vault, returned as `tin_ref`s in the same order. */
+export const VaultTinsBodySchema = z.object({
+  tins: z
+    .array(
+      z
+        .object({ tin: z.string(), tin_type: z.enum(['SSN', 'EIN']) })
+        .refine(
+          (t) =>
+            t.tin_type === 'EIN'
+              ? /^\d{2}-?\d{7}$/.test(t.tin)
+              : /^\d{3}-?\d{2}-?\d{4}$/.test(t.tin),
+          { message: 'EIN must be XX-XXXXXXX; SSN must be 9 digits', path: ['tin'] },
+        ),
+    )
+    .min(1)
+    .max(100),
+});
+
+/** POST /tin-match — name/TIN pairs to check against IRS records. */
+export const TinMatchBodySchema = z.object({
+  recipients: z
+    .array(
+      z
+        .object({
+          name: z.string().min(1).max(200),
+          tin: z.string().min(9).max(11).optional(),
+          tin_ref: tinRefField,
+          tin_type: z.enum(['SSN', 'EIN']),
+        })
+        .superRefine(checkTIN),
+    )
+    .min(1)
+    .max(100),
+});
+
+// ---------------------------------------------------------------------------
+// W-9 collection — POST /w9/requests and the hosted form at /w9/:token
+// ---------------------------------------------------------------------------
+
+export const W9RequestBodySchema = z.object({
+  reference: z.string().min(1).max(100).optional(),
+  recipient_name: z.string().min(1).max(200).optional(),
+  email: z.string().email().optional(),
+  expires_in_days: z.number().int().min(1).max(90).default(30),
+});
+
+/** Fields posted by the hosted W-9 form (blank inputs already dropped). */
+export const W9SubmissionSchema = z
+  .object({
+    name: z.string().trim().min(1).max(200),
+    business_name: z.string().trim().max(200).optional(),
+    tax_classification: z.enum([
+      'INDIVIDUAL',
+      'C_CORPORATION',
+      'S_CORPORATION',
+      'PARTNERSHIP',
+      'TRUST_ESTATE',
+      'LLC',
+      'OTHER',
+    ]),
+    llc_classification: z.enum(['C', 'S', 'P']).optional(),
+    exempt_payee_code: z
+      .string()
+      .regex(/^([1-9]|1[0-3])$/, 'Exempt payee code must be 1–13')
+      .optional(),
+    address: z.string().trim().min(1).max(200),
+    city: z.string().trim().min(1).max(100),
+    state: z
+      .string()
+      .trim()
+      .regex(/^[A-Za-z]{2}$/, 'Use the 2-letter state code')
+      .transform((s) => s.toUpperCase()),
+    zip_code: z
+      .string()
+      .trim()
+      .regex(/^\d{5}(-\d{4})?$/, 'ZIP must be 5 or 9 digits'),
+    tin_type: z.enum(['SSN', 'EIN']),
+    tin: z.string().trim(),
+    signature: z.string().trim().min(1).max(200),
+    certify: z.literal('yes', { message: 'You must certify the statements above' }),
+  })
+  .refine(
+    (w) =>
+      w.tin_type === 'EIN' ? /^\d{2}-?\d{7}$/.test(w.tin) : /^\d{3}-?\d{2}-?\d{4}$/.test(w.tin),
+    { message: 'EIN must be XX-XXXXXXX; SSN must be XXX-XX-XXXX', path: ['tin'] },
+  )
+  .refine((w) => w.tax_classification !== 'LLC' || w.llc_classification !== undefined, {
+    message: 'Choose the LLC tax classification (C, S or P)',
+    path: ['llc_classification'],
+  });
+
+// ---------------------------------------------------------------------------
+// Filing jobs — ?async= on /file and /file/batch, ?callback_url= on those and /jobs
+// ---------------------------------------------------------------------------
+
+export const JobQuerySchema = z.object({
+  async: z.enum(['true', 'false']).optional(),
+  dry_run: z.enum(['true', 'false']).optional(),
+  provider: z.enum(['taxbandits', 'iris']).optional(),
+  callback_url: z
+    .url({ protocol: /^https$/, error: 'callback_url must be an https URL' })
+    .max(2048)
+    .optional(),
+});
+
+// ---------------------------------------------------------------------------
+// Outbound webhooks — POST /webhooks/endpoints, GET /webhooks/deliveries
+// ---------------------------------------------------------------------------
+
+export const WebhookEndpointBodySchema = z.object({
+  url: z.url({ protocol: /^https$/, error: 'url must be an https URL' }).max(2048),
+  events: z
+    .array(z.enum(WEBHOOK_EVENT_TYPES))
+    .min(1)
+    .default([...WEBHOOK_EVENT_TYPES])
+    .transform((events) => [...new Set(events)]),
+  scope: z.enum(['user', 'api_key']).default('user'),
+  description: z.string().trim().min(1).max(200).optional(),
+});
+
+export const WebhookDeliveryQuerySchema = z.object({
+  endpoint_id: z.string().min(1).max(100).optional(),
+  status: z.enum(['PENDING', 'DELIVERED', 'FAILED']).optional(),
+});
+
+// ---------------------------------------------------------------------------
+// Organizations — POST /orgs/:organizationId/keys and /orgs/:organizationId/payers
+// ---------------------------------------------------------------------------
+
+/** An org-scoped API key. `permissions` defaults to, and may not exceed, the caller's role. */
+export const OrgApiKeyBodySchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  permissions: z.record(z.string(), z.array(z.string()).min(1)).optional(),
+  expires_in: z
+    .number()
+    .int()
+    .min(86_400)
+    .max(365 * 86_400)
+    .optional(), // seconds
+});
+
+/** A client the organization files for, by EIN (or SSN for sole proprietors). */
+export const OrgPayerBodySchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  tin: z
+    .string()
+    .trim()
+    .regex(/^(\d{2}-?\d{7}|\d{3}-?\d{2}-?\d{4})$/, 'tin must be an EIN or SSN'),
+});
+
+// ---------------------------------------------------------------------------
+// Payer profiles — POST /payers, PUT /payers/:payerId
+// ---------------------------------------------------------------------------
+
+/** A payer block plus the defaults forms filed with `payer_id` inherit. */
+export const PayerProfileBodySchema = z.object({
+  payer: PayerSchema,
+  kind_of_employer: KindOfEmployerEnum.optional(),
+  kind_of_payer: KindOfPayerEnum.optional(),
+  state_ids: z
+    .record(z.string().regex(/^[A-Z]{2}$/, 'Use 2-letter state codes'), z.string().min(1).max(30))
+    .default({}),
+});
+
+// ---------------------------------------------------------------------------
+// Recipient directory — POST /recipients, PUT /recipients/:recipientId
+// ---------------------------------------------------------------------------
+
+/** A contractor filed under one payer profile, optionally linked to their W-9 request. */
+export const RecipientProfileBodySchema = z.object({
+  payer_id: z.string().min(1).max(100),
+  recipient: RecipientSchema,
+  w9_request_id: z.string().min(1).max(100).optional(),
+});
+
+/** GET /recipients — `payer_id` narrows the directory to one payer's recipients. */
+export const RecipientListQuerySchema = z.object({
+  payer_id: z.string().min(1).max(100).optional(),
+});
+
+/** GET /deadlines — the tax year to report on (default: the previous calendar year). */
+export const DeadlineQuerySchema = z.object({
+  tax_year: z
+    .string()
+    .regex(/^\d{4}$/, 'Must be a 4-digit year')
+    .optional(),
+});
+
+/** POST /submissions/:id/approve — an optional note for the record. */
+export const ApproveBodySchema = z.object({
+  note: z.string().trim().min(1).max(500).optional(),
+});
+
+/** POST /submissions/:id/reject — why, so the preparer knows what to fix. */
+export const RejectBodySchema = z.object({
+  note: z.string().trim().min(1).max(500),
+});
+
+/** POST /transmit/:submissionId — with `transmit_at`, schedule the transmission instead. */
+export const TransmitBodySchema = z.object({
+  transmit_at: z.iso.datetime({ offset: true }).optional(),
+});
+
+/** GET /transmit/scheduled — narrow the list to one status. */
+export const ScheduledTransmitQuerySchema = z.object({
+  status: z.enum(['SCHEDULED', 'RUNNING', 'TRANSMITTED', 'FAILED', 'CANCELLED']).optional(),
+});
+
+// ---------------------------------------------------------------------------
+// Admin — GET /admin/submissions
+// ---------------------------------------------------------------------------
+
+/** `tenant` narrows the cross-tenant view to one tenant: `global`, `user:<id>` or `org:<id>`. */
+export const AdminSubmissionsQuerySchema = z.object({
+  tenant: z
+    .string()
+    .regex(/^(global|(user|org):.+)$/, 'tenant must be "global", "user:<id>" or "org:<id>"')
+    .max(200)
+    .optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect } from 'vitest';
+import { STATE_RULES, runStateRules, stateLines, stateLineField } from './state-rules';
+import type { Form1099NECRequest, StateLine } from './types';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+function withStates(states: StateLine[]): Form1099NECRequest {
+  return {
+    payer: {
+      name: 'Acme Corp',
+      tin: '27-1234567',
+      address: '100 Main St',
+      city: 'New York',
+      state: 'NY',
+      zip_code: '10001',
+      phone: '2125551234',
+      email: 'payroll@acme.com',
+    },
+    recipient: {
+      first_name: 'Jane',
+      last_name: 'Smith',
+      tin: '412789654',
+      tin_type: 'SSN',
+      address: '200 Oak Ave',
+      city: 'Austin',
+      state: 'TX',
+      zip_code: '78701',
+    },
+    nonemployee_compensation: 5000,
+    is_federal_tax_withheld: false,
+    is_state_filing: true,
+    states,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// stateLines() / stateLineField()
+// ---------------------------------------------------------------------------
+describe('stateLines', () => {
+  it('prefers states[] over the single-state fields', () => {
+    const form = withStates([{ state: 'CA' }, { state: 'NY' }]);
+    expect(stateLines(form).map((l) => l.state)).toEqual(['CA', 'NY']);
+  });
+
+  it('builds one line from state/state_income/state_tax_withheld', () => {
+    const form = { ...withStates([]), states: undefined, state: 'CA', state_income: 100 };
+    expect(stateLines(form)).toEqual([
+      { state: 'CA', state_income: 100, state_tax_withheld: undefined },
+    ]);
+  });
+
+  it('returns no lines without a state', () => {
+    expect(stateLines({ ...withStates([]), states: undefined })).toEqual([]);
+  });
+
+  it('keeps legacy field paths for the single-state form', () => {
+    const legacy = { ...withStates([]), states: undefined, state: 'CA' };
+    expect(stateLineField(legacy, 0, 'state_income')).toBe('state_income');
+    expect(stateLineField(withStates([{ state: 'CA' }]), 0, 'state_id')).toBe('states[0].state_id');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// runStateRules()
+// ---------------------------------------------------------------------------
+describe('runStateRules', () => {
+  it('covers all 50 states plus DC', () => {
+    expect(Object.keys(STATE_RULES)).toHaveLength(51);
+  });
+
+  it('returns nothing when state filing is off', () => {
+    const form = {
+      ...withStates([{ state: 'TX', state_tax_withheld: 50 }]),
+      is_state_filing: false,
+    };
+    expect(runStateRules(form, 5000)).toEqual([]);
+  });
+
+  it('rejects withholding in a state without income tax', () => {
+    const issues = runStateRules(withStates([{ state: 'TX', state_tax_withheld: 50 }]), 5000);
+    expect(issues).toContainEqual(
+      expect.objectContaining({ field: 'states[0].state_tax_withheld', severity: 'error' }),
+    );
+  });
+
+  it('notes that no-income-tax states need no state copy', () => {
+    const issues = runStateRules(withStates([{ state: 'FL', state_income: 5000 }]), 5000);
+    expect(issues).toEqual([
+      expect.objectContaining({ field: 'states[0].state', severity: 'info' }),
+    ]);
+  });
+
+  it('requires a withholding account number when tax is withheld', () => {
+    const issues = runStateRules(
+      withStates([{ state: 'CA', state_income: 5000, state_tax_withheld: 200 }]),
+      5000,
+    );
+    expect(issues).toContainEqual(
+      expect.objectContaining({ field: 'states[0].state_id', severity: 'error' }),
+    );
+  });
+
+  it('checks the withholding account number format', () => {
+    const bad = runStateRules(
+      withStates([{ state: 'PA', state_income: 5000, state_tax_withheld: 150, state_id: '1234' }]),
+      5000,
+    );
+    expect(bad.find((i) => i.field === 'states[0].state_id')?.message).toContain('8 digits');
+
+    const good = runStateRules(
+      withStates([
+        { state: 'PA', state_income: 5000, state_tax_withheld: 150, state_id: '1234-5678' },
+      ]),
+      5000,
+    );
+    expect(good.some((i) => i.field === 'states[0].state_id')).toBe(false);
+  });
+
+  it('flags states outside CF/SF for direct filing', () => {
+    const issues = runStateRules(withStates([{ state: 'NY', state_income: 5000 }]), 5000);
+    expect(issues.find((i) => i.field === 'states[0].state')?.message).toContain(
+      'does not participate in Combined Federal/State Filing',
+    );
+  });
+
+  it('applies state-specific thresholds', () => {
+    const issues = runStateRules(withStates([{ state: 'AR', state_income: 1000 }]), 1000);
+    expect(issues.find((i) => i.field === 'states[0].state_income')?.message).toContain('$2500');
+  });
+
+  it('rejects duplicate states', () => {
+    const issues = runStateRules(
+      withStates([
+        { state: 'CA', state_income: 2500 },
+        { state: 'CA', state_income: 2500 },
+      ]),
+      5000,
+    );
+    expect(issues).toContainEqual(
+      expect.objectContaining({ field: 'states[1].state', severity: 'error' }),
+    );
+  });
+
+  it('warns when state income across states exceeds the federal amount', () => {
+    const issues = runStateRules(
+      withStates([
+        { state: 'CA', state_income: 4000 },
+        { state: 'OR', state_income: 4000 },
+      ]),
+      5000,
+    );
+    expect(issues).toContainEqual(
+      expect.objectContaining({ field: 'states', severity: 'warning' }),
+    );
+  });
+
+  it('accepts a split between two states', () => {
+    const issues = runStateRules(
+      withStates([
+        { state: 'CA', state_income: 3000 },
+        { state: 'GA', state_income: 2000 },
+      ]),
+      5000,
+    );
+    expect(issues.filter((i) => i.severity !== 'info')).toEqual([]);
+  });
+});
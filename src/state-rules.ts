@@ -0,0 +1,245 @@
+import type { Form1099Request, StateLine, ValidationIssue } from './types';
+
+// ============================================================
+// State rule packs
+//
+// What each state expects for 1099-NEC / 1099-MISC state reporting. The
+// structural validator turns these into ValidationIssues before AI review.
+// Sources: IRS Publication 1220 (CF/SF participants) and state withholding
+// agency instructions. State programs change every filing season — review
+// this table before each January.
+// ============================================================
+
+export interface StateRule {
+  name: string;
+  /** No personal income tax — no state copy is expected. */
+  noIncomeTax?: boolean;
+  /** Participates in the IRS Combined Federal/State Filing program for 1099-NEC. */
+  cfsf?: boolean;
+  /** The state copy must be filed directly with the state, even when CF/SF forwards it. */
+  directFiling?: boolean;
+  /** Payer's state withholding account number, compared with dashes/spaces removed. */
+  withholdingId?: { pattern: RegExp; format: string };
+  /** State reporting threshold when it differs from the tax year's federal one (`src/tax-year-rules.ts`). */
+  threshold?: number;
+}
+
+export const STATE_RULES: Record<string, StateRule> = {
+  AL: { name: 'Alabama', cfsf: true, directFiling: true },
+  AK: { name: 'Alaska', noIncomeTax: true },
+  AZ: {
+    name: 'Arizona',
+    cfsf: true,
+    withholdingId: { pattern: /^\d{9}$/, format: '9 digits (FEIN)' },
+  },
+  AR: { name: 'Arkansas', cfsf: true, threshold: 2500 },
+  CA: {
+    name: 'California',
+    cfsf: true,
+    withholdingId: { pattern: /^\d{8}$/, format: '8 digits (EDD employer account number)' },
+  },
+  CO: { name: 'Colorado', cfsf: true },
+  CT: { name: 'Connecticut', cfsf: true, directFiling: true },
+  DE: { name: 'Delaware', cfsf: true },
+  DC: { name: 'District of Columbia', directFiling: true },
+  FL: { name: 'Florida', noIncomeTax: true },
+  GA: { name: 'Georgia', cfsf: true },
+  HI: { name: 'Hawaii', cfsf: true },
+  ID: { name: 'Idaho', cfsf: true },
+  IL: { name: 'Illinois', directFiling: true },
+  IN: {
+    name: 'Indiana',
+    cfsf: true,
+    withholdingId: { pattern: /^\d{13}$/, format: '13 digits (10-digit TID + 3-digit location)' },
+  },
+  IA: { name: 'Iowa', directFiling: true },
+  KS: { name: 'Kansas', cfsf: true },
+  KY: {
+    name: 'Kentucky',
+    directFiling: true,
+    withholdingId: { pattern: /^\d{6}$/, format: '6 digits' },
+  },
+  LA: { name: 'Louisiana', cfsf: true },
+  ME: { name: 'Maine', cfsf: true },
+  MD: { name: 'Maryland', cfsf: true },
+  MA: { name: 'Massachusetts', cfsf: true, directFiling: true },
+  MI: { name: 'Michigan', cfsf: true },
+  MN: {
+    name: 'Minnesota',
+    cfsf: true,
+    withholdingId: { pattern: /^\d{7}$/, format: '7 digits (MN tax ID)' },
+  },
+  MS: { name: 'Mississippi', directFiling: true },
+  MO: { name: 'Missouri', cfsf: true },
+  MT: { name: 'Montana', cfsf: true },
+  NE: { name: 'Nebraska', cfsf: true },
+  NV: { name: 'Nevada', noIncomeTax: true },
+  NH: { name: 'New Hampshire', noIncomeTax: true },
+  NJ: {
+    name: 'New Jersey',
+    cfsf: true,
+    withholdingId: { pattern: /^\d{12}$/, format: '12 digits (FEIN + 3-digit suffix)' },
+  },
+  NM: { name: 'New Mexico', cfsf: true },
+  NY: { name: 'New York', directFiling: true },
+  NC: { name: 'North Carolina', cfsf: true },
+  ND: { name: 'North Dakota', cfsf: true },
+  OH: {
+    name: 'Ohio',
+    cfsf: true,
+    withholdingId: { pattern: /^\d{8}$/, format: '8 digits' },
+  },
+  OK: { name: 'Oklahoma', cfsf: true },
+  OR: { name: 'Oregon', directFiling: true },
+  PA: {
+    name: 'Pennsylvania',
+    directFiling: true,
+    withholdingId: { pattern: /^\d{8}$/, format: '8 digits (Employer Account ID)' },
+  },
+  RI: { name: 'Rhode Island', directFiling: true },
+  SC: { name: 'South Carolina', cfsf: true },
+  SD: { name: 'South Dakota', noIncomeTax: true },
+  TN: { name: 'Tennessee', noIncomeTax: true },
+  TX: { name: 'Texas', noIncomeTax: true },
+  UT: { name: 'Utah', directFiling: true },
+  VT: { name: 'Vermont', directFiling: true },
+  VA: { name: 'Virginia', directFiling: true },
+  WA: { name: 'Washington', noIncomeTax: true },
+  WV: { name: 'West Virginia', directFiling: true },
+  WI: {
+    name: 'Wisconsin',
+    cfsf: true,
+    withholdingId: { pattern: /^\d{15}$/, format: '15 digits (036 + FEIN + 3-digit suffix)' },
+  },
+  WY: { name: 'Wyoming', noIncomeTax: true },
+};
+
+/**
+ * The form's state lines. `states[]` wins; otherwise the single
+ * `state`/`state_income`/`state_tax_withheld` fields make one line.
+ */
+export function stateLines(data: Form1099Request): StateLine[] {
+  if (data.states && data.states.length > 0) return data.states;
+  if (!data.state) return [];
+  return [
+    {
+      state: data.state,
+      state_income: data.state_income,
+      state_tax_withheld: data.state_tax_withheld,
+    },
+  ];
+}
+
+/**
+ * Field path for a state line — `states[i].x` for the array form, plain `x`
+ * for the single-state fields so existing clients see unchanged issue paths.
+ */
+export function stateLineField(data: Form1099Request, index: number, key: string): string {
+  return data.states && data.states.length > 0 ? `states[${index}].${key}` : key;
+}
+
+/**
+ * State rule-pack checks for every state line on a form. `federalAmount` is
+ * the form's federal total (compensation for NEC, all boxes for MISC).
+ */
+export function runStateRules(data: Form1099Request, federalAmount: number): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  if (!data.is_state_filing) return issues;
+
+  const lines = stateLines(data);
+  const seen = new Set<string>();
+  let stateTotal = 0;
+
+  lines.forEach((line, i) => {
+    const field = (key: string) => stateLineField(data, i, key);
+    const rule = STATE_RULES[line.state];
+    const income = line.state_income ?? federalAmount;
+    const withheld = line.state_tax_withheld ?? 0;
+    stateTotal += income;
+
+    if (seen.has(line.state)) {
+      issues.push({
+        field: field('state'),
+        message: `${line.state} appears more than once — combine it into one state line`,
+        severity: 'error',
+      });
+    }
+    seen.add(line.state);
+
+    if (withheld > income) {
+      issues.push({
+        field: field('state_tax_withheld'),
+        message: `State tax withheld exceeds state income for ${line.state}`,
+        severity: 'warning',
+      });
+    }
+
+    if (!rule) return; // territory or unknown code — reported by the state code check
+
+    if (rule.noIncomeTax) {
+      issues.push(
+        withheld > 0
+          ? {
+              field: field('state_tax_withheld'),
+              message: `${rule.name} has no state income tax — state tax cannot be withheld`,
+              severity: 'error',
+            }
+          : {
+              field: field('state'),
+              message: `${rule.name} has no state income tax; no state copy is required`,
+              severity: 'info',
+            },
+      );
+      return;
+    }
+
+    if (withheld > 0 && rule.withholdingId) {
+      const id = line.state_id?.replace(/[\s-]/g, '');
+      if (!id) {
+        issues.push({
+          field: field('state_id'),
+          message: `${rule.name} withholding account number is required when state tax is withheld`,
+          severity: 'error',
+        });
+      } else if (!rule.withholdingId.pattern.test(id)) {
+        issues.push({
+          field: field('state_id'),
+          message: `${rule.name} withholding account number must be ${rule.withholdingId.format}`,
+          severity: 'error',
+        });
+      }
+    }
+
+    if (rule.threshold && income < rule.threshold && withheld === 0) {
+      issues.push({
+        field: field('state_income'),
+        message: `${rule.name} requires state reporting only for payments >= $${rule.threshold}`,
+        severity: 'info',
+      });
+    }
+
+    if (!rule.cfsf) {
+      issues.push({
+        field: field('state'),
+        message: `${rule.name} does not participate in Combined Federal/State Filing — the state copy must be filed directly`,
+        severity: 'info',
+      });
+    } else if (rule.directFiling) {
+      issues.push({
+        field: field('state'),
+        message: `${rule.name} also requires direct state filing in addition to CF/SF`,
+        severity: 'info',
+      });
+    }
+  });
+
+  if (lines.length > 1 && stateTotal > federalAmount + 0.005) {
+    issues.push({
+      field: 'states',
+      message: 'Total state income across all states exceeds the federal amount',
+      severity: 'warning',
+    });
+  }
+
+  return issues;
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import {
+  TAX_YEAR_RULES,
+  filingDueDates,
+  filingYears,
+  formTaxYear,
+  taxYearRules,
+} from './tax-year-rules';
+
+// ---------------------------------------------------------------------------
+// taxYearRules()
+// ---------------------------------------------------------------------------
+describe('taxYearRules', () => {
+  it('keeps entries in increasing `from` order', () => {
+    const froms = TAX_YEAR_RULES.map((r) => r.from);
+    expect(froms).toEqual([...froms].sort((a, b) => a - b));
+    expect(new Set(froms).size).toBe(froms.length);
+  });
+
+  it('applies the $2,000 threshold to payments after 2025', () => {
+    expect(taxYearRules(2025).necThreshold).toBe(600);
+    expect(taxYearRules('2026').necThreshold).toBe(2000);
+    expect(taxYearRules(2030).necThreshold).toBe(2000);
+    expect(taxYearRules(2026).miscThresholds.royalties).toBe(10);
+    expect(taxYearRules(2026).miscThresholds.rents).toBe(2000);
+  });
+
+  it('uses the first entry for years before the table', () => {
+    expect(taxYearRules(2015)).toBe(TAX_YEAR_RULES[0]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Filing window
+// ---------------------------------------------------------------------------
+describe('filingYears / formTaxYear', () => {
+  const now = new Date('2026-10-19T12:00:00Z');
+
+  it('allows the current year and the late-filing years before it', () => {
+    expect(filingYears(now)).toEqual([2023, 2024, 2025, 2026]);
+  });
+
+  it('defaults a missing tax_year to the current year', () => {
+    expect(formTaxYear({}, now)).toBe(2026);
+    expect(formTaxYear({ tax_year: '2024' }, now)).toBe(2024);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// filingDueDates()
+// ---------------------------------------------------------------------------
+describe('filingDueDates', () => {
+  it('dates 1099-NEC returns January 31, paper and electronic alike', () => {
+    expect(filingDueDates('1099-NEC', 2024)).toEqual({
+      recipientCopy: '2025-01-31',
+      electronic: '2025-01-31',
+      paper: '2025-01-31',
+    });
+  });
+
+  it('gives 1099-MISC later IRS dates', () => {
+    expect(filingDueDates('1099-MISC', 2024)).toEqual({
+      recipientCopy: '2025-01-31',
+      electronic: '2025-03-31',
+      paper: '2025-02-28',
+    });
+  });
+
+  it('moves a due date off the weekend', () => {
+    // January 31, 2026 is a Saturday; March 31, 2024 a Sunday
+    expect(filingDueDates('1099-NEC', 2025).electronic).toBe('2026-02-02');
+    expect(filingDueDates('1099-MISC', 2023).electronic).toBe('2024-04-01');
+  });
+});
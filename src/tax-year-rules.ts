@@ -0,0 +1,164 @@
+import type { Form1099Request, FormType } from './types';
+
+// ============================================================
+// Tax-year rules
+//
+// Federal numbers that change between tax years: reporting thresholds, due
+// dates, how far back a late return can still be filed, and the backup
+// withholding rate. Each entry applies from its `from` tax year until the
+// next entry. Sources: IRS General Instructions for Certain Information
+// Returns and the 1099-NEC/MISC instructions; the $2,000 threshold for
+// payments after 2025 comes from the One Big Beautiful Bill Act and is
+// indexed for inflation after 2026 — add an entry once the IRS publishes it.
+// ============================================================
+
+/** 1099-MISC dollar boxes that have a reporting threshold. */
+export type MISCThresholdField =
+  | 'rents'
+  | 'royalties'
+  | 'other_income'
+  | 'fishing_boat_proceeds'
+  | 'medical_payments'
+  | 'substitute_payments'
+  | 'crop_insurance'
+  | 'gross_proceeds_attorney';
+
+/** A due date as month and day of the year after the tax year, before weekend rollover. */
+type MonthDay = `${number}-${number}`;
+
+export interface TaxYearRules {
+  /** First tax year these rules apply to. */
+  from: number;
+  /** 1099-NEC box 1 reporting threshold. */
+  necThreshold: number;
+  /** 1099-MISC reporting threshold per box (0: any amount is reportable). */
+  miscThresholds: Record<MISCThresholdField, number>;
+  /** Backup withholding rate, the only federal withholding on a 1099-NEC/MISC. */
+  backupWithholdingRate: number;
+  /** Single-form amount the AI reviewer treats as extremely unusual. */
+  sanityCeiling: number;
+  /** How many tax years before the current one can still be filed late. */
+  lateFilingYears: number;
+  dueDates: {
+    /** Copy B to the recipient (both forms). */
+    recipientCopy: MonthDay;
+    /** 1099-NEC to the IRS, paper or electronic. */
+    nec: MonthDay;
+    /** 1099-MISC to the IRS on paper. */
+    miscPaper: MonthDay;
+    /** 1099-MISC to the IRS electronically. */
+    miscElectronic: MonthDay;
+  };
+}
+
+const MISC_2020: Record<MISCThresholdField, number> = {
+  rents: 600,
+  royalties: 10,
+  other_income: 600,
+  fishing_boat_proceeds: 0,
+  medical_payments: 600,
+  substitute_payments: 10,
+  crop_insurance: 600,
+  gross_proceeds_attorney: 600,
+};
+
+const DUE_DATES: TaxYearRules['dueDates'] = {
+  recipientCopy: '01-31',
+  nec: '01-31',
+  miscPaper: '02-28',
+  miscElectronic: '03-31',
+};
+
+/** Oldest first; `from` years strictly increasing. */
+export const TAX_YEAR_RULES: readonly TaxYearRules[] = [
+  {
+    from: 2020, // 1099-NEC reintroduced for nonemployee compensation
+    necThreshold: 600,
+    miscThresholds: MISC_2020,
+    backupWithholdingRate: 0.24,
+    sanityCeiling: 10_000_000,
+    lateFilingYears: 3,
+    dueDates: DUE_DATES,
+  },
+  {
+    from: 2026, // payments made after December 31, 2025
+    necThreshold: 2000,
+    miscThresholds: {
+      ...MISC_2020,
+      rents: 2000,
+      other_income: 2000,
+      medical_payments: 2000,
+      crop_insurance: 2000,
+      gross_proceeds_attorney: 2000,
+    },
+    backupWithholdingRate: 0.24,
+    sanityCeiling: 10_000_000,
+    lateFilingYears: 3,
+    dueDates: DUE_DATES,
+  },
+];
+
+/**
+ * Rules for a tax year: the latest entry that starts at or before it. Years
+ * before the table use its first entry.
+ */
+export function taxYearRules(taxYear: number | string): TaxYearRules {
+  const year = Number(taxYear);
+  let rules = TAX_YEAR_RULES[0]!;
+  for (const entry of TAX_YEAR_RULES) {
+    if (entry.from <= year) rules = entry;
+  }
+  return rules;
+}
+
+/** The form's tax year, defaulting to the current calendar year like the payload builder. */
+export function formTaxYear(data: Pick<Form1099Request, 'tax_year'>, now = new Date()): number {
+  return data.tax_year ? parseInt(data.tax_year, 10) : now.getFullYear();
+}
+
+/**
+ * Tax years that can be filed now, oldest first: the current calendar year
+ * and the late-filing years before it.
+ */
+export function filingYears(now = new Date()): number[] {
+  const current = now.getFullYear();
+  const { lateFilingYears } = taxYearRules(current);
+  return Array.from({ length: lateFilingYears + 1 }, (_, i) => current - lateFilingYears + i);
+}
+
+/** `YYYY-MM-DD` for a month-day in `year`, moved off a weekend to the next Monday. */
+function businessDay(year: number, monthDay: MonthDay): string {
+  const date = new Date(`${year}-${monthDay}T00:00:00Z`);
+  const day = date.getUTCDay();
+  if (day === 6) date.setUTCDate(date.getUTCDate() + 2);
+  if (day === 0) date.setUTCDate(date.getUTCDate() + 1);
+  return date.toISOString().slice(0, 10);
+}
+
+export interface FilingDueDates {
+  /** Copy B must be furnished to the recipient by this date. */
+  recipientCopy: string;
+  /** The return must be e-filed with the IRS by this date. */
+  electronic: string;
+  /** The return must be filed with the IRS on paper by this date. */
+  paper: string;
+}
+
+/**
+ * Due dates (`YYYY-MM-DD`) for a form type and tax year. A due date on a
+ * Saturday or Sunday moves to the following Monday.
+ */
+export function filingDueDates(formType: FormType, taxYear: number | string): FilingDueDates {
+  const year = Number(taxYear) + 1;
+  const { dueDates } = taxYearRules(taxYear);
+  const recipientCopy = businessDay(year, dueDates.recipientCopy);
+  if (formType === '1099-NEC') {
+    const nec = businessDay(year, dueDates.nec);
+    return { recipientCopy, electronic: nec, paper: nec };
+  }
+  return {
+    recipientCopy,
+    electronic: businessDay(year, dueDates.miscElectronic),
+    paper: businessDay(year, dueDates.miscPaper),
+  };
+}
@@ -5,8 +5,14 @@ import {
   buildJWS,
   buildCreateRequest,
   buildBatchCreateRequest,
+  buildMISCCreateRequest,
+  buildBatchMISCCreateRequest,
+  buildCorrectionRequest,
+  buildTinMatchRequest,
+  groupByPayer,
+  miscTotal,
 } from './taxbandits';
-import type { Form1099NECRequest, TaxBanditsCreateRequest } from './types';
+import type { Form1099NECRequest, Form1099MISCRequest, CorrectionTarget } from './types';
 
 // ---------------------------------------------------------------------------
 // Fixtures
@@ -44,6 +50,21 @@ function validRequest(overrides: Partial<Form1099NECRequest> = {}): Form1099NECR
   };
 }
 
+function validMISCRequest(overrides: Partial<Form1099MISCRequest> = {}): Form1099MISCRequest {
+  const { payer, recipient, tax_year } = validRequest();
+  return {
+    form_type: '1099-MISC',
+    payer,
+    recipient,
+    rents: 12000,
+    royalties: 850.5,
+    is_federal_tax_withheld: false,
+    is_state_filing: false,
+    tax_year,
+    ...overrides,
+  };
+}
+
 // ---------------------------------------------------------------------------
 // base64url()
 // ---------------------------------------------------------------------------
@@ -204,6 +225,16 @@ describe('buildCreateRequest', () => {
     expect(result.ReturnHeader.Business.EINorSSN).not.toContain('-');
   });
 
+  it('refuses to build a payload from an unrevealed tin_ref', () => {
+    const req = validRequest();
+    req.recipient = {
+      ...req.recipient,
+      tin: undefined,
+      tin_ref: 'tin_s9654_AAAAAAAAAAAAAAAAAAAAAA',
+    };
+    expect(() => buildCreateRequest(req)).toThrow('tin_ref must be revealed');
+  });
+
   it('sets IsEIN=true for EIN payers', () => {
     const result = buildCreateRequest(validRequest());
     expect(result.ReturnHeader.Business.IsEIN).toBe(true);
@@ -294,6 +325,21 @@ describe('buildCreateRequest', () => {
     expect(record.NECFormData.States?.[0]?.StateIncome).toBe('8000.00');
   });
 
+  it('emits one States entry per state line', () => {
+    const req = validRequest({
+      is_state_filing: true,
+      states: [
+        { state: 'CA', state_income: 3000, state_tax_withheld: 120, state_id: '123-4567-8' },
+        { state: 'OR', state_income: 2000 },
+      ],
+    });
+    const states = buildCreateRequest(req).ReturnData[0]?.NECFormData.States;
+    expect(states).toEqual([
+      { StateCd: 'CA', StateIncome: '3000.00', StateTaxWithheld: '120.00', StateIdNum: '12345678' },
+      { StateCd: 'OR', StateIncome: '2000.00', StateTaxWithheld: '0.00', StateIdNum: undefined },
+    ]);
+  });
+
   it('generates unique SequenceId per call', () => {
     const r1 = buildCreateRequest(validRequest());
     const r2 = buildCreateRequest(validRequest());
@@ -313,6 +359,51 @@ describe('buildCreateRequest', () => {
     expect(result.ReturnData[0]?.Recipient.IsForeignAddress).toBe(false);
   });
 
+  it('emits ForeignAddress instead of USAddress for foreign parties', () => {
+    const req = validRequest();
+    req.recipient = {
+      first_name: 'Amélie',
+      last_name: 'Roy',
+      tin: '412789654',
+      tin_type: 'SSN',
+      foreign_address: {
+        address_line1: '1200 Rue Sherbrooke O',
+        city: 'Montréal',
+        province_or_state: 'QC',
+        postal_code: 'H3A 1H6',
+        country: 'CA',
+      },
+    };
+    const recipient = buildCreateRequest(req).ReturnData[0]?.Recipient;
+    expect(recipient).toMatchObject({
+      IsForeignAddress: true,
+      ForeignAddress: {
+        Address1: '1200 Rue Sherbrooke O',
+        City: 'Montréal',
+        ProvinceOrStateNm: 'QC',
+        Country: 'CA',
+        PostalCd: 'H3A 1H6',
+      },
+    });
+    expect(recipient).not.toHaveProperty('USAddress');
+  });
+
+  it('emits a foreign payer address in the return header', () => {
+    const req = validRequest();
+    req.payer = {
+      ...req.payer,
+      address: undefined,
+      city: undefined,
+      state: undefined,
+      zip_code: undefined,
+      foreign_address: { address_line1: '10 Downing St', city: 'London', country: 'GB' },
+    };
+    const business = buildCreateRequest(req).ReturnHeader.Business;
+    expect(business.IsForeignAddress).toBe(true);
+    if (!business.IsForeignAddress) throw new Error('expected foreign address');
+    expect(business.ForeignAddress.Country).toBe('GB');
+  });
+
   it('uses default kind_of_employer and kind_of_payer', () => {
     const result = buildCreateRequest(validRequest());
     expect(result.ReturnHeader.Business.KindOfEmployer).toBe('NONEAPPLY');
@@ -333,6 +424,56 @@ describe('buildCreateRequest', () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// groupByPayer() — one submission per payer
+// ---------------------------------------------------------------------------
+describe('groupByPayer', () => {
+  function forPayer(name: string, tin: string) {
+    const form = validRequest();
+    form.payer = { ...form.payer, name, tin };
+    return form;
+  }
+
+  it('groups forms by payer TIN in order of first appearance', () => {
+    const groups = groupByPayer([
+      forPayer('Acme Corp', '27-1234567'),
+      forPayer('Globex LLC', '98-7654321'),
+      forPayer('Acme Corp', '27-1234567'),
+    ]);
+    expect(groups.map((g) => g.payer.name)).toEqual(['Acme Corp', 'Globex LLC']);
+    expect(groups.map((g) => g.indexes)).toEqual([[0, 2], [1]]);
+    expect(groups[0]?.forms).toHaveLength(2);
+  });
+
+  it('ignores TIN formatting and payer name differences', () => {
+    const groups = groupByPayer([
+      forPayer('Acme Corp', '27-1234567'),
+      forPayer('ACME Corporation', '271234567'),
+    ]);
+    expect(groups).toHaveLength(1);
+  });
+
+  it('groups vaulted payers by tin_ref', () => {
+    const ref = 'tin_e4567_abcdefghijklmnopqrstuv';
+    const vaulted = validRequest();
+    vaulted.payer = { ...vaulted.payer, tin: undefined, tin_ref: ref };
+    const groups = groupByPayer([vaulted, { ...vaulted }, validRequest()]);
+    expect(groups.map((g) => g.key)).toEqual([ref, '271234567']);
+  });
+
+  it('yields batches the payload builder accepts', () => {
+    const groups = groupByPayer([
+      forPayer('Acme Corp', '27-1234567'),
+      forPayer('Globex LLC', '98-7654321'),
+    ]);
+    const payloads = groups.map((g) => buildBatchCreateRequest(g.forms));
+    expect(payloads.map((p) => p.ReturnHeader.Business.EINorSSN)).toEqual([
+      '271234567',
+      '987654321',
+    ]);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // buildBatchCreateRequest() — batch filing
 // ---------------------------------------------------------------------------
@@ -381,6 +522,12 @@ describe('buildBatchCreateRequest', () => {
     expect(() => buildBatchCreateRequest([])).toThrow('At least one form');
   });
 
+  it('throws instead of filing a second payer under the first', () => {
+    const other = validRequest();
+    other.payer = { ...other.payer, name: 'Globex LLC', tin: '98-7654321' };
+    expect(() => buildBatchCreateRequest([validRequest(), other])).toThrow('one payer');
+  });
+
   it('single-form batch matches single buildCreateRequest structure', () => {
     const form = validRequest();
     const batch = buildBatchCreateRequest([form]);
@@ -489,3 +636,124 @@ describe('floating-point rounding edge cases', () => {
     expect(result.ReturnData[1]?.NECFormData.B1NEC).toBe('5001.00');
   });
 });
+
+// ---------------------------------------------------------------------------
+// buildMISCCreateRequest() — 1099-MISC payloads
+// ---------------------------------------------------------------------------
+describe('buildMISCCreateRequest', () => {
+  it('emits MISCFormData with 2-decimal box amounts', () => {
+    const result = buildMISCCreateRequest(validMISCRequest());
+    const record = result.ReturnData[0];
+    if (!record) throw new Error('missing ReturnData');
+    expect(record.MISCFormData.B1Rents).toBe('12000.00');
+    expect(record.MISCFormData.B2Royalties).toBe('850.50');
+    expect(record.MISCFormData.B7IsDirectSale).toBe(false);
+  });
+
+  it('omits empty boxes', () => {
+    const result = buildMISCCreateRequest(validMISCRequest());
+    const data = result.ReturnData[0]?.MISCFormData;
+    expect(data?.B3OtherIncome).toBeUndefined();
+    expect(data?.B10GrossProceedAttrny).toBeUndefined();
+    expect(data?.B4FedIncomeTaxWH).toBeUndefined();
+  });
+
+  it('shares the payer header with 1099-NEC', () => {
+    const misc = buildMISCCreateRequest(validMISCRequest());
+    const nec = buildCreateRequest(validRequest());
+    expect(misc.ReturnHeader.Business.EINorSSN).toBe(nec.ReturnHeader.Business.EINorSSN);
+    expect(misc.ReturnData[0]?.Recipient.TIN).toBe('412789654');
+  });
+
+  it('defaults state income to the total of all boxes', () => {
+    const result = buildMISCCreateRequest(
+      validMISCRequest({ is_state_filing: true, state: 'CA', gross_proceeds_attorney: 1000 }),
+    );
+    expect(result.ReturnData[0]?.MISCFormData.States?.[0]?.StateIncome).toBe('13850.50');
+  });
+
+  it('miscTotal sums every dollar box', () => {
+    expect(miscTotal(validMISCRequest({ other_income: 100, crop_insurance: 50 }))).toBe(13000.5);
+  });
+
+  it('batch builds one record per form', () => {
+    const result = buildBatchMISCCreateRequest([validMISCRequest(), validMISCRequest()]);
+    expect(result.ReturnData).toHaveLength(2);
+    expect(() => buildBatchMISCCreateRequest([])).toThrow('At least one form');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// buildCorrectionRequest() — corrections and voids
+// ---------------------------------------------------------------------------
+describe('buildCorrectionRequest', () => {
+  const target: CorrectionTarget = {
+    submissionId: '0b7f3a4e-1c2d-4e5f-8a9b-0c1d2e3f4a5b',
+    recordId: '9e8d7c6b-5a4f-4e3d-8c2b-1a0f9e8d7c6b',
+    correctionType: 'TYPE1',
+    isVoid: false,
+  };
+
+  it('ties the corrected record to the original submission and record', () => {
+    const result = buildCorrectionRequest(validRequest({ nonemployee_compensation: 4200 }), target);
+    expect(result.SubmissionId).toBe(target.submissionId);
+    const record = result.ReturnData[0];
+    expect(record?.RecordId).toBe(target.recordId);
+    expect(record?.NECFormData.B1NEC).toBe('4200.00');
+    expect(record?.CorrectionData).toEqual({ CorrectionType: 'TYPE1', IsVoid: false });
+  });
+
+  it('carries the corrected recipient on a Type 2 correction', () => {
+    const req = validRequest();
+    req.recipient = { ...req.recipient, tin: '412-78-9655' };
+    const result = buildCorrectionRequest(req, { ...target, correctionType: 'TYPE2' });
+    expect(result.ReturnData[0]?.Recipient.TIN).toBe('412789655');
+    expect(result.ReturnData[0]?.CorrectionData.CorrectionType).toBe('TYPE2');
+  });
+
+  it('zeroes every amount on a void', () => {
+    const result = buildCorrectionRequest(
+      validRequest({
+        is_federal_tax_withheld: true,
+        federal_tax_withheld: 500,
+        is_state_filing: true,
+        state: 'TX',
+        state_income: 5000,
+        state_tax_withheld: 100,
+      }),
+      { ...target, isVoid: true },
+    );
+    const data = result.ReturnData[0]?.NECFormData;
+    expect(data?.B1NEC).toBe('0.00');
+    expect(data?.B4FedTaxWH).toBeUndefined();
+    expect(data?.States?.[0]).toEqual({
+      StateCd: 'TX',
+      StateIncome: '0.00',
+      StateTaxWithheld: '0.00',
+    });
+    expect(result.ReturnData[0]?.CorrectionData.IsVoid).toBe(true);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// buildTinMatchRequest()
+// ---------------------------------------------------------------------------
+describe('buildTinMatchRequest', () => {
+  it('numbers records from 1 and strips TIN dashes', () => {
+    const result = buildTinMatchRequest([
+      { name: 'Jane Smith', tin: '412-78-9654', tinType: 'SSN' },
+      { name: 'Acme LLC', tin: '27-1234567', tinType: 'EIN' },
+    ]);
+    expect(result.TINMatchingRecords).toEqual([
+      { SequenceId: '1', TINType: 'SSN', TIN: '412789654', Name: 'Jane Smith' },
+      { SequenceId: '2', TINType: 'EIN', TIN: '271234567', Name: 'Acme LLC' },
+    ]);
+  });
+
+  it('truncates names to the 40-character IRS name line', () => {
+    const result = buildTinMatchRequest([
+      { name: 'x'.repeat(60), tin: '412789654', tinType: 'SSN' },
+    ]);
+    expect(result.TINMatchingRecords[0]?.Name).toHaveLength(40);
+  });
+});
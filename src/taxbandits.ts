@@ -1,14 +1,32 @@
 import type {
   Env,
   Form1099NECRequest,
+  Form1099MISCRequest,
+  Form1099Request,
   TaxBanditsError,
   TaxBanditsTokenResponse,
   TaxBanditsCreateRequest,
+  TaxBanditsMISCCreateRequest,
+  TaxBanditsCorrectionRequest,
+  CorrectionTarget,
+  TaxBanditsNECFormData,
+  TaxBanditsMISCFormData,
+  TaxBanditsRecipient,
+  TaxBanditsAddressBlock,
+  PayerInfo,
+  RecipientInfo,
+  TaxBanditsStateData,
   TaxBanditsCreateResponse,
   TaxBanditsTransmitResponse,
   TaxBanditsStatusResponse,
+  TaxBanditsTinMatchRequest,
+  TaxBanditsTinMatchResponse,
 } from './types';
 import { TaxBanditsAuthError, TaxBanditsTransientError, TaxBanditsBusinessError } from './types';
+import type { FormDefinition } from './forms';
+import type { TinMatchQuery } from './tin-match';
+import { stateLines } from './state-rules';
+import { revealTINs } from './vault';
 import { Effect, Schedule } from 'effect';
 
 // ============================================================
@@ -257,21 +275,59 @@ function apiCall<T extends TaxBanditsResponse>(
 // Transform our types → TaxBandits API format
 // ============================================================
 
-export function buildCreateRequest(data: Form1099NECRequest): TaxBanditsCreateRequest {
-  const taxYear = data.tax_year ?? new Date().getFullYear().toString();
+/**
+ * USAddress or ForeignAddress block for a payer/recipient. The schema
+ * guarantees the US fields are present whenever `foreign_address` is absent.
+ */
+function buildAddress(party: PayerInfo | RecipientInfo): TaxBanditsAddressBlock {
+  const foreign = party.foreign_address;
+  if (foreign) {
+    return {
+      IsForeignAddress: true,
+      ForeignAddress: {
+        Address1: foreign.address_line1,
+        Address2: foreign.address_line2,
+        City: foreign.city,
+        ProvinceOrStateNm: foreign.province_or_state,
+        Country: foreign.country,
+        PostalCd: foreign.postal_code,
+      },
+    };
+  }
+  return {
+    IsForeignAddress: false,
+    USAddress: {
+      Address1: party.address ?? '',
+      City: party.city ?? '',
+      State: party.state ?? '',
+      ZipCd: party.zip_code ?? '',
+    },
+  };
+}
 
+/** Digits-only TIN for a payload. `tin_ref`s are swapped for TINs by `revealTINs` first. */
+function payloadTIN(party: { tin?: string; tin_ref?: string }): string {
+  if (!party.tin)
+    throw new Error('TIN missing — tin_ref must be revealed before building a payload');
+  return party.tin.replace(/-/g, '');
+}
+
+type TaxBanditsHeader = Pick<TaxBanditsCreateRequest, 'SubmissionManifest' | 'ReturnHeader'>;
+
+/** Manifest + payer header, shared by every 1099 form type. */
+function buildHeader(data: Form1099Request, isStateFiling: boolean): TaxBanditsHeader {
   return {
     SubmissionManifest: {
-      TaxYear: taxYear,
+      TaxYear: data.tax_year ?? new Date().getFullYear().toString(),
       IsFederalFiling: true,
-      IsStateFiling: data.is_state_filing,
+      IsStateFiling: isStateFiling,
       IsPostal: false,
       IsOnlineAccess: false,
     },
     ReturnHeader: {
       Business: {
         BusinessNm: data.payer.name,
-        EINorSSN: data.payer.tin.replace(/-/g, ''),
+        EINorSSN: payloadTIN(data.payer),
         IsEIN: (data.payer.tin_type ?? 'EIN') === 'EIN',
         BusinessType: data.payer.business_type ?? 'LLC',
         Phone: data.payer.phone.replace(/\D/g, ''),
@@ -279,157 +335,274 @@ export function buildCreateRequest(data: Form1099NECRequest): TaxBanditsCreateRe
         KindOfEmployer: data.kind_of_employer ?? 'NONEAPPLY',
         KindOfPayer: data.kind_of_payer ?? 'REGULAR941',
         IsBusinessTerminated: false,
-        IsForeignAddress: false, // TODO: support foreign addresses (see README known limitations)
-        USAddress: {
-          Address1: data.payer.address,
-          City: data.payer.city,
-          State: data.payer.state,
-          ZipCd: data.payer.zip_code,
-        },
+        ...buildAddress(data.payer),
       },
     },
+  };
+}
+
+function buildRecipient(data: Form1099Request): TaxBanditsRecipient {
+  return {
+    TINType: data.recipient.tin_type,
+    TIN: payloadTIN(data.recipient),
+    FirstPayeeNm: `${data.recipient.first_name} ${data.recipient.last_name}`,
+    ...buildAddress(data.recipient),
+  };
+}
+
+/** State blocks, one per state line — `defaultIncome` is used when `state_income` is omitted. */
+function buildStates(
+  data: Form1099Request,
+  defaultIncome: number,
+): { States?: TaxBanditsStateData[] } {
+  const lines = stateLines(data);
+  if (!data.is_state_filing || lines.length === 0) return {};
+  return {
+    States: lines.map((line) => ({
+      StateCd: line.state,
+      StateIncome: (line.state_income ?? defaultIncome).toFixed(2),
+      StateTaxWithheld: (line.state_tax_withheld ?? 0).toFixed(2),
+      StateIdNum: line.state_id?.replace(/[\s-]/g, ''),
+    })),
+  };
+}
+
+function buildNECFormData(data: Form1099NECRequest): TaxBanditsNECFormData {
+  return {
+    B1NEC: data.nonemployee_compensation.toFixed(2),
+    B4FedTaxWH: data.is_federal_tax_withheld
+      ? (data.federal_tax_withheld ?? 0).toFixed(2)
+      : undefined,
+    Is2ndTINnot: false,
+    IsDirectSales: false,
+    ...buildStates(data, data.nonemployee_compensation),
+  };
+}
+
+/** Format an optional dollar amount; zero/absent boxes are left off the payload. */
+function amount(value: number | undefined): string | undefined {
+  return value ? value.toFixed(2) : undefined;
+}
+
+/** Sum of every dollar box on a 1099-MISC (used as the default state income). */
+export function miscTotal(data: Form1099MISCRequest): number {
+  return (
+    (data.rents ?? 0) +
+    (data.royalties ?? 0) +
+    (data.other_income ?? 0) +
+    (data.fishing_boat_proceeds ?? 0) +
+    (data.medical_payments ?? 0) +
+    (data.substitute_payments ?? 0) +
+    (data.crop_insurance ?? 0) +
+    (data.gross_proceeds_attorney ?? 0)
+  );
+}
+
+function buildMISCFormData(data: Form1099MISCRequest): TaxBanditsMISCFormData {
+  return {
+    B1Rents: amount(data.rents),
+    B2Royalties: amount(data.royalties),
+    B3OtherIncome: amount(data.other_income),
+    B4FedIncomeTaxWH: data.is_federal_tax_withheld
+      ? (data.federal_tax_withheld ?? 0).toFixed(2)
+      : undefined,
+    B5FishingBoatProceeds: amount(data.fishing_boat_proceeds),
+    B6MedHealthcarePymt: amount(data.medical_payments),
+    B7IsDirectSale: data.direct_sales ?? false,
+    B8SubstitutePymt: amount(data.substitute_payments),
+    B9CropInsurance: amount(data.crop_insurance),
+    B10GrossProceedAttrny: amount(data.gross_proceeds_attorney),
+    Is2ndTINnot: false,
+    ...buildStates(data, miscTotal(data)),
+  };
+}
+
+function sequenceId(): string {
+  return `seq-${crypto.randomUUID().slice(0, 8)}`;
+}
+
+export function buildCreateRequest(data: Form1099NECRequest): TaxBanditsCreateRequest {
+  return {
+    ...buildHeader(data, data.is_state_filing),
     ReturnData: [
       {
-        SequenceId: `seq-${crypto.randomUUID().slice(0, 8)}`,
-        Recipient: {
-          TINType: data.recipient.tin_type,
-          TIN: data.recipient.tin.replace(/-/g, ''),
-          FirstPayeeNm: `${data.recipient.first_name} ${data.recipient.last_name}`,
-          IsForeignAddress: false, // TODO: support foreign addresses (see README known limitations)
-          USAddress: {
-            Address1: data.recipient.address,
-            City: data.recipient.city,
-            State: data.recipient.state,
-            ZipCd: data.recipient.zip_code,
-          },
-        },
-        NECFormData: {
-          B1NEC: data.nonemployee_compensation.toFixed(2),
-          B4FedTaxWH: data.is_federal_tax_withheld
-            ? (data.federal_tax_withheld ?? 0).toFixed(2)
-            : undefined,
-          Is2ndTINnot: false,
-          IsDirectSales: false,
-          ...(data.is_state_filing && data.state
-            ? {
-                States: [
-                  {
-                    StateCd: data.state,
-                    StateIncome: (data.state_income ?? data.nonemployee_compensation).toFixed(2),
-                    StateTaxWithheld: (data.state_tax_withheld ?? 0).toFixed(2),
-                  },
-                ],
-              }
-            : {}),
-        },
+        SequenceId: sequenceId(),
+        Recipient: buildRecipient(data),
+        NECFormData: buildNECFormData(data),
       },
     ],
   };
 }
 
+/**
+ * Key identifying a payer entity: its TIN digits, or its `tin_ref` (vaulting
+ * the same TIN always yields the same ref).
+ */
+export function payerKey(payer: PayerInfo): string {
+  return payer.tin_ref ?? (payer.tin ?? '').replace(/\D/g, '');
+}
+
+/** Forms of one payer, with their positions in the original batch. */
+export interface PayerGroup<T extends Form1099Request> {
+  key: string;
+  payer: PayerInfo;
+  indexes: number[];
+  forms: T[];
+}
+
+/**
+ * Split a batch into one group per payer, in order of first appearance.
+ * A TaxBandits submission has a single payer header, so each group is
+ * filed as its own submission.
+ */
+export function groupByPayer<T extends Form1099Request>(forms: T[]): PayerGroup<T>[] {
+  const groups = new Map<string, PayerGroup<T>>();
+  forms.forEach((form, i) => {
+    const key = payerKey(form.payer);
+    const group = groups.get(key) ?? { key, payer: form.payer, indexes: [], forms: [] };
+    group.indexes.push(i);
+    group.forms.push(form);
+    groups.set(key, group);
+  });
+  return [...groups.values()];
+}
+
+/** The payer header comes from the first form, so every form must share its payer. */
+function firstOfOnePayer<T extends Form1099Request>(forms: T[]): T {
+  const first = forms[0];
+  if (!first) throw new Error('At least one form is required');
+  const key = payerKey(first.payer);
+  if (forms.some((f) => payerKey(f.payer) !== key)) {
+    throw new Error('All forms in a submission must share one payer — group them by payer first');
+  }
+  return first;
+}
+
 /**
  * Build a TaxBandits create request for multiple recipients (batch filing).
  * All recipients share the same payer, tax year, and filing options.
  */
 export function buildBatchCreateRequest(forms: Form1099NECRequest[]): TaxBanditsCreateRequest {
-  const first = forms[0];
-  if (!first) throw new Error('At least one form is required');
+  const first = firstOfOnePayer(forms);
+
+  return {
+    ...buildHeader(
+      first,
+      forms.some((f) => f.is_state_filing),
+    ),
+    ReturnData: forms.map((data) => ({
+      SequenceId: sequenceId(),
+      Recipient: buildRecipient(data),
+      NECFormData: buildNECFormData(data),
+    })),
+  };
+}
+
+export function buildMISCCreateRequest(data: Form1099MISCRequest): TaxBanditsMISCCreateRequest {
+  return buildBatchMISCCreateRequest([data]);
+}
 
-  const taxYear = first.tax_year ?? new Date().getFullYear().toString();
-  const hasStateFiling = forms.some((f) => f.is_state_filing);
+/** 1099-MISC counterpart of `buildBatchCreateRequest` — same payer/header rules. */
+export function buildBatchMISCCreateRequest(
+  forms: Form1099MISCRequest[],
+): TaxBanditsMISCCreateRequest {
+  const first = firstOfOnePayer(forms);
 
   return {
-    SubmissionManifest: {
-      TaxYear: taxYear,
-      IsFederalFiling: true,
-      IsStateFiling: hasStateFiling,
-      IsPostal: false,
-      IsOnlineAccess: false,
-    },
-    ReturnHeader: {
-      Business: {
-        BusinessNm: first.payer.name,
-        EINorSSN: first.payer.tin.replace(/-/g, ''),
-        IsEIN: (first.payer.tin_type ?? 'EIN') === 'EIN',
-        BusinessType: first.payer.business_type ?? 'LLC',
-        Phone: first.payer.phone.replace(/\D/g, ''),
-        Email: first.payer.email,
-        KindOfEmployer: first.kind_of_employer ?? 'NONEAPPLY',
-        KindOfPayer: first.kind_of_payer ?? 'REGULAR941',
-        IsBusinessTerminated: false,
-        IsForeignAddress: false,
-        USAddress: {
-          Address1: first.payer.address,
-          City: first.payer.city,
-          State: first.payer.state,
-          ZipCd: first.payer.zip_code,
-        },
-      },
-    },
+    ...buildHeader(
+      first,
+      forms.some((f) => f.is_state_filing),
+    ),
     ReturnData: forms.map((data) => ({
-      SequenceId: `seq-${crypto.randomUUID().slice(0, 8)}`,
-      Recipient: {
-        TINType: data.recipient.tin_type,
-        TIN: data.recipient.tin.replace(/-/g, ''),
-        FirstPayeeNm: `${data.recipient.first_name} ${data.recipient.last_name}`,
-        IsForeignAddress: false,
-        USAddress: {
-          Address1: data.recipient.address,
-          City: data.recipient.city,
-          State: data.recipient.state,
-          ZipCd: data.recipient.zip_code,
-        },
-      },
-      NECFormData: {
-        B1NEC: data.nonemployee_compensation.toFixed(2),
-        B4FedTaxWH: data.is_federal_tax_withheld
-          ? (data.federal_tax_withheld ?? 0).toFixed(2)
-          : undefined,
-        Is2ndTINnot: false,
-        IsDirectSales: false,
-        ...(data.is_state_filing && data.state
-          ? {
-              States: [
-                {
-                  StateCd: data.state,
-                  StateIncome: (data.state_income ?? data.nonemployee_compensation).toFixed(2),
-                  StateTaxWithheld: (data.state_tax_withheld ?? 0).toFixed(2),
-                },
-              ],
-            }
-          : {}),
-      },
+      SequenceId: sequenceId(),
+      Recipient: buildRecipient(data),
+      MISCFormData: buildMISCFormData(data),
     })),
   };
 }
 
-// ============================================================
-// Public API
-// ============================================================
+/** The form as it must be refiled to void it: same parties, every amount zero. */
+export function voidedForm(data: Form1099NECRequest): Form1099NECRequest {
+  return {
+    ...data,
+    nonemployee_compensation: 0,
+    is_federal_tax_withheld: false,
+    federal_tax_withheld: undefined,
+    state_income: 0,
+    state_tax_withheld: 0,
+    states: data.states?.map((line) => ({ ...line, state_income: 0, state_tax_withheld: 0 })),
+  };
+}
 
 /**
- * Create a 1099-NEC form in TaxBandits.
- * Returns a SubmissionId + RecordId for tracking.
+ * Build a corrected 1099-NEC for an already-transmitted record. The payload is
+ * a full return (corrections replace the original, they are not diffs) tied to
+ * the original SubmissionId/RecordId.
  */
-export function create1099NEC(env: Env, data: Form1099NECRequest) {
-  const body = buildCreateRequest(data);
-  return apiCall<TaxBanditsCreateResponse>(env, 'POST', '/Form1099NEC/Create', body);
+export function buildCorrectionRequest(
+  data: Form1099NECRequest,
+  target: CorrectionTarget,
+): TaxBanditsCorrectionRequest {
+  const filed = target.isVoid ? voidedForm(data) : data;
+  return {
+    SubmissionId: target.submissionId,
+    ...buildHeader(filed, filed.is_state_filing),
+    ReturnData: [
+      {
+        SequenceId: sequenceId(),
+        RecordId: target.recordId,
+        Recipient: buildRecipient(filed),
+        NECFormData: buildNECFormData(filed),
+        CorrectionData: { CorrectionType: target.correctionType, IsVoid: target.isVoid },
+      },
+    ],
+  };
 }
 
+/** IRS TIN matching accepts the first 40 characters of the name line. */
+export function buildTinMatchRequest(queries: TinMatchQuery[]): TaxBanditsTinMatchRequest {
+  return {
+    TINMatchingRecords: queries.map((q, i) => ({
+      SequenceId: String(i + 1),
+      TINType: q.tinType,
+      TIN: q.tin.replace(/\D/g, ''),
+      Name: q.name.slice(0, 40),
+    })),
+  };
+}
+
+// ============================================================
+// Public API
+// ============================================================
+
 /**
- * Create multiple 1099-NEC forms in a single TaxBandits submission.
- * All forms must share the same payer. Max 100 per batch.
+ * Create one TaxBandits submission holding every form (same payer, same form type).
+ * Returns a SubmissionId + a RecordId per form for tracking. Max 100 per submission.
+ * `tenant`'s vaulted TINs (`tin_ref`) are decrypted here, for the payload only.
  */
-export function createBatch1099NEC(env: Env, forms: Form1099NECRequest[]) {
-  const body = buildBatchCreateRequest(forms);
-  return apiCall<TaxBanditsCreateResponse>(env, 'POST', '/Form1099NEC/Create', body);
+export function createSubmission<T extends Form1099Request>(
+  env: Env,
+  tenant: string,
+  form: FormDefinition<T>,
+  forms: T[],
+) {
+  return revealTINs(env, tenant, forms).pipe(
+    Effect.flatMap((revealed) =>
+      apiCall<TaxBanditsCreateResponse>(
+        env,
+        'POST',
+        form.paths.create,
+        form.buildPayload(revealed),
+      ),
+    ),
+  );
 }
 
 /**
  * Transmit a submission to the IRS.
  */
-export function transmit(env: Env, submissionId: string) {
-  return apiCall<TaxBanditsTransmitResponse>(env, 'POST', '/Form1099NEC/Transmit', {
+export function transmit(env: Env, submissionId: string, form: Pick<FormDefinition, 'paths'>) {
+  return apiCall<TaxBanditsTransmitResponse>(env, 'POST', form.paths.transmit, {
     SubmissionId: submissionId,
   });
 }
@@ -437,10 +610,23 @@ export function transmit(env: Env, submissionId: string) {
 /**
  * Check the filing status of a submission.
  */
-export function getStatus(env: Env, submissionId: string) {
+export function getStatus(env: Env, submissionId: string, form: Pick<FormDefinition, 'paths'>) {
   return apiCall<TaxBanditsStatusResponse>(
     env,
     'GET',
-    `/Form1099NEC/Status?SubmissionId=${encodeURIComponent(submissionId)}`,
+    `${form.paths.status}?SubmissionId=${encodeURIComponent(submissionId)}`,
+  );
+}
+
+/**
+ * Check name/TIN pairs against IRS records. Results come back per SequenceId
+ * (1-based position in `queries`).
+ */
+export function tinMatch(env: Env, queries: TinMatchQuery[]) {
+  return apiCall<TaxBanditsTinMatchResponse>(
+    env,
+    'POST',
+    '/TINMatching/Request',
+    buildTinMatchRequest(queries),
   );
 }
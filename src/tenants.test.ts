@@ -0,0 +1,191 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { env, createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import worker from './index';
+import { createAuth, migrateAuthDb } from './auth';
+import { NO_OWNER } from './outbound-webhooks';
+import { GLOBAL_TENANT, findTenant, registerSubmission, tenantOf, tenantState } from './tenants';
+import type { Env } from './types';
+import type { WebhookState } from './webhook-state';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const ADMIN_TOKEN = 'admin-token-for-tenant-tests';
+
+const authEnv = {
+  ...env,
+  BETTER_AUTH_SECRET: 'test-secret-at-least-32-characters-long',
+  BETTER_AUTH_URL: 'http://localhost',
+  TAX_AGENT_API_KEY: ADMIN_TOKEN,
+  TAXBANDITS_CLIENT_ID: 'tb-client-id',
+  TAXBANDITS_CLIENT_SECRET: 'tb-client-secret',
+} as unknown as Env;
+
+function ns(): DurableObjectNamespace<WebhookState> {
+  const binding = authEnv.WEBHOOK_STATE;
+  if (!binding) throw new Error('WEBHOOK_STATE binding missing');
+  return binding;
+}
+
+async function call(path: string, init: RequestInit = {}) {
+  const ctx = createExecutionContext();
+  const res = await worker.fetch(new Request(`http://localhost${path}`, init), authEnv, ctx);
+  await waitOnExecutionContext(ctx);
+  return res;
+}
+
+/** TaxBandits' webhook signature: base64 HMAC-SHA256 of "clientId\ntimestamp". */
+async function taxBanditsSignature(timestamp: string) {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode('tb-client-secret'),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  const sig = await crypto.subtle.sign('HMAC', key, encoder.encode(`tb-client-id\n${timestamp}`));
+  return btoa(String.fromCharCode(...new Uint8Array(sig)));
+}
+
+const SUB_A = '0b9c1e6a-1111-4a1a-9a1a-aaaaaaaaaaaa';
+const SUB_B = '0b9c1e6a-2222-4b2b-9b2b-bbbbbbbbbbbb';
+const SUB_GLOBAL = '0b9c1e6a-3333-4c3c-9c3c-cccccccccccc';
+
+// ---------------------------------------------------------------------------
+// tenantOf() and the submission directory
+// ---------------------------------------------------------------------------
+describe('tenantOf', () => {
+  it('gives each API key user a tenant of their own', () => {
+    expect(tenantOf({ userId: 'u1', apiKeyId: 'k1', organizationId: null })).toBe('user:u1');
+    expect(tenantOf({ userId: 'u1', apiKeyId: 'k2', organizationId: null })).toBe('user:u1');
+  });
+
+  it("files org-scoped keys under the organization's tenant", () => {
+    expect(tenantOf({ userId: 'u1', apiKeyId: 'k1', organizationId: 'o1' })).toBe('org:o1');
+    expect(tenantOf({ userId: 'u2', apiKeyId: 'k2', organizationId: 'o1' })).toBe('org:o1');
+  });
+
+  it('puts Bearer and dev-mode calls in the global tenant', () => {
+    expect(tenantOf(NO_OWNER)).toBe(GLOBAL_TENANT);
+  });
+});
+
+describe('submission directory', () => {
+  it('finds the tenant a submission was registered to', async () => {
+    await registerSubmission(ns(), SUB_A, 'user:u1');
+    expect(await findTenant(ns(), SUB_A)).toBe('user:u1');
+  });
+
+  it('treats unregistered submissions as global and keeps the first registration', async () => {
+    await registerSubmission(ns(), SUB_B, GLOBAL_TENANT);
+    expect(await findTenant(ns(), SUB_B)).toBe(GLOBAL_TENANT);
+    await registerSubmission(ns(), SUB_A, 'user:u1');
+    await registerSubmission(ns(), SUB_A, 'user:u2');
+    expect(await findTenant(ns(), SUB_A)).toBe('user:u1');
+    expect(await tenantState(ns(), GLOBAL_TENANT).listTenants()).toEqual(['user:u1']);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Tenant-scoped routes (HTTP)
+// ---------------------------------------------------------------------------
+describe('tenant-scoped submissions (HTTP)', () => {
+  let keyA: string;
+  let keyB: string;
+  let tenantA: string;
+  let tenantB: string;
+
+  beforeAll(async () => {
+    await migrateAuthDb(authEnv.AUTH_DB!);
+    const auth = createAuth(authEnv);
+    const permissions = { webhooks: ['read', 'manage'] };
+    const users = await Promise.all(
+      ['tenant-a@example.com', 'tenant-b@example.com'].map((email) =>
+        auth.api.signUpEmail({ body: { email, password: 'TestPassword123!', name: email } }),
+      ),
+    );
+    const [userA, userB] = users.map((u) => u.user.id);
+    keyA = (await auth.api.createApiKey({ body: { userId: userA!, permissions } })).key;
+    keyB = (await auth.api.createApiKey({ body: { userId: userB!, permissions } })).key;
+    tenantA = `user:${userA}`;
+    tenantB = `user:${userB}`;
+  });
+
+  async function seed() {
+    await tenantState(ns(), tenantA).trackSubmission(SUB_A);
+    await registerSubmission(ns(), SUB_A, tenantA);
+    await tenantState(ns(), tenantB).trackSubmission(SUB_B);
+    await registerSubmission(ns(), SUB_B, tenantB);
+    await tenantState(ns(), GLOBAL_TENANT).trackSubmission(SUB_GLOBAL);
+  }
+
+  it("lists only the caller's own submissions", async () => {
+    await seed();
+    const res = await call('/webhook/submissions', { headers: { 'x-api-key': keyA } });
+    expect(res.status).toBe(200);
+    const body = await res.json<{ data: Array<{ submissionId: string }> }>();
+    expect(body.data.map((s) => s.submissionId)).toEqual([SUB_A]);
+  });
+
+  it("answers 404 for another tenant's submission", async () => {
+    await seed();
+    const own = await call(`/webhook/submissions/${SUB_B}`, { headers: { 'x-api-key': keyB } });
+    expect(own.status).toBe(200);
+    const other = await call(`/webhook/submissions/${SUB_B}`, { headers: { 'x-api-key': keyA } });
+    expect(other.status).toBe(404);
+  });
+
+  it('shows the admin every tenant, tagged, and narrows to one with ?tenant=', async () => {
+    await seed();
+    const auth = { Authorization: `Bearer ${ADMIN_TOKEN}` };
+    const all = await call('/admin/submissions', { headers: auth });
+    expect(all.status).toBe(200);
+    const body = await all.json<{ data: Array<{ submissionId: string; tenant: string }> }>();
+    expect(body.data.map((s) => [s.submissionId, s.tenant]).sort()).toEqual(
+      [
+        [SUB_A, tenantA],
+        [SUB_B, tenantB],
+        [SUB_GLOBAL, GLOBAL_TENANT],
+      ].sort(),
+    );
+
+    const one = await call(`/admin/submissions?tenant=${encodeURIComponent(tenantB)}`, {
+      headers: auth,
+    });
+    const narrowed = await one.json<{ data: Array<{ submissionId: string }> }>();
+    expect(narrowed.data.map((s) => s.submissionId)).toEqual([SUB_B]);
+  });
+
+  it('keeps the cross-tenant view from API keys and bad tokens', async () => {
+    expect((await call('/admin/submissions', { headers: { 'x-api-key': keyA } })).status).toBe(401);
+    const wrong = await call('/admin/submissions', { headers: { Authorization: 'Bearer nope' } });
+    expect(wrong.status).toBe(401);
+    const badTenant = await call('/admin/submissions?tenant=someone', {
+      headers: { Authorization: `Bearer ${ADMIN_TOKEN}` },
+    });
+    expect(badTenant.status).toBe(400);
+  });
+
+  it('applies TaxBandits status webhooks in the tenant that filed the submission', async () => {
+    await seed();
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const res = await call('/webhook/status', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Signature: await taxBanditsSignature(timestamp),
+        TimeStamp: timestamp,
+      },
+      body: JSON.stringify({
+        SubmissionId: SUB_A,
+        FormType: 'FORM1099NEC',
+        Records: [{ RecordId: 'rec-1', Status: 'ACCEPTED', Errors: null }],
+      }),
+    });
+    expect(res.status).toBe(200);
+    expect((await tenantState(ns(), tenantA).getSubmission(SUB_A))?.status).toBe('ACCEPTED');
+    expect(await tenantState(ns(), GLOBAL_TENANT).getSubmission(SUB_A)).toBeNull();
+  });
+});
@@ -0,0 +1,53 @@
+import type { SubmissionOwner } from './outbound-webhooks';
+import type { WebhookState } from './webhook-state';
+
+// ============================================================
+// Tenants — one WebhookState per submission owner
+//
+// Submissions with their records and corrections, filing jobs, outbound
+// webhook endpoints and vaulted TINs live in the Durable Object of the
+// organization (for org-scoped API keys) or user whose API key filed them.
+// Calls without an API key identity (Bearer, dev mode) share the `global`
+// object, which also holds deployment-wide state: the TIN match cache, W-9
+// requests (tagged with the tenant that created them, so the hosted form can
+// find them by token), and the directory that routes TaxBandits webhooks to
+// the tenant that filed each submission.
+// ============================================================
+
+export const GLOBAL_TENANT = 'global';
+
+/** The tenant that owns what `owner` files. */
+export function tenantOf(owner: SubmissionOwner): string {
+  if (owner.organizationId) return `org:${owner.organizationId}`;
+  return owner.userId ? `user:${owner.userId}` : GLOBAL_TENANT;
+}
+
+export function tenantState(
+  ns: DurableObjectNamespace<WebhookState>,
+  tenant: string,
+): DurableObjectStub<WebhookState> {
+  return ns.get(ns.idFromName(tenant));
+}
+
+/** The shared object: deployment-wide state and the submission directory. */
+export function globalState(ns: DurableObjectNamespace<WebhookState>) {
+  return tenantState(ns, GLOBAL_TENANT);
+}
+
+/** Note which tenant filed a submission, for webhook routing. Global submissions need no entry. */
+export async function registerSubmission(
+  ns: DurableObjectNamespace<WebhookState>,
+  submissionId: string,
+  tenant: string,
+): Promise<void> {
+  if (tenant === GLOBAL_TENANT) return;
+  await globalState(ns).registerSubmissionTenant(submissionId, tenant);
+}
+
+/** The tenant that filed a submission. Unregistered ones, including those from before tenants, are global. */
+export async function findTenant(
+  ns: DurableObjectNamespace<WebhookState>,
+  submissionId: string,
+): Promise<string> {
+  return (await globalState(ns).getSubmissionTenant(submissionId)) ?? GLOBAL_TENANT;
+}
@@ -0,0 +1,236 @@
+import { describe, it, expect } from 'vitest';
+import { env } from 'cloudflare:test';
+import { Effect, Either } from 'effect';
+import {
+  matchTINs,
+  tinMatchIssues,
+  tinMatchKey,
+  toTinMatchOutcome,
+  withTinMatch,
+  type TinMatchOutcome,
+  type TinMatchQuery,
+} from './tin-match';
+import { GLOBAL_TENANT } from './tenants';
+import { filingProvider, type FilingProvider } from './providers';
+import type { Env, Form1099NECRequest, ValidationResult } from './types';
+import { TaxBanditsTransientError } from './types';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const testEnv = env as unknown as Env;
+
+const SECRET = 'test-tin-match-secret';
+
+/** Test env with the vault's key, which the cache is keyed with. */
+const vaultEnv = { ...testEnv, TIN_VAULT_KEY: SECRET } as Env;
+
+/** TaxBandits with local TIN matching: answers from a TIN → IRS code map, calls recorded. */
+function stubProvider(codes: Record<string, string | null>) {
+  const calls: TinMatchQuery[][] = [];
+  const provider: FilingProvider = {
+    ...filingProvider(testEnv),
+    tinMatch: (queries) => {
+      calls.push(queries);
+      return Effect.succeed(
+        queries.map((q): TinMatchOutcome => toTinMatchOutcome(codes[q.tin.replace(/\D/g, '')])),
+      );
+    },
+  };
+  return { provider, calls };
+}
+
+const failingProvider: FilingProvider = {
+  ...filingProvider(testEnv),
+  tinMatch: () => Effect.fail(new TaxBanditsTransientError({ status: 503, message: 'IRS down' })),
+};
+
+function query(tin: string, name = 'Jane Smith'): TinMatchQuery {
+  return { name, tin, tinType: 'SSN' };
+}
+
+function validForm(tin: string): Form1099NECRequest {
+  return {
+    payer: {
+      name: 'Acme Corp',
+      tin: '27-1234567',
+      tin_type: 'EIN',
+      address: '100 Main St',
+      city: 'New York',
+      state: 'NY',
+      zip_code: '10001',
+      phone: '2125551234',
+      email: 'payroll@acme.com',
+    },
+    recipient: {
+      first_name: 'Jane',
+      last_name: 'Smith',
+      tin,
+      tin_type: 'SSN',
+      address: '200 Oak Ave',
+      city: 'Austin',
+      state: 'TX',
+      zip_code: '78701',
+    },
+    nonemployee_compensation: 5000,
+    is_federal_tax_withheld: false,
+    is_state_filing: false,
+    tax_year: '2025',
+  };
+}
+
+const passing: ValidationResult = {
+  valid: true,
+  issues: [],
+  summary: 'Looks good',
+  ai_model: 'test',
+};
+
+// ---------------------------------------------------------------------------
+// toTinMatchOutcome() — IRS result codes
+// ---------------------------------------------------------------------------
+describe('toTinMatchOutcome', () => {
+  it('treats codes 0, 6, 7 and 8 as matches', () => {
+    for (const code of ['0', '6', '7', '8']) {
+      expect(toTinMatchOutcome(code).status).toBe('MATCHED');
+    }
+  });
+
+  it('treats codes 1, 2 and 3 as mismatches', () => {
+    for (const code of ['1', '2', '3']) {
+      expect(toTinMatchOutcome(code).status).toBe('MISMATCHED');
+    }
+  });
+
+  it('reports a missing or unknown code as unavailable', () => {
+    expect(toTinMatchOutcome(null)).toMatchObject({ status: 'UNAVAILABLE', code: '' });
+    expect(toTinMatchOutcome('4').status).toBe('UNAVAILABLE');
+    expect(toTinMatchOutcome('99').status).toBe('UNAVAILABLE');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// tinMatchKey()
+// ---------------------------------------------------------------------------
+describe('tinMatchKey', () => {
+  it('ignores TIN formatting and name case/spacing', async () => {
+    const a = await tinMatchKey(SECRET, query('412-78-9654', 'Jane  Smith'));
+    const b = await tinMatchKey(SECRET, query('412789654', 'JANE SMITH'));
+    expect(a).toBe(b);
+  });
+
+  it('differs by name and by TIN type', async () => {
+    const base = await tinMatchKey(SECRET, query('412789654'));
+    expect(await tinMatchKey(SECRET, query('412789654', 'John Smith'))).not.toBe(base);
+    expect(await tinMatchKey(SECRET, { ...query('412789654'), tinType: 'EIN' })).not.toBe(base);
+  });
+
+  it('is keyed by the vault secret, not a plain hash of the pair', async () => {
+    const base = await tinMatchKey(SECRET, query('412789654'));
+    expect(await tinMatchKey('another-secret', query('412789654'))).not.toBe(base);
+    const plain = await crypto.subtle.digest(
+      'SHA-256',
+      new TextEncoder().encode('SSN:412789654:JANE SMITH'),
+    );
+    expect(base).not.toBe(btoa(String.fromCharCode(...new Uint8Array(plain))));
+  });
+});
+
+// ---------------------------------------------------------------------------
+// matchTINs() — provider + WebhookState cache
+// ---------------------------------------------------------------------------
+describe('matchTINs', () => {
+  it('returns one result per query, in order', async () => {
+    const { provider } = stubProvider({ '412789654': '0', '987654321': '3' });
+    const results = await Effect.runPromise(
+      matchTINs(testEnv, provider, [query('412789654'), query('987654321')]),
+    );
+    expect(results.map((r) => r.status)).toEqual(['MATCHED', 'MISMATCHED']);
+    expect(results.every((r) => !r.cached)).toBe(true);
+  });
+
+  it('serves a repeated name/TIN pair from the cache', async () => {
+    const { provider, calls } = stubProvider({ '412789654': '3' });
+    await Effect.runPromise(matchTINs(vaultEnv, provider, [query('412789654')]));
+    const [again] = await Effect.runPromise(
+      matchTINs(vaultEnv, provider, [query('412-78-9654', 'jane smith')]),
+    );
+    expect(calls).toHaveLength(1);
+    expect(again).toMatchObject({ status: 'MISMATCHED', code: '3', cached: true });
+  });
+
+  it('does not cache unavailable results', async () => {
+    const { provider, calls } = stubProvider({ '412789654': null });
+    await Effect.runPromise(matchTINs(vaultEnv, provider, [query('412789654')]));
+    await Effect.runPromise(matchTINs(vaultEnv, provider, [query('412789654')]));
+    expect(calls).toHaveLength(2);
+  });
+
+  it('does not cache without the vault key', async () => {
+    const { provider, calls } = stubProvider({ '555123456': '0' });
+    await Effect.runPromise(matchTINs(testEnv, provider, [query('555123456')]));
+    const [again] = await Effect.runPromise(matchTINs(testEnv, provider, [query('555123456')]));
+    expect(calls).toHaveLength(2);
+    expect(again?.cached).toBe(false);
+  });
+
+  it('sends duplicate pairs in one call to the provider once', async () => {
+    const { provider, calls } = stubProvider({ '412789654': '0' });
+    const results = await Effect.runPromise(
+      matchTINs(testEnv, provider, [query('412789654'), query('412789654')]),
+    );
+    expect(calls[0]).toHaveLength(1);
+    expect(results).toHaveLength(2);
+  });
+
+  it('propagates provider failures', async () => {
+    const result = await Effect.runPromise(
+      Effect.either(matchTINs(testEnv, failingProvider, [query('412789654')])),
+    );
+    expect(Either.isLeft(result)).toBe(true);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// tinMatchIssues() / withTinMatch() — pre-filing step
+// ---------------------------------------------------------------------------
+describe('tinMatchIssues', () => {
+  it('turns a mismatch into an error on recipient.tin', async () => {
+    const { provider } = stubProvider({ '412789654': '0', '987654321': '3' });
+    const [ok, bad] = await Effect.runPromise(
+      tinMatchIssues(testEnv, GLOBAL_TENANT, provider, [
+        validForm('412789654'),
+        validForm('987654321'),
+      ]),
+    );
+    expect(ok).toEqual([]);
+    expect(bad).toEqual([expect.objectContaining({ field: 'recipient.tin', severity: 'error' })]);
+    expect(bad?.[0]?.message).toContain('IRS code 3');
+  });
+
+  it('warns when the IRS gave no answer', async () => {
+    const { provider } = stubProvider({});
+    const [issues] = await Effect.runPromise(
+      tinMatchIssues(testEnv, GLOBAL_TENANT, provider, [validForm('412789654')]),
+    );
+    expect(issues?.[0]?.severity).toBe('warning');
+  });
+});
+
+describe('withTinMatch', () => {
+  it('makes a passing validation invalid on a mismatch error', () => {
+    const result = withTinMatch(passing, [
+      { field: 'recipient.tin', message: 'mismatch', severity: 'error' },
+    ]);
+    expect(result.valid).toBe(false);
+    expect(result.issues).toHaveLength(1);
+  });
+
+  it('keeps the result valid for warnings', () => {
+    const result = withTinMatch(passing, [
+      { field: 'recipient.tin', message: 'unavailable', severity: 'warning' },
+    ]);
+    expect(result.valid).toBe(true);
+  });
+});
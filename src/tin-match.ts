@@ -0,0 +1,213 @@
+import { Effect } from 'effect';
+import type {
+  Env,
+  Form1099Request,
+  TINVaultError,
+  ValidationIssue,
+  ValidationResult,
+} from './types';
+import type { FilingProvider, ProviderFailure } from './providers';
+import { keyedTinHash, revealTINs } from './vault';
+import { globalState } from './tenants';
+
+// ============================================================
+// IRS TIN matching — name/TIN pairs checked before filing
+//
+// A recipient whose name and TIN don't match IRS records earns the payer a
+// B-notice after filing. Matching first turns those into validation errors.
+// With the TIN vault configured, definitive results are cached in
+// WebhookState per keyed hash of name + TIN, so re-filing a recipient
+// doesn't query the IRS again.
+// ============================================================
+
+export type TinMatchStatus = 'MATCHED' | 'MISMATCHED' | 'UNAVAILABLE';
+
+export interface TinMatchQuery {
+  name: string;
+  tin: string;
+  tinType: 'SSN' | 'EIN';
+}
+
+export interface TinMatchOutcome {
+  status: TinMatchStatus;
+  code: string; // IRS result code, '' when none was returned
+  message: string;
+}
+
+export interface TinMatchResult extends TinMatchOutcome {
+  cached: boolean;
+}
+
+/** Days a MATCHED / MISMATCHED result is served from the cache. */
+export const TIN_MATCH_CACHE_DAYS = 30;
+
+// ============================================================
+// IRS result codes (Publication 2108-A)
+// ============================================================
+
+const IRS_RESULT_CODES: Record<string, Omit<TinMatchOutcome, 'code'>> = {
+  '0': { status: 'MATCHED', message: 'Name/TIN combination matches IRS records' },
+  '1': { status: 'MISMATCHED', message: 'TIN was missing or is not a 9-digit number' },
+  '2': { status: 'MISMATCHED', message: 'TIN is not currently issued' },
+  '3': { status: 'MISMATCHED', message: 'Name/TIN combination does not match IRS records' },
+  '4': { status: 'UNAVAILABLE', message: 'Invalid TIN matching request' },
+  '5': { status: 'UNAVAILABLE', message: 'Duplicate TIN matching request' },
+  '6': { status: 'MATCHED', message: 'Name/TIN combination matches an SSN' },
+  '7': { status: 'MATCHED', message: 'Name/TIN combination matches an EIN' },
+  '8': { status: 'MATCHED', message: 'Name/TIN combination matches an SSN and an EIN' },
+};
+
+export function toTinMatchOutcome(code: string | null | undefined): TinMatchOutcome {
+  const known = code != null ? IRS_RESULT_CODES[code] : undefined;
+  if (!known) {
+    return { status: 'UNAVAILABLE', code: code ?? '', message: 'No IRS TIN matching result' };
+  }
+  return { ...known, code: code ?? '' };
+}
+
+// ============================================================
+// Cache
+// ============================================================
+
+/** IRS name line as matched: upper case, letters/digits/&/-, single spaces. */
+function normalizeName(name: string): string {
+  return name
+    .toUpperCase()
+    .replace(/[^A-Z0-9&\- ]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/** The pair as the IRS matches it: TIN type, TIN digits and normalized name. */
+function matchedPair(query: TinMatchQuery): string {
+  return `${query.tinType}:${query.tin.replace(/\D/g, '')}:${normalizeName(query.name)}`;
+}
+
+/**
+ * Cache key: the vault's keyed hash of the pair. An unkeyed hash of a 9-digit
+ * TIN could be reversed by hashing every TIN.
+ */
+export function tinMatchKey(secret: string, query: TinMatchQuery): Promise<string> {
+  return keyedTinHash(secret, matchedPair(query));
+}
+
+/**
+ * Match name/TIN pairs, serving repeats from the cache. Only MATCHED and
+ * MISMATCHED are cached — UNAVAILABLE means "ask again later" — and only
+ * with TIN_VAULT_KEY to key the cache. Duplicate pairs in one call are sent
+ * to the provider once.
+ */
+export function matchTINs(
+  env: Env,
+  provider: FilingProvider,
+  queries: TinMatchQuery[],
+): Effect.Effect<TinMatchResult[], ProviderFailure> {
+  return Effect.gen(function* () {
+    const ns = env.WEBHOOK_STATE;
+    const secret = env.TIN_VAULT_KEY;
+    const stub = ns && secret ? globalState(ns) : null;
+    // Without a cache the pairs themselves tell duplicates apart; they stay in memory
+    const keys = secret
+      ? yield* Effect.promise(() => Promise.all(queries.map((q) => tinMatchKey(secret, q))))
+      : queries.map(matchedPair);
+
+    const cached = new Map<string, TinMatchOutcome>();
+    if (stub) {
+      const rows = yield* Effect.promise(() =>
+        stub.getTinMatches([...new Set(keys)], TIN_MATCH_CACHE_DAYS),
+      );
+      for (const row of rows) cached.set(row.key, row);
+    }
+
+    const pending = new Map<string, TinMatchQuery>();
+    queries.forEach((q, i) => {
+      const key = keys[i] ?? '';
+      if (!cached.has(key) && !pending.has(key)) pending.set(key, q);
+    });
+
+    const fresh = new Map<string, TinMatchOutcome>();
+    if (pending.size > 0) {
+      const outcomes = yield* provider.tinMatch([...pending.values()]);
+      [...pending.keys()].forEach((key, i) => {
+        fresh.set(key, outcomes[i] ?? toTinMatchOutcome(null));
+      });
+      const definitive = [...fresh].flatMap(([key, o]) =>
+        o.status === 'UNAVAILABLE'
+          ? []
+          : [{ key, status: o.status, code: o.code, message: o.message }],
+      );
+      if (stub && definitive.length > 0) {
+        yield* Effect.promise(() => stub.storeTinMatches(definitive));
+      }
+    }
+
+    return keys.map((key) => {
+      const hit = cached.get(key);
+      if (hit) return { status: hit.status, code: hit.code, message: hit.message, cached: true };
+      return { ...(fresh.get(key) ?? toTinMatchOutcome(null)), cached: false };
+    });
+  });
+}
+
+// ============================================================
+// Pre-filing step for /file and /file/batch
+// ============================================================
+
+function matchIssues(form: Form1099Request, result: TinMatchResult): ValidationIssue[] {
+  const field = form.recipient.tin_ref ? 'recipient.tin_ref' : 'recipient.tin';
+  const code = result.code ? ` (IRS code ${result.code})` : '';
+  switch (result.status) {
+    case 'MATCHED':
+      return [];
+    case 'MISMATCHED':
+      return [{ field, message: `IRS TIN matching: ${result.message}${code}`, severity: 'error' }];
+    case 'UNAVAILABLE':
+      return [
+        {
+          field,
+          message: `IRS TIN matching unavailable: ${result.message}${code} — recipient not verified`,
+          severity: 'warning',
+        },
+      ];
+  }
+}
+
+/**
+ * TIN-match every form's recipient, revealing `tenant`'s vaulted TINs.
+ * Returns one list of issues per form: an error for a mismatch, a warning
+ * when the IRS gave no answer.
+ */
+export function tinMatchIssues<T extends Form1099Request>(
+  env: Env,
+  tenant: string,
+  provider: FilingProvider,
+  forms: T[],
+): Effect.Effect<ValidationIssue[][], ProviderFailure | TINVaultError> {
+  return revealTINs(env, tenant, forms).pipe(
+    Effect.flatMap((revealed) =>
+      matchTINs(
+        env,
+        provider,
+        revealed.map((f) => ({
+          name: `${f.recipient.first_name} ${f.recipient.last_name}`,
+          tin: f.recipient.tin ?? '',
+          tinType: f.recipient.tin_type,
+        })),
+      ),
+    ),
+    Effect.map((results) => forms.map((f, i) => (results[i] ? matchIssues(f, results[i]) : []))),
+  );
+}
+
+/** Fold TIN matching issues into a validation result; any error makes it invalid. */
+export function withTinMatch(
+  validation: ValidationResult,
+  issues: ValidationIssue[],
+): ValidationResult {
+  if (issues.length === 0) return validation;
+  return {
+    ...validation,
+    valid: validation.valid && !issues.some((i) => i.severity === 'error'),
+    issues: [...validation.issues, ...issues],
+  };
+}
@@ -23,6 +23,21 @@ export interface Env {
   // QuickBooks OAuth
   QB_CLIENT_ID?: string;
   QB_CLIENT_SECRET?: string;
+  // TIN vault — secret the envelope-encryption keys are derived from
+  TIN_VAULT_KEY?: string;
+  // Queue for filing jobs; without it jobs run on WebhookState's alarm
+  FILING_QUEUE?: Queue<FilingQueueMessage>;
+  // IRS IRIS transmitter — only used to build IRIS XML (`?provider=iris` dry runs)
+  IRIS_TCC?: string; // 5-character Transmitter Control Code
+  IRIS_TRANSMITTER_TIN?: string; // defaults to the payer's TIN
+  IRIS_TRANSMITTER_NAME?: string; // defaults to the payer's name
+}
+
+/** One filing-job chunk to run, as sent to FILING_QUEUE. */
+export interface FilingQueueMessage {
+  jobId: string;
+  chunkIndex: number;
+  tenant?: string; // WebhookState holding the job; absent on messages sent before tenants — global
 }
 
 // ============================================================
@@ -31,14 +46,27 @@ export interface Env {
 
 export type BusinessType = 'CORP' | 'SCORP' | 'PART' | 'TRUST' | 'LLC' | 'EXEMPT' | 'ESTE';
 
+/** Non-US mailing address. Replaces the US address fields when present. */
+export interface ForeignAddress {
+  address_line1: string;
+  address_line2?: string;
+  city: string;
+  province_or_state?: string;
+  postal_code?: string;
+  country: string; // ISO 3166-1 alpha-2, e.g. 'CA', 'GB'
+}
+
 export interface PayerInfo {
   name: string;
-  tin: string; // EIN: XX-XXXXXXX or SSN: XXX-XX-XXXX / 9 digits
+  tin?: string; // EIN: XX-XXXXXXX or SSN: XXX-XX-XXXX / 9 digits
+  tin_ref?: string; // TIN vault token — sent instead of `tin`
   tin_type?: 'EIN' | 'SSN'; // defaults to 'EIN'
-  address: string;
-  city: string;
-  state: string; // 2-letter
-  zip_code: string;
+  // US address — required unless foreign_address is given
+  address?: string;
+  city?: string;
+  state?: string; // 2-letter
+  zip_code?: string;
+  foreign_address?: ForeignAddress;
   phone: string;
   email: string;
   business_type?: BusinessType; // defaults to 'LLC'
@@ -47,12 +75,15 @@ export interface PayerInfo {
 export interface RecipientInfo {
   first_name: string;
   last_name: string;
-  tin: string; // SSN (9 digits) or EIN (XX-XXXXXXX)
+  tin?: string; // SSN (9 digits) or EIN (XX-XXXXXXX)
+  tin_ref?: string; // TIN vault token — sent instead of `tin`
   tin_type: 'SSN' | 'EIN';
-  address: string;
-  city: string;
-  state: string;
-  zip_code: string;
+  // US address — required unless foreign_address is given
+  address?: string;
+  city?: string;
+  state?: string;
+  zip_code?: string;
+  foreign_address?: ForeignAddress;
 }
 
 /** TaxBandits KindOfEmployer values */
@@ -72,19 +103,88 @@ export type KindOfPayer =
   | 'MILITARY'
   | 'MEDICARE';
 
+/** One state's share of a form (Boxes 5–7 on 1099-NEC, 15–17 on 1099-MISC). */
+export interface StateLine {
+  state: string; // 2-letter
+  state_income?: number; // defaults to the federal amount when omitted
+  state_tax_withheld?: number;
+  state_id?: string; // payer's state withholding account number
+}
+
+/** Information returns supported end-to-end (validation → TaxBandits → IRS). */
+export type FormType = '1099-NEC' | '1099-MISC';
+
 export interface Form1099NECRequest {
+  form_type?: '1099-NEC'; // defaults to '1099-NEC' when omitted
   payer: PayerInfo;
   recipient: RecipientInfo;
   nonemployee_compensation: number; // in dollars (e.g., 5000.00)
   is_federal_tax_withheld: boolean;
   federal_tax_withheld?: number; // in dollars
   is_state_filing: boolean;
+  states?: StateLine[]; // one entry per state; use instead of state/state_income/state_tax_withheld
   state?: string;
   state_income?: number;
   state_tax_withheld?: number;
   tax_year?: string; // defaults to current year
   kind_of_employer?: KindOfEmployer; // defaults to 'NONEAPPLY'
   kind_of_payer?: KindOfPayer; // defaults to 'REGULAR941'
+  recipient_id?: string; // recipient directory entry the form was filed from
+}
+
+/** 1099-MISC: rents, royalties, attorney proceeds and other miscellaneous income. */
+export interface Form1099MISCRequest {
+  form_type: '1099-MISC';
+  payer: PayerInfo;
+  recipient: RecipientInfo;
+  rents?: number; // Box 1
+  royalties?: number; // Box 2
+  other_income?: number; // Box 3
+  is_federal_tax_withheld: boolean;
+  federal_tax_withheld?: number; // Box 4
+  fishing_boat_proceeds?: number; // Box 5
+  medical_payments?: number; // Box 6
+  direct_sales?: boolean; // Box 7: $5,000+ of consumer products for resale
+  substitute_payments?: number; // Box 8
+  crop_insurance?: number; // Box 9
+  gross_proceeds_attorney?: number; // Box 10
+  is_state_filing: boolean;
+  states?: StateLine[]; // one entry per state; use instead of state/state_income/state_tax_withheld
+  state?: string;
+  state_income?: number;
+  state_tax_withheld?: number;
+  tax_year?: string; // defaults to current year
+  kind_of_employer?: KindOfEmployer; // defaults to 'NONEAPPLY'
+  kind_of_payer?: KindOfPayer; // defaults to 'REGULAR941'
+  recipient_id?: string; // recipient directory entry the form was filed from
+}
+
+export type Form1099Request = Form1099NECRequest | Form1099MISCRequest;
+
+/**
+ * IRS correction types (Publication 1220):
+ * - TYPE1: wrong amount, code, checkbox or payee address — one corrected record
+ * - TYPE2: wrong payee TIN or name — the original is zeroed out and refiled
+ */
+export type CorrectionType = 'TYPE1' | 'TYPE2';
+
+/** The transmitted record a correction or void applies to. */
+export interface CorrectionTarget {
+  submissionId: string;
+  recordId: string;
+  correctionType: CorrectionType;
+  isVoid: boolean;
+}
+
+/** Body of POST /correct/:submissionId/:recordId — the full corrected form. */
+export interface Form1099NECCorrectionRequest {
+  correction_type: CorrectionType;
+  form: Form1099NECRequest;
+}
+
+/** Body of POST /void/:submissionId/:recordId — the form as originally filed. */
+export interface Form1099NECVoidRequest {
+  form: Form1099NECRequest;
 }
 
 // ============================================================
@@ -125,7 +225,71 @@ export interface TaxBanditsTokenResponse {
   Errors: unknown;
 }
 
-export interface TaxBanditsCreateRequest {
+export interface TaxBanditsAddress {
+  Address1: string;
+  City: string;
+  State: string;
+  ZipCd: string;
+}
+
+export interface TaxBanditsForeignAddress {
+  Address1: string;
+  Address2?: string;
+  City: string;
+  ProvinceOrStateNm?: string;
+  Country: string;
+  PostalCd?: string;
+}
+
+/** Exactly one of `USAddress` / `ForeignAddress` is set, per `IsForeignAddress`. */
+export type TaxBanditsAddressBlock =
+  | { IsForeignAddress: false; USAddress: TaxBanditsAddress }
+  | { IsForeignAddress: true; ForeignAddress: TaxBanditsForeignAddress };
+
+export type TaxBanditsRecipient = {
+  TINType: string;
+  TIN: string;
+  FirstPayeeNm: string;
+  SecondPayeeNm?: string;
+} & TaxBanditsAddressBlock;
+
+export interface TaxBanditsStateData {
+  StateCd: string;
+  StateIncome?: string;
+  StateTaxWithheld?: string;
+  StateIdNum?: string;
+}
+
+export interface TaxBanditsNECFormData {
+  B1NEC: string; // nonemployee compensation as string
+  B4FedTaxWH?: string; // federal tax withheld as string
+  Is2ndTINnot: boolean;
+  IsDirectSales: boolean;
+  States?: TaxBanditsStateData[];
+}
+
+export interface TaxBanditsMISCFormData {
+  B1Rents?: string;
+  B2Royalties?: string;
+  B3OtherIncome?: string;
+  B4FedIncomeTaxWH?: string;
+  B5FishingBoatProceeds?: string;
+  B6MedHealthcarePymt?: string;
+  B7IsDirectSale: boolean;
+  B8SubstitutePymt?: string;
+  B9CropInsurance?: string;
+  B10GrossProceedAttrny?: string;
+  Is2ndTINnot: boolean;
+  States?: TaxBanditsStateData[];
+}
+
+/**
+ * TaxBandits Create payload. The shape is shared across 1099 forms; only the
+ * per-record form data block (`NECFormData`, `MISCFormData`, ...) differs.
+ */
+export interface TaxBanditsCreateRequest<
+  TFormData extends object = { NECFormData: TaxBanditsNECFormData },
+> {
   SubmissionManifest: {
     TaxYear: string;
     IsFederalFiling: boolean;
@@ -149,45 +313,32 @@ export interface TaxBanditsCreateRequest {
       KindOfEmployer: string;
       KindOfPayer: string;
       IsBusinessTerminated: boolean;
-      IsForeignAddress: boolean;
-      USAddress: {
-        Address1: string;
-        City: string;
-        State: string;
-        ZipCd: string;
-      };
-    };
+    } & TaxBanditsAddressBlock;
   };
-  ReturnData: Array<{
-    SequenceId: string;
-    RecordId?: string;
-    Recipient: {
-      TINType: string;
-      TIN: string;
-      FirstPayeeNm: string;
-      SecondPayeeNm?: string;
-      IsForeignAddress: boolean;
-      USAddress: {
-        Address1: string;
-        City: string;
-        State: string;
-        ZipCd: string;
-      };
-    };
-    NECFormData: {
-      B1NEC: string; // nonemployee compensation as string
-      B4FedTaxWH?: string; // federal tax withheld as string
-      Is2ndTINnot: boolean;
-      IsDirectSales: boolean;
-      States?: Array<{
-        StateCd: string;
-        StateIncome?: string;
-        StateTaxWithheld?: string;
-      }>;
-    };
-  }>;
+  ReturnData: Array<
+    {
+      SequenceId: string;
+      RecordId?: string;
+      Recipient: TaxBanditsRecipient;
+    } & TFormData
+  >;
 }
 
+export type TaxBanditsMISCCreateRequest = TaxBanditsCreateRequest<{
+  MISCFormData: TaxBanditsMISCFormData;
+}>;
+
+/**
+ * Corrected return for an already-transmitted record. Same shape as Create,
+ * plus the original SubmissionId and a RecordId + correction flags per record.
+ * A void is a Type 1 correction with every amount zeroed.
+ */
+export type TaxBanditsCorrectionRequest = TaxBanditsCreateRequest<{
+  RecordId: string;
+  NECFormData: TaxBanditsNECFormData;
+  CorrectionData: { CorrectionType: CorrectionType; IsVoid: boolean };
+}> & { SubmissionId: string };
+
 export interface TaxBanditsCreateResponse {
   StatusCode: number;
   StatusName: string;
@@ -224,6 +375,29 @@ export interface TaxBanditsStatusResponse {
   Errors: TaxBanditsError[] | null;
 }
 
+/** TINMatching/Request body — one record per name/TIN pair. */
+export interface TaxBanditsTinMatchRequest {
+  TINMatchingRecords: Array<{
+    SequenceId: string;
+    TINType: 'SSN' | 'EIN';
+    TIN: string; // 9 digits, no dashes
+    Name: string; // IRS name line, max 40 chars
+  }>;
+}
+
+export interface TaxBanditsTinMatchResponse {
+  StatusCode: number;
+  StatusName: string;
+  StatusMessage: string;
+  TINMatchingRecords: Array<{
+    SequenceId: string;
+    ResultCode: string | null; // IRS TIN Matching code 0–8; null while the IRS is unavailable
+    ResultMessage?: string;
+    Errors: TaxBanditsError[] | null;
+  }> | null;
+  Errors: TaxBanditsError[] | null;
+}
+
 // ============================================================
 // Effect Error Types — typed error channel
 // ============================================================
@@ -254,6 +428,39 @@ export class AIValidationError extends Data.TaggedError('AIValidationError')<{
   readonly message: string;
 }> {}
 
+/** TIN vault not configured, unknown `tin_ref`, or encryption/decryption failed. */
+export class TINVaultError extends Data.TaggedError('TINVaultError')<{
+  readonly message: string;
+}> {}
+
+/** A W-9 request that can't be used: unknown, not yet submitted, expired, or already completed. */
+export class W9RequestError extends Data.TaggedError('W9RequestError')<{
+  readonly reason: 'not_found' | 'pending' | 'expired' | 'completed' | 'invalid' | 'unavailable';
+  readonly message: string;
+}> {}
+
+/** A `payer_id` that can't be used: unknown, malformed, or without a place to look it up. */
+export class PayerProfileError extends Data.TaggedError('PayerProfileError')<{
+  readonly reason: 'not_found' | 'invalid' | 'unavailable';
+  readonly message: string;
+}> {}
+
+/** A `recipient_id` that can't be used: unknown, malformed, for another payer, or without a place to look it up. */
+export class RecipientProfileError extends Data.TaggedError('RecipientProfileError')<{
+  readonly reason: 'not_found' | 'invalid' | 'unavailable';
+  readonly message: string;
+}> {}
+
+/** An org-scoped key tried to file for payers that aren't clients of its organization. */
+export class OrgPayerError extends Data.TaggedError('OrgPayerError')<{
+  readonly payers: Array<{ name: string; tin: string }>; // TINs masked
+}> {
+  get message(): string {
+    const list = this.payers.map((p) => `${p.name} (${p.tin})`).join(', ');
+    return `Not a client of your organization: ${list}`;
+  }
+}
+
 // ============================================================
 // API Response envelope
 // ============================================================
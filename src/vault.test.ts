@@ -0,0 +1,203 @@
+import { describe, it, expect } from 'vitest';
+import { env } from 'cloudflare:test';
+import { Effect, Either } from 'effect';
+import {
+  TIN_REF_PATTERN,
+  openTIN,
+  revealTINs,
+  sealTIN,
+  tinLast4,
+  tinTypeOf,
+  tokenizeTIN,
+  vaultFormTINs,
+} from './vault';
+import type { Env, Form1099NECRequest } from './types';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const SECRET = 'test-vault-secret-0123456789abcdef';
+
+/** Test env with the vault enabled (WEBHOOK_STATE comes from wrangler.jsonc). */
+const vaultEnv = { ...(env as unknown as Env), TIN_VAULT_KEY: SECRET } as Env;
+
+const TENANT = 'user:vault-tests';
+
+function validForm(overrides: Partial<Form1099NECRequest> = {}): Form1099NECRequest {
+  return {
+    payer: {
+      name: 'Acme Corp',
+      tin: '27-1234567',
+      tin_type: 'EIN',
+      address: '100 Main St',
+      city: 'New York',
+      state: 'NY',
+      zip_code: '10001',
+      phone: '2125551234',
+      email: 'payroll@acme.com',
+    },
+    recipient: {
+      first_name: 'Jane',
+      last_name: 'Smith',
+      tin: '412789654',
+      tin_type: 'SSN',
+      address: '200 Oak Ave',
+      city: 'Austin',
+      state: 'TX',
+      zip_code: '78701',
+    },
+    nonemployee_compensation: 5000,
+    is_federal_tax_withheld: false,
+    is_state_filing: false,
+    tax_year: '2025',
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// sealTIN() / openTIN()
+// ---------------------------------------------------------------------------
+describe('sealTIN / openTIN', () => {
+  it('round-trips a TIN without storing it in the clear', async () => {
+    const sealed = await sealTIN(SECRET, '412-78-9654', 'SSN');
+    expect(sealed.tinRef).toMatch(TIN_REF_PATTERN);
+    expect(sealed.tinRef.startsWith('tin_s9654_')).toBe(true);
+    expect(JSON.stringify(sealed)).not.toContain('412789654');
+    expect(await openTIN(SECRET, sealed)).toBe('412789654');
+  });
+
+  it('returns EINs in XX-XXXXXXX format', async () => {
+    const sealed = await sealTIN(SECRET, '271234567', 'EIN');
+    expect(await openTIN(SECRET, sealed)).toBe('27-1234567');
+  });
+
+  it('uses a fresh data key per TIN but a stable fingerprint', async () => {
+    const a = await sealTIN(SECRET, '412789654', 'SSN');
+    const b = await sealTIN(SECRET, '412789654', 'SSN');
+    expect(a.wrappedKey).not.toBe(b.wrappedKey);
+    expect(a.ciphertext).not.toBe(b.ciphertext);
+    expect(a.fingerprint).toBe(b.fingerprint);
+  });
+
+  it('cannot be opened with a different secret', async () => {
+    const sealed = await sealTIN(SECRET, '412789654', 'SSN');
+    await expect(openTIN('another-secret', sealed)).rejects.toThrow();
+  });
+
+  it('binds the ciphertext to its tin_ref', async () => {
+    const a = await sealTIN(SECRET, '412789654', 'SSN');
+    const b = await sealTIN(SECRET, '987654321', 'SSN');
+    await expect(openTIN(SECRET, { ...a, tinRef: b.tinRef })).rejects.toThrow();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// tinLast4() / tinTypeOf()
+// ---------------------------------------------------------------------------
+describe('token helpers', () => {
+  it('reads last 4 and TIN type from a tin_ref', () => {
+    const ref = 'tin_e4567_AAAAAAAAAAAAAAAAAAAAAA';
+    expect(tinLast4({ tin_ref: ref })).toBe('4567');
+    expect(tinTypeOf(ref)).toBe('EIN');
+  });
+
+  it('falls back to the plain TIN', () => {
+    expect(tinLast4({ tin: '412-78-9654' })).toBe('9654');
+    expect(tinTypeOf('27-1234567')).toBe('EIN');
+    expect(tinTypeOf('412789654')).toBe('SSN');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// tokenizeTIN() / revealTINs() — WebhookState storage
+// ---------------------------------------------------------------------------
+describe('tokenizeTIN / revealTINs', () => {
+  it('returns the same tin_ref when a TIN is vaulted twice', async () => {
+    const first = await Effect.runPromise(tokenizeTIN(vaultEnv, TENANT, '555-12-3456', 'SSN'));
+    const second = await Effect.runPromise(tokenizeTIN(vaultEnv, TENANT, '555123456', 'SSN'));
+    expect(second).toBe(first);
+  });
+
+  it('reveals refs in place of tin, leaving plain TINs alone', async () => {
+    const ref = await Effect.runPromise(tokenizeTIN(vaultEnv, TENANT, '412789654', 'SSN'));
+    const form = validForm({
+      recipient: { ...validForm().recipient, tin: undefined, tin_ref: ref },
+    });
+    const [revealed] = await Effect.runPromise(revealTINs(vaultEnv, TENANT, [form]));
+    expect(revealed?.recipient.tin).toBe('412789654');
+    expect(revealed?.recipient.tin_ref).toBeUndefined();
+    expect(revealed?.payer.tin).toBe('27-1234567');
+  });
+
+  it("keeps each tenant's refs to itself", async () => {
+    const ref = await Effect.runPromise(tokenizeTIN(vaultEnv, TENANT, '412789654', 'SSN'));
+    const elsewhere = await Effect.runPromise(
+      tokenizeTIN(vaultEnv, 'user:vault-other', '412789654', 'SSN'),
+    );
+    expect(elsewhere).not.toBe(ref);
+
+    const form = validForm({
+      recipient: { ...validForm().recipient, tin: undefined, tin_ref: ref },
+    });
+    const result = await Effect.runPromise(
+      Effect.either(revealTINs(vaultEnv, 'user:vault-other', [form])),
+    );
+    expect(Either.isLeft(result)).toBe(true);
+    if (Either.isLeft(result)) expect(result.left.message).toContain('Unknown tin_ref');
+  });
+
+  it('is a no-op without refs, even when the vault is not configured', async () => {
+    const forms = [validForm()];
+    const result = await Effect.runPromise(revealTINs(env as unknown as Env, TENANT, forms));
+    expect(result).toBe(forms);
+  });
+
+  it('fails on an unknown tin_ref', async () => {
+    const form = validForm({
+      recipient: {
+        ...validForm().recipient,
+        tin: undefined,
+        tin_ref: 'tin_s0000_ZZZZZZZZZZZZZZZZZZZZZZ',
+      },
+    });
+    const result = await Effect.runPromise(Effect.either(revealTINs(vaultEnv, TENANT, [form])));
+    expect(Either.isLeft(result)).toBe(true);
+    if (Either.isLeft(result)) {
+      expect(result.left._tag).toBe('TINVaultError');
+      expect(result.left.message).toContain('Unknown tin_ref');
+    }
+  });
+
+  it('fails when refs are used without a configured vault', async () => {
+    const form = validForm({
+      payer: { ...validForm().payer, tin: undefined, tin_ref: 'tin_e4567_AAAAAAAAAAAAAAAAAAAAAA' },
+    });
+    const result = await Effect.runPromise(
+      Effect.either(revealTINs(env as unknown as Env, TENANT, [form])),
+    );
+    expect(Either.isLeft(result)).toBe(true);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// vaultFormTINs() — before form data is persisted
+// ---------------------------------------------------------------------------
+describe('vaultFormTINs', () => {
+  it('swaps payer and recipient TINs for refs when the vault is configured', async () => {
+    const [stored] = await Effect.runPromise(vaultFormTINs(vaultEnv, TENANT, [validForm()]));
+    expect(stored?.recipient.tin).toBeUndefined();
+    expect(stored?.recipient.tin_ref).toMatch(/^tin_s9654_/);
+    expect(stored?.payer.tin).toBeUndefined();
+    expect(stored?.payer.tin_ref).toMatch(/^tin_e4567_/);
+  });
+
+  it('masks both TINs without a vault', async () => {
+    const [stored] = await Effect.runPromise(
+      vaultFormTINs(env as unknown as Env, TENANT, [validForm()]),
+    );
+    expect(stored?.payer.tin).toBe('***4567');
+    expect(stored?.recipient.tin).toBe('***9654');
+    expect(JSON.stringify(stored)).not.toMatch(/1234567|412789654/);
+  });
+});
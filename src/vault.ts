@@ -0,0 +1,327 @@
+import { Effect } from 'effect';
+import type { Env, Form1099Request, PayerInfo, RecipientInfo } from './types';
+import { TINVaultError } from './types';
+import { maskTIN } from './pii';
+import { tenantState } from './tenants';
+import type { SealedTIN } from './webhook-state';
+
+// ============================================================
+// TIN vault — envelope encryption for payer/recipient TINs
+//
+// Each TIN is encrypted with its own random AES-256-GCM data key; the data
+// key is wrapped with a key-encryption key derived (HKDF-SHA256) from the
+// TIN_VAULT_KEY secret. Only ciphertext is stored, in the WebhookState of
+// the tenant that vaulted it. Callers get an opaque `tin_ref` to send in
+// place of `tin`; the TIN is decrypted only when the TaxBandits payload is
+// built, and only for the same tenant — another tenant's ref is unknown.
+//
+// Token format: tin_<s|e><last 4>_<22 random base64url chars>. The type and
+// last four digits are what the IRS allows on payee statements, so prompts,
+// masked displays and Copy B never need the plaintext.
+// ============================================================
+
+export const TIN_REF_PATTERN = /^tin_[se]\d{4}_[A-Za-z0-9_-]{22}$/;
+
+const HKDF_SALT = 'tax-agent/tin-vault';
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export function isTinRef(value: string): boolean {
+  return TIN_REF_PATTERN.test(value);
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(value), (ch) => ch.charCodeAt(0));
+}
+
+function randomRefId(): string {
+  return toBase64(crypto.getRandomValues(new Uint8Array(16)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/** Derive the vault's keys from the worker secret. `info` separates their purposes. */
+async function deriveKeys(secret: string) {
+  const base = await crypto.subtle.importKey('raw', encoder.encode(secret), 'HKDF', false, [
+    'deriveKey',
+  ]);
+  const hkdf = (info: string) => ({
+    name: 'HKDF',
+    hash: 'SHA-256',
+    salt: encoder.encode(HKDF_SALT),
+    info: encoder.encode(info),
+  });
+  const kek = await crypto.subtle.deriveKey(
+    hkdf('kek/v1'),
+    base,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['wrapKey', 'unwrapKey'],
+  );
+  const fingerprintKey = await crypto.subtle.deriveKey(
+    hkdf('fingerprint/v1'),
+    base,
+    { name: 'HMAC', hash: 'SHA-256', length: 256 },
+    false,
+    ['sign'],
+  );
+  return { kek, fingerprintKey };
+}
+
+/** Keyed hash of a TIN, so the same TIN maps to the same `tin_ref` without decrypting. */
+async function fingerprint(key: CryptoKey, tinType: string, digits: string): Promise<string> {
+  const mac = await crypto.subtle.sign('HMAC', key, encoder.encode(`${tinType}:${digits}`));
+  return toBase64(new Uint8Array(mac));
+}
+
+/**
+ * The vault's keyed hash of a value holding a TIN, for lookups that must not
+ * be reversible by trying every TIN — e.g. the TIN match cache key.
+ */
+export async function keyedTinHash(secret: string, value: string): Promise<string> {
+  const { fingerprintKey } = await deriveKeys(secret);
+  const mac = await crypto.subtle.sign('HMAC', fingerprintKey, encoder.encode(value));
+  return toBase64(new Uint8Array(mac));
+}
+
+/** Encrypt one TIN under a fresh data key. The ciphertext is bound to its `tin_ref`. */
+export async function sealTIN(
+  secret: string,
+  tin: string,
+  tinType: 'SSN' | 'EIN',
+): Promise<SealedTIN> {
+  const digits = tin.replace(/\D/g, '');
+  const { kek, fingerprintKey } = await deriveKeys(secret);
+  const tinRef = `tin_${tinType === 'EIN' ? 'e' : 's'}${digits.slice(-4)}_${randomRefId()}`;
+
+  const dataKey = (await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, [
+    'encrypt',
+    'decrypt',
+  ])) as CryptoKey;
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: encoder.encode(tinRef) },
+    dataKey,
+    encoder.encode(digits),
+  );
+  const wrapIv = crypto.getRandomValues(new Uint8Array(12));
+  const wrappedKey = await crypto.subtle.wrapKey('raw', dataKey, kek, {
+    name: 'AES-GCM',
+    iv: wrapIv,
+  });
+
+  return {
+    tinRef,
+    tinType,
+    fingerprint: await fingerprint(fingerprintKey, tinType, digits),
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+    iv: toBase64(iv),
+    wrappedKey: toBase64(new Uint8Array(wrappedKey)),
+    wrapIv: toBase64(wrapIv),
+  };
+}
+
+/** Decrypt a sealed TIN. EINs come back as XX-XXXXXXX, SSNs as 9 digits. */
+export async function openTIN(secret: string, sealed: SealedTIN): Promise<string> {
+  const { kek } = await deriveKeys(secret);
+  const dataKey = await crypto.subtle.unwrapKey(
+    'raw',
+    fromBase64(sealed.wrappedKey),
+    kek,
+    { name: 'AES-GCM', iv: fromBase64(sealed.wrapIv) },
+    { name: 'AES-GCM' },
+    false,
+    ['decrypt'],
+  );
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(sealed.iv), additionalData: encoder.encode(sealed.tinRef) },
+    dataKey,
+    fromBase64(sealed.ciphertext),
+  );
+  const digits = decoder.decode(plaintext);
+  return sealed.tinType === 'EIN' ? `${digits.slice(0, 2)}-${digits.slice(2)}` : digits;
+}
+
+// ============================================================
+// Helpers on plain TINs or tokens — no decryption
+// ============================================================
+
+/** Last four digits of a party's TIN, from the TIN itself or its `tin_ref`. */
+export function tinLast4(party: { tin?: string; tin_ref?: string }): string {
+  if (party.tin_ref) return party.tin_ref.slice(5, 9);
+  return (party.tin ?? '').replace(/\D/g, '').slice(-4);
+}
+
+/** TIN type encoded in a `tin_ref`, or guessed from a plain TIN (dashed = EIN). */
+export function tinTypeOf(tinOrRef: string): 'SSN' | 'EIN' {
+  if (isTinRef(tinOrRef)) return tinOrRef[4] === 'e' ? 'EIN' : 'SSN';
+  return tinOrRef.includes('-') ? 'EIN' : 'SSN';
+}
+
+// ============================================================
+// Vault operations (WebhookState storage)
+// ============================================================
+
+function vaultStore(env: Env, tenant: string) {
+  if (!env.TIN_VAULT_KEY || !env.WEBHOOK_STATE) {
+    return Effect.fail(
+      new TINVaultError({ message: 'TIN vault is not configured (TIN_VAULT_KEY, WEBHOOK_STATE)' }),
+    );
+  }
+  return Effect.succeed({
+    secret: env.TIN_VAULT_KEY,
+    stub: tenantState(env.WEBHOOK_STATE, tenant),
+  });
+}
+
+/**
+ * Vault a TIN in `tenant`'s store and return its `tin_ref`. Vaulting the
+ * same TIN again in that tenant returns the same ref.
+ */
+export function tokenizeTIN(
+  env: Env,
+  tenant: string,
+  tin: string,
+  tinType: 'SSN' | 'EIN',
+): Effect.Effect<string, TINVaultError> {
+  return Effect.gen(function* () {
+    const { secret, stub } = yield* vaultStore(env, tenant);
+    return yield* Effect.tryPromise({
+      try: async () => stub.storeTIN(await sealTIN(secret, tin, tinType)),
+      catch: (err) =>
+        new TINVaultError({ message: err instanceof Error ? err.message : String(err) }),
+    });
+  });
+}
+
+function refsOf(forms: Form1099Request[]): string[] {
+  const refs = forms.flatMap((f) => [f.payer.tin_ref, f.recipient.tin_ref]);
+  return [...new Set(refs.filter((r): r is string => !!r))];
+}
+
+type TINHolder = Pick<PayerInfo | RecipientInfo, 'tin' | 'tin_ref'>;
+
+function withTIN<P extends TINHolder>(party: P, tins: Map<string, string>): P {
+  if (!party.tin_ref) return party;
+  return { ...party, tin: tins.get(party.tin_ref), tin_ref: undefined };
+}
+
+/** Decrypt a set of `tenant`'s `tin_ref`s. Fails if any ref is unknown to it. */
+function openRefs(
+  env: Env,
+  tenant: string,
+  refs: string[],
+): Effect.Effect<Map<string, string>, TINVaultError> {
+  return Effect.gen(function* () {
+    const { secret, stub } = yield* vaultStore(env, tenant);
+    const sealed = yield* Effect.tryPromise({
+      try: () => stub.getTINs(refs),
+      catch: (err) =>
+        new TINVaultError({ message: err instanceof Error ? err.message : String(err) }),
+    });
+    const unknown = refs.filter((ref) => !sealed.some((s) => s.tinRef === ref));
+    if (unknown.length > 0) {
+      return yield* Effect.fail(new TINVaultError({ message: `Unknown tin_ref: ${unknown[0]}` }));
+    }
+    const tins = new Map<string, string>();
+    for (const s of sealed) {
+      const tin = yield* Effect.tryPromise({
+        try: () => openTIN(secret, s),
+        catch: () => new TINVaultError({ message: `Could not decrypt ${s.tinRef}` }),
+      });
+      tins.set(s.tinRef, tin);
+    }
+    return tins;
+  });
+}
+
+/**
+ * Swap every `tin_ref` for the decrypted TIN. Called only when building the
+ * TaxBandits payload — the result must not be logged, stored or returned.
+ */
+export function revealTINs<T extends Form1099Request>(
+  env: Env,
+  tenant: string,
+  forms: T[],
+): Effect.Effect<T[], TINVaultError> {
+  const refs = refsOf(forms);
+  if (refs.length === 0) return Effect.succeed(forms);
+  return openRefs(env, tenant, refs).pipe(
+    Effect.map((tins) =>
+      forms.map((f) => ({
+        ...f,
+        payer: withTIN(f.payer, tins),
+        recipient: withTIN(f.recipient, tins),
+      })),
+    ),
+  );
+}
+
+/** `revealTINs` for bare parties, e.g. the recipients of `POST /tin-match`. */
+export function revealParties<P extends TINHolder>(
+  env: Env,
+  tenant: string,
+  parties: P[],
+): Effect.Effect<P[], TINVaultError> {
+  const refs = [...new Set(parties.flatMap((p) => (p.tin_ref ? [p.tin_ref] : [])))];
+  if (refs.length === 0) return Effect.succeed(parties);
+  return openRefs(env, tenant, refs).pipe(
+    Effect.map((tins) => parties.map((p) => withTIN(p, tins))),
+  );
+}
+
+/** Decrypt one `tin_ref` — the payer TIN on Copy B, which may not be truncated. */
+export function revealTIN(
+  env: Env,
+  tenant: string,
+  tinRef: string,
+): Effect.Effect<string, TINVaultError> {
+  return openRefs(env, tenant, [tinRef]).pipe(Effect.map((tins) => tins.get(tinRef) ?? ''));
+}
+
+/**
+ * Replace the plain payer and recipient TINs with `tin_ref`s before form data
+ * is persisted. Without a configured vault, or if vaulting fails, a TIN is
+ * reduced to its masked form rather than stored in full.
+ */
+export function vaultFormTINs<T extends Form1099Request>(
+  env: Env,
+  tenant: string,
+  forms: T[],
+): Effect.Effect<T[]> {
+  return Effect.forEach(forms, (f) =>
+    Effect.all([vaultPartyTIN(env, tenant, f.payer), vaultPartyTIN(env, tenant, f.recipient)]).pipe(
+      Effect.map(([payer, recipient]) => ({ ...f, payer, recipient })),
+    ),
+  );
+}
+
+function vaultPartyTIN<P extends TINHolder & { tin_type?: 'SSN' | 'EIN' }>(
+  env: Env,
+  tenant: string,
+  party: P,
+): Effect.Effect<P> {
+  const { tin } = party;
+  if (!tin) return Effect.succeed(party);
+  const masked = { ...party, tin: maskTIN(tin) };
+  if (!env.TIN_VAULT_KEY || !env.WEBHOOK_STATE) return Effect.succeed(masked);
+  return tokenizePartyTIN(env, tenant, party).pipe(Effect.orElseSucceed(() => masked));
+}
+
+/** Swap a party's plain TIN for a `tin_ref`, failing where `vaultFormTINs` would mask it. */
+export function tokenizePartyTIN<P extends TINHolder & { tin_type?: 'SSN' | 'EIN' }>(
+  env: Env,
+  tenant: string,
+  party: P,
+): Effect.Effect<P, TINVaultError> {
+  const { tin, tin_type } = party;
+  if (!tin) return Effect.succeed(party);
+  return tokenizeTIN(env, tenant, tin, tin_type ?? 'EIN').pipe(
+    Effect.map((ref) => ({ ...party, tin: undefined, tin_ref: ref })),
+  );
+}
@@ -0,0 +1,261 @@
+import { describe, it, expect } from 'vitest';
+import { env } from 'cloudflare:test';
+import { Effect, Either } from 'effect';
+import {
+  completedW9Tins,
+  createW9Request,
+  findW9RequestByToken,
+  hashW9Token,
+  renderW9Form,
+  resolveW9Recipients,
+  submitW9,
+  w9RequestView,
+  type W9SubmissionInput,
+} from './w9';
+import { W9SubmissionSchema } from './schemas';
+import { revealTIN } from './vault';
+import type { Env } from './types';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+/** W-9 collection needs the TIN vault; WEBHOOK_STATE comes from wrangler.jsonc. */
+const w9Env = { ...(env as unknown as Env), TIN_VAULT_KEY: 'test-w9-secret' } as Env;
+
+/** The tenant the requests below are created for, and one that must not see them. */
+const TENANT = 'user:w9-owner';
+const OTHER_TENANT = 'user:w9-other';
+
+const SUBMISSION: W9SubmissionInput = {
+  name: 'Jane Q Smith',
+  tax_classification: 'INDIVIDUAL',
+  address: '200 Oak Ave',
+  city: 'Austin',
+  state: 'TX',
+  zip_code: '78701',
+  tin_type: 'SSN',
+  tin: '412-78-9654',
+  signature: 'Jane Q Smith',
+  certify: 'yes',
+};
+
+async function completedRequest(reference?: string) {
+  const { request, token } = await Effect.runPromise(
+    createW9Request(w9Env, TENANT, { reference, expiresInDays: 30 }),
+  );
+  const completed = await Effect.runPromise(submitW9(w9Env, request, SUBMISSION));
+  return { request: completed, token };
+}
+
+// ---------------------------------------------------------------------------
+// Requests and submission
+// ---------------------------------------------------------------------------
+describe('W-9 requests', () => {
+  it('creates a pending request reachable only through its token', async () => {
+    const { request, token } = await Effect.runPromise(
+      createW9Request(w9Env, TENANT, {
+        reference: 'qb-1',
+        recipientName: 'Jane',
+        expiresInDays: 7,
+      }),
+    );
+    expect(request.requestId).toMatch(/^w9_/);
+    expect(request.status).toBe('PENDING');
+    expect(token).toMatch(/^[A-Za-z0-9_-]{43}$/);
+
+    const found = await Effect.runPromise(findW9RequestByToken(w9Env, token));
+    expect(found.requestId).toBe(request.requestId);
+    expect(await hashW9Token(token)).not.toBe(token);
+  });
+
+  it('fails for an unknown token', async () => {
+    const result = await Effect.runPromise(
+      Effect.either(findW9RequestByToken(w9Env, 'not-a-real-token')),
+    );
+    expect(Either.isLeft(result) && result.left.reason).toBe('not_found');
+  });
+
+  it('is unavailable without the TIN vault', async () => {
+    const result = await Effect.runPromise(
+      Effect.either(createW9Request(env as unknown as Env, TENANT, { expiresInDays: 30 })),
+    );
+    expect(Either.isLeft(result) && result.left.reason).toBe('unavailable');
+  });
+
+  it('vaults the TIN on submission and keeps only the tin_ref', async () => {
+    const { request } = await completedRequest();
+    expect(request.status).toBe('COMPLETED');
+    expect(request.submission?.tinRef).toMatch(/^tin_s9654_/);
+    expect(JSON.stringify(request)).not.toContain('412789654');
+    const tin = await Effect.runPromise(revealTIN(w9Env, TENANT, request.submission?.tinRef ?? ''));
+    expect(tin).toBe('412789654');
+  });
+
+  it('accepts one submission per request', async () => {
+    const { request } = await completedRequest();
+    const again = await Effect.runPromise(Effect.either(submitW9(w9Env, request, SUBMISSION)));
+    expect(Either.isLeft(again)).toBe(true);
+  });
+
+  it('masks the TIN in the API view', async () => {
+    const { request } = await completedRequest();
+    expect(w9RequestView(request).submission?.tin).toBe('***9654');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// W9SubmissionSchema
+// ---------------------------------------------------------------------------
+describe('W9SubmissionSchema', () => {
+  it('requires the certification', () => {
+    const { certify: _certify, ...rest } = SUBMISSION;
+    expect(W9SubmissionSchema.safeParse(rest).success).toBe(false);
+  });
+
+  it('requires an LLC tax classification for LLCs', () => {
+    const result = W9SubmissionSchema.safeParse({ ...SUBMISSION, tax_classification: 'LLC' });
+    expect(result.success).toBe(false);
+    expect(
+      W9SubmissionSchema.safeParse({
+        ...SUBMISSION,
+        tax_classification: 'LLC',
+        llc_classification: 'P',
+      }).success,
+    ).toBe(true);
+  });
+
+  it('checks the TIN format against the TIN type', () => {
+    expect(W9SubmissionSchema.safeParse({ ...SUBMISSION, tin_type: 'EIN' }).success).toBe(false);
+    expect(W9SubmissionSchema.safeParse({ ...SUBMISSION, tin: '41278965' }).success).toBe(false);
+  });
+
+  it('upper-cases the state code', () => {
+    const result = W9SubmissionSchema.safeParse({ ...SUBMISSION, state: 'tx' });
+    expect(result.success && result.data.state).toBe('TX');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Consumers — /file bodies and QuickBooks vendor TINs
+// ---------------------------------------------------------------------------
+describe('resolveW9Recipients', () => {
+  it('leaves bodies without W-9 references untouched', async () => {
+    const body = { recipient: { first_name: 'Jane', tin: '412789654' } };
+    const result = await Effect.runPromise(
+      resolveW9Recipients(env as unknown as Env, TENANT, body),
+    );
+    expect(result).toBe(body);
+  });
+
+  it('fills TIN, name and address from a completed W-9', async () => {
+    const { request } = await completedRequest();
+    const result = (await Effect.runPromise(
+      resolveW9Recipients(w9Env, TENANT, { recipient: { w9_request_id: request.requestId } }),
+    )) as { recipient: Record<string, unknown> };
+    expect(result.recipient).toEqual({
+      tin_ref: request.submission?.tinRef,
+      tin_type: 'SSN',
+      first_name: 'Jane Q',
+      last_name: 'Smith',
+      address: '200 Oak Ave',
+      city: 'Austin',
+      state: 'TX',
+      zip_code: '78701',
+    });
+  });
+
+  it('keeps the name and address given in the body', async () => {
+    const { request } = await completedRequest();
+    const result = (await Effect.runPromise(
+      resolveW9Recipients(w9Env, TENANT, {
+        forms: [
+          {
+            recipient: {
+              w9_request_id: request.requestId,
+              first_name: 'Jane',
+              last_name: 'Smith',
+              foreign_address: { address_line1: '1 Rue', city: 'Paris', country: 'FR' },
+            },
+          },
+        ],
+      }),
+    )) as { forms: Array<{ recipient: Record<string, unknown> }> };
+    const recipient = result.forms[0]?.recipient;
+    expect(recipient?.['first_name']).toBe('Jane');
+    expect(recipient?.['address']).toBeUndefined();
+    expect(recipient?.['tin_ref']).toBe(request.submission?.tinRef);
+  });
+
+  it('fails for a W-9 that has not been submitted', async () => {
+    const { request } = await Effect.runPromise(
+      createW9Request(w9Env, TENANT, { expiresInDays: 30 }),
+    );
+    const result = await Effect.runPromise(
+      Effect.either(
+        resolveW9Recipients(w9Env, TENANT, { recipient: { w9_request_id: request.requestId } }),
+      ),
+    );
+    expect(Either.isLeft(result) && result.left.reason).toBe('pending');
+  });
+
+  it("fails for another tenant's W-9 as for an unknown one", async () => {
+    const { request } = await completedRequest();
+    const result = await Effect.runPromise(
+      Effect.either(
+        resolveW9Recipients(w9Env, OTHER_TENANT, {
+          recipient: { w9_request_id: request.requestId },
+        }),
+      ),
+    );
+    expect(Either.isLeft(result) && result.left.reason).toBe('not_found');
+  });
+
+  it('rejects a reference alongside a tin', async () => {
+    const result = await Effect.runPromise(
+      Effect.either(
+        resolveW9Recipients(w9Env, TENANT, {
+          recipient: { w9_request_id: 'w9_x', tin: '412789654' },
+        }),
+      ),
+    );
+    expect(Either.isLeft(result) && result.left.reason).toBe('invalid');
+  });
+});
+
+describe('completedW9Tins', () => {
+  it('maps references of completed requests to tin_refs', async () => {
+    const { request } = await completedRequest('qb-vendor-42');
+    await Effect.runPromise(
+      createW9Request(w9Env, TENANT, { reference: 'qb-vendor-7', expiresInDays: 30 }),
+    );
+    const tins = await Effect.runPromise(completedW9Tins(w9Env, TENANT));
+    expect(tins['qb-vendor-42']).toBe(request.submission?.tinRef);
+    expect(tins['qb-vendor-7']).toBeUndefined();
+  });
+
+  it("leaves out other tenants' requests", async () => {
+    await completedRequest('qb-vendor-43');
+    const tins = await Effect.runPromise(completedW9Tins(w9Env, OTHER_TENANT));
+    expect(tins['qb-vendor-43']).toBeUndefined();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Hosted form
+// ---------------------------------------------------------------------------
+describe('renderW9Form', () => {
+  it('escapes posted values and never echoes the TIN', async () => {
+    const { request } = await Effect.runPromise(
+      createW9Request(w9Env, TENANT, { expiresInDays: 30 }),
+    );
+    const html = renderW9Form(request, {
+      values: { name: '<script>alert(1)</script>', tin: '412789654' },
+      errors: ['tin: bad <b>'],
+    });
+    expect(html).not.toContain('<script>');
+    expect(html).toContain('&lt;script&gt;');
+    expect(html).not.toContain('412789654');
+    expect(html).toContain('tin: bad &lt;b&gt;');
+  });
+});
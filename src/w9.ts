@@ -0,0 +1,434 @@
+import { Effect } from 'effect';
+import type { z } from 'zod';
+import type { Env } from './types';
+import { W9RequestError, type TINVaultError } from './types';
+import type { W9Request, W9Submission, W9TaxClassification } from './webhook-state';
+import type { W9SubmissionSchema } from './schemas';
+import { tinLast4, tokenizeTIN } from './vault';
+import { maskTIN } from './pii';
+import { globalState } from './tenants';
+
+// ============================================================
+// W-9 collection — tokenized request links + hosted form
+//
+// A payer creates a request for a recipient and sends them the link. The
+// recipient fills in a minimal hosted W-9 at /w9/:token; the TIN goes
+// straight into the TIN vault and only its `tin_ref` is kept with the
+// request. Completed requests feed /quickbooks/generate (by `reference`)
+// and /file (by `recipient.w9_request_id`).
+//
+// Requests live in the global WebhookState, where the hosted form finds them
+// by token, and each is tagged with the tenant that created it: the API only
+// lists, reads and resolves the caller's tenant's requests.
+// ============================================================
+
+export type W9SubmissionInput = z.output<typeof W9SubmissionSchema>;
+
+export const W9_CLASSIFICATION_LABELS: Record<W9TaxClassification, string> = {
+  INDIVIDUAL: 'Individual/sole proprietor',
+  C_CORPORATION: 'C corporation',
+  S_CORPORATION: 'S corporation',
+  PARTNERSHIP: 'Partnership',
+  TRUST_ESTATE: 'Trust/estate',
+  LLC: 'LLC',
+  OTHER: 'Other',
+};
+
+function randomBase64url(bytes: number): string {
+  return btoa(String.fromCharCode(...crypto.getRandomValues(new Uint8Array(bytes))))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/** Only this hash is stored — a leaked table doesn't yield working links. */
+export async function hashW9Token(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+function w9Store(env: Env) {
+  const ns = env.WEBHOOK_STATE;
+  if (!ns || !env.TIN_VAULT_KEY) {
+    return Effect.fail(
+      new W9RequestError({
+        reason: 'unavailable',
+        message: 'W-9 collection requires the TIN vault (TIN_VAULT_KEY, WEBHOOK_STATE)',
+      }),
+    );
+  }
+  return Effect.succeed(globalState(ns));
+}
+
+function storeFailure(err: unknown): W9RequestError {
+  return new W9RequestError({
+    reason: 'unavailable',
+    message: err instanceof Error ? err.message : String(err),
+  });
+}
+
+// ============================================================
+// Requests
+// ============================================================
+
+/** Create a request for `tenant`. The returned token appears only here — it is the recipient's link. */
+export function createW9Request(
+  env: Env,
+  tenant: string,
+  input: { reference?: string; recipientName?: string; email?: string; expiresInDays: number },
+): Effect.Effect<{ request: W9Request; token: string }, W9RequestError> {
+  return Effect.gen(function* () {
+    const stub = yield* w9Store(env);
+    const token = randomBase64url(32);
+    const tokenHash = yield* Effect.promise(() => hashW9Token(token));
+    const request = yield* Effect.tryPromise({
+      try: () =>
+        stub.createW9Request({
+          tenant,
+          requestId: `w9_${randomBase64url(12)}`,
+          tokenHash,
+          ...input,
+        }),
+      catch: storeFailure,
+    });
+    return { request, token };
+  });
+}
+
+/** Look up a request by the token in its link. */
+export function findW9RequestByToken(
+  env: Env,
+  token: string,
+): Effect.Effect<W9Request, W9RequestError> {
+  return Effect.gen(function* () {
+    const stub = yield* w9Store(env);
+    const tokenHash = yield* Effect.promise(() => hashW9Token(token));
+    const request = yield* Effect.tryPromise({
+      try: () => stub.getW9RequestByToken(tokenHash),
+      catch: storeFailure,
+    });
+    if (!request) {
+      return yield* Effect.fail(
+        new W9RequestError({ reason: 'not_found', message: 'W-9 request not found' }),
+      );
+    }
+    return request;
+  });
+}
+
+/**
+ * Vault the TIN, in the vault of the tenant that created the request, and
+ * complete the request. Fails if the request expired or was completed in the
+ * meantime.
+ */
+export function submitW9(
+  env: Env,
+  request: W9Request,
+  input: W9SubmissionInput,
+): Effect.Effect<W9Request, W9RequestError | TINVaultError> {
+  return Effect.gen(function* () {
+    const stub = yield* w9Store(env);
+    const tenant = yield* Effect.tryPromise({
+      try: () => stub.getW9RequestTenant(request.requestId),
+      catch: storeFailure,
+    });
+    if (!tenant) {
+      return yield* Effect.fail(
+        new W9RequestError({ reason: 'not_found', message: 'W-9 request not found' }),
+      );
+    }
+    const tinRef = yield* tokenizeTIN(env, tenant, input.tin, input.tin_type);
+    const submission: W9Submission = {
+      name: input.name,
+      ...(input.business_name ? { businessName: input.business_name } : {}),
+      taxClassification: input.tax_classification,
+      ...(input.llc_classification ? { llcClassification: input.llc_classification } : {}),
+      ...(input.exempt_payee_code ? { exemptPayeeCode: input.exempt_payee_code } : {}),
+      address: input.address,
+      city: input.city,
+      state: input.state,
+      zipCode: input.zip_code,
+      tinType: input.tin_type,
+      tinRef,
+      signature: input.signature,
+      certifiedAt: new Date().toISOString(),
+    };
+    const completed = yield* Effect.tryPromise({
+      try: () => stub.completeW9Request(request.requestId, submission),
+      catch: storeFailure,
+    });
+    if (!completed) {
+      return yield* Effect.fail(
+        new W9RequestError({
+          reason: 'expired',
+          message: 'This W-9 request has expired or was already submitted',
+        }),
+      );
+    }
+    const updated = yield* Effect.tryPromise({
+      try: () => stub.getW9Request(request.requestId),
+      catch: storeFailure,
+    });
+    return updated ?? request;
+  });
+}
+
+/** API view of a request: the vault token and a masked TIN, never the TIN. */
+export function w9RequestView(request: W9Request) {
+  const { submission, ...rest } = request;
+  return {
+    ...rest,
+    submission: submission
+      ? { ...submission, tin: maskTIN(tinLast4({ tin_ref: submission.tinRef })) }
+      : null,
+  };
+}
+
+/**
+ * `requestId → status` for the given requests of `tenant`; unknown IDs and
+ * other tenants' requests are left out. Empty when W-9 collection isn't
+ * configured.
+ */
+export function w9RequestStatuses(
+  env: Env,
+  tenant: string,
+  requestIds: string[],
+): Effect.Effect<Record<string, W9Request['status']>> {
+  return Effect.gen(function* () {
+    const stub = yield* w9Store(env);
+    const requests = yield* Effect.forEach(
+      [...new Set(requestIds)],
+      (requestId) =>
+        Effect.tryPromise({
+          try: () => stub.getW9Request(requestId, tenant),
+          catch: storeFailure,
+        }),
+      { concurrency: 'unbounded' },
+    );
+    const statuses: Record<string, W9Request['status']> = {};
+    for (const request of requests) {
+      if (request) statuses[request.requestId] = request.status;
+    }
+    return statuses;
+  }).pipe(Effect.orElseSucceed(() => ({})));
+}
+
+/**
+ * `reference → tin_ref` for every completed request of `tenant` with a
+ * reference (newest first wins). Used to fill in QuickBooks vendor TINs.
+ */
+export function completedW9Tins(env: Env, tenant: string): Effect.Effect<Record<string, string>> {
+  const ns = env.WEBHOOK_STATE;
+  if (!ns) return Effect.succeed({});
+  return Effect.promise(() => globalState(ns).listW9Requests(tenant, { status: 'COMPLETED' })).pipe(
+    Effect.map((requests) => {
+      const tins: Record<string, string> = {};
+      for (const r of requests) {
+        if (r.reference && r.submission && !(r.reference in tins)) {
+          tins[r.reference] = r.submission.tinRef;
+        }
+      }
+      return tins;
+    }),
+  );
+}
+
+// ============================================================
+// Form bodies — recipient.w9_request_id
+// ============================================================
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Recipients of a single-form body (`recipient`) or a batch body (`forms[].recipient`). */
+function recipientsOf(body: JsonObject): JsonObject[] {
+  const forms = Array.isArray(body['forms']) ? body['forms'] : [body];
+  return forms.flatMap((f) => (isObject(f) && isObject(f['recipient']) ? [f['recipient']] : []));
+}
+
+/** Fill a recipient from a completed W-9: TIN always, name and address only where missing. */
+function applyW9(recipient: JsonObject, w9: W9Submission): void {
+  delete recipient['w9_request_id'];
+  recipient['tin_ref'] = w9.tinRef;
+  recipient['tin_type'] = w9.tinType;
+  if (recipient['first_name'] === undefined && recipient['last_name'] === undefined) {
+    const parts = w9.name.split(/\s+/);
+    recipient['first_name'] = parts.length > 1 ? parts.slice(0, -1).join(' ') : w9.name;
+    recipient['last_name'] = parts.length > 1 ? parts[parts.length - 1] : w9.name;
+  }
+  const hasAddress = ['address', 'city', 'state', 'zip_code', 'foreign_address'].some(
+    (f) => recipient[f] !== undefined,
+  );
+  if (!hasAddress) {
+    recipient['address'] = w9.address;
+    recipient['city'] = w9.city;
+    recipient['state'] = w9.state;
+    recipient['zip_code'] = w9.zipCode;
+  }
+}
+
+/**
+ * Replace every `recipient.w9_request_id` in a raw form body with the W-9's
+ * `tin_ref`, TIN type and (if absent) name and address. Only `tenant`'s
+ * requests resolve; another tenant's fails like an unknown ID. Bodies
+ * without W-9 references are returned untouched.
+ */
+export function resolveW9Recipients(
+  env: Env,
+  tenant: string,
+  raw: unknown,
+): Effect.Effect<unknown, W9RequestError> {
+  if (!isObject(raw)) return Effect.succeed(raw);
+  const body = structuredClone(raw);
+  const referencing = recipientsOf(body).filter((r) => r['w9_request_id'] !== undefined);
+  if (referencing.length === 0) return Effect.succeed(raw);
+
+  return Effect.gen(function* () {
+    const stub = yield* w9Store(env);
+    for (const recipient of referencing) {
+      const requestId = recipient['w9_request_id'];
+      if (
+        typeof requestId !== 'string' ||
+        recipient['tin'] !== undefined ||
+        recipient['tin_ref'] !== undefined
+      ) {
+        return yield* Effect.fail(
+          new W9RequestError({
+            reason: 'invalid',
+            message: 'recipient.w9_request_id must be a string and replaces tin / tin_ref',
+          }),
+        );
+      }
+      const request = yield* Effect.tryPromise({
+        try: () => stub.getW9Request(requestId, tenant),
+        catch: storeFailure,
+      });
+      if (!request) {
+        return yield* Effect.fail(
+          new W9RequestError({ reason: 'not_found', message: `Unknown W-9 request: ${requestId}` }),
+        );
+      }
+      if (request.status !== 'COMPLETED' || !request.submission) {
+        return yield* Effect.fail(
+          new W9RequestError({
+            reason: request.status === 'EXPIRED' ? 'expired' : 'pending',
+            message: `W-9 request ${requestId} is ${request.status.toLowerCase()} — no TIN collected yet`,
+          }),
+        );
+      }
+      applyW9(recipient, request.submission);
+    }
+    return body;
+  });
+}
+
+// ============================================================
+// Hosted form — minimal HTML, no scripts or external assets
+// ============================================================
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/** Headers for hosted pages: the token is in the URL, so no caching or referrers. */
+export const W9_PAGE_HEADERS: Record<string, string> = {
+  'Cache-Control': 'no-store',
+  'Referrer-Policy': 'no-referrer',
+  'Content-Security-Policy': "default-src 'none'; style-src 'unsafe-inline'; form-action 'self'",
+  'X-Frame-Options': 'DENY',
+};
+
+function page(title: string, body: string): string {
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>
+body{font-family:system-ui,sans-serif;max-width:40rem;margin:2rem auto;padding:0 1rem;color:#222}
+label{display:block;margin:.75rem 0 .25rem;font-weight:600}
+input,select{width:100%;padding:.4rem;box-sizing:border-box}
+.row{display:flex;gap:.75rem}.row>div{flex:1}
+.errors{background:#fdecea;border:1px solid #e0a39c;padding:.5rem 1rem}
+.cert{font-size:.9rem;background:#f5f5f5;padding:.5rem 1rem}
+button{margin-top:1rem;padding:.6rem 1.2rem}
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+}
+
+/** A one-message page: not found, expired, already submitted, thank you. */
+export function renderW9Message(title: string, message: string): string {
+  return page(title, `<h1>${escapeHtml(title)}</h1>\n<p>${escapeHtml(message)}</p>`);
+}
+
+/** The hosted W-9. Re-rendered with the posted values (minus the TIN) and errors on failure. */
+export function renderW9Form(
+  request: W9Request,
+  opts: { values?: Record<string, string>; errors?: string[] } = {},
+): string {
+  const values: Record<string, string> = { ...opts.values, tin: '' };
+  if (!values['name'] && request.recipientName) values['name'] = request.recipientName;
+  const v = (field: string) => escapeHtml(values[field] ?? '');
+  const input = (field: string, label: string, attrs = '') =>
+    `<label for="${field}">${label}</label><input id="${field}" name="${field}" value="${v(field)}" ${attrs}>`;
+  const option = (field: string, value: string, label: string) =>
+    `<option value="${value}"${values[field] === value ? ' selected' : ''}>${escapeHtml(label)}</option>`;
+
+  const errors = opts.errors?.length
+    ? `<div class="errors"><ul>${opts.errors.map((e) => `<li>${escapeHtml(e)}</li>`).join('')}</ul></div>`
+    : '';
+
+  return page(
+    'Form W-9 — Request for Taxpayer Identification Number',
+    `<h1>Form W-9</h1>
+<p>Request for Taxpayer Identification Number and Certification. Link expires ${escapeHtml(request.expiresAt)} UTC.</p>
+${errors}
+<form method="post">
+${input('name', '1. Name (as shown on your income tax return)', 'required maxlength="200"')}
+${input('business_name', '2. Business name / disregarded entity name, if different', 'maxlength="200"')}
+<label for="tax_classification">3. Federal tax classification</label>
+<select id="tax_classification" name="tax_classification" required>
+${Object.entries(W9_CLASSIFICATION_LABELS)
+  .map(([value, label]) => option('tax_classification', value, label))
+  .join('\n')}
+</select>
+<label for="llc_classification">LLC tax classification (LLCs only)</label>
+<select id="llc_classification" name="llc_classification">
+<option value="">—</option>
+${option('llc_classification', 'C', 'C corporation')}
+${option('llc_classification', 'S', 'S corporation')}
+${option('llc_classification', 'P', 'Partnership')}
+</select>
+${input('exempt_payee_code', '4. Exempt payee code (if any)', 'maxlength="2" inputmode="numeric"')}
+${input('address', '5. Address (number, street, and apt. or suite no.)', 'required maxlength="200"')}
+<div class="row">
+<div>${input('city', '6. City', 'required maxlength="100"')}</div>
+<div>${input('state', 'State', 'required maxlength="2"')}</div>
+<div>${input('zip_code', 'ZIP code', 'required maxlength="10"')}</div>
+</div>
+<label for="tin_type">Part I — Taxpayer Identification Number</label>
+<select id="tin_type" name="tin_type" required>
+${option('tin_type', 'SSN', 'Social security number')}
+${option('tin_type', 'EIN', 'Employer identification number')}
+</select>
+${input('tin', 'TIN', 'required autocomplete="off" maxlength="11"')}
+<p class="cert">Part II — Under penalties of perjury, I certify that: (1) the number shown on this form is my correct taxpayer identification number; (2) I am not subject to backup withholding; (3) I am a U.S. citizen or other U.S. person; and (4) the FATCA code(s) entered on this form (if any) indicating that I am exempt from FATCA reporting is correct.</p>
+<label><input type="checkbox" name="certify" value="yes" style="width:auto" required> I certify the statements above</label>
+${input('signature', 'Signature (type your full name)', 'required maxlength="200"')}
+<button type="submit">Submit W-9</button>
+</form>`,
+  );
+}
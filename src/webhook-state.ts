@@ -1,15 +1,671 @@
 import { DurableObject } from 'cloudflare:workers';
-import type { Env } from './types';
+import { Effect } from 'effect';
+import type {
+  Env,
+  CorrectionType,
+  Form1099Request,
+  FormType,
+  KindOfEmployer,
+  KindOfPayer,
+  PayerInfo,
+  RecipientInfo,
+  ValidationIssue,
+  ValidationResult,
+} from './types';
+import { notifyJobCallback, runJobChunk } from './jobs';
+import {
+  SCHEDULED_TRANSMIT_BATCH,
+  SCHEDULED_TRANSMIT_CONCURRENCY,
+  attemptScheduledTransmit,
+  scheduledTransmitRetryDelay,
+  type ScheduledTransmitAttempt,
+} from './scheduled-transmit';
+import { filingProvider, type FilingProvider } from './providers';
+import { maskTIN } from './pii';
+import { GLOBAL_TENANT } from './tenants';
+import {
+  MAX_WEBHOOK_ENDPOINTS,
+  NO_OWNER,
+  WEBHOOK_DELIVERY_BATCH,
+  WEBHOOK_DELIVERY_CONCURRENCY,
+  generateWebhookSecret,
+  newWebhookEvent,
+  sendWebhook,
+  webhookOwners,
+  webhookRetryDelay,
+  type SubmissionOwner,
+  type WebhookAttempt,
+  type WebhookEvent,
+  type WebhookEventData,
+  type WebhookEventType,
+} from './outbound-webhooks';
 
-interface SubmissionRecord {
+export interface SubmissionRecord {
   submissionId: string;
   status: string;
   formType: string;
   createdAt: string;
   updatedAt: string;
   records: string; // JSON stringified
+  taxYear: string | null; // null for submissions tracked before tax years were recorded
+  transmittedAt: string | null;
+  preparedBy: string | null; // `submissionActor` of whoever filed it
+  approvalStatus: ApprovalStatus;
+  reviewedBy: string | null; // `submissionActor` of the reviewer, or `admin`
+  reviewedAt: string | null;
+  reviewNote: string | null;
 }
 
+/**
+ * Two-person control before /transmit: a filed submission waits as PENDING
+ * until a reviewer other than its preparer approves or rejects it.
+ */
+export type ApprovalStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
+
+/**
+ * The deployment admin, holder of the legacy Bearer token. It reviews for
+ * tenants with no second member: personal tenants and `global`.
+ */
+export const ADMIN_REVIEWER = 'admin';
+
+/** Who reviews a submission: an API key identity, or the admin. */
+export type Reviewer = SubmissionOwner | typeof ADMIN_REVIEWER;
+
+/** Why `reviewSubmission` refused a decision. */
+export type ReviewRefusal =
+  | 'UNIDENTIFIED_REVIEWER'
+  | 'NOT_FOUND'
+  | 'SELF_REVIEW'
+  | 'ALREADY_REVIEWED'
+  | 'ALREADY_TRANSMITTED';
+
+export type ReviewOutcome =
+  | { ok: true; submission: SubmissionRecord }
+  | { ok: false; reason: ReviewRefusal };
+
+/**
+ * The person behind an API key identity: `user:<id>`, else `key:<id>`. Null
+ * for Bearer and dev-mode calls, which carry no identity — the deployment's
+ * operator.
+ */
+export function submissionActor(owner: SubmissionOwner): string | null {
+  if (owner.userId) return `user:${owner.userId}`;
+  return owner.apiKeyId ? `key:${owner.apiKeyId}` : null;
+}
+
+/** A submission with its tax year and how many returns it holds — for the deadline report. */
+export interface TaxYearSubmission extends SubmissionRecord {
+  taxYear: string;
+  returns: number;
+}
+
+/** A submission due for reconciliation, with when it last changed or was checked. */
+export interface StaleSubmissionRecord extends SubmissionRecord {
+  lastCheckedAt: string;
+}
+
+/** What `reconcileSubmission` found different from TaxBandits. */
+export interface SubmissionDrift {
+  previousStatus: string;
+  status: string;
+  statusChanged: boolean;
+  recordsChanged: number; // records whose status or errors changed
+}
+
+/** Submissions with one of these statuses are never polled again. */
+const FINAL_SUBMISSION_STATUSES = ['ACCEPTED', 'REJECTED'];
+
+/** A correction or void filed against a record of a tracked submission. */
+export interface CorrectionRecord {
+  correctionId: string;
+  submissionId: string; // original submission
+  recordId: string; // original record
+  correctionType: CorrectionType;
+  isVoid: boolean;
+  status: string;
+  correctionSubmissionId: string;
+  correctionRecordId: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** An envelope-encrypted TIN (see ./vault). All binary fields are base64. */
+export interface SealedTIN {
+  tinRef: string;
+  tinType: 'SSN' | 'EIN';
+  fingerprint: string; // HMAC of the TIN — dedupes without decrypting
+  ciphertext: string;
+  iv: string;
+  wrappedKey: string; // per-TIN data key, wrapped with the vault KEK
+  wrapIv: string;
+}
+
+/** A cached IRS TIN matching result, keyed by a hash of name + TIN (see ./tin-match). */
+export interface CachedTinMatch {
+  key: string;
+  status: 'MATCHED' | 'MISMATCHED';
+  code: string;
+  message: string;
+  checkedAt: string;
+}
+
+export type W9TaxClassification =
+  | 'INDIVIDUAL' // individual / sole proprietor / single-member LLC
+  | 'C_CORPORATION'
+  | 'S_CORPORATION'
+  | 'PARTNERSHIP'
+  | 'TRUST_ESTATE'
+  | 'LLC'
+  | 'OTHER';
+
+/** What a recipient certified on the hosted W-9 form. The TIN is only held as a `tin_ref`. */
+export interface W9Submission {
+  name: string; // line 1 — name as shown on the income tax return
+  businessName?: string; // line 2
+  taxClassification: W9TaxClassification;
+  llcClassification?: 'C' | 'S' | 'P';
+  exemptPayeeCode?: string;
+  address: string;
+  city: string;
+  state: string;
+  zipCode: string;
+  tinType: 'SSN' | 'EIN';
+  tinRef: string;
+  signature: string; // typed name of the person certifying
+  certifiedAt: string;
+}
+
+/** A tokenized W-9 request. The link token itself is never stored, only its hash. */
+export interface W9Request {
+  requestId: string;
+  reference: string | null; // caller's key for the recipient, e.g. a QuickBooks vendor ID
+  recipientName: string | null;
+  email: string | null;
+  status: 'PENDING' | 'COMPLETED' | 'EXPIRED';
+  expiresAt: string;
+  createdAt: string;
+  completedAt: string | null;
+  submission: W9Submission | null;
+}
+
+export type JobChunkStatus = 'PENDING' | 'RUNNING' | 'FILED' | 'INVALID' | 'FAILED';
+
+/** What works through a job's chunks: WebhookState's alarm, or the FILING_QUEUE consumer. */
+export type JobRunner = 'alarm' | 'queue';
+
+/**
+ * One slice of a bulk filing job: forms of a single payer, at most one
+ * TaxBandits submission's worth. Safe to return from the API — no form data.
+ */
+export interface JobChunk {
+  chunkIndex: number;
+  payerName: string;
+  payerTin: string; // masked
+  formIndexes: number[]; // positions in the uploaded `forms`
+  status: JobChunkStatus;
+  attempts: number;
+  submissionId: string | null;
+  invalid: Array<{ formIndex: number; issues: ValidationIssue[] }>; // forms that failed validation
+  error: string | null;
+  updatedAt: string;
+}
+
+/** A bulk filing job (see ./jobs). Status is derived from its chunks. */
+export interface FilingJob {
+  jobId: string;
+  formType: FormType;
+  status: 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED';
+  runner: JobRunner;
+  totalForms: number;
+  progress: Record<JobChunkStatus, number> & { formsFiled: number };
+  createdAt: string;
+  updatedAt: string;
+  chunks: JobChunk[];
+}
+
+/** What `createJob` stores per chunk. Recipient TINs are vaulted when the vault is configured. */
+export type JobChunkInput = Pick<JobChunk, 'payerName' | 'payerTin' | 'formIndexes'> & {
+  forms: Form1099Request[];
+};
+
+/** What `createJob` stores about the job itself. */
+export interface JobInput {
+  jobId: string;
+  formType: FormType;
+  runner: JobRunner;
+  callbackUrl: string | null; // POSTed the job once it stops running
+  owner: SubmissionOwner; // owns the job's submissions, for outbound webhooks
+}
+
+/** A chunk claimed by a runner, with what it needs to run. */
+export interface ClaimedJobChunk {
+  jobId: string;
+  chunkIndex: number;
+  formType: FormType;
+  forms: Form1099Request[];
+  validations: ValidationResult[]; // from an earlier attempt, if any
+  owner: SubmissionOwner;
+}
+
+export type JobChunkOutcome =
+  | { status: 'FILED'; submissionId: string; validations: ValidationResult[] }
+  | { status: 'INVALID'; validations: ValidationResult[] }
+  | { status: 'FAILED'; error: string; validations: ValidationResult[] };
+
+/** A TaxBandits or IRS error attached to one record. */
+export interface RecordError {
+  code: string;
+  message: string;
+}
+
+/**
+ * One form within a submission: who it was for, what was reported, and where
+ * it stands. Safe to return from the API — the TIN is masked.
+ */
+export interface FormRecordSummary {
+  submissionId: string;
+  sequence: number; // 1-based position within the submission
+  recordId: string | null; // null when TaxBandits rejected the record at create
+  formType: string;
+  recipientName: string;
+  recipientTin: string; // masked
+  amount: number;
+  federalTaxWithheld: number;
+  status: string;
+  validationIssues: ValidationIssue[];
+  errors: RecordError[];
+  corrected: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** A form record with the full form data it was filed with (unmasked — never return as-is). */
+export interface StoredFormRecord extends FormRecordSummary {
+  data: Form1099Request;
+}
+
+/** What a route hands `storeFormRecords` for each record TaxBandits created. */
+export type FormRecordInput = Omit<
+  FormRecordSummary,
+  'submissionId' | 'formType' | 'corrected' | 'createdAt' | 'updatedAt'
+> & { data: Form1099Request };
+
+/** A customer endpoint for outbound webhooks (see ./outbound-webhooks). Never includes the secret. */
+export interface WebhookEndpoint {
+  endpointId: string;
+  owner: string; // org:<id>, user:<id>, key:<id> or default
+  url: string;
+  events: WebhookEventType[];
+  description: string | null;
+  createdAt: string;
+}
+
+/** A payer an organization files for — one of an accounting firm's clients. */
+export interface OrgPayer {
+  payerId: string;
+  name: string;
+  tin: string; // masked
+  createdAt: string;
+}
+
+/** A payer's filing details, stored once and referenced as `payer_id` instead of a `payer` block. */
+export interface PayerProfile {
+  payerId: string;
+  payer: PayerInfo; // tin as a tin_ref when the vault is configured
+  kindOfEmployer: KindOfEmployer | null; // default for forms that don't set one
+  kindOfPayer: KindOfPayer | null;
+  stateIds: Record<string, string>; // state → payer's state withholding ID
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type PayerProfileInput = Omit<PayerProfile, 'payerId' | 'createdAt' | 'updatedAt'>;
+
+/** The address part of a recipient, as kept in its address history. */
+export type RecipientAddress = Pick<
+  RecipientInfo,
+  'address' | 'city' | 'state' | 'zip_code' | 'foreign_address'
+>;
+
+/** One amount filed for a directory recipient: the latest filing for that tax year and form. */
+export interface RecipientFiling {
+  taxYear: string;
+  formType: FormType;
+  amount: number; // federal total, as in FormRecord.amount
+  submissionId: string;
+  filedAt: string;
+}
+
+/** A contractor a payer files for every year, referenced as `recipient_id` instead of a `recipient` block. */
+export interface RecipientProfile {
+  recipientId: string;
+  payerId: string; // the payer profile this recipient is filed under
+  recipient: RecipientInfo; // current details; tin as a tin_ref when the vault is configured
+  w9RequestId: string | null; // linked W-9 request, for W-9 status
+  addresses: Array<RecipientAddress & { recordedAt: string }>; // newest first
+  filings: RecipientFiling[]; // newest tax year first
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type RecipientProfileInput = Pick<RecipientProfile, 'payerId' | 'recipient' | 'w9RequestId'>;
+
+export type WebhookDeliveryStatus = 'PENDING' | 'DELIVERED' | 'FAILED';
+
+/** One event queued for one endpoint, with the outcome of its latest attempt. */
+export interface WebhookDelivery {
+  deliveryId: string;
+  endpointId: string;
+  event: WebhookEvent;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: string | null; // null once delivered or failed
+  lastStatusCode: number | null;
+  lastError: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * SCHEDULED until due (and between retries), RUNNING while the alarm
+ * transmits it, then TRANSMITTED, FAILED once retries run out, or CANCELLED
+ * — by the user, or because the submission was transmitted some other way.
+ */
+export type ScheduledTransmitStatus =
+  | 'SCHEDULED'
+  | 'RUNNING'
+  | 'TRANSMITTED'
+  | 'FAILED'
+  | 'CANCELLED';
+
+/** A submission's transmission to the IRS, scheduled for later. */
+export interface ScheduledTransmission {
+  submissionId: string;
+  formType: FormType;
+  transmitAt: string; // UTC, as requested
+  status: ScheduledTransmitStatus;
+  attempts: number;
+  nextAttemptAt: string | null; // null once transmitted, failed or cancelled
+  lastError: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Record statuses that raise a record event when a record reaches them. */
+const RECORD_EVENTS: Record<string, WebhookEventType> = {
+  ACCEPTED: 'record.accepted',
+  REJECTED: 'record.rejected',
+};
+
+function parseJsonArray<T>(value: SqlStorageValue | undefined): T[] {
+  try {
+    const parsed: unknown = JSON.parse(String(value ?? '[]'));
+    return Array.isArray(parsed) ? (parsed as T[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+/** TaxBandits create errors and webhook errors share these fields. */
+export type RecordErrorSource = {
+  Id?: string | null;
+  Code?: string;
+  Name?: string;
+  Message: string;
+  Type?: string;
+};
+
+/** Normalize TaxBandits/IRS errors; prefer the IRS rule code, then the TaxBandits error ID. */
+export function toRecordErrors(errors: RecordErrorSource[] | null | undefined): RecordError[] {
+  return (errors ?? []).map((e) => ({
+    code: e.Code ?? e.Id ?? e.Name ?? 'UNKNOWN',
+    message: e.Message,
+  }));
+}
+
+function toFormRecordSummary(row: Record<string, SqlStorageValue>): FormRecordSummary {
+  return {
+    submissionId: String(row['submission_id'] ?? ''),
+    sequence: Number(row['sequence'] ?? 0),
+    recordId: row['record_id'] == null ? null : String(row['record_id']),
+    formType: String(row['form_type'] ?? ''),
+    recipientName: String(row['recipient_name'] ?? ''),
+    recipientTin: String(row['recipient_tin'] ?? ''),
+    amount: Number(row['amount'] ?? 0),
+    federalTaxWithheld: Number(row['federal_tax_withheld'] ?? 0),
+    status: String(row['status'] ?? ''),
+    validationIssues: parseJsonArray<ValidationIssue>(row['validation_issues']),
+    errors: parseJsonArray<RecordError>(row['errors']),
+    corrected: row['corrected'] === 1,
+    createdAt: String(row['created_at'] ?? ''),
+    updatedAt: String(row['updated_at'] ?? ''),
+  };
+}
+
+function toW9Request(row: Record<string, SqlStorageValue>): W9Request {
+  let submission: W9Submission | null = null;
+  if (row['submission'] != null) {
+    try {
+      submission = JSON.parse(String(row['submission'])) as W9Submission;
+    } catch {
+      submission = null;
+    }
+  }
+  const status = String(row['current_status'] ?? row['status'] ?? 'PENDING');
+  return {
+    requestId: String(row['request_id'] ?? ''),
+    reference: row['reference'] == null ? null : String(row['reference']),
+    recipientName: row['recipient_name'] == null ? null : String(row['recipient_name']),
+    email: row['email'] == null ? null : String(row['email']),
+    status: status === 'COMPLETED' || status === 'EXPIRED' ? status : 'PENDING',
+    expiresAt: String(row['expires_at'] ?? ''),
+    createdAt: String(row['created_at'] ?? ''),
+    completedAt: row['completed_at'] == null ? null : String(row['completed_at']),
+    submission,
+  };
+}
+
+/** Pending requests past their expiry read as EXPIRED. */
+const W9_SELECT = `
+  SELECT *, CASE WHEN status = 'PENDING' AND expires_at <= datetime('now') THEN 'EXPIRED'
+                 ELSE status END AS current_status
+  FROM w9_requests`;
+
+const JOB_CHUNK_STATUSES: JobChunkStatus[] = ['PENDING', 'RUNNING', 'FILED', 'INVALID', 'FAILED'];
+
+function toJobChunk(row: Record<string, SqlStorageValue>): JobChunk {
+  const formIndexes = parseJsonArray<number>(row['form_indexes']);
+  const validations = parseJsonArray<ValidationResult>(row['validations']);
+  const status = String(row['status'] ?? 'PENDING') as JobChunkStatus;
+  return {
+    chunkIndex: Number(row['chunk_index'] ?? 0),
+    payerName: String(row['payer_name'] ?? ''),
+    payerTin: String(row['payer_tin'] ?? ''),
+    formIndexes,
+    status: JOB_CHUNK_STATUSES.includes(status) ? status : 'PENDING',
+    attempts: Number(row['attempts'] ?? 0),
+    submissionId: row['submission_id'] == null ? null : String(row['submission_id']),
+    invalid: validations.flatMap((v, i) =>
+      v.valid ? [] : [{ formIndex: formIndexes[i] ?? i, issues: v.issues }],
+    ),
+    error: row['error'] == null ? null : String(row['error']),
+    updatedAt: String(row['updated_at'] ?? ''),
+  };
+}
+
+function toFilingJob(row: Record<string, SqlStorageValue>, chunks: JobChunk[]): FilingJob {
+  const progress = { PENDING: 0, RUNNING: 0, FILED: 0, INVALID: 0, FAILED: 0, formsFiled: 0 };
+  for (const chunk of chunks) {
+    progress[chunk.status] += 1;
+    if (chunk.status === 'FILED') progress.formsFiled += chunk.formIndexes.length;
+  }
+  const open = progress.PENDING + progress.RUNNING;
+  return {
+    jobId: String(row['job_id'] ?? ''),
+    formType: row['form_type'] === '1099-MISC' ? '1099-MISC' : '1099-NEC',
+    runner: row['runner'] === 'queue' ? 'queue' : 'alarm',
+    status:
+      progress.PENDING === chunks.length
+        ? 'PENDING'
+        : open > 0
+          ? 'RUNNING'
+          : progress.FILED === chunks.length
+            ? 'COMPLETED'
+            : 'FAILED',
+    totalForms: Number(row['total_forms'] ?? 0),
+    progress,
+    createdAt: String(row['created_at'] ?? ''),
+    updatedAt: chunks.reduce(
+      (latest, c) => (c.updatedAt > latest ? c.updatedAt : latest),
+      String(row['created_at'] ?? ''),
+    ),
+    chunks,
+  };
+}
+
+/** Left on a chunk found RUNNING when the next alarm starts, or delivered again by the queue. */
+const INTERRUPTED_CHUNK_ERROR =
+  'Interrupted while filing — check /webhook/submissions for a submission from this payer before resuming';
+
+function toCorrectionRecord(row: Record<string, SqlStorageValue>): CorrectionRecord {
+  return {
+    correctionId: String(row['correction_id'] ?? ''),
+    submissionId: String(row['submission_id'] ?? ''),
+    recordId: String(row['record_id'] ?? ''),
+    correctionType: row['correction_type'] === 'TYPE2' ? 'TYPE2' : 'TYPE1',
+    isVoid: row['is_void'] === 1,
+    status: String(row['status'] ?? ''),
+    correctionSubmissionId: String(row['correction_submission_id'] ?? ''),
+    correctionRecordId:
+      row['correction_record_id'] == null ? null : String(row['correction_record_id']),
+    createdAt: String(row['created_at'] ?? ''),
+    updatedAt: String(row['updated_at'] ?? ''),
+  };
+}
+
+function toSubmissionRecord(row: Record<string, SqlStorageValue>): SubmissionRecord {
+  return {
+    submissionId: String(row['submission_id'] ?? ''),
+    status: String(row['status'] ?? ''),
+    formType: String(row['form_type'] ?? ''),
+    createdAt: String(row['created_at'] ?? ''),
+    updatedAt: String(row['updated_at'] ?? ''),
+    records: String(row['records'] ?? '[]'),
+    taxYear: row['tax_year'] == null ? null : String(row['tax_year']),
+    transmittedAt: row['transmitted_at'] == null ? null : String(row['transmitted_at']),
+    preparedBy: submissionActor(toSubmissionOwner(row)),
+    approvalStatus: (row['approval_status'] ?? 'PENDING') as ApprovalStatus,
+    reviewedBy: row['reviewed_by_admin']
+      ? ADMIN_REVIEWER
+      : submissionActor({
+          userId: row['reviewer_user_id'] == null ? null : String(row['reviewer_user_id']),
+          apiKeyId: row['reviewer_key_id'] == null ? null : String(row['reviewer_key_id']),
+          organizationId: null,
+        }),
+    reviewedAt: row['reviewed_at'] == null ? null : String(row['reviewed_at']),
+    reviewNote: row['review_note'] == null ? null : String(row['review_note']),
+  };
+}
+
+function toSubmissionOwner(row: Record<string, SqlStorageValue> | undefined): SubmissionOwner {
+  return {
+    userId: row?.['owner_user_id'] == null ? null : String(row['owner_user_id']),
+    apiKeyId: row?.['owner_key_id'] == null ? null : String(row['owner_key_id']),
+    organizationId: row?.['owner_org_id'] == null ? null : String(row['owner_org_id']),
+  };
+}
+
+function toWebhookEndpoint(row: Record<string, SqlStorageValue>): WebhookEndpoint {
+  return {
+    endpointId: String(row['endpoint_id'] ?? ''),
+    owner: String(row['owner'] ?? ''),
+    url: String(row['url'] ?? ''),
+    events: parseJsonArray<WebhookEventType>(row['events']),
+    description: row['description'] == null ? null : String(row['description']),
+    createdAt: String(row['created_at'] ?? ''),
+  };
+}
+
+function toWebhookDelivery(row: Record<string, SqlStorageValue>): WebhookDelivery {
+  const status = String(row['status'] ?? 'PENDING');
+  return {
+    deliveryId: String(row['delivery_id'] ?? ''),
+    endpointId: String(row['endpoint_id'] ?? ''),
+    event: JSON.parse(String(row['payload'] ?? '{}')) as WebhookEvent,
+    status: status === 'DELIVERED' || status === 'FAILED' ? status : 'PENDING',
+    attempts: Number(row['attempts'] ?? 0),
+    nextAttemptAt: row['next_attempt_at'] == null ? null : String(row['next_attempt_at']),
+    lastStatusCode: row['last_status_code'] == null ? null : Number(row['last_status_code']),
+    lastError: row['last_error'] == null ? null : String(row['last_error']),
+    createdAt: String(row['created_at'] ?? ''),
+    updatedAt: String(row['updated_at'] ?? ''),
+  };
+}
+
+function toScheduledTransmission(row: Record<string, SqlStorageValue>): ScheduledTransmission {
+  return {
+    submissionId: String(row['submission_id'] ?? ''),
+    formType: String(row['form_type'] ?? '1099-NEC') as FormType,
+    transmitAt: String(row['transmit_at'] ?? ''),
+    status: String(row['status'] ?? 'SCHEDULED') as ScheduledTransmitStatus,
+    attempts: Number(row['attempts'] ?? 0),
+    nextAttemptAt: row['next_attempt_at'] == null ? null : String(row['next_attempt_at']),
+    lastError: row['last_error'] == null ? null : String(row['last_error']),
+    createdAt: String(row['created_at'] ?? ''),
+    updatedAt: String(row['updated_at'] ?? ''),
+  };
+}
+
+function toOrgPayer(row: Record<string, SqlStorageValue>): OrgPayer {
+  return {
+    payerId: String(row['payer_id']),
+    name: String(row['name'] ?? ''),
+    tin: maskTIN(String(row['tin'] ?? '')),
+    createdAt: String(row['created_at'] ?? ''),
+  };
+}
+
+function toPayerProfile(row: Record<string, SqlStorageValue>): PayerProfile {
+  return {
+    payerId: String(row['payer_id']),
+    payer: JSON.parse(String(row['payer'])) as PayerInfo,
+    kindOfEmployer: (row['kind_of_employer'] as KindOfEmployer | null) ?? null,
+    kindOfPayer: (row['kind_of_payer'] as KindOfPayer | null) ?? null,
+    stateIds: JSON.parse(String(row['state_ids'] ?? '{}')) as Record<string, string>,
+    createdAt: String(row['created_at'] ?? ''),
+    updatedAt: String(row['updated_at'] ?? ''),
+  };
+}
+
+function addressOf(recipient: RecipientInfo): RecipientAddress {
+  const { address, city, state, zip_code, foreign_address } = recipient;
+  return { address, city, state, zip_code, foreign_address };
+}
+
+function toRecipientFiling(row: Record<string, SqlStorageValue>): RecipientFiling {
+  return {
+    taxYear: String(row['tax_year']),
+    formType: String(row['form_type']) as FormType,
+    amount: Number(row['amount'] ?? 0),
+    submissionId: String(row['submission_id'] ?? ''),
+    filedAt: String(row['filed_at'] ?? ''),
+  };
+}
+
+/** A SQLite `datetime('now')` value as epoch milliseconds. */
+function sqliteTimeToMs(value: SqlStorageValue): number {
+  return Date.parse(`${String(value).replace(' ', 'T')}Z`);
+}
+
+/** Epoch milliseconds in SQLite `datetime()` form, comparable with `datetime('now')`. */
+function msToSqliteTime(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 19).replace('T', ' ');
+}
+
+/** Left on a scheduled transmission found RUNNING when the next alarm starts. */
+const INTERRUPTED_TRANSMIT_ERROR =
+  'Interrupted while transmitting — check /status before scheduling it again';
+
 export class WebhookState extends DurableObject<Env> {
   constructor(ctx: DurableObjectState, env: Env) {
     super(ctx, env);
@@ -23,23 +679,347 @@ export class WebhookState extends DurableObject<Env> {
         records TEXT NOT NULL DEFAULT '[]'
       )
     `);
+    // Added after the table shipped: when status reconciliation last polled TaxBandits
+    this.addColumn('submissions', 'checked_at', 'TEXT');
+    // Added after the table shipped: who filed it, for outbound webhooks
+    this.addColumn('submissions', 'owner_user_id', 'TEXT');
+    this.addColumn('submissions', 'owner_key_id', 'TEXT');
+    this.addColumn('submissions', 'owner_org_id', 'TEXT');
+    // Added after the table shipped: for filing deadlines and penalties (./deadlines)
+    this.addColumn('submissions', 'tax_year', 'TEXT');
+    this.addColumn('submissions', 'transmitted_at', 'TEXT');
+    // Added after the table shipped: two-person approval before /transmit
+    this.addColumn('submissions', 'approval_status', "TEXT NOT NULL DEFAULT 'PENDING'");
+    this.addColumn('submissions', 'reviewer_user_id', 'TEXT');
+    this.addColumn('submissions', 'reviewer_key_id', 'TEXT');
+    this.addColumn('submissions', 'reviewed_at', 'TEXT');
+    this.addColumn('submissions', 'review_note', 'TEXT');
+    this.addColumn('submissions', 'reviewed_by_admin', 'INTEGER NOT NULL DEFAULT 0');
+    this.ctx.storage.sql.exec(`
+      CREATE TABLE IF NOT EXISTS corrections (
+        correction_id TEXT PRIMARY KEY,
+        submission_id TEXT NOT NULL,
+        record_id TEXT NOT NULL,
+        correction_type TEXT NOT NULL,
+        is_void INTEGER NOT NULL DEFAULT 0,
+        status TEXT NOT NULL DEFAULT 'CREATED',
+        correction_submission_id TEXT NOT NULL,
+        correction_record_id TEXT,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+      )
+    `);
+    this.ctx.storage.sql.exec(`
+      CREATE TABLE IF NOT EXISTS form_records (
+        submission_id TEXT NOT NULL,
+        sequence INTEGER NOT NULL,
+        record_id TEXT,
+        form_type TEXT NOT NULL,
+        data TEXT NOT NULL,
+        recipient_name TEXT NOT NULL,
+        recipient_tin TEXT NOT NULL,
+        amount REAL NOT NULL DEFAULT 0,
+        federal_tax_withheld REAL NOT NULL DEFAULT 0,
+        status TEXT NOT NULL DEFAULT 'CREATED',
+        validation_issues TEXT NOT NULL DEFAULT '[]',
+        errors TEXT NOT NULL DEFAULT '[]',
+        corrected INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+        PRIMARY KEY (submission_id, sequence)
+      );
+      CREATE INDEX IF NOT EXISTS form_records_record_id ON form_records (record_id);
+    `);
+    this.ctx.storage.sql.exec(`
+      CREATE TABLE IF NOT EXISTS tin_vault (
+        tin_ref TEXT PRIMARY KEY,
+        tin_type TEXT NOT NULL,
+        fingerprint TEXT NOT NULL UNIQUE,
+        ciphertext TEXT NOT NULL,
+        iv TEXT NOT NULL,
+        wrapped_key TEXT NOT NULL,
+        wrap_iv TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT (datetime('now'))
+      )
+    `);
+    this.ctx.storage.sql.exec(`
+      CREATE TABLE IF NOT EXISTS w9_requests (
+        request_id TEXT PRIMARY KEY,
+        token_hash TEXT NOT NULL UNIQUE,
+        reference TEXT,
+        recipient_name TEXT,
+        email TEXT,
+        status TEXT NOT NULL DEFAULT 'PENDING',
+        submission TEXT,
+        expires_at TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        completed_at TEXT
+      );
+      CREATE INDEX IF NOT EXISTS w9_requests_reference ON w9_requests (reference);
+    `);
+    // The tenant that created the request; requests from before tenants are global
+    this.addColumn('w9_requests', 'tenant', `TEXT NOT NULL DEFAULT '${GLOBAL_TENANT}'`);
+    this.ctx.storage.sql.exec(`
+      CREATE TABLE IF NOT EXISTS jobs (
+        job_id TEXT PRIMARY KEY,
+        form_type TEXT NOT NULL,
+        total_forms INTEGER NOT NULL,
+        runner TEXT NOT NULL DEFAULT 'alarm',
+        callback_url TEXT,
+        callback_sent_at TEXT,
+        created_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+      CREATE TABLE IF NOT EXISTS job_chunks (
+        job_id TEXT NOT NULL,
+        chunk_index INTEGER NOT NULL,
+        payer_name TEXT NOT NULL,
+        payer_tin TEXT NOT NULL,
+        form_indexes TEXT NOT NULL,
+        forms TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'PENDING',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        submission_id TEXT,
+        validations TEXT NOT NULL DEFAULT '[]',
+        error TEXT,
+        updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+        PRIMARY KEY (job_id, chunk_index)
+      );
+      CREATE INDEX IF NOT EXISTS job_chunks_status ON job_chunks (status);
+    `);
+    this.addColumn('jobs', 'owner_user_id', 'TEXT');
+    this.addColumn('jobs', 'owner_key_id', 'TEXT');
+    this.addColumn('jobs', 'owner_org_id', 'TEXT');
+    this.ctx.storage.sql.exec(`
+      CREATE TABLE IF NOT EXISTS tin_matches (
+        match_key TEXT PRIMARY KEY,
+        status TEXT NOT NULL,
+        code TEXT NOT NULL,
+        message TEXT NOT NULL,
+        checked_at TEXT NOT NULL DEFAULT (datetime('now'))
+      )
+    `);
+    // Keys used to be unkeyed SHA-256 hex digests, which could be reversed to TINs
+    this.ctx.storage.sql.exec('DELETE FROM tin_matches WHERE length(match_key) = 64');
+    this.ctx.storage.sql.exec(`
+      CREATE TABLE IF NOT EXISTS webhook_endpoints (
+        endpoint_id TEXT PRIMARY KEY,
+        owner TEXT NOT NULL,
+        url TEXT NOT NULL,
+        secret TEXT NOT NULL,
+        events TEXT NOT NULL,
+        description TEXT,
+        created_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+      CREATE INDEX IF NOT EXISTS webhook_endpoints_owner ON webhook_endpoints (owner);
+      CREATE TABLE IF NOT EXISTS webhook_deliveries (
+        delivery_id TEXT PRIMARY KEY,
+        endpoint_id TEXT NOT NULL,
+        owner TEXT NOT NULL,
+        event_id TEXT NOT NULL,
+        event_type TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'PENDING',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        next_attempt_at TEXT,
+        last_status_code INTEGER,
+        last_error TEXT,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+      CREATE INDEX IF NOT EXISTS webhook_deliveries_due ON webhook_deliveries (status, next_attempt_at);
+      CREATE INDEX IF NOT EXISTS webhook_deliveries_owner ON webhook_deliveries (owner, created_at);
+    `);
+    this.ctx.storage.sql.exec(`
+      CREATE TABLE IF NOT EXISTS scheduled_transmissions (
+        submission_id TEXT PRIMARY KEY,
+        form_type TEXT NOT NULL,
+        transmit_at TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'SCHEDULED',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        next_attempt_at TEXT,
+        last_error TEXT,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+      CREATE INDEX IF NOT EXISTS scheduled_transmissions_due ON scheduled_transmissions (status, next_attempt_at);
+    `);
+    // Only used in organization tenants: the payers (clients) the org files for
+    this.ctx.storage.sql.exec(`
+      CREATE TABLE IF NOT EXISTS org_payers (
+        payer_id TEXT PRIMARY KEY,
+        tin TEXT NOT NULL UNIQUE, -- digits only
+        name TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT (datetime('now'))
+      )
+    `);
+    this.ctx.storage.sql.exec(`
+      CREATE TABLE IF NOT EXISTS payer_profiles (
+        payer_id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        payer TEXT NOT NULL, -- PayerInfo JSON
+        kind_of_employer TEXT,
+        kind_of_payer TEXT,
+        state_ids TEXT NOT NULL DEFAULT '{}',
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+      )
+    `);
+    // The recipient directory: current details, address history and filed amounts
+    this.ctx.storage.sql.exec(`
+      CREATE TABLE IF NOT EXISTS recipients (
+        recipient_id TEXT PRIMARY KEY,
+        payer_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        recipient TEXT NOT NULL, -- RecipientInfo JSON
+        w9_request_id TEXT,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+      CREATE INDEX IF NOT EXISTS recipients_payer ON recipients (payer_id, name);
+      CREATE TABLE IF NOT EXISTS recipient_addresses (
+        recipient_id TEXT NOT NULL,
+        address TEXT NOT NULL, -- RecipientAddress JSON
+        recorded_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+      CREATE INDEX IF NOT EXISTS recipient_addresses_recipient ON recipient_addresses (recipient_id);
+      CREATE TABLE IF NOT EXISTS recipient_filings (
+        recipient_id TEXT NOT NULL,
+        tax_year TEXT NOT NULL,
+        form_type TEXT NOT NULL,
+        amount REAL NOT NULL,
+        submission_id TEXT NOT NULL,
+        filed_at TEXT NOT NULL DEFAULT (datetime('now')),
+        PRIMARY KEY (recipient_id, tax_year, form_type)
+      )
+    `);
+    // Only used in the global object: which tenant filed each submission
+    this.ctx.storage.sql.exec(`
+      CREATE TABLE IF NOT EXISTS submission_tenants (
+        submission_id TEXT PRIMARY KEY,
+        tenant TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT (datetime('now'))
+      )
+    `);
+  }
+
+  /** `ALTER TABLE ... ADD COLUMN` for tables created before the column existed. */
+  private addColumn(table: string, column: string, type: string): void {
+    const exists = [
+      ...this.ctx.storage.sql.exec(
+        'SELECT 1 FROM pragma_table_info(?) WHERE name = ?',
+        table,
+        column,
+      ),
+    ];
+    if (exists.length === 0) {
+      this.ctx.storage.sql.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`);
+    }
   }
 
-  async trackSubmission(submissionId: string, formType: string = 'FORM1099NEC'): Promise<void> {
+  /**
+   * Start tracking a submission. A known submission keeps its status but
+   * gains an owner or tax year it lacked.
+   */
+  async trackSubmission(
+    submissionId: string,
+    formType: string = 'FORM1099NEC',
+    owner: SubmissionOwner = NO_OWNER,
+    taxYear: string | null = null,
+  ): Promise<void> {
     this.ctx.storage.sql.exec(
-      `INSERT OR IGNORE INTO submissions (submission_id, form_type) VALUES (?, ?)`,
+      `INSERT INTO submissions (submission_id, form_type, owner_user_id, owner_key_id, owner_org_id, tax_year)
+       VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT (submission_id) DO UPDATE SET
+         owner_user_id = COALESCE(owner_user_id, excluded.owner_user_id),
+         owner_key_id = COALESCE(owner_key_id, excluded.owner_key_id),
+         owner_org_id = COALESCE(owner_org_id, excluded.owner_org_id),
+         tax_year = COALESCE(tax_year, excluded.tax_year)`,
       submissionId,
       formType,
+      owner.userId,
+      owner.apiKeyId,
+      owner.organizationId,
+      taxYear,
     );
   }
 
   async updateStatus(submissionId: string, status: string, records: string): Promise<void> {
+    const previous = await this.getSubmission(submissionId);
+    // A submission past CREATED was transmitted — by /transmit, or elsewhere if this is the first we hear
     this.ctx.storage.sql.exec(
-      `UPDATE submissions SET status = ?, records = ?, updated_at = datetime('now') WHERE submission_id = ?`,
+      `UPDATE submissions SET status = ?, records = ?, updated_at = datetime('now'),
+         transmitted_at = CASE WHEN ? = 'CREATED' THEN transmitted_at
+                               ELSE COALESCE(transmitted_at, datetime('now')) END
+       WHERE submission_id = ?`,
       status,
       records,
+      status,
       submissionId,
     );
+    if (previous) this.submissionStatusChanged(submissionId, previous.status, status);
+    await this.scheduleAlarm();
+  }
+
+  /** Mark a CREATED submission TRANSMITTED once /transmit succeeds. Returns false if it wasn't CREATED. */
+  async markTransmitted(submissionId: string): Promise<boolean> {
+    const updated = [
+      ...this.ctx.storage.sql.exec(
+        `UPDATE submissions SET status = 'TRANSMITTED', updated_at = datetime('now'),
+           transmitted_at = COALESCE(transmitted_at, datetime('now'))
+         WHERE submission_id = ? AND status = 'CREATED' RETURNING submission_id`,
+        submissionId,
+      ),
+    ];
+    if (updated.length === 0) return false;
+    this.submissionStatusChanged(submissionId, 'CREATED', 'TRANSMITTED');
+    await this.scheduleAlarm();
+    return true;
+  }
+
+  /**
+   * Approve or reject a CREATED submission that is still PENDING. The
+   * reviewer is the admin, or an identified user or API key other than the
+   * preparer — in an organization, another member. Dev mode callers have no
+   * identity and can't review at all.
+   */
+  async reviewSubmission(
+    submissionId: string,
+    decision: Exclude<ApprovalStatus, 'PENDING'>,
+    reviewer: Reviewer,
+    note: string | null = null,
+  ): Promise<ReviewOutcome> {
+    const admin = reviewer === ADMIN_REVIEWER;
+    const actor = admin ? ADMIN_REVIEWER : submissionActor(reviewer);
+    if (actor === null) return { ok: false, reason: 'UNIDENTIFIED_REVIEWER' };
+    const [row] = [
+      ...this.ctx.storage.sql.exec(
+        'SELECT * FROM submissions WHERE submission_id = ?',
+        submissionId,
+      ),
+    ];
+    if (!row) return { ok: false, reason: 'NOT_FOUND' };
+    if (row['status'] !== 'CREATED') return { ok: false, reason: 'ALREADY_TRANSMITTED' };
+    if (row['approval_status'] !== 'PENDING') return { ok: false, reason: 'ALREADY_REVIEWED' };
+    if (actor === submissionActor(toSubmissionOwner(row))) {
+      return { ok: false, reason: 'SELF_REVIEW' };
+    }
+
+    const [updated] = [
+      ...this.ctx.storage.sql.exec(
+        `UPDATE submissions SET approval_status = ?, reviewer_user_id = ?, reviewer_key_id = ?,
+           reviewed_by_admin = ?, reviewed_at = datetime('now'), review_note = ?,
+           updated_at = datetime('now')
+         WHERE submission_id = ? AND approval_status = 'PENDING' RETURNING *`,
+        decision,
+        admin ? null : reviewer.userId,
+        admin ? null : reviewer.apiKeyId,
+        admin ? 1 : 0,
+        note,
+        submissionId,
+      ),
+    ];
+    if (!updated) return { ok: false, reason: 'ALREADY_REVIEWED' };
+    return { ok: true, submission: toSubmissionRecord(updated) };
   }
 
   async getSubmission(submissionId: string): Promise<SubmissionRecord | null> {
@@ -49,15 +1029,7 @@ export class WebhookState extends DurableObject<Env> {
     );
     const rows = [...cursor];
     if (rows.length === 0) return null;
-    const row = rows[0] as Record<string, string>;
-    return {
-      submissionId: row['submission_id'] ?? '',
-      status: row['status'] ?? '',
-      formType: row['form_type'] ?? '',
-      createdAt: row['created_at'] ?? '',
-      updatedAt: row['updated_at'] ?? '',
-      records: row['records'] ?? '[]',
-    };
+    return toSubmissionRecord(rows[0] as Record<string, SqlStorageValue>);
   }
 
   async listSubmissions(limit: number = 50): Promise<SubmissionRecord[]> {
@@ -65,16 +1037,1345 @@ export class WebhookState extends DurableObject<Env> {
       `SELECT * FROM submissions ORDER BY updated_at DESC LIMIT ?`,
       limit,
     );
-    return [...cursor].map((row) => {
-      const r = row as Record<string, string>;
-      return {
-        submissionId: r['submission_id'] ?? '',
-        status: r['status'] ?? '',
-        formType: r['form_type'] ?? '',
-        createdAt: r['created_at'] ?? '',
-        updatedAt: r['updated_at'] ?? '',
-        records: r['records'] ?? '[]',
-      };
+    return [...cursor].map((row) => toSubmissionRecord(row));
+  }
+
+  /**
+   * Submissions for one tax year with their return counts, oldest first.
+   * Submissions tracked before tax years were recorded fall back to the tax
+   * year of their first stored form record. Correction submissions are left
+   * out — a correction isn't a late return.
+   */
+  async listTaxYearSubmissions(taxYear: string): Promise<TaxYearSubmission[]> {
+    const cursor = this.ctx.storage.sql.exec(
+      `SELECT * FROM (
+         SELECT s.*,
+           COALESCE(s.tax_year, (SELECT json_extract(f.data, '$.tax_year') FROM form_records f
+                                 WHERE f.submission_id = s.submission_id ORDER BY f.sequence LIMIT 1)) AS year,
+           (SELECT COUNT(*) FROM form_records f WHERE f.submission_id = s.submission_id) AS returns
+         FROM submissions s
+         WHERE NOT EXISTS (SELECT 1 FROM corrections c WHERE c.correction_submission_id = s.submission_id)
+       ) WHERE year = ? ORDER BY created_at ASC, submission_id ASC`,
+      taxYear,
+    );
+    return [...cursor].map((row) => ({
+      ...toSubmissionRecord(row),
+      taxYear: String(row['year']),
+      returns: Number(row['returns'] ?? 0),
+    }));
+  }
+
+  /**
+   * Submissions that may have missed a webhook: no final status yet, and
+   * neither updated nor checked in the last `minutes`. Least recently
+   * checked first.
+   */
+  async listStaleSubmissions(minutes: number, limit: number): Promise<StaleSubmissionRecord[]> {
+    const cursor = this.ctx.storage.sql.exec(
+      `SELECT *, COALESCE(checked_at, updated_at) AS last_checked_at FROM submissions
+       WHERE status NOT IN (${FINAL_SUBMISSION_STATUSES.map(() => '?').join(', ')})
+         AND MAX(updated_at, COALESCE(checked_at, '')) <= datetime('now', ?)
+       ORDER BY COALESCE(checked_at, updated_at) ASC LIMIT ?`,
+      ...FINAL_SUBMISSION_STATUSES,
+      `-${minutes} minutes`,
+      limit,
+    );
+    return [...cursor].map((row) => ({
+      ...toSubmissionRecord(row),
+      lastCheckedAt: String(row['last_checked_at'] ?? ''),
+    }));
+  }
+
+  /**
+   * Apply a submission's status as fetched from TaxBandits: overall status,
+   * record statuses and record errors. Returns what had drifted; the
+   * submission counts as checked either way.
+   */
+  async reconcileSubmission(
+    submissionId: string,
+    status: string,
+    records: Array<{ RecordId: string; Status: string; Errors: RecordErrorSource[] | null }>,
+  ): Promise<SubmissionDrift | null> {
+    const current = await this.getSubmission(submissionId);
+    if (!current) return null;
+    // Correction records advance with the submission they were filed in, as on a webhook
+    await this.updateCorrectionStatuses(records);
+    const drift = this.ctx.storage.transactionSync(() => {
+      let recordsChanged = 0;
+      for (const record of records) {
+        if (this.applyRecordStatus(submissionId, record)) recordsChanged += 1;
+      }
+      const statusChanged = current.status !== status;
+      if (statusChanged || recordsChanged > 0) {
+        this.ctx.storage.sql.exec(
+          `UPDATE submissions SET status = ?, records = ?, updated_at = datetime('now'),
+             transmitted_at = CASE WHEN ? = 'CREATED' THEN transmitted_at
+                                   ELSE COALESCE(transmitted_at, datetime('now')) END
+           WHERE submission_id = ?`,
+          status,
+          JSON.stringify(records),
+          status,
+          submissionId,
+        );
+      }
+      this.ctx.storage.sql.exec(
+        `UPDATE submissions SET checked_at = datetime('now') WHERE submission_id = ?`,
+        submissionId,
+      );
+      if (statusChanged) this.submissionStatusChanged(submissionId, current.status, status);
+      return { previousStatus: current.status, status, statusChanged, recordsChanged };
+    });
+    await this.scheduleAlarm();
+    return drift;
+  }
+
+  /** Record a correction/void created in TaxBandits for an original record. */
+  async trackCorrection(
+    correction: Pick<
+      CorrectionRecord,
+      | 'submissionId'
+      | 'recordId'
+      | 'correctionType'
+      | 'isVoid'
+      | 'correctionSubmissionId'
+      | 'correctionRecordId'
+    >,
+  ): Promise<CorrectionRecord> {
+    const correctionId = crypto.randomUUID();
+    this.ctx.storage.sql.exec(
+      `INSERT INTO corrections (correction_id, submission_id, record_id, correction_type, is_void, correction_submission_id, correction_record_id)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      correctionId,
+      correction.submissionId,
+      correction.recordId,
+      correction.correctionType,
+      correction.isVoid ? 1 : 0,
+      correction.correctionSubmissionId,
+      correction.correctionRecordId,
+    );
+    const rows = [
+      ...this.ctx.storage.sql.exec(
+        `SELECT * FROM corrections WHERE correction_id = ?`,
+        correctionId,
+      ),
+    ];
+    return toCorrectionRecord(rows[0] as Record<string, SqlStorageValue>);
+  }
+
+  /**
+   * Apply webhook record statuses to any corrections they belong to.
+   * Corrections are matched by the RecordId TaxBandits assigned to them.
+   */
+  async updateCorrectionStatuses(records: Array<{ RecordId: string; Status: string }>) {
+    for (const record of records) {
+      this.ctx.storage.sql.exec(
+        `UPDATE corrections SET status = ?, updated_at = datetime('now') WHERE correction_record_id = ?`,
+        record.Status.toUpperCase(),
+        record.RecordId,
+      );
+    }
+  }
+
+  /** Corrections filed against an original submission, oldest first. */
+  async listCorrections(submissionId: string): Promise<CorrectionRecord[]> {
+    const cursor = this.ctx.storage.sql.exec(
+      `SELECT * FROM corrections WHERE submission_id = ? ORDER BY created_at ASC, rowid ASC`,
+      submissionId,
+    );
+    return [...cursor].map((row) => toCorrectionRecord(row));
+  }
+
+  /** Store every record of a newly created submission (replaces on refile). */
+  async storeFormRecords(
+    submissionId: string,
+    formType: string,
+    records: FormRecordInput[],
+    corrected: boolean = false,
+  ): Promise<void> {
+    for (const record of records) {
+      this.ctx.storage.sql.exec(
+        `INSERT OR REPLACE INTO form_records (submission_id, sequence, record_id, form_type, data, recipient_name, recipient_tin, amount, federal_tax_withheld, status, validation_issues, errors, corrected)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        submissionId,
+        record.sequence,
+        record.recordId,
+        formType,
+        JSON.stringify(record.data),
+        record.recipientName,
+        record.recipientTin,
+        record.amount,
+        record.federalTaxWithheld,
+        record.status,
+        JSON.stringify(record.validationIssues),
+        JSON.stringify(record.errors),
+        corrected ? 1 : 0,
+      );
+    }
+  }
+
+  /**
+   * Apply webhook record statuses to the stored records of a submission.
+   * Errors are replaced, so an accepted resubmission clears earlier ones.
+   */
+  async updateRecordStatuses(
+    submissionId: string,
+    records: Array<{ RecordId: string; Status: string; Errors: RecordErrorSource[] | null }>,
+  ): Promise<void> {
+    for (const record of records) this.applyRecordStatus(submissionId, record);
+    await this.scheduleAlarm();
+  }
+
+  /**
+   * Set one record's status and errors. Returns whether either changed; a
+   * record newly ACCEPTED or REJECTED raises a record event.
+   */
+  private applyRecordStatus(
+    submissionId: string,
+    record: { RecordId: string; Status: string; Errors: RecordErrorSource[] | null },
+  ): boolean {
+    const status = record.Status.toUpperCase();
+    const errors = JSON.stringify(toRecordErrors(record.Errors));
+    const [before] = [
+      ...this.ctx.storage.sql.exec(
+        'SELECT status FROM form_records WHERE submission_id = ? AND record_id = ?',
+        submissionId,
+        record.RecordId,
+      ),
+    ];
+    const [updated] = [
+      ...this.ctx.storage.sql.exec(
+        `UPDATE form_records SET status = ?, errors = ?, updated_at = datetime('now')
+         WHERE submission_id = ? AND record_id = ? AND (status != ? OR errors != ?)
+         RETURNING *`,
+        status,
+        errors,
+        submissionId,
+        record.RecordId,
+        status,
+        errors,
+      ),
+    ];
+    if (!updated) return false;
+    const type = RECORD_EVENTS[status];
+    if (type && before?.['status'] !== status) {
+      this.queueWebhookEvent(submissionId, type, () => {
+        const summary = toFormRecordSummary(updated);
+        return { form_type: summary.formType, record: summary };
+      });
+    }
+    return true;
+  }
+
+  /** Records of a submission in filing order, without form data. */
+  async listFormRecords(submissionId: string): Promise<FormRecordSummary[]> {
+    const cursor = this.ctx.storage.sql.exec(
+      `SELECT * FROM form_records WHERE submission_id = ? ORDER BY sequence ASC`,
+      submissionId,
+    );
+    return [...cursor].map((row) => toFormRecordSummary(row));
+  }
+
+  async getFormRecord(submissionId: string, recordId: string): Promise<StoredFormRecord | null> {
+    const rows = [
+      ...this.ctx.storage.sql.exec(
+        `SELECT * FROM form_records WHERE submission_id = ? AND record_id = ?`,
+        submissionId,
+        recordId,
+      ),
+    ];
+    if (rows.length === 0) return null;
+    const row = rows[0] as Record<string, SqlStorageValue>;
+    return {
+      ...toFormRecordSummary(row),
+      data: JSON.parse(String(row['data'])) as Form1099Request,
+    };
+  }
+
+  /**
+   * Store a sealed TIN. If the same TIN (by fingerprint) is already vaulted,
+   * the new ciphertext is discarded and the existing `tin_ref` returned.
+   */
+  async storeTIN(sealed: SealedTIN): Promise<string> {
+    this.ctx.storage.sql.exec(
+      `INSERT OR IGNORE INTO tin_vault (tin_ref, tin_type, fingerprint, ciphertext, iv, wrapped_key, wrap_iv)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      sealed.tinRef,
+      sealed.tinType,
+      sealed.fingerprint,
+      sealed.ciphertext,
+      sealed.iv,
+      sealed.wrappedKey,
+      sealed.wrapIv,
+    );
+    const rows = [
+      ...this.ctx.storage.sql.exec(
+        `SELECT tin_ref FROM tin_vault WHERE fingerprint = ?`,
+        sealed.fingerprint,
+      ),
+    ];
+    return String(rows[0]?.['tin_ref'] ?? sealed.tinRef);
+  }
+
+  async getTINs(tinRefs: string[]): Promise<SealedTIN[]> {
+    if (tinRefs.length === 0) return [];
+    const cursor = this.ctx.storage.sql.exec(
+      `SELECT * FROM tin_vault WHERE tin_ref IN (${tinRefs.map(() => '?').join(', ')})`,
+      ...tinRefs,
+    );
+    return [...cursor].map((row) => ({
+      tinRef: String(row['tin_ref']),
+      tinType: row['tin_type'] === 'EIN' ? 'EIN' : 'SSN',
+      fingerprint: String(row['fingerprint']),
+      ciphertext: String(row['ciphertext']),
+      iv: String(row['iv']),
+      wrappedKey: String(row['wrapped_key']),
+      wrapIv: String(row['wrap_iv']),
+    }));
+  }
+
+  async getTinMatches(keys: string[], maxAgeDays: number): Promise<CachedTinMatch[]> {
+    if (keys.length === 0) return [];
+    const cursor = this.ctx.storage.sql.exec(
+      `SELECT * FROM tin_matches
+       WHERE match_key IN (${keys.map(() => '?').join(', ')})
+         AND checked_at > datetime('now', ?)`,
+      ...keys,
+      `-${maxAgeDays} days`,
+    );
+    return [...cursor].map((row) => ({
+      key: String(row['match_key']),
+      status: row['status'] === 'MATCHED' ? 'MATCHED' : 'MISMATCHED',
+      code: String(row['code'] ?? ''),
+      message: String(row['message'] ?? ''),
+      checkedAt: String(row['checked_at'] ?? ''),
+    }));
+  }
+
+  async storeTinMatches(matches: Omit<CachedTinMatch, 'checkedAt'>[]): Promise<void> {
+    for (const m of matches) {
+      this.ctx.storage.sql.exec(
+        `INSERT INTO tin_matches (match_key, status, code, message) VALUES (?, ?, ?, ?)
+         ON CONFLICT (match_key) DO UPDATE SET
+           status = excluded.status, code = excluded.code, message = excluded.message,
+           checked_at = datetime('now')`,
+        m.key,
+        m.status,
+        m.code,
+        m.message,
+      );
+    }
+  }
+
+  async createW9Request(input: {
+    tenant: string;
+    requestId: string;
+    tokenHash: string;
+    reference?: string;
+    recipientName?: string;
+    email?: string;
+    expiresInDays: number;
+  }): Promise<W9Request> {
+    this.ctx.storage.sql.exec(
+      `INSERT INTO w9_requests (request_id, tenant, token_hash, reference, recipient_name, email, expires_at)
+       VALUES (?, ?, ?, ?, ?, ?, datetime('now', ?))`,
+      input.requestId,
+      input.tenant,
+      input.tokenHash,
+      input.reference ?? null,
+      input.recipientName ?? null,
+      input.email ?? null,
+      `+${input.expiresInDays} days`,
+    );
+    const created = await this.getW9Request(input.requestId);
+    if (!created) throw new Error(`W-9 request ${input.requestId} was not stored`);
+    return created;
+  }
+
+  /** A request by ID — only `tenant`'s when given, so other tenants' requests read as unknown. */
+  async getW9Request(requestId: string, tenant?: string): Promise<W9Request | null> {
+    const rows = [
+      ...this.ctx.storage.sql.exec(
+        `${W9_SELECT} WHERE request_id = ? AND (?2 IS NULL OR tenant = ?2)`,
+        requestId,
+        tenant ?? null,
+      ),
+    ];
+    return rows[0] ? toW9Request(rows[0]) : null;
+  }
+
+  /** The tenant that created a request, whose vault holds its TIN. */
+  async getW9RequestTenant(requestId: string): Promise<string | null> {
+    const rows = [
+      ...this.ctx.storage.sql.exec(
+        'SELECT tenant FROM w9_requests WHERE request_id = ?',
+        requestId,
+      ),
+    ];
+    return rows[0] ? String(rows[0]['tenant']) : null;
+  }
+
+  async getW9RequestByToken(tokenHash: string): Promise<W9Request | null> {
+    const rows = [...this.ctx.storage.sql.exec(`${W9_SELECT} WHERE token_hash = ?`, tokenHash)];
+    return rows[0] ? toW9Request(rows[0]) : null;
+  }
+
+  async listW9Requests(
+    tenant: string,
+    filter: { reference?: string; status?: string } = {},
+  ): Promise<W9Request[]> {
+    const cursor = this.ctx.storage.sql.exec(
+      `SELECT * FROM (${W9_SELECT})
+       WHERE tenant = ?3 AND (?1 IS NULL OR reference = ?1) AND (?2 IS NULL OR current_status = ?2)
+       ORDER BY created_at DESC, request_id`,
+      filter.reference ?? null,
+      filter.status ?? null,
+      tenant,
+    );
+    return [...cursor].map(toW9Request);
+  }
+
+  /** Record a submission. Returns false unless the request is still pending and unexpired. */
+  async completeW9Request(requestId: string, submission: W9Submission): Promise<boolean> {
+    const cursor = this.ctx.storage.sql.exec(
+      `UPDATE w9_requests
+       SET status = 'COMPLETED', submission = ?, completed_at = datetime('now')
+       WHERE request_id = ? AND status = 'PENDING' AND expires_at > datetime('now')`,
+      JSON.stringify(submission),
+      requestId,
+    );
+    return cursor.rowsWritten > 0;
+  }
+
+  // ----------------------------------------------------------- Filing jobs
+
+  /**
+   * Store a job and its chunks. Alarm jobs start right away; queue jobs wait
+   * for the caller to send their chunks to FILING_QUEUE.
+   */
+  async createJob(job: JobInput, chunks: JobChunkInput[]): Promise<FilingJob> {
+    const totalForms = chunks.reduce((n, c) => n + c.forms.length, 0);
+    this.ctx.storage.transactionSync(() => {
+      this.ctx.storage.sql.exec(
+        `INSERT INTO jobs (job_id, form_type, total_forms, runner, callback_url,
+                           owner_user_id, owner_key_id, owner_org_id)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        job.jobId,
+        job.formType,
+        totalForms,
+        job.runner,
+        job.callbackUrl,
+        job.owner.userId,
+        job.owner.apiKeyId,
+        job.owner.organizationId,
+      );
+      chunks.forEach((chunk, i) => {
+        this.ctx.storage.sql.exec(
+          `INSERT INTO job_chunks (job_id, chunk_index, payer_name, payer_tin, form_indexes, forms)
+           VALUES (?, ?, ?, ?, ?, ?)`,
+          job.jobId,
+          i,
+          chunk.payerName,
+          chunk.payerTin,
+          JSON.stringify(chunk.formIndexes),
+          JSON.stringify(chunk.forms),
+        );
+      });
+    });
+    if (job.runner === 'alarm') await this.ctx.storage.setAlarm(Date.now());
+    const created = await this.getJob(job.jobId);
+    if (!created) throw new Error(`Job ${job.jobId} was not stored`);
+    return created;
+  }
+
+  async getJob(jobId: string): Promise<FilingJob | null> {
+    const rows = [...this.ctx.storage.sql.exec('SELECT * FROM jobs WHERE job_id = ?', jobId)];
+    if (!rows[0]) return null;
+    const chunks = [
+      ...this.ctx.storage.sql.exec(
+        `SELECT chunk_index, payer_name, payer_tin, form_indexes, status, attempts,
+                submission_id, validations, error, updated_at
+         FROM job_chunks WHERE job_id = ? ORDER BY chunk_index`,
+        jobId,
+      ),
+    ].map(toJobChunk);
+    return toFilingJob(rows[0], chunks);
+  }
+
+  /**
+   * Queue a job's FAILED chunks again. Filed and invalid chunks are left
+   * alone — invalid forms need fixing, not retrying. Returns the number requeued;
+   * for a queue job the caller sends them to FILING_QUEUE.
+   */
+  async resumeJob(jobId: string): Promise<number> {
+    const requeued = this.ctx.storage.transactionSync(() => {
+      const count = [
+        ...this.ctx.storage.sql.exec(
+          `UPDATE job_chunks SET status = 'PENDING', error = NULL, updated_at = datetime('now')
+           WHERE job_id = ? AND status = 'FAILED' RETURNING chunk_index`,
+          jobId,
+        ),
+      ].length;
+      // The job will stop running again, so its callback is due again
+      if (count > 0) {
+        this.ctx.storage.sql.exec(
+          'UPDATE jobs SET callback_sent_at = NULL WHERE job_id = ?',
+          jobId,
+        );
+      }
+      return count;
+    });
+    const job = await this.getJob(jobId);
+    if (requeued > 0 && job?.runner === 'alarm') await this.ctx.storage.setAlarm(Date.now());
+    return requeued;
+  }
+
+  /** Claim the oldest pending chunk across all alarm jobs. */
+  private claimJobChunk(): ClaimedJobChunk | null {
+    const rows = [
+      ...this.ctx.storage.sql.exec(
+        `SELECT c.job_id, c.chunk_index, c.forms, c.validations, j.form_type,
+                j.owner_user_id, j.owner_key_id, j.owner_org_id
+         FROM job_chunks c JOIN jobs j ON j.job_id = c.job_id
+         WHERE c.status = 'PENDING' AND j.runner = 'alarm'
+         ORDER BY j.created_at, c.job_id, c.chunk_index LIMIT 1`,
+      ),
+    ];
+    return this.markJobChunkRunning(rows[0]);
+  }
+
+  /**
+   * Claim one chunk of a queue job for the FILING_QUEUE consumer. Returns null
+   * when there's nothing to run. A chunk already RUNNING means its message was
+   * delivered again after a consumer died mid-run; it's failed like an
+   * interrupted alarm chunk rather than risk filing it twice.
+   */
+  async claimQueuedJobChunk(jobId: string, chunkIndex: number): Promise<ClaimedJobChunk | null> {
+    const rows = [
+      ...this.ctx.storage.sql.exec(
+        `SELECT c.job_id, c.chunk_index, c.forms, c.validations, c.status, j.form_type,
+                j.owner_user_id, j.owner_key_id, j.owner_org_id
+         FROM job_chunks c JOIN jobs j ON j.job_id = c.job_id
+         WHERE c.job_id = ? AND c.chunk_index = ? AND j.runner = 'queue'`,
+        jobId,
+        chunkIndex,
+      ),
+    ];
+    const row = rows[0];
+    if (row?.['status'] === 'RUNNING') {
+      this.ctx.storage.sql.exec(
+        `UPDATE job_chunks SET status = 'FAILED', error = ?, updated_at = datetime('now')
+         WHERE job_id = ? AND chunk_index = ?`,
+        INTERRUPTED_CHUNK_ERROR,
+        jobId,
+        chunkIndex,
+      );
+      return null;
+    }
+    return row?.['status'] === 'PENDING' ? this.markJobChunkRunning(row) : null;
+  }
+
+  private markJobChunkRunning(
+    row: Record<string, SqlStorageValue> | undefined,
+  ): ClaimedJobChunk | null {
+    if (!row) return null;
+    const claimed: ClaimedJobChunk = {
+      jobId: String(row['job_id']),
+      chunkIndex: Number(row['chunk_index']),
+      formType: row['form_type'] === '1099-MISC' ? '1099-MISC' : '1099-NEC',
+      forms: parseJsonArray<Form1099Request>(row['forms']),
+      validations: parseJsonArray<ValidationResult>(row['validations']),
+      owner: toSubmissionOwner(row),
+    };
+    this.ctx.storage.sql.exec(
+      `UPDATE job_chunks SET status = 'RUNNING', attempts = attempts + 1, updated_at = datetime('now')
+       WHERE job_id = ? AND chunk_index = ?`,
+      claimed.jobId,
+      claimed.chunkIndex,
+    );
+    return claimed;
+  }
+
+  /**
+   * Record a chunk's outcome. Returns the job, with its callback URL when this
+   * chunk was the last one running and the callback hasn't been sent yet.
+   */
+  async finishJobChunk(
+    chunk: ClaimedJobChunk,
+    outcome: JobChunkOutcome,
+  ): Promise<{ job: FilingJob | null; callbackUrl: string | null }> {
+    this.ctx.storage.sql.exec(
+      `UPDATE job_chunks SET status = ?, submission_id = ?, validations = ?, error = ?,
+                             updated_at = datetime('now')
+       WHERE job_id = ? AND chunk_index = ?`,
+      outcome.status,
+      outcome.status === 'FILED' ? outcome.submissionId : null,
+      JSON.stringify(outcome.validations),
+      outcome.status === 'FAILED' ? outcome.error : null,
+      chunk.jobId,
+      chunk.chunkIndex,
+    );
+    const due = [
+      ...this.ctx.storage.sql.exec(
+        `UPDATE jobs SET callback_sent_at = datetime('now')
+         WHERE job_id = ? AND callback_url IS NOT NULL AND callback_sent_at IS NULL
+           AND NOT EXISTS (SELECT 1 FROM job_chunks
+                           WHERE job_id = ? AND status IN ('PENDING', 'RUNNING'))
+         RETURNING callback_url`,
+        chunk.jobId,
+        chunk.jobId,
+      ),
+    ];
+    return {
+      job: await this.getJob(chunk.jobId),
+      callbackUrl: due[0] ? String(due[0]['callback_url']) : null,
+    };
+  }
+
+  /**
+   * Send due webhook deliveries and scheduled transmissions, then work
+   * through filing jobs one chunk per alarm, so progress is saved after every
+   * submission and a crash loses at most the chunk in flight.
+   */
+  async alarm(): Promise<void> {
+    await this.deliverWebhooks();
+    await this.transmitDue(filingProvider(this.env));
+    // Alarms never overlap, so a chunk still RUNNING was cut off mid-run.
+    this.ctx.storage.sql.exec(
+      `UPDATE job_chunks SET status = 'FAILED', error = ?, updated_at = datetime('now')
+       WHERE status = 'RUNNING' AND job_id IN (SELECT job_id FROM jobs WHERE runner = 'alarm')`,
+      INTERRUPTED_CHUNK_ERROR,
+    );
+    const chunk = this.claimJobChunk();
+    if (chunk) {
+      const outcome = await Effect.runPromise(runJobChunk(this.env, chunk));
+      const { job, callbackUrl } = await this.finishJobChunk(chunk, outcome);
+      if (job && callbackUrl) await Effect.runPromise(notifyJobCallback(callbackUrl, job));
+    }
+    await this.scheduleAlarm();
+  }
+
+  /**
+   * Set the alarm for the earliest pending work: now while alarm jobs have
+   * chunks waiting, otherwise the next webhook delivery due. Never clears it.
+   */
+  private async scheduleAlarm(): Promise<void> {
+    const chunks = [
+      ...this.ctx.storage.sql.exec(
+        `SELECT 1 FROM job_chunks c JOIN jobs j ON j.job_id = c.job_id
+         WHERE c.status = 'PENDING' AND j.runner = 'alarm' LIMIT 1`,
+      ),
+    ];
+    if (chunks.length > 0) {
+      await this.ctx.storage.setAlarm(Date.now());
+      return;
+    }
+    const [next] = [
+      ...this.ctx.storage.sql.exec(
+        `SELECT MIN(next_at) AS next_at FROM (
+           SELECT MIN(next_attempt_at) AS next_at FROM webhook_deliveries WHERE status = 'PENDING'
+           UNION ALL
+           SELECT MIN(next_attempt_at) FROM scheduled_transmissions WHERE status = 'SCHEDULED'
+         )`,
+      ),
+    ];
+    if (next?.['next_at'] != null) {
+      await this.ctx.storage.setAlarm(Math.max(Date.now(), sqliteTimeToMs(next['next_at'])));
+    }
+  }
+
+  // ---------------------------------------------------- Outbound webhooks
+
+  /**
+   * Queue an event for every endpoint of the submission's owner that
+   * subscribes to `type`. `data` is only built when someone is listening.
+   * The caller schedules the alarm.
+   */
+  private queueWebhookEvent(
+    submissionId: string,
+    type: WebhookEventType,
+    data: () => Omit<WebhookEventData, 'submission_id'>,
+  ): number {
+    const [submission] = [
+      ...this.ctx.storage.sql.exec(
+        'SELECT owner_user_id, owner_key_id, owner_org_id FROM submissions WHERE submission_id = ?',
+        submissionId,
+      ),
+    ];
+    if (!submission) return 0;
+    const owners = webhookOwners(toSubmissionOwner(submission));
+    const endpoints = [
+      ...this.ctx.storage.sql.exec(
+        `SELECT endpoint_id, owner FROM webhook_endpoints
+         WHERE owner IN (${owners.map(() => '?').join(', ')})
+           AND EXISTS (SELECT 1 FROM json_each(events) WHERE value = ?)`,
+        ...owners,
+        type,
+      ),
+    ];
+    if (endpoints.length === 0) return 0;
+    const event = newWebhookEvent(type, { submission_id: submissionId, ...data() });
+    const payload = JSON.stringify(event);
+    for (const endpoint of endpoints) {
+      this.ctx.storage.sql.exec(
+        `INSERT INTO webhook_deliveries (delivery_id, endpoint_id, owner, event_id, event_type, payload, next_attempt_at)
+         VALUES (?, ?, ?, ?, ?, ?, datetime('now'))`,
+        `whd_${crypto.randomUUID()}`,
+        endpoint['endpoint_id'],
+        endpoint['owner'],
+        event.id,
+        type,
+        payload,
+      );
+    }
+    return endpoints.length;
+  }
+
+  /** The submission and its records as they stand, for submission events. */
+  private submissionEventData(submissionId: string): Omit<WebhookEventData, 'submission_id'> {
+    const [submission] = [
+      ...this.ctx.storage.sql.exec(
+        'SELECT status, form_type FROM submissions WHERE submission_id = ?',
+        submissionId,
+      ),
+    ];
+    const records = [
+      ...this.ctx.storage.sql.exec(
+        'SELECT * FROM form_records WHERE submission_id = ? ORDER BY sequence ASC',
+        submissionId,
+      ),
+    ].map(toFormRecordSummary);
+    return {
+      form_type: String(submission?.['form_type'] ?? ''),
+      status: String(submission?.['status'] ?? ''),
+      records,
+    };
+  }
+
+  /** Raise submission.transmitted when a submission first moves to TRANSMITTED. */
+  private submissionStatusChanged(submissionId: string, previous: string, status: string): void {
+    if (status === 'TRANSMITTED' && previous !== status) {
+      this.queueWebhookEvent(submissionId, 'submission.transmitted', () =>
+        this.submissionEventData(submissionId),
+      );
+    }
+  }
+
+  /** Raise submission.created for a newly filed submission, once its records are stored. */
+  async announceSubmission(submissionId: string): Promise<void> {
+    this.queueWebhookEvent(submissionId, 'submission.created', () =>
+      this.submissionEventData(submissionId),
+    );
+    await this.scheduleAlarm();
+  }
+
+  /**
+   * Register an endpoint. The secret is generated here and only ever returned
+   * from this call. Returns null when the owner already has
+   * MAX_WEBHOOK_ENDPOINTS endpoints.
+   */
+  async createWebhookEndpoint(input: {
+    owner: string;
+    url: string;
+    events: WebhookEventType[];
+    description: string | null;
+  }): Promise<(WebhookEndpoint & { secret: string }) | null> {
+    const [count] = [
+      ...this.ctx.storage.sql.exec(
+        'SELECT COUNT(*) AS n FROM webhook_endpoints WHERE owner = ?',
+        input.owner,
+      ),
+    ];
+    if (Number(count?.['n'] ?? 0) >= MAX_WEBHOOK_ENDPOINTS) return null;
+    const endpointId = `whe_${crypto.randomUUID()}`;
+    const secret = generateWebhookSecret();
+    const [row] = [
+      ...this.ctx.storage.sql.exec(
+        `INSERT INTO webhook_endpoints (endpoint_id, owner, url, secret, events, description)
+         VALUES (?, ?, ?, ?, ?, ?) RETURNING *`,
+        endpointId,
+        input.owner,
+        input.url,
+        secret,
+        JSON.stringify(input.events),
+        input.description,
+      ),
+    ];
+    if (!row) throw new Error(`Webhook endpoint ${endpointId} was not stored`);
+    return { ...toWebhookEndpoint(row), secret };
+  }
+
+  async listWebhookEndpoints(owners: string[]): Promise<WebhookEndpoint[]> {
+    if (owners.length === 0) return [];
+    const cursor = this.ctx.storage.sql.exec(
+      `SELECT * FROM webhook_endpoints WHERE owner IN (${owners.map(() => '?').join(', ')})
+       ORDER BY created_at, endpoint_id`,
+      ...owners,
+    );
+    return [...cursor].map(toWebhookEndpoint);
+  }
+
+  /** Remove one of `owners`' endpoints; its pending deliveries fail. Returns false if not found. */
+  async deleteWebhookEndpoint(owners: string[], endpointId: string): Promise<boolean> {
+    if (owners.length === 0) return false;
+    return this.ctx.storage.transactionSync(() => {
+      const deleted = [
+        ...this.ctx.storage.sql.exec(
+          `DELETE FROM webhook_endpoints
+           WHERE endpoint_id = ? AND owner IN (${owners.map(() => '?').join(', ')})
+           RETURNING endpoint_id`,
+          endpointId,
+          ...owners,
+        ),
+      ];
+      if (deleted.length === 0) return false;
+      this.ctx.storage.sql.exec(
+        `UPDATE webhook_deliveries
+         SET status = 'FAILED', last_error = 'Endpoint deleted', next_attempt_at = NULL,
+             updated_at = datetime('now')
+         WHERE endpoint_id = ? AND status = 'PENDING'`,
+        endpointId,
+      );
+      return true;
+    });
+  }
+
+  /** The delivery log for `owners`' endpoints, newest first. */
+  async listWebhookDeliveries(
+    owners: string[],
+    filter: { endpointId?: string; status?: WebhookDeliveryStatus } = {},
+    limit: number = 100,
+  ): Promise<WebhookDelivery[]> {
+    if (owners.length === 0) return [];
+    const cursor = this.ctx.storage.sql.exec(
+      `SELECT * FROM webhook_deliveries
+       WHERE owner IN (${owners.map(() => '?').join(', ')})
+         AND (? IS NULL OR endpoint_id = ?) AND (? IS NULL OR status = ?)
+       ORDER BY created_at DESC, rowid DESC LIMIT ?`,
+      ...owners,
+      filter.endpointId ?? null,
+      filter.endpointId ?? null,
+      filter.status ?? null,
+      filter.status ?? null,
+      limit,
+    );
+    return [...cursor].map(toWebhookDelivery);
+  }
+
+  /** Send up to WEBHOOK_DELIVERY_BATCH due deliveries and record each attempt. */
+  private async deliverWebhooks(): Promise<void> {
+    const due = [
+      ...this.ctx.storage.sql.exec(
+        `SELECT d.delivery_id, d.event_type, d.payload, d.attempts, e.url, e.secret
+         FROM webhook_deliveries d JOIN webhook_endpoints e ON e.endpoint_id = d.endpoint_id
+         WHERE d.status = 'PENDING' AND d.next_attempt_at <= datetime('now')
+         ORDER BY d.next_attempt_at, d.created_at LIMIT ?`,
+        WEBHOOK_DELIVERY_BATCH,
+      ),
+    ];
+    await Effect.runPromise(
+      Effect.forEach(
+        due,
+        (row) =>
+          sendWebhook(
+            { url: String(row['url']), secret: String(row['secret']) },
+            {
+              deliveryId: String(row['delivery_id']),
+              eventType: String(row['event_type']),
+              payload: String(row['payload']),
+            },
+          ).pipe(
+            Effect.map((attempt) =>
+              this.recordWebhookAttempt(
+                String(row['delivery_id']),
+                Number(row['attempts'] ?? 0) + 1,
+                attempt,
+              ),
+            ),
+          ),
+        { concurrency: WEBHOOK_DELIVERY_CONCURRENCY, discard: true },
+      ),
+    );
+  }
+
+  /** DELIVERED on a 2xx; otherwise retried after the next backoff delay, or FAILED once they run out. */
+  private recordWebhookAttempt(deliveryId: string, attempts: number, attempt: WebhookAttempt) {
+    const retryIn = attempt.ok ? null : webhookRetryDelay(attempts);
+    this.ctx.storage.sql.exec(
+      `UPDATE webhook_deliveries
+       SET status = ?, attempts = ?, last_status_code = ?, last_error = ?,
+           next_attempt_at = CASE WHEN ? IS NULL THEN NULL ELSE datetime('now', ?) END,
+           updated_at = datetime('now')
+       WHERE delivery_id = ?`,
+      attempt.ok ? 'DELIVERED' : retryIn === null ? 'FAILED' : 'PENDING',
+      attempts,
+      attempt.statusCode,
+      attempt.error,
+      retryIn,
+      `+${retryIn ?? 0} seconds`,
+      deliveryId,
+    );
+  }
+
+  // ---------------------------------------------------- Scheduled transmission
+
+  /**
+   * Schedule a submission's transmission for `transmitAt` (epoch ms),
+   * replacing any schedule it had that isn't running or done. Returns null
+   * when its transmission is running or already happened.
+   */
+  async scheduleTransmit(
+    submissionId: string,
+    formType: FormType,
+    transmitAt: number,
+  ): Promise<ScheduledTransmission | null> {
+    const when = msToSqliteTime(transmitAt);
+    const [row] = [
+      ...this.ctx.storage.sql.exec(
+        `INSERT INTO scheduled_transmissions (submission_id, form_type, transmit_at, next_attempt_at)
+         VALUES (?, ?, ?, ?)
+         ON CONFLICT (submission_id) DO UPDATE SET
+           form_type = excluded.form_type, transmit_at = excluded.transmit_at,
+           status = 'SCHEDULED', attempts = 0, next_attempt_at = excluded.next_attempt_at,
+           last_error = NULL, updated_at = datetime('now')
+         WHERE status IN ('SCHEDULED', 'FAILED', 'CANCELLED')
+         RETURNING *`,
+        submissionId,
+        formType,
+        when,
+        when,
+      ),
+    ];
+    if (!row) return null;
+    await this.scheduleAlarm();
+    return toScheduledTransmission(row);
+  }
+
+  async getScheduledTransmission(submissionId: string): Promise<ScheduledTransmission | null> {
+    const [row] = [
+      ...this.ctx.storage.sql.exec(
+        'SELECT * FROM scheduled_transmissions WHERE submission_id = ?',
+        submissionId,
+      ),
+    ];
+    return row ? toScheduledTransmission(row) : null;
+  }
+
+  /** Scheduled transmissions, soonest first, optionally of one status. */
+  async listScheduledTransmissions(
+    status?: ScheduledTransmitStatus,
+  ): Promise<ScheduledTransmission[]> {
+    const cursor = status
+      ? this.ctx.storage.sql.exec(
+          'SELECT * FROM scheduled_transmissions WHERE status = ? ORDER BY transmit_at, submission_id',
+          status,
+        )
+      : this.ctx.storage.sql.exec(
+          'SELECT * FROM scheduled_transmissions ORDER BY transmit_at, submission_id',
+        );
+    return [...cursor].map(toScheduledTransmission);
+  }
+
+  /** Cancel a transmission that is still SCHEDULED. Returns null if it isn't. */
+  async cancelScheduledTransmit(submissionId: string): Promise<ScheduledTransmission | null> {
+    const [row] = [
+      ...this.ctx.storage.sql.exec(
+        `UPDATE scheduled_transmissions
+         SET status = 'CANCELLED', next_attempt_at = NULL, updated_at = datetime('now')
+         WHERE submission_id = ? AND status = 'SCHEDULED' RETURNING *`,
+        submissionId,
+      ),
+    ];
+    return row ? toScheduledTransmission(row) : null;
+  }
+
+  /**
+   * Transmit the scheduled transmissions that are due, up to
+   * SCHEDULED_TRANSMIT_BATCH. Called by the alarm with the filing provider.
+   * Returns how many were attempted.
+   */
+  async transmitDue(provider: FilingProvider): Promise<number> {
+    const due = this.claimDueTransmissions();
+    await Effect.runPromise(
+      Effect.forEach(
+        due,
+        (scheduled) =>
+          attemptScheduledTransmit(provider, scheduled.submissionId, scheduled.formType).pipe(
+            Effect.flatMap((attempt) =>
+              Effect.promise(() => this.finishScheduledTransmit(scheduled, attempt)),
+            ),
+          ),
+        { concurrency: SCHEDULED_TRANSMIT_CONCURRENCY, discard: true },
+      ),
+    );
+    return due.length;
+  }
+
+  /**
+   * Mark due transmissions RUNNING and return them. One still RUNNING was cut
+   * off mid-transmit by a crash: it fails rather than risk a second transmit.
+   * A submission no longer CREATED was transmitted some other way, so its
+   * schedule is cancelled; one not approved fails.
+   */
+  private claimDueTransmissions(): ScheduledTransmission[] {
+    return this.ctx.storage.transactionSync(() => {
+      const sql = this.ctx.storage.sql;
+      sql.exec(
+        `UPDATE scheduled_transmissions
+         SET status = 'FAILED', next_attempt_at = NULL, last_error = ?, updated_at = datetime('now')
+         WHERE status = 'RUNNING'`,
+        INTERRUPTED_TRANSMIT_ERROR,
+      );
+      sql.exec(
+        `UPDATE scheduled_transmissions
+         SET status = 'CANCELLED', next_attempt_at = NULL, updated_at = datetime('now'),
+             last_error = 'Submission was already transmitted'
+         WHERE status = 'SCHEDULED' AND next_attempt_at <= datetime('now')
+           AND EXISTS (SELECT 1 FROM submissions s WHERE s.submission_id = scheduled_transmissions.submission_id
+                       AND s.status != 'CREATED')`,
+      );
+      sql.exec(
+        `UPDATE scheduled_transmissions
+         SET status = 'FAILED', next_attempt_at = NULL, updated_at = datetime('now'),
+             last_error = 'Submission is not approved'
+         WHERE status = 'SCHEDULED' AND next_attempt_at <= datetime('now')
+           AND NOT EXISTS (SELECT 1 FROM submissions s WHERE s.submission_id = scheduled_transmissions.submission_id
+                           AND s.approval_status = 'APPROVED')`,
+      );
+      return [
+        ...sql.exec(
+          `UPDATE scheduled_transmissions SET status = 'RUNNING', updated_at = datetime('now')
+           WHERE submission_id IN (
+             SELECT submission_id FROM scheduled_transmissions
+             WHERE status = 'SCHEDULED' AND next_attempt_at <= datetime('now')
+             ORDER BY next_attempt_at, submission_id LIMIT ?
+           ) RETURNING *`,
+          SCHEDULED_TRANSMIT_BATCH,
+        ),
+      ].map(toScheduledTransmission);
     });
   }
+
+  /**
+   * TRANSMITTED (and the submission with it) on success; otherwise SCHEDULED
+   * again after the next backoff delay, or FAILED once retries run out or
+   * TaxBandits refused it outright.
+   */
+  private async finishScheduledTransmit(
+    scheduled: ScheduledTransmission,
+    attempt: ScheduledTransmitAttempt,
+  ): Promise<void> {
+    const attempts = scheduled.attempts + 1;
+    const retryIn = attempt.ok || !attempt.retryable ? null : scheduledTransmitRetryDelay(attempts);
+    this.ctx.storage.sql.exec(
+      `UPDATE scheduled_transmissions
+       SET status = ?, attempts = ?, last_error = ?,
+           next_attempt_at = CASE WHEN ? IS NULL THEN NULL ELSE datetime('now', ?) END,
+           updated_at = datetime('now')
+       WHERE submission_id = ?`,
+      attempt.ok ? 'TRANSMITTED' : retryIn === null ? 'FAILED' : 'SCHEDULED',
+      attempts,
+      attempt.ok ? null : attempt.error,
+      retryIn,
+      `+${retryIn ?? 0} seconds`,
+      scheduled.submissionId,
+    );
+    if (attempt.ok) await this.markTransmitted(scheduled.submissionId);
+  }
+
+  // ---------------------------------------------------- Tenant directory
+
+  /** Record which tenant filed a submission, so its TaxBandits webhooks reach the right object. */
+  async registerSubmissionTenant(submissionId: string, tenant: string): Promise<void> {
+    this.ctx.storage.sql.exec(
+      `INSERT INTO submission_tenants (submission_id, tenant) VALUES (?, ?)
+       ON CONFLICT (submission_id) DO NOTHING`,
+      submissionId,
+      tenant,
+    );
+  }
+
+  async getSubmissionTenant(submissionId: string): Promise<string | null> {
+    const rows = [
+      ...this.ctx.storage.sql.exec(
+        'SELECT tenant FROM submission_tenants WHERE submission_id = ?',
+        submissionId,
+      ),
+    ];
+    return rows.length === 0 ? null : String(rows[0]?.['tenant']);
+  }
+
+  /** Tenants that have filed at least one submission, oldest first. */
+  async listTenants(): Promise<string[]> {
+    const cursor = this.ctx.storage.sql.exec(
+      'SELECT tenant FROM submission_tenants GROUP BY tenant ORDER BY MIN(created_at), tenant',
+    );
+    return [...cursor].map((row) => String(row['tenant']));
+  }
+
+  // ------------------------------------------------- Organization payers
+
+  /** Register a payer by TIN (digits only). Returns null if the TIN is already registered. */
+  async addOrgPayer(tin: string, name: string): Promise<OrgPayer | null> {
+    const rows = [
+      ...this.ctx.storage.sql.exec(
+        `INSERT INTO org_payers (payer_id, tin, name) VALUES (?, ?, ?)
+         ON CONFLICT (tin) DO NOTHING RETURNING *`,
+        `pay_${crypto.randomUUID()}`,
+        tin,
+        name,
+      ),
+    ];
+    return rows[0] ? toOrgPayer(rows[0]) : null;
+  }
+
+  async listOrgPayers(): Promise<OrgPayer[]> {
+    const cursor = this.ctx.storage.sql.exec('SELECT * FROM org_payers ORDER BY name, created_at');
+    return [...cursor].map((row) => toOrgPayer(row));
+  }
+
+  async removeOrgPayer(payerId: string): Promise<boolean> {
+    const deleted = [
+      ...this.ctx.storage.sql.exec(
+        'DELETE FROM org_payers WHERE payer_id = ? RETURNING payer_id',
+        payerId,
+      ),
+    ];
+    return deleted.length > 0;
+  }
+
+  /** Which of `tins` (digits only) aren't registered payers. */
+  async unknownPayerTins(tins: string[]): Promise<string[]> {
+    const unique = [...new Set(tins)];
+    if (unique.length === 0) return [];
+    const known = new Set(
+      [
+        ...this.ctx.storage.sql.exec(
+          `SELECT tin FROM org_payers WHERE tin IN (${unique.map(() => '?').join(', ')})`,
+          ...unique,
+        ),
+      ].map((row) => String(row['tin'])),
+    );
+    return unique.filter((tin) => !known.has(tin));
+  }
+
+  // ------------------------------------------------------ Payer profiles
+
+  async createPayerProfile(input: PayerProfileInput): Promise<PayerProfile> {
+    const rows = [
+      ...this.ctx.storage.sql.exec(
+        `INSERT INTO payer_profiles (payer_id, name, payer, kind_of_employer, kind_of_payer, state_ids)
+         VALUES (?, ?, ?, ?, ?, ?) RETURNING *`,
+        `payer_${crypto.randomUUID()}`,
+        input.payer.name,
+        JSON.stringify(input.payer),
+        input.kindOfEmployer,
+        input.kindOfPayer,
+        JSON.stringify(input.stateIds),
+      ),
+    ];
+    return toPayerProfile(rows[0]!);
+  }
+
+  /** Replace a profile's details. Null if there is no such profile. */
+  async updatePayerProfile(
+    payerId: string,
+    input: PayerProfileInput,
+  ): Promise<PayerProfile | null> {
+    const rows = [
+      ...this.ctx.storage.sql.exec(
+        `UPDATE payer_profiles
+         SET name = ?, payer = ?, kind_of_employer = ?, kind_of_payer = ?, state_ids = ?,
+             updated_at = datetime('now')
+         WHERE payer_id = ? RETURNING *`,
+        input.payer.name,
+        JSON.stringify(input.payer),
+        input.kindOfEmployer,
+        input.kindOfPayer,
+        JSON.stringify(input.stateIds),
+        payerId,
+      ),
+    ];
+    return rows[0] ? toPayerProfile(rows[0]) : null;
+  }
+
+  async getPayerProfiles(payerIds: string[]): Promise<PayerProfile[]> {
+    const unique = [...new Set(payerIds)];
+    if (unique.length === 0) return [];
+    const cursor = this.ctx.storage.sql.exec(
+      `SELECT * FROM payer_profiles WHERE payer_id IN (${unique.map(() => '?').join(', ')})`,
+      ...unique,
+    );
+    return [...cursor].map((row) => toPayerProfile(row));
+  }
+
+  async listPayerProfiles(): Promise<PayerProfile[]> {
+    const cursor = this.ctx.storage.sql.exec(
+      'SELECT * FROM payer_profiles ORDER BY name, created_at',
+    );
+    return [...cursor].map((row) => toPayerProfile(row));
+  }
+
+  async deletePayerProfile(payerId: string): Promise<boolean> {
+    const deleted = [
+      ...this.ctx.storage.sql.exec(
+        'DELETE FROM payer_profiles WHERE payer_id = ? RETURNING payer_id',
+        payerId,
+      ),
+    ];
+    return deleted.length > 0;
+  }
+
+  // --------------------------------------------------- Recipient directory
+
+  private toRecipientProfile(row: Record<string, SqlStorageValue>): RecipientProfile {
+    const recipientId = String(row['recipient_id']);
+    const addresses = [
+      ...this.ctx.storage.sql.exec(
+        'SELECT * FROM recipient_addresses WHERE recipient_id = ? ORDER BY rowid DESC',
+        recipientId,
+      ),
+    ].map((a) => ({
+      ...(JSON.parse(String(a['address'])) as RecipientAddress),
+      recordedAt: String(a['recorded_at'] ?? ''),
+    }));
+    const filings = [
+      ...this.ctx.storage.sql.exec(
+        'SELECT * FROM recipient_filings WHERE recipient_id = ? ORDER BY tax_year DESC, form_type',
+        recipientId,
+      ),
+    ].map((f) => toRecipientFiling(f));
+    return {
+      recipientId,
+      payerId: String(row['payer_id']),
+      recipient: JSON.parse(String(row['recipient'])) as RecipientInfo,
+      w9RequestId: (row['w9_request_id'] as string | null) ?? null,
+      addresses,
+      filings,
+      createdAt: String(row['created_at'] ?? ''),
+      updatedAt: String(row['updated_at'] ?? ''),
+    };
+  }
+
+  /** Append `recipient`'s address to its history unless it's the latest one already. */
+  private recordRecipientAddress(recipientId: string, recipient: RecipientInfo): void {
+    const address = JSON.stringify(addressOf(recipient));
+    const latest = [
+      ...this.ctx.storage.sql.exec(
+        'SELECT address FROM recipient_addresses WHERE recipient_id = ? ORDER BY rowid DESC LIMIT 1',
+        recipientId,
+      ),
+    ][0];
+    if (latest && String(latest['address']) === address) return;
+    this.ctx.storage.sql.exec(
+      'INSERT INTO recipient_addresses (recipient_id, address) VALUES (?, ?)',
+      recipientId,
+      address,
+    );
+  }
+
+  async createRecipientProfile(input: RecipientProfileInput): Promise<RecipientProfile> {
+    const recipientId = `rcp_${crypto.randomUUID()}`;
+    const rows = [
+      ...this.ctx.storage.sql.exec(
+        `INSERT INTO recipients (recipient_id, payer_id, name, recipient, w9_request_id)
+         VALUES (?, ?, ?, ?, ?) RETURNING *`,
+        recipientId,
+        input.payerId,
+        `${input.recipient.last_name}, ${input.recipient.first_name}`,
+        JSON.stringify(input.recipient),
+        input.w9RequestId,
+      ),
+    ];
+    this.recordRecipientAddress(recipientId, input.recipient);
+    return this.toRecipientProfile(rows[0]!);
+  }
+
+  /**
+   * Replace a recipient's details. A changed address is added to its history;
+   * filed amounts are kept. Null if there is no such recipient.
+   */
+  async updateRecipientProfile(
+    recipientId: string,
+    input: RecipientProfileInput,
+  ): Promise<RecipientProfile | null> {
+    const rows = [
+      ...this.ctx.storage.sql.exec(
+        `UPDATE recipients
+         SET payer_id = ?, name = ?, recipient = ?, w9_request_id = ?, updated_at = datetime('now')
+         WHERE recipient_id = ? RETURNING *`,
+        input.payerId,
+        `${input.recipient.last_name}, ${input.recipient.first_name}`,
+        JSON.stringify(input.recipient),
+        input.w9RequestId,
+        recipientId,
+      ),
+    ];
+    if (!rows[0]) return null;
+    this.recordRecipientAddress(recipientId, input.recipient);
+    return this.toRecipientProfile(rows[0]);
+  }
+
+  async getRecipientProfiles(recipientIds: string[]): Promise<RecipientProfile[]> {
+    const unique = [...new Set(recipientIds)];
+    if (unique.length === 0) return [];
+    const cursor = this.ctx.storage.sql.exec(
+      `SELECT * FROM recipients WHERE recipient_id IN (${unique.map(() => '?').join(', ')})`,
+      ...unique,
+    );
+    return [...cursor].map((row) => this.toRecipientProfile(row));
+  }
+
+  /** The directory, by name — one payer's recipients when `payerId` is given. */
+  async listRecipientProfiles(payerId?: string): Promise<RecipientProfile[]> {
+    const cursor = payerId
+      ? this.ctx.storage.sql.exec(
+          'SELECT * FROM recipients WHERE payer_id = ? ORDER BY name, created_at',
+          payerId,
+        )
+      : this.ctx.storage.sql.exec('SELECT * FROM recipients ORDER BY payer_id, name, created_at');
+    return [...cursor].map((row) => this.toRecipientProfile(row));
+  }
+
+  /** Remove a recipient with its address history and filed amounts. */
+  async deleteRecipientProfile(recipientId: string): Promise<boolean> {
+    const deleted = [
+      ...this.ctx.storage.sql.exec(
+        'DELETE FROM recipients WHERE recipient_id = ? RETURNING recipient_id',
+        recipientId,
+      ),
+    ];
+    if (deleted.length === 0) return false;
+    this.ctx.storage.sql.exec(
+      'DELETE FROM recipient_addresses WHERE recipient_id = ?',
+      recipientId,
+    );
+    this.ctx.storage.sql.exec('DELETE FROM recipient_filings WHERE recipient_id = ?', recipientId);
+    return true;
+  }
+
+  /**
+   * Record filed amounts for directory recipients. A later filing (or
+   * correction) for the same tax year and form replaces the earlier amount;
+   * filings for recipients no longer in the directory are dropped.
+   */
+  async recordRecipientFilings(
+    filings: Array<Omit<RecipientFiling, 'filedAt'> & { recipientId: string }>,
+  ): Promise<void> {
+    for (const f of filings) {
+      this.ctx.storage.sql.exec(
+        `INSERT INTO recipient_filings (recipient_id, tax_year, form_type, amount, submission_id)
+         SELECT ?, ?, ?, ?, ? WHERE EXISTS (SELECT 1 FROM recipients WHERE recipient_id = ?)
+         ON CONFLICT (recipient_id, tax_year, form_type) DO UPDATE SET
+           amount = excluded.amount,
+           submission_id = excluded.submission_id,
+           filed_at = datetime('now')`,
+        f.recipientId,
+        f.taxYear,
+        f.formType,
+        f.amount,
+        f.submissionId,
+        f.recipientId,
+      );
+    }
+  }
 }
@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { Effect } from 'effect';
-import { verifyWebhookSignature, parseWebhookPayload } from './webhook';
+import { verifyWebhookSignature, parseWebhookPayload, submissionStatus } from './webhook';
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -109,3 +109,20 @@ describe('parseWebhookPayload', () => {
     expect(parseWebhookPayload({ ...validPayload, Records: 'not-an-array' })).toBeNull();
   });
 });
+
+describe('submissionStatus', () => {
+  it('rejects the submission when any record was rejected', () => {
+    expect(submissionStatus(['Accepted', 'Rejected'])).toBe('REJECTED');
+  });
+
+  it('accepts only when every record was accepted', () => {
+    expect(submissionStatus(['Accepted', 'ACCEPTED'])).toBe('ACCEPTED');
+    expect(submissionStatus(['Accepted', 'Transmitted'])).toBe('PARTIAL');
+  });
+
+  it('falls back to TRANSMITTED or CREATED before the IRS answers', () => {
+    expect(submissionStatus(['Transmitted', 'Created'])).toBe('TRANSMITTED');
+    expect(submissionStatus(['Created'])).toBe('CREATED');
+    expect(submissionStatus([])).toBe('CREATED');
+  });
+});
@@ -60,3 +60,17 @@ export function parseWebhookPayload(body: unknown): WebhookPayload | null {
   if (!Array.isArray(payload['Records'])) return null;
   return body as WebhookPayload;
 }
+
+/**
+ * Overall submission status from its records' statuses (any case): REJECTED
+ * if any record was rejected, ACCEPTED once all were accepted, PARTIAL while
+ * only some were, TRANSMITTED before the IRS has answered, else CREATED.
+ */
+export function submissionStatus(recordStatuses: string[]): string {
+  const statuses = recordStatuses.map((s) => s.toUpperCase());
+  if (statuses.includes('REJECTED')) return 'REJECTED';
+  if (statuses.length > 0 && statuses.every((s) => s === 'ACCEPTED')) return 'ACCEPTED';
+  if (statuses.includes('ACCEPTED')) return 'PARTIAL';
+  if (statuses.includes('TRANSMITTED')) return 'TRANSMITTED';
+  return 'CREATED';
+}